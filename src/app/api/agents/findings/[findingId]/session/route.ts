@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import type { AgentFindingWithMonitor } from "@/types/history"
+
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  new_content: 'New content',
+  content_change: 'Content change',
+  structure_change: 'Structure change',
+  keyword_match: 'Keyword match'
+}
+
+/**
+ * Renders a finding as the opening message of an agent session, so the agent
+ * has the monitor, the change and its details in the conversation history.
+ */
+function describeFinding(finding: AgentFindingWithMonitor): string {
+  const details = finding.details || {}
+  const lines = [
+    `**${CHANGE_TYPE_LABELS[finding.change_type] || finding.change_type}** detected by monitor **${finding.monitor.name}**`,
+    '',
+    `- Target: ${finding.monitor.target_url}`,
+    `- Detected: ${new Date(finding.created_at).toUTCString()}`,
+  ]
+
+  if (finding.confidence_score !== undefined && finding.confidence_score !== null) {
+    lines.push(`- Confidence: ${Math.round(finding.confidence_score * 100)}%`)
+  }
+
+  lines.push('', finding.summary)
+
+  const items = details.items as Array<{ title: string; url?: string }> | undefined
+  if (items && items.length > 0) {
+    lines.push('', '**New items:**')
+    items.forEach(item => lines.push(item.url ? `- [${item.title}](${item.url})` : `- ${item.title}`))
+  }
+
+  const matches = details.matches as Array<{ keyword: string; excerpts: string[] }> | undefined
+  if (matches && matches.length > 0) {
+    lines.push('', '**Keyword matches:**')
+    matches.forEach(match => lines.push(`- "${match.keyword}": ${match.excerpts.map(excerpt => `"${excerpt}"`).join(', ')}`))
+  }
+
+  const added = details.added as string[] | undefined
+  const removed = details.removed as string[] | undefined
+  if (finding.change_type !== 'new_content' && (added?.length || removed?.length)) {
+    lines.push('', '**Changes:**', '```diff')
+    added?.forEach(line => lines.push(`+ ${line}`))
+    removed?.forEach(line => lines.push(`- ${line}`))
+    lines.push('```')
+  }
+
+  lines.push('', 'Ask me anything about this change.')
+
+  return lines.join('\n')
+}
+
+// POST /api/agents/findings/[findingId]/session - Start an agent chat session about a finding
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ findingId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { findingId } = await params
+
+    const { data, error: findingError } = await supabase
+      .from('agent_findings')
+      .select('*, monitor:agent_monitors!inner(*)')
+      .eq('id', findingId)
+      .eq('monitor.organization_id', userOrg.organizationId)
+      .single()
+
+    if (findingError || !data) {
+      return NextResponse.json(
+        { error: 'Finding not found' },
+        { status: 404 }
+      )
+    }
+
+    const finding = data as AgentFindingWithMonitor
+
+    // Reuse the session if this finding was already sent to chat
+    if (finding.session_id) {
+      const { data: existingSession } = await supabase
+        .from('sessions')
+        .select('*')
+        .eq('id', finding.session_id)
+        .single()
+
+      if (existingSession) {
+        return NextResponse.json({ session: existingSession })
+      }
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .insert({
+        organization_id: userOrg.organizationId,
+        user_id: userOrg.user.id,
+        type: 'agent',
+        title: `${finding.monitor.name}: ${finding.summary}`.slice(0, 100),
+        description: finding.summary,
+        metadata: {
+          agentMode: true,
+          finding_id: finding.id,
+          monitor_id: finding.monitor_id
+        }
+      })
+      .select()
+      .single()
+
+    if (sessionError || !session) {
+      console.error('Error creating finding session:', sessionError)
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      )
+    }
+
+    const { error: interactionError } = await supabase
+      .from('interactions')
+      .insert({
+        session_id: session.id,
+        type: 'agent_finding',
+        content: describeFinding(finding),
+        metadata: {
+          finding_id: finding.id,
+          monitor_id: finding.monitor_id,
+          change_type: finding.change_type,
+          confidence_score: finding.confidence_score
+        },
+        cost_credits: 0,
+        sequence: 1
+      })
+
+    if (interactionError) {
+      console.error('Error creating finding interaction:', interactionError)
+      // Clean up the empty session
+      await supabase.from('sessions').delete().eq('id', session.id)
+      return NextResponse.json(
+        { error: 'Failed to create session' },
+        { status: 500 }
+      )
+    }
+
+    // Link the finding to its session; following up on a finding counts as reviewing it
+    const { error: linkError } = await supabase
+      .from('agent_findings')
+      .update({ session_id: session.id, reviewed: true })
+      .eq('id', finding.id)
+
+    if (linkError) {
+      console.error('Error linking finding to session:', linkError)
+    }
+
+    return NextResponse.json({ session })
+  } catch (error) {
+    console.error('Error in finding session API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { withoutSnapshot } from "@/lib/monitoring/scheduler"
+import type { AgentChangeType, AgentFindingWithMonitor, UpdateAgentFindingsRequest } from "@/types/history"
+
+const CHANGE_TYPES: AgentChangeType[] = ['content_change', 'new_content', 'keyword_match', 'structure_change']
+
+// GET /api/agents/findings - List findings across the organization's monitors
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const monitorId = searchParams.get('monitor_id')
+    const changeTypes = searchParams.get('change_type')?.split(',')
+      .filter((type): type is AgentChangeType => CHANGE_TYPES.includes(type as AgentChangeType))
+    const reviewed = searchParams.get('reviewed')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    // Inner join so findings are scoped through their monitor's organization
+    let query = supabase
+      .from('agent_findings')
+      .select('*, monitor:agent_monitors!inner(*)', { count: 'exact' })
+      .eq('monitor.organization_id', userOrg.organizationId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (monitorId) {
+      query = query.eq('monitor_id', monitorId)
+    }
+
+    if (changeTypes && changeTypes.length > 0) {
+      query = query.in('change_type', changeTypes)
+    }
+
+    if (reviewed !== null) {
+      query = query.eq('reviewed', reviewed === 'true')
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      console.error('Error fetching findings:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch findings' },
+        { status: 500 }
+      )
+    }
+
+    const findings = ((data || []) as AgentFindingWithMonitor[]).map(finding => ({
+      ...finding,
+      monitor: withoutSnapshot(finding.monitor)
+    }))
+
+    return NextResponse.json({
+      findings,
+      total_count: count || 0,
+      has_more: (count || 0) > offset + limit
+    })
+  } catch (error) {
+    console.error('Error in findings API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/agents/findings - Mark findings reviewed or unreviewed in bulk
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: UpdateAgentFindingsRequest = await request.json()
+
+    if (!Array.isArray(body.finding_ids) || body.finding_ids.length === 0 || typeof body.reviewed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'finding_ids and reviewed are required' },
+        { status: 400 }
+      )
+    }
+
+    if (body.finding_ids.length > 100) {
+      return NextResponse.json(
+        { error: 'Cannot update more than 100 findings at once' },
+        { status: 400 }
+      )
+    }
+
+    // Only touch findings that belong to the current organization
+    const { data: ownedFindings, error: checkError } = await supabase
+      .from('agent_findings')
+      .select('id, monitor:agent_monitors!inner(organization_id)')
+      .in('id', body.finding_ids)
+      .eq('monitor.organization_id', userOrg.organizationId)
+
+    if (checkError) {
+      console.error('Error checking findings:', checkError)
+      return NextResponse.json(
+        { error: 'Failed to update findings' },
+        { status: 500 }
+      )
+    }
+
+    const findingIds = (ownedFindings || []).map(finding => finding.id)
+
+    if (findingIds.length === 0) {
+      return NextResponse.json(
+        { error: 'Findings not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('agent_findings')
+      .update({ reviewed: body.reviewed })
+      .in('id', findingIds)
+
+    if (error) {
+      console.error('Error updating findings:', error)
+      return NextResponse.json(
+        { error: 'Failed to update findings' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ updated: findingIds })
+  } catch (error) {
+    console.error('Error in update findings API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { getTargetUrlError, normalizeCheckFrequency, pickClientMetadata, withoutSnapshot } from "@/lib/monitoring/scheduler"
+import type { UpdateAgentMonitorRequest } from "@/types/history"
+
+// GET /api/agents/monitors/[monitorId] - Get a monitor with its recent findings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ monitorId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { monitorId } = await params
+
+    const { data: monitor, error } = await supabase
+      .from('agent_monitors')
+      .select('*')
+      .eq('id', monitorId)
+      .eq('organization_id', userOrg.organizationId)
+      .single()
+
+    if (error || !monitor) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: findings, error: findingsError } = await supabase
+      .from('agent_findings')
+      .select('*')
+      .eq('monitor_id', monitorId)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (findingsError) {
+      console.error('Error fetching monitor findings:', findingsError)
+    }
+
+    return NextResponse.json({ monitor: withoutSnapshot(monitor), findings: findings || [] })
+  } catch (error) {
+    console.error('Error in get monitor API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/agents/monitors/[monitorId] - Update a monitor
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ monitorId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { monitorId } = await params
+    const body: UpdateAgentMonitorRequest = await request.json()
+
+    // Check if user owns this monitor
+    const { data: existingMonitor, error: checkError } = await supabase
+      .from('agent_monitors')
+      .select('user_id, organization_id, target_url, metadata')
+      .eq('id', monitorId)
+      .single()
+
+    if (checkError || !existingMonitor) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingMonitor.user_id !== userOrg.user.id ||
+        existingMonitor.organization_id !== userOrg.organizationId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    if (body.name !== undefined && !body.name.trim()) {
+      return NextResponse.json(
+        { error: 'Monitor name cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    if (body.target_url !== undefined) {
+      const targetUrlError = await getTargetUrlError(body.target_url)
+      if (targetUrlError) {
+        return NextResponse.json(
+          { error: targetUrlError },
+          { status: 400 }
+        )
+      }
+    }
+
+    let checkFrequency: string | undefined
+    if (body.check_frequency !== undefined) {
+      const normalized = normalizeCheckFrequency(body.check_frequency)
+      if (!normalized) {
+        return NextResponse.json(
+          { error: 'Check frequency must be at least 5 minutes, e.g. "30 minutes", "1 hour" or "1 day"' },
+          { status: 400 }
+        )
+      }
+      checkFrequency = normalized
+    }
+
+    // A new target invalidates the stored snapshot; the next check becomes the new baseline
+    const targetChanged = body.target_url !== undefined && body.target_url !== existingMonitor.target_url
+    const metadata = body.metadata !== undefined || targetChanged
+      ? {
+          ...(existingMonitor.metadata || {}),
+          ...pickClientMetadata(body.metadata),
+          ...(targetChanged ? { snapshot: null } : {})
+        }
+      : undefined
+
+    const { data: monitor, error } = await supabase
+      .from('agent_monitors')
+      .update({
+        name: body.name?.trim(),
+        target_url: body.target_url,
+        check_frequency: checkFrequency,
+        keywords: body.keywords?.map(keyword => keyword.trim()).filter(Boolean),
+        active: body.active,
+        metadata,
+      })
+      .eq('id', monitorId)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error updating monitor:', error)
+      return NextResponse.json(
+        { error: 'Failed to update monitor' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ monitor: withoutSnapshot(monitor) })
+  } catch (error) {
+    console.error('Error in update monitor API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/agents/monitors/[monitorId] - Delete a monitor and its findings
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ monitorId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { monitorId } = await params
+
+    // Check if user owns this monitor
+    const { data: existingMonitor, error: checkError } = await supabase
+      .from('agent_monitors')
+      .select('user_id, organization_id')
+      .eq('id', monitorId)
+      .single()
+
+    if (checkError || !existingMonitor) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      )
+    }
+
+    if (existingMonitor.user_id !== userOrg.user.id ||
+        existingMonitor.organization_id !== userOrg.organizationId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 403 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('agent_monitors')
+      .delete()
+      .eq('id', monitorId)
+
+    if (error) {
+      console.error('Error deleting monitor:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete monitor' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in delete monitor API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { runMonitor } from "@/lib/monitoring/scheduler"
+import type { AgentMonitor } from "@/types/history"
+
+// POST /api/agents/monitors/[monitorId]/run - Check a monitor immediately
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ monitorId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { monitorId } = await params
+
+    const { data: monitor, error } = await supabase
+      .from('agent_monitors')
+      .select('*')
+      .eq('id', monitorId)
+      .eq('organization_id', userOrg.organizationId)
+      .single()
+
+    if (error || !monitor) {
+      return NextResponse.json(
+        { error: 'Monitor not found' },
+        { status: 404 }
+      )
+    }
+
+    // Updating the monitor requires ownership (RLS), so only the owner can run it on demand
+    if (monitor.user_id !== userOrg.user.id) {
+      return NextResponse.json(
+        { error: 'You can only run your own monitors' },
+        { status: 403 }
+      )
+    }
+
+    const result = await runMonitor(supabase, monitor as AgentMonitor)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || 'Monitor check failed', result },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ result })
+  } catch (error) {
+    console.error('Error in run monitor API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
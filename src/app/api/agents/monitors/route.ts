@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import {
+  DEFAULT_CHECK_FREQUENCY,
+  MONITOR_TYPES,
+  getTargetUrlError,
+  normalizeCheckFrequency,
+  pickClientMetadata,
+  withoutSnapshot
+} from "@/lib/monitoring/scheduler"
+import type { CreateAgentMonitorRequest } from "@/types/history"
+
+// GET /api/agents/monitors - List the organization's monitors
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const active = searchParams.get('active')
+
+    let query = supabase
+      .from('agent_monitors')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .order('created_at', { ascending: false })
+
+    if (active !== null) {
+      query = query.eq('active', active === 'true')
+    }
+
+    const { data: monitors, error } = await query
+
+    if (error) {
+      console.error('Error fetching monitors:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch monitors' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ monitors: (monitors || []).map(withoutSnapshot) })
+  } catch (error) {
+    console.error('Error in monitors API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/agents/monitors - Create a new monitor
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: CreateAgentMonitorRequest = await request.json()
+
+    // Validate required fields
+    if (!body.name?.trim()) {
+      return NextResponse.json(
+        { error: 'Monitor name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!body.type || !MONITOR_TYPES.includes(body.type)) {
+      return NextResponse.json(
+        { error: `Monitor type must be one of: ${MONITOR_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const targetUrlError = await getTargetUrlError(body.target_url || '')
+    if (targetUrlError) {
+      return NextResponse.json(
+        { error: targetUrlError },
+        { status: 400 }
+      )
+    }
+
+    const checkFrequency = normalizeCheckFrequency(body.check_frequency || DEFAULT_CHECK_FREQUENCY)
+    if (!checkFrequency) {
+      return NextResponse.json(
+        { error: 'Check frequency must be at least 5 minutes, e.g. "30 minutes", "1 hour" or "1 day"' },
+        { status: 400 }
+      )
+    }
+
+    // Check if user is member of the organization
+    if (body.organization_id !== userOrg.organizationId) {
+      return NextResponse.json(
+        { error: 'Invalid organization' },
+        { status: 403 }
+      )
+    }
+
+    const { data: monitor, error } = await supabase
+      .from('agent_monitors')
+      .insert({
+        organization_id: body.organization_id,
+        user_id: userOrg.user.id,
+        name: body.name.trim(),
+        type: body.type,
+        target_url: body.target_url,
+        check_frequency: checkFrequency,
+        keywords: (body.keywords || []).map(keyword => keyword.trim()).filter(Boolean),
+        metadata: pickClientMetadata(body.metadata)
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating monitor:', error)
+      return NextResponse.json(
+        { error: 'Failed to create monitor' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ monitor })
+  } catch (error) {
+    console.error('Error in create monitor API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
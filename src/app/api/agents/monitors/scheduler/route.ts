@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { runDueMonitors } from "@/lib/monitoring/scheduler"
+
+// Prevent static optimization and ensure this route is always handled dynamically
+export const dynamic = 'force-dynamic'
+
+/**
+ * Scheduler tick for agent monitors - runs every monitor whose check_frequency has elapsed.
+ * Call this from a cron (e.g. every 5 minutes) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Scheduler is not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || '25')
+
+    const supabase = createAdminClient()
+    const results = await runDueMonitors(supabase, { limit })
+
+    console.log(`MONITOR - Scheduler ran ${results.length} monitor(s)`)
+
+    return NextResponse.json({
+      checked: results.length,
+      failed: results.filter(result => !result.success).length,
+      findings: results.reduce((total, result) => total + result.findings.length, 0),
+      results: results.map(result => ({
+        monitor_id: result.monitor_id,
+        success: result.success,
+        baseline: result.baseline,
+        findings: result.findings.length,
+        error: result.error
+      }))
+    })
+  } catch (error) {
+    console.error('Error in monitor scheduler:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
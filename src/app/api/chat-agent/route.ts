@@ -1,12 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Agent, run, tool, webSearchTool } from '@openai/agents';
+import { Agent, Runner, RunContext, tool, RunState, RunToolApprovalItem } from '@openai/agents';
 import { z } from 'zod';
-import { getSessionById, updateSessionCredits } from '@/lib/session-management';
-import { getUserCredits } from '@/lib/credits';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { createClient } from '@/lib/supabase/server';
-import { getUserAndOrganization } from '@/lib/supabase/credits';
-
-// Enhanced web search tool with human approval using OpenAI's built-in web search
+import { createAdminClient } from '@/lib/supabase/admin';
+import {
+  checkAndDeductCredits,
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from '@/lib/supabase/credits';
+import {
+  CREDIT_COSTS,
+  CREDIT_DESCRIPTIONS,
+  CREDIT_ERRORS,
+  calculateAgentUsageCost
+} from '@/lib/supabase/creditConstants';
+import {
+  ApprovalRequest,
+  claimPausedRun,
+  expireStaleRuns,
+  getApprovalCallId,
+  loadPausedRun,
+  parseToolArguments,
+  recordApprovalDecisions,
+  savePausedRun
+} from '@/lib/agents/run-state';
+import { AgentToolContext, databaseTools } from '@/lib/agents/database-tools';
+import { AGENT_STREAM_CONTENT_TYPE, AgentStreamEvent, encodeAgentEvent } from '@/lib/agents/stream-events';
+import { getOrganizationLLMProvider, LLMUsage } from '@/lib/llm';
+import { buildConversationContext, ConversationContext, toContextMessages } from '@/lib/chat/context';
+
+// Web search tool with human approval, answered by the organization's LLM provider
 const webSearchToolWithApproval = tool({
   name: 'web_search',
   description: 'Search the web for current information and recent developments',
@@ -16,44 +42,20 @@ const webSearchToolWithApproval = tool({
   }),
   // Require human approval for all web searches in agent mode
   needsApproval: true,
-  execute: async ({ query, reason }) => {
+  execute: async ({ query, reason }, runContext?: RunContext<AgentToolContext>) => {
     try {
       console.log(`🔍 Executing approved web search: "${query}" (Reason: ${reason})`);
-      
-      // Use OpenAI's built-in web search tool
-      const webTool = webSearchTool();
-      const result = await run(new Agent({
-        name: 'Web Search Agent',
-        tools: [webTool],
-        instructions: `Search for: ${query}. Format your response with clear headings, bullet points, and proper markdown formatting for readability.`
-      }), `Please search for: ${query}`);
-      
-      return result.finalOutput || `Search completed for "${query}"`;
-    } catch (error) {
-      console.error('Web search error:', error);
-      return `Failed to search for "${query}". Please try a different query.`;
-    }
-  }
-});
 
-// Session management tool
-const sessionTool = tool({
-  name: 'get_session_info',
-  description: 'Get information about the current chat session',
-  parameters: z.object({
-    sessionId: z.string().describe('The session ID to look up')
-  }),
-  execute: async ({ sessionId }) => {
-    try {
-      const session = await getSessionById(sessionId);
-      if (!session) {
-        return 'Session not found';
+      const organizationId = runContext?.context?.organizationId;
+      if (!organizationId) {
+        throw new Error('Web search requires an organization context');
       }
-      
-      return `Session "${session.title}" created on ${session.createdAt.toLocaleDateString()}. Messages: ${session.messages.length}`;
+
+      const provider = await getOrganizationLLMProvider(await createClient(), organizationId);
+      return await provider.searchWeb(query);
     } catch (error) {
-      console.error('Session lookup error:', error);
-      return 'Unable to retrieve session information';
+      console.error('Web search error:', error);
+      return `Failed to search for "${query}". Please try a different query.`;
     }
   }
 });
@@ -61,7 +63,7 @@ const sessionTool = tool({
 // Note: Credit checking is now handled at the route level for better security
 
 // Specialized agents
-const webSearchSpecialist = new Agent({
+const webSearchSpecialist = new Agent<AgentToolContext>({
   name: 'Web Search Specialist',
   instructions: `You are a web search specialist agent. Your role is to:
 1. Perform web searches when current information is needed
@@ -80,26 +82,29 @@ Always format your final response with proper markdown including:
   handoffDescription: 'Handles requests requiring current information, recent news, or real-time data'
 });
 
-const databaseSpecialist = new Agent({
+const databaseSpecialist = new Agent<AgentToolContext>({
   name: 'Database Specialist', 
   instructions: `You are a database and session management specialist. Your role is to:
-1. Help users manage their chat sessions
-2. Provide information about conversation history
-3. Assist with platform-specific features
-
-You have access to session information.`,
-  tools: [sessionTool],
-  handoffDescription: 'Handles session management, user accounts, and platform features'
+1. Help users find and review their past sessions
+2. Search and summarize their conversation history
+3. Report their organization's credit balance and usage by feature
+4. Assist with platform-specific features
+
+Always use your tools to look up sessions, history and credits - never guess or make up data.
+When asked to summarize a session, get its transcript with summarize_session and summarize it yourself.
+Refer to sessions by title and date rather than by ID.`,
+  tools: databaseTools,
+  handoffDescription: 'Handles session history, history search and summaries, credit balance and usage, and platform features'
 });
 
 // Main triage agent
-const triageAgent = new Agent({
+const triageAgent = new Agent<AgentToolContext>({
   name: 'AI Assistant',
   instructions: `You are an intelligent AI assistant that routes conversations to specialized agents when needed.
 
 **Decision Framework:**
 - If the user needs current information, recent news, real-time data, or asks about recent events → Hand off to Web Search Specialist
-- If the user asks about their sessions, account, credits, or platform features → Hand off to Database Specialist  
+- If the user asks about their sessions, past conversations, account, credits, usage, or platform features → Hand off to Database Specialist  
 - For general conversations, knowledge questions, coding help, creative tasks → Handle directly
 
 **Important Guidelines:**
@@ -111,44 +116,189 @@ const triageAgent = new Agent({
   handoffs: [webSearchSpecialist, databaseSpecialist]
 });
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp?: number;
+// Credit transactions of agent mode, kept apart from regular chat in usage by feature
+const AGENT_CREDIT_FEATURE_ID = 'agent_chat';
+
+// Save an agent interaction to the session with the next sequence number
+async function saveInteraction(
+  supabase: SupabaseClient,
+  sessionId: string,
+  interaction: {
+    type: 'user_message' | 'assistant_message';
+    content: string;
+    metadata: Record<string, unknown>;
+    cost_credits: number;
+    input_tokens?: number;
+    output_tokens?: number;
+  }
+) {
+  const { data: lastInteraction } = await supabase
+    .from('interactions')
+    .select('sequence')
+    .eq('session_id', sessionId)
+    .order('sequence', { ascending: false })
+    .limit(1)
+    .single();
+
+  const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
+
+  await supabase
+    .from('interactions')
+    .insert({
+      session_id: sessionId,
+      ...interaction,
+      sequence: nextSequence
+    });
+
+  // Update session timestamp
+  if (interaction.type === 'assistant_message') {
+    await supabase
+      .from('sessions')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', sessionId);
+  }
+}
+
+// Message shown above the approval cards
+function getApprovalPrompt(approvalRequests: ApprovalRequest[]): string {
+  if (approvalRequests.every(request => request.toolName === 'web_search')) {
+    return approvalRequests.length === 1
+      ? 'I need to search the web to provide you with current information. Would you like me to proceed?'
+      : `I need to run ${approvalRequests.length} web searches to provide you with current information. Would you like me to proceed?`;
+  }
+  return 'I need your permission before continuing. Would you like me to proceed?';
 }
 
-interface ApprovalRequest {
+// A request's hold: the base turn cost for a new message and the usage reserved for the run
+interface AgentReservation {
   id: string;
-  toolName: string;
-  arguments: Record<string, unknown>;
-  agent: string;
-  timestamp: number;
+  credits: number;
+  turnCost: number;
+}
+
+// Settles a request's hold with the base turn cost and the handoffs, tools and tokens the request
+// used. Settlement is capped at the hold, so usage beyond it is deducted directly, like /api/chat.
+// Returns the credits actually charged.
+async function settleAgentUsage(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  organizationId: string,
+  reservation: AgentReservation,
+  usage: { handoffs: number; toolCalls: string[]; model?: string } & LLMUsage
+): Promise<number> {
+  const cost = reservation.turnCost + calculateAgentUsageCost(usage);
+  const description = `${CREDIT_DESCRIPTIONS.AGENT_USAGE}: ${usage.handoffs} handoffs, ${usage.toolCalls.length} tool calls, ${usage.inputTokens} input / ${usage.outputTokens} output tokens`;
+
+  const settleResult = await settleCreditReservation(
+    supabase,
+    admin,
+    organizationId,
+    reservation.id,
+    Math.min(cost, reservation.credits),
+    description
+  );
+
+  if (!settleResult.success) {
+    // The reply has already been generated, so it is still delivered
+    console.error('Failed to charge agent usage:', { organizationId, cost, error: settleResult.error });
+    return 0;
+  }
+  if (cost <= reservation.credits) {
+    return cost;
+  }
+
+  const extraResult = await checkAndDeductCredits(
+    supabase,
+    organizationId,
+    cost - reservation.credits,
+    description,
+    AGENT_CREDIT_FEATURE_ID
+  );
+
+  if (!extraResult.success) {
+    console.error('Failed to charge agent usage beyond the hold:', { organizationId, cost, error: extraResult.error });
+    return reservation.credits;
+  }
+  return cost;
 }
 
-// Helper function to extract search query from user message
-function extractSearchQuery(message: string): string {
-  // Remove common prefixes and clean up the query
-  const query = message
-    .replace(/^(use the web to |please |can you |could you |)/i, '')
-    .replace(/^(research |search for |find |look up |tell me about )/i, '')
-    .trim();
-  
-  return query;
+function getAgentErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.message.includes('insufficient_quota')) {
+      return 'OpenAI API quota exceeded. Please try again later.';
+    } else if (error.message.includes('invalid_api_key')) {
+      return 'OpenAI API configuration error.';
+    }
+    return error.message;
+  }
+  return 'An error occurred while processing your request.';
 }
 
+// Streams agent events to the client as Server-Sent Events. Failures after the stream has
+// started can't change the status code anymore, so they are sent as an `error` event after
+// `onError` has cleaned up.
+function createAgentEventResponse(
+  sessionId: string | undefined,
+  produce: (send: (event: AgentStreamEvent) => void) => Promise<void>,
+  onError?: () => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+
+      const send = (event: AgentStreamEvent) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(encodeAgentEvent(event)));
+        } catch {
+          // The client went away; keep running so the response is still saved to the session
+          closed = true;
+        }
+      };
+
+      try {
+        await produce(send);
+      } catch (error) {
+        console.error('Agent stream error:', error);
+        await onError?.();
+        send({ type: 'error', error: getAgentErrorMessage(error) });
+      }
 
+      if (!closed) {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': AGENT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Session-Id': sessionId || ''
+    }
+  });
+}
 
 export async function POST(request: NextRequest) {
+  // Open credit hold, returned to the organization if the request fails before the run starts
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
   try {
     const { 
       message, 
       sessionId, 
-      conversationHistory = [],
       agentMode = false,
       approvals = {}
     } = await request.json();
 
-    if (!message?.trim()) {
+    // If approvals are provided, this is a continuation of a paused run
+    const approvalDecisions = approvals as Record<string, boolean>;
+    const hasApprovals = Object.keys(approvalDecisions).length > 0;
+
+    if (!hasApprovals && !message?.trim()) {
       return NextResponse.json(
         { error: 'Message is required' },
         { status: 400 }
@@ -166,26 +316,133 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Credit check for agent mode using organization credits
-    if (agentMode) {
-      try {
-        const credits = await getUserCredits(userOrg.user!.id);
-        if (credits <= 0) {
-          return NextResponse.json(
-            { error: 'Insufficient credits for agent mode' },
-            { status: 402 }
-          );
+    // Paused runs and credit holds are only written by the server; runs are read with the user's permissions
+    const admin = createAdminClient();
+    await expireStaleRuns(admin, userOrg.user!.id);
+
+    // Agents run on the organization's LLM provider
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+    const runner = new Runner({
+      modelProvider: provider.agents.modelProvider,
+      model: provider.agents.model,
+      tracingDisabled: provider.agents.tracingDisabled
+    });
+
+    let currentSessionId = sessionId;
+    let resumeState: RunState<AgentToolContext, typeof triageAgent> | null = null;
+    let resumedToolCalls: RunToolApprovalItem[] = [];
+    const toolsUsed: string[] = [];
+    // The SDK still reports an output for rejected tool calls; they must not count as used
+    const rejectedCallIds = new Set<string>();
+    // Credits charged and tokens used for this turn so far, including requests before the run paused
+    let creditsCharged = 0;
+    let turnReservation: AgentReservation;
+    const turnUsage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+
+    if (hasApprovals) {
+      console.log(`✅ Continuing execution with approvals:`, approvalDecisions);
+
+      const pausedRun = await loadPausedRun(supabase, Object.keys(approvalDecisions));
+      if (!pausedRun.success) {
+        return NextResponse.json(
+          { error: pausedRun.error },
+          { status: pausedRun.status }
+        );
+      }
+
+      currentSessionId = pausedRun.run.session_id || currentSessionId;
+      creditsCharged = pausedRun.run.credits_charged || 0;
+      turnUsage.inputTokens = pausedRun.run.input_tokens || 0;
+      turnUsage.outputTokens = pausedRun.run.output_tokens || 0;
+
+      const { approvals: decidedApprovals, remaining } = await recordApprovalDecisions(
+        admin,
+        pausedRun.run,
+        pausedRun.approvals,
+        approvalDecisions
+      );
+
+      // Wait until every tool call in this run has a decision
+      if (remaining.length > 0) {
+        return createAgentEventResponse(currentSessionId, async (send) => {
+          send({
+            type: 'approval_required',
+            message: getApprovalPrompt(remaining),
+            approvalRequests: remaining,
+            sessionId: currentSessionId
+          });
+        });
+      }
+
+      // The resumed part of the run holds its usage like a new message does, without the turn cost
+      const reservationResult = await reserveCredits(
+        supabase,
+        userOrg.organizationId,
+        CREDIT_COSTS.AGENT.RESERVED_USAGE,
+        `${CREDIT_DESCRIPTIONS.AGENT_USAGE}: resumed run`,
+        AGENT_CREDIT_FEATURE_ID
+      );
+
+      if (!reservationResult.success || !reservationResult.reservationId) {
+        return NextResponse.json(
+          { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+          { status: 402 }
+        );
+      }
+
+      reservation = { supabase: admin, id: reservationResult.reservationId };
+      turnReservation = { id: reservation.id, credits: CREDIT_COSTS.AGENT.RESERVED_USAGE, turnCost: 0 };
+
+      if (!await claimPausedRun(admin, pausedRun.run.id)) {
+        await releaseCreditReservation(admin, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+        return NextResponse.json(
+          { error: 'These actions have already been handled.' },
+          { status: 409 }
+        );
+      }
+
+      // Restore the exact paused run and apply the decisions to its pending tool calls
+      resumeState = await RunState.fromString(triageAgent, pausedRun.run.state);
+      const decisionsByCallId = new Map(decidedApprovals.map(approval => [approval.call_id, approval]));
+
+      // Same lookup as RunResult#interruptions, which isn't available on a bare RunState
+      const interruptions = resumeState._currentStep?.type === 'next_step_interruption'
+        ? resumeState._currentStep.data.interruptions
+        : [];
+
+      resumedToolCalls = interruptions;
+      for (const interruption of interruptions) {
+        const decision = decisionsByCallId.get(getApprovalCallId(interruption));
+        if (decision?.approved) {
+          resumeState.approve(interruption);
+        } else {
+          // Tool calls without a recorded decision are treated as rejected
+          resumeState.reject(interruption);
+          rejectedCallIds.add(getApprovalCallId(interruption));
         }
-      } catch (error) {
-        console.error('Credit check failed:', error);
+      }
+    } else {
+      // A new message holds the base turn cost and the usage reserved for the run, like /api/chat;
+      // the hold is settled with what the run used
+      const reservedCredits = CREDIT_COSTS.AGENT.TURN + CREDIT_COSTS.AGENT.RESERVED_USAGE;
+      const reservationResult = await reserveCredits(
+        supabase,
+        userOrg.organizationId,
+        reservedCredits,
+        `${CREDIT_DESCRIPTIONS.AGENT_TURN}: ${message.substring(0, 30)}${message.length > 30 ? '...' : ''}`,
+        AGENT_CREDIT_FEATURE_ID
+      );
+
+      if (!reservationResult.success || !reservationResult.reservationId) {
         return NextResponse.json(
-          { error: 'Unable to verify credits' },
-          { status: 500 }
+          { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+          { status: 402 }
         );
       }
-    }
 
-    let currentSessionId = sessionId;
+      reservation = { supabase: admin, id: reservationResult.reservationId };
+      turnReservation = { id: reservation.id, credits: reservedCredits, turnCost: CREDIT_COSTS.AGENT.TURN };
+    }
 
     // Create or find session for history storage
     if (!currentSessionId) {
@@ -214,30 +471,36 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Save user message to session
-    if (currentSessionId) {
+    // History comes from the session rather than the client, summarized once it outgrows the context
+    // budget. A resumed run already carries its conversation in the restored state
+    let context: ConversationContext = { summary: null, messages: [], usage: { inputTokens: 0, outputTokens: 0 } };
+    if (currentSessionId && !resumeState) {
       try {
-        // Get next sequence number
-        const { data: lastInteraction } = await supabase
-          .from('interactions')
-          .select('sequence')
-          .eq('session_id', currentSessionId)
-          .order('sequence', { ascending: false })
-          .limit(1)
+        const { data: session } = await supabase
+          .from('sessions')
+          .select('active_interaction_id')
+          .eq('id', currentSessionId)
           .single();
 
-        const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
+        context = await buildConversationContext(supabase, provider, {
+          sessionId: currentSessionId,
+          leafId: session?.active_interaction_id || null
+        });
+      } catch (error) {
+        console.error('Error loading conversation history:', error);
+        // Continue without history rather than failing
+      }
+    }
 
-        await supabase
-          .from('interactions')
-          .insert({
-            session_id: currentSessionId,
-            type: 'user_message',
-            content: message,
-            metadata: { agentMode: true },
-            cost_credits: 0,
-            sequence: nextSequence
-          });
+    // Save user message to session (a resumed run already saved it when it started)
+    if (currentSessionId && !resumeState) {
+      try {
+        await saveInteraction(supabase, currentSessionId, {
+          type: 'user_message',
+          content: message,
+          metadata: { agentMode: true },
+          cost_credits: 0
+        });
       } catch (error) {
         console.error('Error saving user message:', error);
         // Continue without failing the request
@@ -245,379 +508,217 @@ export async function POST(request: NextRequest) {
     }
 
     // Build conversation context
-    const conversationContext = conversationHistory
-      .slice(-10) // Keep last 10 messages for context
-      .map((msg: ChatMessage) => `${msg.role}: ${msg.content}`)
+    const conversationContext = toContextMessages(context)
+      .map(msg => `${msg.role}: ${msg.content}`)
       .join('\n');
 
     const fullPrompt = conversationContext 
       ? `Previous conversation:\n${conversationContext}\n\nCurrent message: ${message}`
       : message;
 
-    console.log(`🤖 Agent Mode: Processing message with ${agentMode ? 'multi-agent' : 'traditional'} approach`);
+    // Tools read the organization and user from the run context. A restored state carries the
+    // context it was saved with, so it is replaced with the one from this authenticated request.
+    const toolContext: AgentToolContext = {
+      organizationId: userOrg.organizationId,
+      userId: userOrg.user!.id,
+      sessionId: currentSessionId
+    };
+    if (resumeState) {
+      resumeState._context.context = toolContext;
+    }
 
-    // If approvals are provided, this is a continuation of a previous request
-    const hasApprovals = Object.keys(approvals).length > 0;
-    
-    if (hasApprovals) {
-      console.log(`✅ Continuing execution with approvals:`, approvals);
-      
-      // Check if any approvals were rejected
-      const rejectedApprovals = Object.entries(approvals).filter(([, approved]) => !approved);
-      const approvedApprovals = Object.entries(approvals).filter(([, approved]) => approved);
-      
-      if (rejectedApprovals.length > 0) {
-        const rejectionMessage = `I understand you've rejected some actions. I'll proceed without those capabilities and provide the best response I can with the available information.`;
-        
-        // Save assistant response to session
-        if (currentSessionId) {
-          try {
-            const { data: lastInteraction } = await supabase
-              .from('interactions')
-              .select('sequence')
-              .eq('session_id', currentSessionId)
-              .order('sequence', { ascending: false })
-              .limit(1)
-              .single();
-
-            const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
-
-            await supabase
-              .from('interactions')
-              .insert({
-                session_id: currentSessionId,
-                type: 'assistant_message',
-                content: rejectionMessage,
-                metadata: { 
-                  agentMode: true,
-                  activeAgent: 'AI Assistant',
-                  toolsUsed: [],
-                  approvalRejected: true
-                },
-                cost_credits: agentMode ? 1 : 0,
-                sequence: nextSequence
-              });
-
-            // Update session timestamp
-            await supabase
-              .from('sessions')
-              .update({ updated_at: new Date().toISOString() })
-              .eq('id', currentSessionId);
-          } catch (error) {
-            console.error('Error saving rejection response:', error);
-          }
-        }
-        
-        return NextResponse.json({
-          message: rejectionMessage,
-          agentMode: true,
-          sessionId: currentSessionId,
-          usage: {
-            activeAgent: 'AI Assistant',
-            toolsUsed: [],
-            creditsUsed: agentMode ? 1 : 0
-          }
+    console.log(`🤖 Agent Mode: ${resumeState ? 'Resuming paused run' : 'Processing message'} with ${agentMode ? 'multi-agent' : 'traditional'} approach`);
+
+    // From here the run settles the hold, or releases it if the run fails first
+    reservation = null;
+    let usageSettled = false;
+
+    // Run the agent (or resume the paused run) and forward its progress to the client as it happens
+    return createAgentEventResponse(currentSessionId, async (send) => {
+      if (currentSessionId) {
+        send({ type: 'session', sessionId: currentSessionId });
+      }
+
+      let currentAgent = resumeState?._currentAgent ?? triageAgent;
+      send({ type: 'agent_updated', agent: currentAgent.name });
+
+      // Usage of this request only, starting with any summary update. Streamed runs don't add model
+      // usage to the run state, so tokens are counted from each finished model response
+      const requestUsage: LLMUsage = { ...context.usage };
+      let handoffCount = 0;
+      const executedToolCalls: string[] = [];
+
+      const result = await runner.run(triageAgent, resumeState ?? fullPrompt, {
+        stream: true,
+        context: toolContext
+      });
+
+      let finalOutput = '';
+      const startedCalls = new Set<string>();
+
+      const startToolCall = (callId: string, toolName: string, rawArguments: string | undefined) => {
+        if (startedCalls.has(callId)) return;
+        startedCalls.add(callId);
+        send({
+          type: 'tool_call_started',
+          callId,
+          toolName,
+          agent: currentAgent.name,
+          arguments: parseToolArguments(rawArguments)
         });
+      };
+
+      // Tool calls decided by the user run first when a paused run resumes
+      for (const toolCall of resumedToolCalls) {
+        startToolCall(getApprovalCallId(toolCall), toolCall.rawItem.name, toolCall.rawItem.arguments);
       }
-      
-      if (approvedApprovals.length > 0) {
-        // Execute approved web search with proper streaming
-        try {
-          const searchQuery = extractSearchQuery(message);
-          console.log(`🔍 Executing approved search for: "${searchQuery}"`);
-          
-          // Use OpenAI's built-in web search with streaming
-          const webTool = webSearchTool();
-          const searchAgent = new Agent({
-            name: 'Search Agent',
-            tools: [webTool],
-            instructions: `You are a web search agent. Search for comprehensive information about: ${searchQuery}. 
-
-Format your response with proper markdown:
-- Use ## for main headings
-- Use ### for subheadings  
-- Use **bold** for emphasis
-- Use bullet points for lists
-- Include proper line breaks for readability
-- Cite sources clearly
-
-Provide comprehensive results with sources and links.`
-          });
-          
-          // Use streaming for the search execution
-          const result = await run(searchAgent, `Please search for comprehensive information about: ${searchQuery}`, {
-            stream: true
-          });
 
-          let searchResult = '';
-          
-          // Process the stream to get the final output
-          for await (const event of result) {
-            if (event.type === 'run_item_stream_event' && event.item.type === 'message_output_item') {
-              searchResult += event.item.content || '';
+      for await (const event of result) {
+        if (event.type === 'raw_model_stream_event') {
+          if (event.data.type === 'output_text_delta') {
+            send({ type: 'text_delta', delta: event.data.delta, agent: currentAgent.name });
+          } else if (event.data.type === 'response_done') {
+            requestUsage.inputTokens += event.data.response.usage.inputTokens;
+            requestUsage.outputTokens += event.data.response.usage.outputTokens;
+
+            // Tool calls are known once the model response finishes, before the tools run.
+            // Handoffs are function calls too, so only the agent's own tools count.
+            const toolNames = new Set(currentAgent.tools.map(agentTool => agentTool.name));
+            for (const item of event.data.response.output) {
+              if (item.type === 'function_call' && toolNames.has(item.name)) {
+                startToolCall(item.callId, item.name, item.arguments);
+              }
             }
           }
-          
-          // Wait for completion
-          await result.completed;
-          
-          // Use final output if streaming didn't capture everything
-          if (!searchResult && result.finalOutput) {
-            searchResult = result.finalOutput;
-          }
-          
-          const finalMessage = `## Search Results for "${searchQuery}"\n\n${searchResult}`;
-          
-          // Save assistant response to session
-          if (currentSessionId) {
-            try {
-              const { data: lastInteraction } = await supabase
-                .from('interactions')
-                .select('sequence')
-                .eq('session_id', currentSessionId)
-                .order('sequence', { ascending: false })
-                .limit(1)
-                .single();
-
-              const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
-
-              await supabase
-                .from('interactions')
-                .insert({
-                  session_id: currentSessionId,
-                  type: 'assistant_message',
-                  content: finalMessage,
-                  metadata: { 
-                    agentMode: true,
-                    activeAgent: 'Web Search Specialist',
-                    toolsUsed: ['web_search']
-                  },
-                  cost_credits: agentMode ? 1 : 0,
-                  sequence: nextSequence
-                });
-
-              // Update session timestamp
-              await supabase
-                .from('sessions')
-                .update({ updated_at: new Date().toISOString() })
-                .eq('id', currentSessionId);
-            } catch (error) {
-              console.error('Error saving assistant response:', error);
+        } else if (event.type === 'run_item_stream_event') {
+          const item = event.item;
+
+          if (item.type === 'handoff_output_item') {
+            // Tracked here rather than from agent_updated_stream_event, which reports the previous agent
+            currentAgent = item.targetAgent;
+            handoffCount++;
+            send({ type: 'handoff', from: item.sourceAgent.name, to: item.targetAgent.name });
+            send({ type: 'agent_updated', agent: item.targetAgent.name });
+          } else if (item.type === 'tool_call_item' && item.rawItem.type === 'function_call') {
+            startToolCall(item.rawItem.callId, item.rawItem.name, item.rawItem.arguments);
+          } else if (item.type === 'tool_call_output_item' && item.rawItem.type === 'function_call_result') {
+            const rejected = rejectedCallIds.has(item.rawItem.callId);
+            send({
+              type: 'tool_call_completed',
+              callId: item.rawItem.callId,
+              toolName: item.rawItem.name,
+              agent: item.agent.name,
+              status: rejected ? 'rejected' : 'completed'
+            });
+            if (!rejected) {
+              executedToolCalls.push(item.rawItem.name);
+              if (!toolsUsed.includes(item.rawItem.name)) {
+                toolsUsed.push(item.rawItem.name);
+              }
             }
+          } else if (item.type === 'tool_approval_item') {
+            console.log(`⏸️ Approval required for ${item.rawItem.name}`);
+          } else if (item.type === 'message_output_item') {
+            finalOutput += item.content || '';
           }
-          
-          return NextResponse.json({
-            message: finalMessage,
-            agentMode: true,
-            sessionId: currentSessionId,
-            usage: {
-              activeAgent: 'Web Search Specialist',
-              toolsUsed: ['web_search'],
-              creditsUsed: agentMode ? 1 : 0
-            }
-          });
-        } catch (error) {
-          console.error('Error executing approved web search:', error);
-          const errorMessage = `I apologize, but I encountered an error while performing the web search. Please try again.`;
-          
-          // Save error response to session
-          if (currentSessionId) {
-            try {
-              const { data: lastInteraction } = await supabase
-                .from('interactions')
-                .select('sequence')
-                .eq('session_id', currentSessionId)
-                .order('sequence', { ascending: false })
-                .limit(1)
-                .single();
-
-              const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
-
-              await supabase
-                .from('interactions')
-                .insert({
-                  session_id: currentSessionId,
-                  type: 'assistant_message',
-                  content: errorMessage,
-                  metadata: { 
-                    agentMode: true,
-                    activeAgent: 'Web Search Specialist',
-                    toolsUsed: [],
-                    error: true
-                  },
-                  cost_credits: 0,
-                  sequence: nextSequence
-                });
-            } catch (saveError) {
-              console.error('Error saving error response:', saveError);
-            }
-          }
-          
-          return NextResponse.json({
-            message: errorMessage,
-            agentMode: true,
-            sessionId: currentSessionId,
-            usage: {
-              activeAgent: 'Web Search Specialist',
-              toolsUsed: [],
-              creditsUsed: agentMode ? 1 : 0
-            }
-          });
         }
       }
-    }
-
-    // Run the agent with streaming support for approval handling
-    const result = await run(triageAgent, fullPrompt, {
-      stream: true
-    });
-
-    let finalOutput = '';
-    const approvalRequests: ApprovalRequest[] = [];
-    let needsApproval = false;
-
-    // Handle streaming events including approval requests
-    for await (const event of result) {
-      if (event.type === 'run_item_stream_event') {
-        if (event.item.type === 'tool_approval_item') {
-          // Tool approval needed
-          const approvalRequest: ApprovalRequest = {
-            id: `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            toolName: event.item.rawItem.name || 'unknown_tool',
-            arguments: (typeof event.item.rawItem.arguments === 'object' && event.item.rawItem.arguments !== null) 
-              ? event.item.rawItem.arguments as Record<string, unknown>
-              : {},
-            agent: 'Web Search Specialist',
-            timestamp: Date.now()
-          };
-          
-          approvalRequests.push(approvalRequest);
-          needsApproval = true;
-          
-          console.log(`⏸️ Approval required for ${approvalRequest.toolName}`);
-        } else if (event.item.type === 'message_output_item') {
-          finalOutput += event.item.content || '';
-        }
-      }
-    }
 
-    // Wait for the stream to complete
-    await result.completed;
-
-    // If approvals are needed, return them for user confirmation
-    if (needsApproval && approvalRequests.length > 0) {
-      // Update approval requests with actual search query
-      const searchQuery = extractSearchQuery(message);
-      const updatedApprovalRequests = approvalRequests.map(request => ({
-        ...request,
-        arguments: {
-          ...request.arguments,
-          query: searchQuery,
-          reason: `To provide current and accurate information about: ${searchQuery}`
-        }
-      }));
+      // Wait for the stream to complete
+      await result.completed;
 
-      return NextResponse.json({
-        message: 'I need to search the web to provide you with current information. Would you like me to proceed?',
-        approvalRequests: updatedApprovalRequests,
-        status: 'pending_approval',
-        agentMode: true,
-        sessionId: currentSessionId,
-        conversationHistory: [
-          ...conversationHistory,
-          { role: 'user', content: message, timestamp: Date.now() }
-        ]
+      usageSettled = true;
+      creditsCharged += await settleAgentUsage(supabase, admin, userOrg.organizationId, turnReservation, {
+        handoffs: handoffCount,
+        toolCalls: executedToolCalls,
+        model: provider.agents.model,
+        ...requestUsage
       });
-    }
-
-    // Get final output if no approvals needed
-    if (!finalOutput && result.finalOutput) {
-      finalOutput = result.finalOutput;
-    }
+      turnUsage.inputTokens += requestUsage.inputTokens;
+      turnUsage.outputTokens += requestUsage.outputTokens;
+
+      // If the run paused on tool approvals, persist it and ask the user
+      if (result.interruptions.length > 0) {
+        const approvalRequests = await savePausedRun(admin, {
+          organizationId: userOrg.organizationId,
+          userId: userOrg.user!.id,
+          sessionId: currentSessionId,
+          state: result.state,
+          interruptions: result.interruptions,
+          creditsCharged,
+          usage: turnUsage
+        });
 
-    if (!finalOutput) {
-      finalOutput = "I apologize, but I wasn't able to process your request properly. Could you please try again?";
-    }
+        send({
+          type: 'approval_required',
+          message: getApprovalPrompt(approvalRequests),
+          approvalRequests,
+          sessionId: currentSessionId
+        });
+        return;
+      }
 
-    // Deduct credits for agent mode
-    if (agentMode && currentSessionId) {
-      try {
-        await updateSessionCredits(userOrg.user!.id, currentSessionId, 1);
-      } catch (error) {
-        console.error('Failed to update credits:', error);
-        // Continue anyway - don't fail the request
+      // Get final output if no approvals needed
+      if (!finalOutput && result.finalOutput) {
+        finalOutput = result.finalOutput;
       }
-    }
 
-    console.log(`✅ Agent response generated (${finalOutput.length} characters)`);
+      if (!finalOutput) {
+        finalOutput = "I apologize, but I wasn't able to process your request properly. Could you please try again?";
+      }
 
-    // Save assistant response to session
-    if (currentSessionId && finalOutput) {
-      try {
-        const { data: lastInteraction } = await supabase
-          .from('interactions')
-          .select('sequence')
-          .eq('session_id', currentSessionId)
-          .order('sequence', { ascending: false })
-          .limit(1)
-          .single();
+      const activeAgent = result.lastAgent?.name || 'AI Assistant';
 
-        const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
+      console.log(`✅ Agent response generated (${finalOutput.length} characters)`);
 
-        await supabase
-          .from('interactions')
-          .insert({
-            session_id: currentSessionId,
+      // Save assistant response to session
+      if (currentSessionId && finalOutput) {
+        try {
+          await saveInteraction(supabase, currentSessionId, {
             type: 'assistant_message',
             content: finalOutput,
             metadata: { 
               agentMode: true,
-              activeAgent: result.lastAgent?.name || 'AI Assistant',
-              toolsUsed: []
+              activeAgent,
+              toolsUsed,
+              ...(hasApprovals ? { approvals: approvalDecisions } : {})
             },
-            cost_credits: agentMode ? 1 : 0,
-            sequence: nextSequence
+            cost_credits: creditsCharged,
+            input_tokens: turnUsage.inputTokens,
+            output_tokens: turnUsage.outputTokens
           });
-
-        // Update session timestamp
-        await supabase
-          .from('sessions')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', currentSessionId);
-      } catch (error) {
-        console.error('Error saving assistant response:', error);
+        } catch (error) {
+          console.error('Error saving assistant response:', error);
+        }
       }
-    }
 
-    return NextResponse.json({
-      message: finalOutput,
-      agentMode: true,
-      sessionId: currentSessionId,
-      usage: {
-        activeAgent: result.lastAgent?.name || 'AI Assistant',
-        toolsUsed: [],
-        creditsUsed: agentMode ? 1 : 0
+      send({
+        type: 'done',
+        message: finalOutput,
+        sessionId: currentSessionId,
+        usage: {
+          activeAgent,
+          toolsUsed,
+          creditsUsed: creditsCharged,
+          ...turnUsage
+        }
+      });
+    }, async () => {
+      if (!usageSettled) {
+        await releaseCreditReservation(admin, turnReservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
       }
     });
 
   } catch (error) {
     console.error('Agent API Error:', error);
-    
-    let errorMessage = 'An error occurred while processing your request.';
-    
-    if (error instanceof Error) {
-      if (error.message.includes('insufficient_quota')) {
-        errorMessage = 'OpenAI API quota exceeded. Please try again later.';
-      } else if (error.message.includes('invalid_api_key')) {
-        errorMessage = 'OpenAI API configuration error.';
-      } else {
-        errorMessage = error.message;
-      }
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
     }
 
     return NextResponse.json(
-      { error: errorMessage },
+      { error: getAgentErrorMessage(error) },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -1,39 +1,77 @@
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
-import { ChatMessageType } from "@/components/dashboard-components/Chat/ChatMessage";
 import { createClient } from "@/lib/supabase/server";
-import { checkAndDeductCredits, getUserAndOrganization } from "@/lib/supabase/credits";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  checkAndDeductCredits,
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
 import { 
+  CREDIT_COSTS,
+  CREDIT_DESCRIPTIONS,
   CREDIT_ERRORS, 
   calculateChatCost, 
   getChatDescription 
 } from "@/lib/supabase/creditConstants";
+import { ChatPersona, getOrganizationChatConfig, LLMChatMessage, LLMCitation, LLMUsage } from "@/lib/llm";
+import { buildChatSystemPrompt, findChatPersona } from "@/lib/llm/settings";
+import { addUsage, estimateChatUsage } from "@/lib/llm/usage";
+import {
+  AttachmentArtifact,
+  CHAT_ATTACHMENT_LIMITS,
+  CHAT_ATTACHMENT_SOURCE,
+  getAttachmentKind,
+  isChatAttachment,
+  toAttachmentMessage,
+  validateAttachments
+} from "@/lib/chat/attachments";
+import { uploadChatAttachment } from "@/lib/storage/image-upload";
+import { signPrivateUrls } from "@/lib/storage/signed-urls";
+import { buildKnowledgeMessage, getKnowledgeCitations, searchKnowledgeBase } from "@/lib/knowledge/retrieval";
+import type { KnowledgeMatch } from "@/types/knowledge";
+import { buildConversationContext, ConversationContext, toContextMessages } from "@/lib/chat/context";
+import { setActiveInteraction } from "@/lib/history/branches";
+import { CHAT_STREAM_CONTENT_TYPE, CHAT_STREAM_HEADER, ChatStreamEvent, encodeChatEvent } from "@/lib/chat/stream-events";
 
-
-// Initialize the OpenAI client with API key from environment variables
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-interface UrlCitation {
-  url: string;
-  title: string;
-  start_index: number;
-  end_index: number;
+interface ChatRequestBody {
+  message?: string;
+  useWebSearch?: boolean;
+  useKnowledgeBase?: boolean;
+  sessionId?: string | null;
+  personaId?: string | null;
+  editInteractionId?: string | null;
+  regenerateInteractionId?: string | null;
 }
 
-interface DeltaWithAnnotations {
-  content?: string;
-  annotations?: Array<{
-    type: string;
-    url_citation?: UrlCitation;
-  }>;
+// Messages with attachments are sent as multipart form data, with the JSON body in the payload field
+async function readChatRequest(request: Request): Promise<{ body: ChatRequestBody; files: File[] }> {
+  if (!request.headers.get("content-type")?.includes("multipart/form-data")) {
+    return { body: await request.json(), files: [] };
+  }
+
+  const formData = await request.formData();
+  const payload = formData.get("payload");
+  return {
+    body: typeof payload === "string" ? JSON.parse(payload) : {},
+    files: formData.getAll("attachments").filter((value): value is File => value instanceof File)
+  };
 }
 
 export async function POST(request: Request) {
   try {
-    // Get the message, options, history, and session info from the request body
-    const { message, useWebSearch = false, history = [], sessionId = null } = await request.json();
+    // Get the message, options, session info and any attachments from the request
+    const { body, files } = await readChatRequest(request);
+    const {
+      message,
+      useWebSearch = false,
+      useKnowledgeBase = false,
+      sessionId = null,
+      personaId = null,
+      editInteractionId = null,
+      regenerateInteractionId = null
+    } = body;
 
     if (!message) {
       return NextResponse.json(
@@ -42,15 +80,21 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      console.error("OpenAI API key is not configured");
+    const attachmentError = validateAttachments(files);
+    if (attachmentError) {
       return NextResponse.json(
-        { error: "OpenAI API key is not configured" },
-        { status: 500 }
+        { error: attachmentError },
+        { status: 400 }
       );
     }
-    
+
+    if (files.length > 0 && (useWebSearch || editInteractionId || regenerateInteractionId)) {
+      return NextResponse.json(
+        { error: "Attachments can't be added to web searches, edits or regenerated replies" },
+        { status: 400 }
+      );
+    }
+
     // Create Supabase client
     const supabase = await createClient();
     
@@ -71,42 +115,242 @@ export async function POST(request: Request) {
       );
     }
     
-    // Calculate credit cost based on features used
-    const creditCost = calculateChatCost({ webSearch: useWebSearch });
+    // Resolve the organization's LLM provider and chat defaults before reserving credits
+    const { provider, chat: chatSettings } = await getOrganizationChatConfig(supabase, userOrg.organizationId);
+
+    if (useWebSearch && !provider.supportsWebSearch) {
+      return NextResponse.json(
+        { error: `Web search is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+
+    if (useKnowledgeBase && (useWebSearch || !provider.embeddingModel)) {
+      return NextResponse.json(
+        { error: useWebSearch
+          ? "Web search and the knowledge base can't be used together"
+          : `The knowledge base is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+
+    // Text documents are quoted in the message, so only images and PDFs need a vision model
+    const newAttachments = await Promise.all(files.map(async file => {
+      const { kind, mimeType } = getAttachmentKind(file)!;
+      return {
+        file,
+        type: kind === 'image' ? 'image' as const : 'document' as const,
+        filename: file.name,
+        mime_type: mimeType,
+        metadata: {
+          source: CHAT_ATTACHMENT_SOURCE,
+          ...(kind === 'text' ? { text: (await file.text()).slice(0, CHAT_ATTACHMENT_LIMITS.MAX_TEXT_CHARS) } : {})
+        }
+      };
+    }));
+
+    if (newAttachments.some(attachment => !('text' in attachment.metadata)) && !provider.supportsVision) {
+      return NextResponse.json(
+        { error: `Images and PDFs can't be attached with ${provider.label}` },
+        { status: 400 }
+      );
+    }
     
-    console.log("CHAT CREDITS - About to deduct credits:", {
+    // Editing a message or regenerating a reply starts a new branch instead of overwriting history.
+    // historyLeafId is the last interaction before the new message, whose branch is the history sent.
+    // attachmentSourceId is the user message whose attachments the new branch keeps
+    let branch: {
+      parentId: string | null;
+      historyLeafId: string | null;
+      attachmentSourceId: string;
+      prompt: string;
+    } | null = null;
+    if (editInteractionId || regenerateInteractionId) {
+      if (!sessionId) {
+        return NextResponse.json(
+          { error: "A session is required to edit or regenerate messages" },
+          { status: 400 }
+        );
+      }
+
+      const { data: target } = await supabase
+        .from('interactions')
+        .select('id, type, parent_interaction_id')
+        .eq('id', editInteractionId || regenerateInteractionId)
+        .eq('session_id', sessionId)
+        .maybeSingle();
+
+      if (editInteractionId) {
+        if (target?.type !== 'user_message') {
+          return NextResponse.json(
+            { error: "Only your own messages can be edited" },
+            { status: 400 }
+          );
+        }
+        // The edited message becomes a sibling of the original
+        branch = {
+          parentId: target.parent_interaction_id,
+          historyLeafId: target.parent_interaction_id,
+          attachmentSourceId: target.id,
+          prompt: message
+        };
+      } else {
+        // A regenerated reply answers the same user message as the original
+        const { data: userInteraction } = target?.type === 'assistant_message' && target.parent_interaction_id
+          ? await supabase
+              .from('interactions')
+              .select('id, type, content, parent_interaction_id')
+              .eq('id', target.parent_interaction_id)
+              .maybeSingle()
+          : { data: null };
+
+        if (userInteraction?.type !== 'user_message') {
+          return NextResponse.json(
+            { error: "Only replies to your messages can be regenerated" },
+            { status: 400 }
+          );
+        }
+        branch = {
+          parentId: userInteraction.id,
+          historyLeafId: userInteraction.parent_interaction_id,
+          attachmentSourceId: userInteraction.id,
+          prompt: userInteraction.content || message
+        };
+      }
+    }
+    const prompt = branch?.prompt ?? message;
+
+    // Edited messages and regenerated replies are sent with the original message's attachments
+    let branchAttachments: AttachmentArtifact[] = [];
+    if (branch) {
+      const { data: sourceArtifacts } = await supabase
+        .from('artifacts')
+        .select('type, url, filename, size_bytes, mime_type, metadata')
+        .eq('interaction_id', branch.attachmentSourceId);
+
+      branchAttachments = (sourceArtifacts || []).filter(isChatAttachment);
+    }
+
+    // The persona is chosen when the session starts and read back from its metadata on every later turn
+    let persona: ChatPersona | null = null;
+    let historyLeafId: string | null = null;
+    if (sessionId) {
+      const { data: existingSession } = await supabase
+        .from('sessions')
+        .select('metadata, active_interaction_id')
+        .eq('id', sessionId)
+        .single();
+
+      persona = findChatPersona(chatSettings, existingSession?.metadata?.personaId);
+      historyLeafId = branch ? branch.historyLeafId : existingSession?.active_interaction_id || null;
+    } else {
+      persona = findChatPersona(chatSettings, personaId);
+    }
+
+    // History comes from the session rather than the client, summarized once it outgrows the context budget
+    let context: ConversationContext;
+    try {
+      context = await buildConversationContext(supabase, provider, {
+        sessionId,
+        leafId: historyLeafId,
+        model: chatSettings.model,
+        includeAttachments: provider.supportsVision && !useWebSearch
+      });
+    } catch (contextError) {
+      console.error("Error loading conversation history:", contextError);
+      return NextResponse.json(
+        { error: "Failed to load the conversation history" },
+        { status: 500 }
+      );
+    }
+
+    // Knowledge base excerpts related to the message, numbered so the reply can cite them
+    let knowledgeMatches: KnowledgeMatch[] = [];
+    if (useKnowledgeBase) {
+      try {
+        knowledgeMatches = await searchKnowledgeBase(supabase, provider, userOrg.organizationId, prompt);
+      } catch (knowledgeError) {
+        console.error("Error searching the knowledge base:", knowledgeError);
+        return NextResponse.json(
+          { error: "Failed to search the knowledge base" },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Organization system prompt and the session's persona, included at the start of every turn
+    const systemMessage: LLMChatMessage = {
+      role: "system",
+      content: buildChatSystemPrompt(chatSettings, persona)
+    };
+
+    const buildMessages = (attachments: AttachmentArtifact[]): LLMChatMessage[] => [
+      systemMessage,
+      // Summary of older messages and the recent ones, on the branch the message continues
+      ...toContextMessages(context),
+      ...(useKnowledgeBase ? [buildKnowledgeMessage(knowledgeMatches)] : []),
+      // Include the current message
+      { role: "user", ...toAttachmentMessage(prompt, attachments, provider.supportsVision && !useWebSearch) }
+    ];
+
+    // New attachments are uploaded once credits are reserved; until then the estimate goes without their URLs
+    let messages = buildMessages([...branchAttachments, ...newAttachments.map(attachment => ({ ...attachment, url: "pending" }))]);
+    
+    // Replies are charged for the tokens sent and generated, including any summary update.
+    // The hold covers all of them plus the longest reply allowed, and is settled with the actual usage
+    const model = provider.getChatModel({
+      webSearch: useWebSearch,
+      model: chatSettings.model,
+      vision: messages.some(chatMessage => chatMessage.attachments?.length)
+    });
+    const featureId = useWebSearch ? 'chat_with_search' : useKnowledgeBase ? 'chat_with_knowledge_base' : 'chat';
+    const reservedCost = calculateChatCost({
+      model,
+      webSearch: useWebSearch,
+      knowledgeBase: useKnowledgeBase,
+      inputTokens: estimateChatUsage(messages, "").inputTokens + context.usage.inputTokens,
+      outputTokens: (chatSettings.max_tokens ?? CREDIT_COSTS.CHAT.RESERVED_OUTPUT_TOKENS) + context.usage.outputTokens
+    });
+    
+    console.log("CHAT CREDITS - About to reserve credits:", {
       organizationId: userOrg.organizationId,
-      creditCost,
-      features: { webSearch: useWebSearch },
+      reservedCost,
+      model,
+      features: { webSearch: useWebSearch, knowledgeBase: useKnowledgeBase },
       timestamp: new Date().toISOString()
     });
     
-    // Check and deduct credits
-    const creditResult = await checkAndDeductCredits(
+    // Reserve credits; the hold is settled once the reply has streamed, or released if it fails
+    const reservationResult = await reserveCredits(
       supabase,
       userOrg.organizationId,
-      creditCost,
+      reservedCost,
       getChatDescription({ 
         webSearch: useWebSearch,
-        customSuffix: message.substring(0, 30) + (message.length > 30 ? '...' : '')
+        knowledgeBase: useKnowledgeBase,
+        customSuffix: prompt.substring(0, 30) + (prompt.length > 30 ? '...' : '')
       }),
-      useWebSearch ? 'chat_with_search' : 'chat'
+      featureId
     );
     
-    console.log("CHAT CREDITS - Deduction result:", {
-      success: creditResult.success,
-      newBalance: creditResult.newBalance,
-      error: creditResult.error,
+    console.log("CHAT CREDITS - Reservation result:", {
+      success: reservationResult.success,
+      reservationId: reservationResult.reservationId,
+      error: reservationResult.error,
       timestamp: new Date().toISOString()
     });
     
-    if (!creditResult.success) {
+    if (!reservationResult.success || !reservationResult.reservationId) {
       return NextResponse.json(
-        { error: creditResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
         { status: 402 }
       );
     }
 
+    const reservationId = reservationResult.reservationId;
+    // Holds are settled and released with the service role now that the membership is checked
+    const admin = createAdminClient();
+
     // Handle session management
     let currentSessionId = sessionId;
     if (!currentSessionId) {
@@ -118,7 +362,7 @@ export async function POST(request: Request) {
           user_id: userOrg.user!.id,
           type: 'chat',
           title: message.substring(0, 50) + (message.length > 50 ? '...' : ''),
-          metadata: { webSearch: useWebSearch }
+          metadata: { webSearch: useWebSearch, knowledgeBase: useKnowledgeBase, personaId: persona?.id }
         })
         .select()
         .single();
@@ -131,8 +375,49 @@ export async function POST(request: Request) {
       }
     }
 
-    // Save user message to session
-    if (currentSessionId) {
+    const uploadedAttachments: (AttachmentArtifact & { size_bytes: number })[] = [];
+    for (const attachment of newAttachments) {
+      const upload = await uploadChatAttachment(supabase, attachment.file, attachment.mime_type, userOrg.organizationId);
+      if (!upload.success || !upload.url) {
+        await releaseCreditReservation(admin, reservationId, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+        return NextResponse.json(
+          { error: `Failed to upload ${attachment.filename}` },
+          { status: 500 }
+        );
+      }
+
+      uploadedAttachments.push({
+        type: attachment.type,
+        url: upload.url,
+        filename: attachment.filename,
+        size_bytes: attachment.file.size,
+        mime_type: attachment.mime_type,
+        metadata: { ...attachment.metadata, storage_path: upload.path }
+      });
+    }
+    // Attachments are saved by their stored URL but sent by signed URL, as their bucket is private
+    messages = buildMessages(await signPrivateUrls(
+      supabase,
+      [...branchAttachments, ...uploadedAttachments],
+      CHAT_ATTACHMENT_LIMITS.SIGNED_URL_SECONDS
+    ));
+
+    // New interactions follow the session's active interaction, so branching moves it to the branch point first
+    if (branch && currentSessionId) {
+      try {
+        await setActiveInteraction(supabase, currentSessionId, branch.parentId);
+      } catch (branchError) {
+        console.error('Error starting branch:', branchError);
+        await releaseCreditReservation(admin, reservationId, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+        return NextResponse.json(
+          { error: "Failed to start a new branch" },
+          { status: 500 }
+        );
+      }
+    }
+
+    // Save user message to session; a regenerated reply reuses the existing one
+    if (currentSessionId && !regenerateInteractionId) {
       // Get next sequence number
       const { data: lastInteraction } = await supabase
         .from('interactions')
@@ -144,97 +429,126 @@ export async function POST(request: Request) {
 
       const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
 
-      await supabase
+      const { data: userMessage } = await supabase
         .from('interactions')
         .insert({
           session_id: currentSessionId,
           type: 'user_message',
           content: message,
-          metadata: { webSearch: useWebSearch },
+          metadata: { webSearch: useWebSearch, knowledgeBase: useKnowledgeBase },
           cost_credits: 0,
           sequence: nextSequence
-        });
-    }
+        })
+        .select('id')
+        .single();
 
-    // Convert chat history to OpenAI format
-    const formattedHistory = history
-      .filter((msg: ChatMessageType) => msg.role === "user" || msg.role === "assistant")
-      .map((msg: ChatMessageType) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-    // Set up model and options based on whether web search is enabled
-    const model = useWebSearch ? "gpt-4o-search-preview" : "gpt-4";
-    const searchOptions = useWebSearch ? { 
-      web_search_options: { 
-        search_context_size: "medium" as "medium" | "low" | "high" 
-      } 
-    } : {};
-
-    // System message to include at the start of every conversation
-    const systemMessage = {
-      role: "system",
-      content: "You are a helpful assistant."
-    };
+      // Attachments are saved with the message so they show when the session is reopened
+      const attachments = [...branchAttachments, ...uploadedAttachments];
+      if (userMessage && attachments.length > 0) {
+        const { error: artifactError } = await supabase
+          .from('artifacts')
+          .insert(attachments.map(attachment => ({ ...attachment, interaction_id: userMessage.id })));
+
+        if (artifactError) {
+          console.error('Error saving chat attachments:', artifactError);
+        }
+      }
+    }
 
     try {
-      // Create the OpenAI completion
-      const completion = await openai.chat.completions.create({
-        model,
-        messages: [
-          systemMessage,
-          // Include all previous messages except the last one (the current message)
-          ...formattedHistory.slice(0, -1),
-          // Include the current message
-          { role: "user", content: message }
-        ],
-        stream: true,
-        ...searchOptions,
+      // Start the completion with the organization's provider
+      const completion = await provider.streamChat({
+        messages,
+        webSearch: useWebSearch,
+        model: chatSettings.model,
+        temperature: chatSettings.temperature,
+        maxTokens: chatSettings.max_tokens
       });
 
       // Create a streaming response
       const encoder = new TextEncoder();
       let fullResponseText = "";
+      let reservationClosed = false;
+
+      // Charge the reply's tokens if one was delivered, otherwise return the reservation.
+      // Resolves to the credits charged
+      const closeReservation = async (usage: LLMUsage): Promise<number> => {
+        if (reservationClosed) return 0;
+        reservationClosed = true;
+        if (!fullResponseText) {
+          await releaseCreditReservation(admin, reservationId, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+          return 0;
+        }
+
+        const cost = calculateChatCost({ model, webSearch: useWebSearch, knowledgeBase: useKnowledgeBase, ...usage });
+        const settleResult = await settleCreditReservation(supabase, admin, userOrg.organizationId, reservationId, Math.min(cost, reservedCost));
+        if (!settleResult.success) {
+          // The hold was already closed and the balance no longer covers the reply, which has been delivered
+          console.error("Failed to charge chat reply:", { reservationId, cost, error: settleResult.error });
+          return 0;
+        }
+        if (cost <= reservedCost) {
+          return cost;
+        }
+
+        // Settlement is capped at the hold, so a request that used more tokens than estimated pays the rest directly
+        const extraResult = await checkAndDeductCredits(
+          supabase,
+          userOrg.organizationId,
+          cost - reservedCost,
+          getChatDescription({ webSearch: useWebSearch, knowledgeBase: useKnowledgeBase, customSuffix: `${usage.inputTokens} input / ${usage.outputTokens} output tokens` }),
+          featureId
+        );
+        if (!extraResult.success) {
+          // The reply has already been delivered, so the shortfall is only logged
+          console.error("Failed to charge additional chat tokens:", { reservationId, cost, error: extraResult.error });
+          return reservedCost;
+        }
+        return cost;
+      };
       
       const stream = new ReadableStream({
         async start(controller) {
+          const send = (event: ChatStreamEvent) => {
+            controller.enqueue(encoder.encode(encodeChatEvent(event)));
+          };
+
           try {
-            const citations = [];
+            // Citation indexes refer to the reply text, so they are kept apart from it
+            const citations: LLMCitation[] = [];
+            let reportedUsage: LLMUsage | null = null;
 
             // Process the streaming response
             for await (const chunk of completion) {
-              const content = chunk.choices[0]?.delta?.content || "";
-              
-              // Collect citation data if available
-              if (chunk.choices[0]?.delta.hasOwnProperty('annotations')) {
-                const deltaWithAnnotations = chunk.choices[0]?.delta as DeltaWithAnnotations;
-                if (deltaWithAnnotations.annotations && deltaWithAnnotations.annotations.length > 0) {
-                  for (const annotation of deltaWithAnnotations.annotations) {
-                    if (annotation.type === "url_citation" && annotation.url_citation) {
-                      citations.push(annotation.url_citation);
-                    }
-                  }
-                }
+              if (chunk.type === "citation") {
+                citations.push(chunk.citation);
+                send({ type: "citation", citation: chunk.citation });
+                continue;
+              }
+
+              if (chunk.type === "usage") {
+                reportedUsage = chunk.usage;
+                continue;
               }
 
-              if (content) {
-                fullResponseText += content;
-                controller.enqueue(encoder.encode(content));
+              if (chunk.delta) {
+                fullResponseText += chunk.delta;
+                send({ type: "text_delta", delta: chunk.delta });
               }
             }
 
-            // If there were citations, send them at the end
-            let sourcesText = "";
-            if (citations.length > 0) {
-              sourcesText = "\n\n---\nSources:\n";
-              citations.forEach((citation, index) => {
-                sourcesText += `[${index + 1}] ${citation.title}: ${citation.url}\n`;
-              });
-              controller.enqueue(encoder.encode(sourcesText));
-              fullResponseText += sourcesText;
+            // Knowledge base citations refer to the excerpt numbers in the finished reply
+            if (useKnowledgeBase) {
+              for (const citation of getKnowledgeCitations(fullResponseText, knowledgeMatches)) {
+                citations.push(citation);
+                send({ type: "citation", citation });
+              }
             }
 
+            // Backends that don't report usage are charged an estimate
+            const usage = addUsage(reportedUsage ?? estimateChatUsage(messages, fullResponseText), context.usage);
+            const creditsCharged = await closeReservation(usage);
+
             // Save assistant response to session
             if (currentSessionId) {
               const { data: lastInteraction } = await supabase
@@ -255,9 +569,14 @@ export async function POST(request: Request) {
                   content: fullResponseText,
                   metadata: { 
                     webSearch: useWebSearch, 
+                    knowledgeBase: useKnowledgeBase,
+                    personaId: persona?.id,
+                    model,
                     citations: citations.length > 0 ? citations : undefined 
                   },
-                  cost_credits: creditCost,
+                  cost_credits: creditsCharged,
+                  input_tokens: usage.inputTokens,
+                  output_tokens: usage.outputTokens,
                   sequence: nextSequence
                 });
 
@@ -273,9 +592,19 @@ export async function POST(request: Request) {
               }
             }
 
+            // Sent once the reply is saved, so reloading the session includes it
+            send({
+              type: "done",
+              message: fullResponseText,
+              citations,
+              usage: { ...usage, credits: creditsCharged }
+            });
             controller.close();
           } catch (streamError) {
             console.error("Error in stream processing:", streamError);
+            // A partial reply is charged for the tokens it streamed
+            await closeReservation(addUsage(estimateChatUsage(messages, fullResponseText), context.usage));
+            send({ type: "error", error: "The response was interrupted. Please try again." });
             // Close the stream properly instead of erroring it
             controller.close();
           }
@@ -284,18 +613,20 @@ export async function POST(request: Request) {
 
       return new Response(stream, {
         headers: {
-          "Content-Type": "text/plain",
+          "Content-Type": CHAT_STREAM_CONTENT_TYPE,
           "Cache-Control": "no-cache, no-transform",
           "Connection": "keep-alive",
           "X-Session-Id": currentSessionId || "",
+          [CHAT_STREAM_HEADER]: "1",
         },
       });
-    } catch (openaiError) {
-      console.error("OpenAI API error:", openaiError);
-      // Return a JSON error response for OpenAI errors
-      if (openaiError instanceof Error) {
+    } catch (providerError) {
+      console.error("LLM provider error:", providerError);
+      await releaseCreditReservation(admin, reservationId, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+      // Return a JSON error response for provider errors
+      if (providerError instanceof Error) {
         return NextResponse.json(
-          { error: openaiError.message || "AI service error" },
+          { error: providerError.message || "AI service error" },
           { status: 500 }
         );
       }
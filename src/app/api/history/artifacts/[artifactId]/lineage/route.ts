@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { isUuid } from "@/lib/history/organize"
+import { LINEAGE_LIMITS } from "@/lib/sandbox/lineage"
+import type { ArtifactLineageNode } from "@/types/history"
+
+// GET /api/history/artifacts/[artifactId]/lineage - The tree of images an image belongs to: the
+// images it was made from and every image made from them, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ artifactId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { artifactId } = await params
+
+    if (!isUuid(artifactId)) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      )
+    }
+
+    // Runs with the user's permissions, so only images of visible sessions are returned
+    const { data, error } = await supabase.rpc('get_artifact_lineage', {
+      artifact_id: artifactId,
+      max_nodes: LINEAGE_LIMITS.MAX_NODES
+    })
+
+    if (error) {
+      console.error('Error fetching artifact lineage:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch image lineage' },
+        { status: 500 }
+      )
+    }
+
+    const nodes = (data || []) as ArtifactLineageNode[]
+
+    if (!nodes.some(node => node.id === artifactId)) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      nodes,
+      truncated: nodes.length >= LINEAGE_LIMITS.MAX_NODES
+    })
+  } catch (error) {
+    console.error('Error in artifact lineage API:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { getUserAndOrganization } from "@/lib/supabase/credits"
 
-// DELETE /api/history/artifacts/[artifactId] - Delete a specific artifact
+// DELETE /api/history/artifacts/[artifactId] - Move an artifact to the trash
 export async function DELETE(
   request: NextRequest, 
   { params }: { params: Promise<{ artifactId: string }> }
@@ -35,6 +35,7 @@ export async function DELETE(
         )
       `)
       .eq('id', artifactId)
+      .is('deleted_at', null)
       .single()
 
     if (artifactError || !artifactData) {
@@ -72,10 +73,9 @@ export async function DELETE(
       )
     }
 
-    // Delete the artifact
     const { error: deleteError } = await supabase
       .from('artifacts')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', artifactId)
 
     if (deleteError) {
@@ -88,7 +88,7 @@ export async function DELETE(
 
     return NextResponse.json({ 
       success: true,
-      message: 'Artifact deleted successfully'
+      message: 'Artifact moved to trash'
     })
   } catch (error) {
     console.error('Error in delete artifact API:', error)
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_ORGANIZE_LIMITS, isUuid } from "@/lib/history/organize"
+import type { CreateSessionFolderRequest } from "@/types/history"
+
+// PATCH /api/history/folders/[folderId] - Rename a folder or move it into another one
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { folderId } = await params
+    const body: Partial<CreateSessionFolderRequest> = await request.json()
+    const updates: Partial<CreateSessionFolderRequest> = {}
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name || name.length > HISTORY_ORGANIZE_LIMITS.MAX_FOLDER_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Folder names must be 1 to ${HISTORY_ORGANIZE_LIMITS.MAX_FOLDER_NAME_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.name = name
+    }
+
+    if (body.parent_id !== undefined) {
+      if (body.parent_id !== null && !isUuid(body.parent_id)) {
+        return NextResponse.json(
+          { error: "Invalid parent folder" },
+          { status: 400 }
+        )
+      }
+      updates.parent_id = body.parent_id
+    }
+
+    // The database rejects moving a folder into itself or one of its subfolders
+    const { data: folder, error } = await supabase
+      .from('session_folders')
+      .update(updates)
+      .eq('id', folderId)
+      .eq('organization_id', userOrg.organizationId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A folder with this name already exists here" },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P0001') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+      console.error('Error updating session folder:', error)
+      return NextResponse.json(
+        { error: "Failed to update folder" },
+        { status: 500 }
+      )
+    }
+
+    if (!folder) {
+      return NextResponse.json(
+        { error: "Folder not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ folder })
+  } catch (error) {
+    console.error('Error in update session folder API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/history/folders/[folderId] - Delete a folder and its subfolders; their sessions become unfiled
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { folderId } = await params
+
+    const { data: deleted, error } = await supabase
+      .from('session_folders')
+      .delete()
+      .eq('id', folderId)
+      .eq('organization_id', userOrg.organizationId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting session folder:', error)
+      return NextResponse.json(
+        { error: "Failed to delete folder" },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Folder not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in delete session folder API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_ORGANIZE_LIMITS, isUuid } from "@/lib/history/organize"
+import type { CreateSessionFolderRequest } from "@/types/history"
+
+// GET /api/history/folders - List the organization's session folders; the client builds the tree
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { data: folders, error } = await supabase
+      .from('session_folders')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching session folders:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch folders" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ folders: folders || [] })
+  } catch (error) {
+    console.error('Error in session folders API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/history/folders - Create a folder, at the top level or inside another folder
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: CreateSessionFolderRequest = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name || name.length > HISTORY_ORGANIZE_LIMITS.MAX_FOLDER_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Folder names must be 1 to ${HISTORY_ORGANIZE_LIMITS.MAX_FOLDER_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (body.parent_id != null && !isUuid(body.parent_id)) {
+      return NextResponse.json(
+        { error: "Invalid parent folder" },
+        { status: 400 }
+      )
+    }
+
+    // The database checks that the parent is in the same organization
+    const { data: folder, error } = await supabase
+      .from('session_folders')
+      .insert({
+        organization_id: userOrg.organizationId,
+        parent_id: body.parent_id || null,
+        name,
+        created_by: userOrg.user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A folder with this name already exists here" },
+          { status: 409 }
+        )
+      }
+      if (error.code === 'P0001') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+      console.error('Error creating session folder:', error)
+      return NextResponse.json(
+        { error: "Failed to create folder" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ folder }, { status: 201 })
+  } catch (error) {
+    console.error('Error in create session folder API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
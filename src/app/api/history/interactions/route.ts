@@ -31,6 +31,7 @@ export async function POST(request: NextRequest) {
       .from('sessions')
       .select('organization_id, user_id')
       .eq('id', body.session_id)
+      .is('deleted_at', null)
       .single()
 
     if (sessionError || !session) {
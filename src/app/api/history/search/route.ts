@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_SEARCH_LIMITS } from "@/lib/history/search"
+import type { HistorySearchResponse, HistorySearchResult } from "@/types/history"
+
+// GET /api/history/search - Full-text search across session titles, messages and image prompts
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim()
+
+    if (!query) {
+      return NextResponse.json(
+        { error: "A search query is required" },
+        { status: 400 }
+      )
+    }
+
+    if (query.length > HISTORY_SEARCH_LIMITS.MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search queries can be at most ${HISTORY_SEARCH_LIMITS.MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1),
+      HISTORY_SEARCH_LIMITS.MAX_RESULTS
+    )
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0') || 0, 0)
+
+    // One extra row tells whether there are more results
+    const { data, error } = await supabase.rpc('search_history', {
+      org_id: userOrg.organizationId,
+      search_query: query,
+      session_type: searchParams.get('type') || null,
+      starred_only: searchParams.get('starred') === 'true',
+      limit_count: limit + 1,
+      offset_count: offset
+    })
+
+    if (error) {
+      console.error('Error searching history:', error)
+      return NextResponse.json(
+        { error: "Failed to search history" },
+        { status: 500 }
+      )
+    }
+
+    const results = (data || []) as HistorySearchResult[]
+    const response: HistorySearchResponse = {
+      results: results.slice(0, limit),
+      has_more: results.length > limit
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error in history search API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
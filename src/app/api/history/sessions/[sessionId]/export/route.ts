@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { buildExportFile, isHistoryExportFormat, loadSessionExports, toExportName } from "@/lib/history/export"
+
+// GET /api/history/sessions/[sessionId]/export - Download a session as JSON, Markdown or a ZIP with its files
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { sessionId } = await params
+    const format = new URL(request.url).searchParams.get('format') || 'json'
+
+    if (!isHistoryExportFormat(format)) {
+      return NextResponse.json(
+        { error: "format must be json, markdown or zip" },
+        { status: 400 }
+      )
+    }
+
+    const [exported] = await loadSessionExports(supabase, userOrg.organizationId, [sessionId])
+
+    if (!exported) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      )
+    }
+
+    const file = await buildExportFile(
+      supabase,
+      [exported],
+      format,
+      toExportName(exported.session.title, exported.session.id)
+    )
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting session:', error)
+    return NextResponse.json(
+      { error: "Failed to export session" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { getUserAndOrganization } from "@/lib/supabase/credits"
-import type { UpdateSessionRequest } from "@/types/history"
+import { getActiveBranch, getLatestLeaf } from "@/lib/history/branches"
+import { isUuid, setSessionTags } from "@/lib/history/organize"
+import { CHAT_ATTACHMENT_LIMITS } from "@/lib/chat/attachments"
+import { signPrivateUrls } from "@/lib/storage/signed-urls"
+import type { InteractionWithArtifacts, UpdateSessionRequest } from "@/types/history"
 
-// GET /api/history/sessions/[sessionId] - Get a specific session with interactions
+// GET /api/history/sessions/[sessionId] - Get a specific session with the interactions of its active branch
 export async function GET(
   request: NextRequest, 
   { params }: { params: Promise<{ sessionId: string }> }
@@ -28,10 +32,13 @@ export async function GET(
         interactions:interactions(
           *,
           artifacts:artifacts(*)
-        )
+        ),
+        tag_assignments:session_tag_assignments(tag_id)
       `)
       .eq('id', sessionId)
       .eq('organization_id', userOrg.organizationId)
+      .is('deleted_at', null)
+      .is('interactions.artifacts.deleted_at', null)
       .single()
 
     if (error) {
@@ -42,12 +49,27 @@ export async function GET(
       )
     }
 
-    // Sort interactions by sequence
-    if (session.interactions) {
-      session.interactions.sort((a: { sequence: number }, b: { sequence: number }) => a.sequence - b.sequence)
-    }
+    // Only the active branch is returned, in order, with each interaction's position among its siblings
+    session.interactions = getActiveBranch(
+      (session.interactions || []) as InteractionWithArtifacts[],
+      session.active_interaction_id
+    )
 
-    return NextResponse.json({ session })
+    // Attachments in private buckets are shown through signed URLs
+    session.interactions = await Promise.all(
+      session.interactions.map(async (interaction: InteractionWithArtifacts) => ({
+        ...interaction,
+        artifacts: await signPrivateUrls(supabase, interaction.artifacts || [], CHAT_ATTACHMENT_LIMITS.SIGNED_URL_SECONDS)
+      }))
+    )
+
+    const { tag_assignments: tagAssignments, ...sessionWithoutAssignments } = session
+    return NextResponse.json({
+      session: {
+        ...sessionWithoutAssignments,
+        tag_ids: (tagAssignments || []).map((assignment: { tag_id: string }) => assignment.tag_id)
+      }
+    })
   } catch (error) {
     console.error('Error in get session API:', error)
     return NextResponse.json(
@@ -81,6 +103,7 @@ export async function PATCH(
       .from('sessions')
       .select('user_id, organization_id')
       .eq('id', sessionId)
+      .is('deleted_at', null)
       .single()
 
     if (checkError || !existingSession) {
@@ -98,6 +121,38 @@ export async function PATCH(
       )
     }
 
+    // Switching branches shows the latest reply below the chosen interaction
+    let activeInteractionId: string | undefined
+    if (body.active_interaction_id) {
+      const { data: interactions, error: interactionsError } = await supabase
+        .from('interactions')
+        .select('id, sequence, parent_interaction_id')
+        .eq('session_id', sessionId)
+
+      const leaf = interactionsError ? null : getLatestLeaf(interactions || [], body.active_interaction_id)
+      if (!leaf) {
+        return NextResponse.json(
+          { error: 'Interaction not found in this session' },
+          { status: 404 }
+        )
+      }
+      activeInteractionId = leaf.id
+    }
+
+    if (body.folder_id != null && !isUuid(body.folder_id)) {
+      return NextResponse.json(
+        { error: 'Invalid folder' },
+        { status: 400 }
+      )
+    }
+
+    if (body.tag_ids !== undefined && (!Array.isArray(body.tag_ids) || !body.tag_ids.every(isUuid))) {
+      return NextResponse.json(
+        { error: 'Invalid tags' },
+        { status: 400 }
+      )
+    }
+
     const { data: session, error } = await supabase
       .from('sessions')
       .update({
@@ -106,12 +161,21 @@ export async function PATCH(
         metadata: body.metadata,
         starred: body.starred,
         archived: body.archived,
+        active_interaction_id: activeInteractionId,
+        folder_id: body.folder_id,
       })
       .eq('id', sessionId)
       .select()
       .single()
 
     if (error) {
+      // Raised when the folder isn't in the session's organization
+      if (error.code === 'P0001') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
       console.error('Error updating session:', error)
       return NextResponse.json(
         { error: 'Failed to update session' },
@@ -119,6 +183,18 @@ export async function PATCH(
       )
     }
 
+    if (body.tag_ids !== undefined) {
+      try {
+        await setSessionTags(supabase, sessionId, body.tag_ids)
+      } catch (tagsError) {
+        console.error('Error updating session tags:', tagsError)
+        return NextResponse.json(
+          { error: 'Failed to update session tags' },
+          { status: 500 }
+        )
+      }
+    }
+
     return NextResponse.json({ session })
   } catch (error) {
     console.error('Error in update session API:', error)
@@ -129,7 +205,7 @@ export async function PATCH(
   }
 }
 
-// DELETE /api/history/sessions/[sessionId] - Delete a session
+// DELETE /api/history/sessions/[sessionId] - Move a session to the trash
 export async function DELETE(
   request: NextRequest, 
   { params }: { params: Promise<{ sessionId: string }> }
@@ -152,6 +228,7 @@ export async function DELETE(
       .from('sessions')
       .select('user_id, organization_id')
       .eq('id', sessionId)
+      .is('deleted_at', null)
       .single()
 
     if (checkError || !existingSession) {
@@ -171,7 +248,7 @@ export async function DELETE(
 
     const { error } = await supabase
       .from('sessions')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', sessionId)
 
     if (error) {
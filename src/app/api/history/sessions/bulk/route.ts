@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_ORGANIZE_LIMITS, isUuid } from "@/lib/history/organize"
+import type { BulkSessionAction, BulkSessionRequest } from "@/types/history"
+
+const BULK_ACTIONS: BulkSessionAction[] = ['tag', 'untag', 'move', 'archive', 'unarchive', 'delete']
+
+// POST /api/history/sessions/bulk - Tag, untag, move, archive or delete several sessions at once.
+// Like single session changes, only the user's own sessions are changed; others are skipped
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: BulkSessionRequest = await request.json()
+
+    if (!BULK_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: "Invalid action" },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(body.session_ids) || body.session_ids.length === 0 || !body.session_ids.every(isUuid)) {
+      return NextResponse.json(
+        { error: "session_ids must be a list of session ids" },
+        { status: 400 }
+      )
+    }
+
+    if (body.session_ids.length > HISTORY_ORGANIZE_LIMITS.MAX_BULK_SESSIONS) {
+      return NextResponse.json(
+        { error: `At most ${HISTORY_ORGANIZE_LIMITS.MAX_BULK_SESSIONS} sessions can be changed at once` },
+        { status: 400 }
+      )
+    }
+
+    const tagIds = body.tag_ids || []
+    if ((body.action === 'tag' || body.action === 'untag') && (!Array.isArray(tagIds) || tagIds.length === 0 || !tagIds.every(isUuid))) {
+      return NextResponse.json(
+        { error: "tag_ids must be a list of tag ids" },
+        { status: 400 }
+      )
+    }
+
+    if (body.action === 'move' && body.folder_id !== null && !isUuid(body.folder_id)) {
+      return NextResponse.json(
+        { error: "folder_id must be a folder id or null" },
+        { status: 400 }
+      )
+    }
+
+    const { data: ownSessions, error: sessionsError } = await supabase
+      .from('sessions')
+      .select('id')
+      .in('id', body.session_ids)
+      .eq('organization_id', userOrg.organizationId)
+      .eq('user_id', userOrg.user.id)
+      .is('deleted_at', null)
+
+    if (sessionsError) {
+      console.error('Error finding sessions for bulk action:', sessionsError)
+      return NextResponse.json(
+        { error: "Failed to find sessions" },
+        { status: 500 }
+      )
+    }
+
+    const sessionIds = (ownSessions || []).map(session => session.id)
+    if (sessionIds.length === 0) {
+      return NextResponse.json(
+        { error: "None of the sessions can be changed" },
+        { status: 403 }
+      )
+    }
+
+    let error: { code?: string; message: string } | null = null
+    switch (body.action) {
+      case 'tag':
+        ({ error } = await supabase
+          .from('session_tag_assignments')
+          .upsert(
+            sessionIds.flatMap(sessionId => tagIds.map(tagId => ({ session_id: sessionId, tag_id: tagId }))),
+            { onConflict: 'session_id,tag_id', ignoreDuplicates: true }
+          ))
+        break
+      case 'untag':
+        ({ error } = await supabase
+          .from('session_tag_assignments')
+          .delete()
+          .in('session_id', sessionIds)
+          .in('tag_id', tagIds))
+        break
+      case 'move':
+        ({ error } = await supabase
+          .from('sessions')
+          .update({ folder_id: body.folder_id })
+          .in('id', sessionIds))
+        break
+      case 'archive':
+      case 'unarchive':
+        ({ error } = await supabase
+          .from('sessions')
+          .update({ archived: body.action === 'archive' })
+          .in('id', sessionIds))
+        break
+      case 'delete':
+        ({ error } = await supabase
+          .from('sessions')
+          .update({ deleted_at: new Date().toISOString() })
+          .in('id', sessionIds))
+        break
+    }
+
+    if (error) {
+      // Raised when the folder isn't in the organization
+      if (error.code === 'P0001') {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+      console.error(`Error in bulk ${body.action}:`, error)
+      return NextResponse.json(
+        { error: `Failed to ${body.action} sessions` },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      updated: sessionIds,
+      skipped: body.session_ids.filter(id => !sessionIds.includes(id))
+    })
+  } catch (error) {
+    console.error('Error in bulk sessions API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import {
+  HISTORY_EXPORT_LIMITS,
+  buildExportFile,
+  isHistoryExportFormat,
+  loadSessionExports
+} from "@/lib/history/export"
+import { toIlikeFilter } from "@/lib/history/search"
+import { isUuid } from "@/lib/history/organize"
+
+// GET /api/history/sessions/export - Download the sessions matching the history filters, most recent first
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+
+    if (!isHistoryExportFormat(format)) {
+      return NextResponse.json(
+        { error: "format must be json, markdown or zip" },
+        { status: 400 }
+      )
+    }
+
+    // Same filters as the history list, applied only when given
+    let query = supabase
+      .from('sessions')
+      .select('id')
+      .eq('organization_id', userOrg.organizationId)
+      .is('deleted_at', null)
+
+    const type = searchParams.get('type')
+    const search = searchParams.get('search')
+    const dateFrom = searchParams.get('date_from')
+    const dateTo = searchParams.get('date_to')
+    const tagIds = searchParams.get('tags')?.split(',').filter(isUuid) || []
+    const folderId = searchParams.get('folder')
+
+    if (type) {
+      query = query.in('type', type.split(','))
+    }
+    if (searchParams.has('starred')) {
+      query = query.eq('starred', searchParams.get('starred') === 'true')
+    }
+    if (searchParams.has('archived')) {
+      query = query.eq('archived', searchParams.get('archived') === 'true')
+    }
+    if (search) {
+      query = query.or(toIlikeFilter(['title', 'description'], search))
+    }
+    if (dateFrom) {
+      query = query.gte('created_at', dateFrom)
+    }
+    if (dateTo) {
+      query = query.lte('created_at', dateTo)
+    }
+    if (isUuid(folderId)) {
+      query = query.eq('folder_id', folderId)
+    }
+    if (tagIds.length > 0) {
+      const { data: assignments, error: tagsError } = await supabase
+        .from('session_tag_assignments')
+        .select('session_id')
+        .in('tag_id', tagIds)
+
+      if (tagsError) {
+        console.error('Error filtering sessions to export by tag:', tagsError)
+        return NextResponse.json(
+          { error: "Failed to find sessions" },
+          { status: 500 }
+        )
+      }
+      query = query.in('id', [...new Set((assignments || []).map(assignment => assignment.session_id as string))])
+    }
+
+    const { data: matches, error } = await query
+      .order('updated_at', { ascending: false })
+      .limit(HISTORY_EXPORT_LIMITS.MAX_SESSIONS)
+
+    if (error) {
+      console.error('Error finding sessions to export:', error)
+      return NextResponse.json(
+        { error: "Failed to find sessions" },
+        { status: 500 }
+      )
+    }
+
+    if (!matches || matches.length === 0) {
+      return NextResponse.json(
+        { error: "No sessions match the filters" },
+        { status: 404 }
+      )
+    }
+
+    const sessions = await loadSessionExports(
+      supabase,
+      userOrg.organizationId,
+      matches.map(session => session.id)
+    )
+
+    const file = await buildExportFile(
+      supabase,
+      sessions,
+      format,
+      `history-export-${new Date().toISOString().slice(0, 10)}`
+    )
+
+    return new NextResponse(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting history:', error)
+    return NextResponse.json(
+      { error: "Failed to export history" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { importSession, readHistoryImport } from "@/lib/history/import"
+import type { HistoryImport } from "@/lib/history/import"
+
+// POST /api/history/sessions/import - Recreate the sessions of a JSON or ZIP export in the current organization
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "An export file is required" },
+        { status: 400 }
+      )
+    }
+
+    let parsed: HistoryImport
+    try {
+      parsed = await readHistoryImport(file, userOrg.organizationId)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid export file" },
+        { status: 400 }
+      )
+    }
+
+    // Sessions are imported one by one; one that fails is rolled back without affecting the others
+    const sessionIds: string[] = []
+    const failed: string[] = []
+    for (const exported of parsed.sessions) {
+      try {
+        sessionIds.push(await importSession(supabase, {
+          organizationId: userOrg.organizationId,
+          userId: userOrg.user.id,
+          exported,
+          files: parsed.files
+        }))
+      } catch (error) {
+        console.error(`Error importing session ${exported.session.id}:`, error)
+        failed.push(exported.session.title || exported.session.id)
+      }
+    }
+
+    if (sessionIds.length === 0) {
+      return NextResponse.json(
+        { error: "Failed to import sessions" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { sessions: sessionIds, imported: sessionIds.length, failed },
+      { status: 201 }
+    )
+
+  } catch (error) {
+    console.error('Error importing history:', error)
+    return NextResponse.json(
+      { error: "Failed to import history" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
 import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { toIlikeFilter } from "@/lib/history/search"
+import { isUuid } from "@/lib/history/organize"
 import type { 
   CreateSessionRequest, 
   HistoryFilters, 
@@ -31,7 +33,10 @@ export async function GET(request: NextRequest) {
       search: searchParams.get('search') || undefined,
       date_from: searchParams.get('date_from') || undefined,
       date_to: searchParams.get('date_to') || undefined,
+      tag_ids: searchParams.get('tags')?.split(',').filter(isUuid),
+      folder_id: isUuid(searchParams.get('folder')) ? searchParams.get('folder')! : undefined,
     }
+    const tagIds = filters.tag_ids && filters.tag_ids.length > 0 ? filters.tag_ids : null
 
     // Parse pagination
     const pagination: HistoryPagination = {
@@ -41,12 +46,31 @@ export async function GET(request: NextRequest) {
       order_direction: (searchParams.get('order_direction') as HistoryPagination['order_direction']) || 'desc',
     }
 
+    // Sessions with any of the filtered tags
+    let taggedSessionIds: string[] | null = null
+    if (tagIds) {
+      const { data: assignments, error: tagsError } = await supabase
+        .from('session_tag_assignments')
+        .select('session_id')
+        .in('tag_id', tagIds)
+
+      if (tagsError) {
+        console.error('Error filtering sessions by tag:', tagsError)
+        return NextResponse.json(
+          { error: 'Failed to fetch sessions' },
+          { status: 500 }
+        )
+      }
+      taggedSessionIds = [...new Set((assignments || []).map(assignment => assignment.session_id as string))]
+    }
+
     // Build optimized single query using RPC function for better performance
     // First, get the total count with filters applied
     let countQuery = supabase
       .from('sessions')
       .select('*', { count: 'exact', head: true })
       .eq('organization_id', userOrg.organizationId)
+      .is('deleted_at', null)
 
     // Apply same filters to count query
     if (filters.type && filters.type.length > 0) {
@@ -59,7 +83,7 @@ export async function GET(request: NextRequest) {
       countQuery = countQuery.eq('archived', filters.archived)
     }
     if (filters.search) {
-      countQuery = countQuery.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`)
+      countQuery = countQuery.or(toIlikeFilter(['title', 'description'], filters.search))
     }
     if (filters.date_from) {
       countQuery = countQuery.gte('created_at', filters.date_from)
@@ -67,6 +91,12 @@ export async function GET(request: NextRequest) {
     if (filters.date_to) {
       countQuery = countQuery.lte('created_at', filters.date_to)
     }
+    if (taggedSessionIds) {
+      countQuery = countQuery.in('id', taggedSessionIds)
+    }
+    if (filters.folder_id) {
+      countQuery = countQuery.eq('folder_id', filters.folder_id)
+    }
 
     const { count: totalCount, error: countError } = await countQuery
 
@@ -87,7 +117,9 @@ export async function GET(request: NextRequest) {
         starred_only: filters.starred || false,
         search_query: filters.search || null,
         limit_count: pagination.limit || 20,
-        offset_count: pagination.offset || 0
+        offset_count: pagination.offset || 0,
+        tag_ids: tagIds,
+        filter_folder_id: filters.folder_id || null
       }
     )
 
@@ -102,9 +134,11 @@ export async function GET(request: NextRequest) {
         .select(`
           *,
           interactions!inner(count),
-          artifacts!inner(id, type, url, created_at)
+          artifacts!inner(id, type, url, created_at),
+          tag_assignments:session_tag_assignments(tag:session_tags(id, name, color))
         `)
         .eq('organization_id', userOrg.organizationId)
+        .is('deleted_at', null)
 
       // Apply filters to fallback query
       if (filters.type && filters.type.length > 0) {
@@ -117,7 +151,7 @@ export async function GET(request: NextRequest) {
         query = query.eq('archived', filters.archived)
       }
       if (filters.search) {
-        query = query.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%`)
+        query = query.or(toIlikeFilter(['title', 'description'], filters.search))
       }
       if (filters.date_from) {
         query = query.gte('created_at', filters.date_from)
@@ -125,6 +159,12 @@ export async function GET(request: NextRequest) {
       if (filters.date_to) {
         query = query.lte('created_at', filters.date_to)
       }
+      if (taggedSessionIds) {
+        query = query.in('id', taggedSessionIds)
+      }
+      if (filters.folder_id) {
+        query = query.eq('folder_id', filters.folder_id)
+      }
 
       query = query
         .order(pagination.order_by || 'updated_at', { ascending: pagination.order_direction === 'asc' })
@@ -144,6 +184,7 @@ export async function GET(request: NextRequest) {
        const processedSessions = (fallbackSessions || []).map(session => ({
          ...session,
          interaction_count: session.interactions?.length || 0,
+         tags: (session.tag_assignments || []).map((assignment: { tag: unknown }) => assignment.tag),
          latest_artifacts: (session.artifacts || [])
            .filter((artifact: { type: string }) => artifact.type === 'image')
            .sort((a: { created_at: string }, b: { created_at: string }) => 
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+
+// DELETE /api/history/shares/[shareId] - Revoke a share link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ shareId: string }> }
+) {
+  try {
+    const { shareId } = await params
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    // Revoked shares are kept so the link can't be reused and stays on record
+    const { data: share, error } = await supabase
+      .from('session_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', shareId)
+      .eq('organization_id', userOrg.organizationId)
+      .is('revoked_at', null)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error revoking share:', error)
+      return NextResponse.json(
+        { error: 'Failed to revoke share link' },
+        { status: 500 }
+      )
+    }
+
+    // RLS only lets the member who shared, owners and admins revoke
+    if (!share) {
+      return NextResponse.json(
+        { error: 'Share not found or you are not allowed to revoke it' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/history/shares/[shareId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
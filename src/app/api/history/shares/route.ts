@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { SHARE_LIMITS, createShareToken } from "@/lib/history/shares"
+import type { CreateSessionShareRequest } from "@/types/history"
+
+// GET /api/history/shares - Active shares of a session, or of the whole organization for owners and admins
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const sessionId = new URL(request.url).searchParams.get('session_id')
+
+    if (!sessionId) {
+      const { data: membership } = await supabase
+        .from('organization_members')
+        .select('role')
+        .eq('organization_id', userOrg.organizationId)
+        .eq('user_id', userOrg.user!.id)
+        .single()
+
+      if (!membership || !['owner', 'admin'].includes(membership.role)) {
+        return NextResponse.json(
+          { error: "Only owners and admins can list the organization's shares" },
+          { status: 403 }
+        )
+      }
+    }
+
+    let query = supabase
+      .from('session_shares')
+      .select('*, session:sessions(id, type, title)')
+      .eq('organization_id', userOrg.organizationId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
+
+    if (sessionId) {
+      query = query.eq('session_id', sessionId)
+    }
+
+    const { data: shares, error } = await query
+
+    if (error) {
+      console.error('Error fetching shares:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch shares' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ shares: shares || [] })
+  } catch (error) {
+    console.error('Error in GET /api/history/shares:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/history/shares - Create a read-only link to a session
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: CreateSessionShareRequest = await request.json()
+    const expiresInDays = body.expires_in_days ?? null
+
+    if (!body.session_id) {
+      return NextResponse.json(
+        { error: "session_id is required" },
+        { status: 400 }
+      )
+    }
+
+    if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > SHARE_LIMITS.MAX_EXPIRY_DAYS)) {
+      return NextResponse.json(
+        { error: `expires_in_days must be a whole number between 1 and ${SHARE_LIMITS.MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    // Verify the session belongs to the organization
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id')
+      .eq('id', body.session_id)
+      .eq('organization_id', userOrg.organizationId)
+      .is('deleted_at', null)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: share, error } = await supabase
+      .from('session_shares')
+      .insert({
+        token: createShareToken(),
+        session_id: session.id,
+        organization_id: userOrg.organizationId,
+        created_by: userOrg.user!.id,
+        expires_at: expiresInDays !== null
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating share:', error)
+      return NextResponse.json(
+        { error: 'Failed to create share link' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ share }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/history/shares:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_ORGANIZE_LIMITS, isSessionTagColor } from "@/lib/history/organize"
+import type { CreateSessionTagRequest } from "@/types/history"
+
+// PATCH /api/history/tags/[tagId] - Rename or recolor a tag
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tagId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { tagId } = await params
+    const body: Partial<CreateSessionTagRequest> = await request.json()
+    const updates: Partial<CreateSessionTagRequest> = {}
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name || name.length > HISTORY_ORGANIZE_LIMITS.MAX_TAG_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: `Tag names must be 1 to ${HISTORY_ORGANIZE_LIMITS.MAX_TAG_NAME_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      updates.name = name
+    }
+
+    if (body.color !== undefined) {
+      if (!isSessionTagColor(body.color)) {
+        return NextResponse.json(
+          { error: "Invalid tag color" },
+          { status: 400 }
+        )
+      }
+      updates.color = body.color
+    }
+
+    const { data: tag, error } = await supabase
+      .from('session_tags')
+      .update(updates)
+      .eq('id', tagId)
+      .eq('organization_id', userOrg.organizationId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A tag with this name already exists" },
+          { status: 409 }
+        )
+      }
+      console.error('Error updating session tag:', error)
+      return NextResponse.json(
+        { error: "Failed to update tag" },
+        { status: 500 }
+      )
+    }
+
+    if (!tag) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ tag })
+  } catch (error) {
+    console.error('Error in update session tag API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/history/tags/[tagId] - Delete a tag, removing it from every session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ tagId: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { tagId } = await params
+
+    const { data: deleted, error } = await supabase
+      .from('session_tags')
+      .delete()
+      .eq('id', tagId)
+      .eq('organization_id', userOrg.organizationId)
+      .select('id')
+
+    if (error) {
+      console.error('Error deleting session tag:', error)
+      return NextResponse.json(
+        { error: "Failed to delete tag" },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Tag not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in delete session tag API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
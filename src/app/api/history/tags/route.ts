@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { HISTORY_ORGANIZE_LIMITS, isSessionTagColor } from "@/lib/history/organize"
+import type { CreateSessionTagRequest } from "@/types/history"
+
+// GET /api/history/tags - List the organization's session tags
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { data: tags, error } = await supabase
+      .from('session_tags')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .order('name')
+
+    if (error) {
+      console.error('Error fetching session tags:', error)
+      return NextResponse.json(
+        { error: "Failed to fetch tags" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ tags: tags || [] })
+  } catch (error) {
+    console.error('Error in session tags API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/history/tags - Create a tag
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: CreateSessionTagRequest = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name || name.length > HISTORY_ORGANIZE_LIMITS.MAX_TAG_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Tag names must be 1 to ${HISTORY_ORGANIZE_LIMITS.MAX_TAG_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    if (body.color !== undefined && !isSessionTagColor(body.color)) {
+      return NextResponse.json(
+        { error: "Invalid tag color" },
+        { status: 400 }
+      )
+    }
+
+    const { data: tag, error } = await supabase
+      .from('session_tags')
+      .insert({
+        organization_id: userOrg.organizationId,
+        name,
+        color: body.color || 'gray',
+        created_by: userOrg.user.id
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A tag with this name already exists" },
+          { status: 409 }
+        )
+      }
+      console.error('Error creating session tag:', error)
+      return NextResponse.json(
+        { error: "Failed to create tag" },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ tag }, { status: 201 })
+  } catch (error) {
+    console.error('Error in create session tag API:', error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
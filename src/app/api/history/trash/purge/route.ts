@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { HISTORY_RETENTION_LIMITS, runHistoryRetention } from "@/lib/history/trash"
+
+// Prevent static optimization and ensure this route is always handled dynamically
+export const dynamic = 'force-dynamic'
+
+/**
+ * Retention job - applies each organization's retention policy and purges trashed sessions and
+ * artifacts, with their storage files, once the trash period has passed.
+ * Call this from a daily cron with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Retention job is not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || String(HISTORY_RETENTION_LIMITS.PURGE_BATCH_SIZE))
+
+    const supabase = createAdminClient()
+    const results = await runHistoryRetention(supabase, { limit })
+    const changed = results.filter(result =>
+      result.error || result.archived || result.trashed || result.purged_sessions || result.purged_artifacts
+    )
+
+    console.log(`HISTORY - Retention ran for ${results.length} organization(s)`)
+
+    return NextResponse.json({
+      organizations: results.length,
+      failed: results.filter(result => result.error).length,
+      archived: results.reduce((total, result) => total + result.archived, 0),
+      trashed: results.reduce((total, result) => total + result.trashed, 0),
+      purged_sessions: results.reduce((total, result) => total + result.purged_sessions, 0),
+      purged_artifacts: results.reduce((total, result) => total + result.purged_artifacts, 0),
+      removed_files: results.reduce((total, result) => total + result.removed_files, 0),
+      results: changed
+    })
+  } catch (error) {
+    console.error('Error in history retention job:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,247 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { isUuid } from "@/lib/history/organize"
+import { CHAT_ATTACHMENT_LIMITS } from "@/lib/chat/attachments"
+import { signPrivateUrls } from "@/lib/storage/signed-urls"
+import {
+  getPurgeDate,
+  HISTORY_RETENTION_LIMITS,
+  loadHistoryRetention,
+  purgeArtifacts,
+  purgeSessions
+} from "@/lib/history/trash"
+import type {
+  Artifact,
+  Session,
+  TrashAction,
+  TrashedArtifact,
+  TrashedSession,
+  TrashRequest,
+  TrashResponse
+} from "@/types/history"
+
+const TRASH_ACTIONS: TrashAction[] = ['restore', 'purge']
+
+type TrashedArtifactRow = Pick<Artifact, 'id' | 'type' | 'url' | 'filename' | 'mime_type' | 'created_at'> & {
+  deleted_at: string
+  interaction: { session: Pick<Session, 'id' | 'title' | 'type'> }
+}
+
+// The user's trashed sessions, and trashed artifacts of their sessions that are not in the trash,
+// limited to the given ids when there are any
+async function findOwnTrash(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  ids?: { sessionIds: string[]; artifactIds: string[] }
+) {
+  let sessionsQuery = supabase
+    .from('sessions')
+    .select('id, type, title, created_at, updated_at, deleted_at')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  let artifactsQuery = supabase
+    .from('artifacts')
+    .select(`
+      id, type, url, filename, mime_type, created_at, deleted_at,
+      interaction:interactions!inner(
+        session:sessions!inner(id, title, type, user_id, organization_id, deleted_at)
+      )
+    `)
+    .eq('interaction.session.organization_id', organizationId)
+    .eq('interaction.session.user_id', userId)
+    .is('interaction.session.deleted_at', null)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false })
+
+  if (ids) {
+    sessionsQuery = sessionsQuery.in('id', ids.sessionIds)
+    artifactsQuery = artifactsQuery.in('id', ids.artifactIds)
+  }
+
+  const [sessionsResult, artifactsResult] = await Promise.all([
+    ids?.sessionIds.length === 0 ? { data: [], error: null } : sessionsQuery,
+    ids?.artifactIds.length === 0 ? { data: [], error: null } : artifactsQuery
+  ])
+
+  if (sessionsResult.error || artifactsResult.error) {
+    throw new Error((sessionsResult.error || artifactsResult.error)!.message)
+  }
+
+  return {
+    sessions: (sessionsResult.data || []) as Omit<TrashedSession, 'purge_at'>[],
+    artifacts: (artifactsResult.data || []) as unknown as TrashedArtifactRow[]
+  }
+}
+
+// GET /api/history/trash - List the user's trashed sessions and artifacts with when they will be purged
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const [trash, retention] = await Promise.all([
+      findOwnTrash(supabase, userOrg.organizationId, userOrg.user.id),
+      loadHistoryRetention(supabase, userOrg.organizationId)
+    ])
+
+    // Attachments in private buckets are shown through signed URLs
+    const artifacts = await signPrivateUrls(supabase, trash.artifacts, CHAT_ATTACHMENT_LIMITS.SIGNED_URL_SECONDS)
+
+    const response: TrashResponse = {
+      sessions: trash.sessions.map(session => ({
+        ...session,
+        purge_at: getPurgeDate(session.deleted_at, retention.trash_days)
+      })),
+      artifacts: artifacts.map(({ interaction, ...artifact }): TrashedArtifact => ({
+        ...artifact,
+        session_id: interaction.session.id,
+        session_title: interaction.session.title,
+        session_type: interaction.session.type,
+        purge_at: getPurgeDate(artifact.deleted_at, retention.trash_days)
+      })),
+      trash_days: retention.trash_days
+    }
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('Error in trash API:', error)
+    return NextResponse.json(
+      { error: "Failed to load trash" },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/history/trash - Restore or permanently delete trashed sessions and artifacts.
+// Only the user's own items are changed; others are skipped
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const body: TrashRequest = await request.json()
+
+    if (!TRASH_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: "Invalid action" },
+        { status: 400 }
+      )
+    }
+
+    const sessionIds = body.session_ids || []
+    const artifactIds = body.artifact_ids || []
+    if (!Array.isArray(sessionIds) || !Array.isArray(artifactIds) || ![...sessionIds, ...artifactIds].every(isUuid)) {
+      return NextResponse.json(
+        { error: "session_ids and artifact_ids must be lists of ids" },
+        { status: 400 }
+      )
+    }
+
+    const itemCount = sessionIds.length + artifactIds.length
+    if (itemCount === 0 || itemCount > HISTORY_RETENTION_LIMITS.MAX_TRASH_ITEMS) {
+      return NextResponse.json(
+        { error: `Select between 1 and ${HISTORY_RETENTION_LIMITS.MAX_TRASH_ITEMS} items` },
+        { status: 400 }
+      )
+    }
+
+    const trash = await findOwnTrash(supabase, userOrg.organizationId, userOrg.user.id, { sessionIds, artifactIds })
+    const ownSessionIds = trash.sessions.map(session => session.id)
+    const ownArtifactIds = trash.artifacts.map(artifact => artifact.id)
+
+    if (ownSessionIds.length === 0 && ownArtifactIds.length === 0) {
+      return NextResponse.json(
+        { error: "None of the items are in your trash" },
+        { status: 404 }
+      )
+    }
+
+    if (body.action === 'restore') {
+      const [sessionsResult, artifactsResult] = await Promise.all([
+        ownSessionIds.length > 0
+          ? supabase.from('sessions').update({ deleted_at: null }).in('id', ownSessionIds)
+          : { error: null },
+        ownArtifactIds.length > 0
+          ? supabase.from('artifacts').update({ deleted_at: null }).in('id', ownArtifactIds)
+          : { error: null }
+      ])
+
+      if (sessionsResult.error || artifactsResult.error) {
+        console.error('Error restoring from trash:', sessionsResult.error || artifactsResult.error)
+        return NextResponse.json(
+          { error: "Failed to restore items" },
+          { status: 500 }
+        )
+      }
+    } else {
+      const admin = createAdminClient()
+      await purgeSessions(supabase, admin, ownSessionIds)
+      await purgeArtifacts(supabase, admin, ownArtifactIds)
+    }
+
+    return NextResponse.json({
+      sessions: ownSessionIds,
+      artifacts: ownArtifactIds,
+      skipped: [...sessionIds, ...artifactIds].filter(id => !ownSessionIds.includes(id) && !ownArtifactIds.includes(id))
+    })
+  } catch (error) {
+    console.error('Error in trash API:', error)
+    return NextResponse.json(
+      { error: "Failed to update trash" },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/history/trash - Empty the user's trash
+export async function DELETE() {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const trash = await findOwnTrash(supabase, userOrg.organizationId, userOrg.user.id)
+    const admin = createAdminClient()
+    const purgedSessions = await purgeSessions(supabase, admin, trash.sessions.map(session => session.id))
+    const purgedArtifacts = await purgeArtifacts(supabase, admin, trash.artifacts.map(artifact => artifact.id))
+
+    return NextResponse.json({
+      sessions: purgedSessions.sessions,
+      artifacts: purgedSessions.artifacts + purgedArtifacts.artifacts,
+      files: purgedSessions.files + purgedArtifacts.files
+    })
+  } catch (error) {
+    console.error('Error emptying trash:', error)
+    return NextResponse.json(
+      { error: "Failed to empty trash" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { getUserAndOrganization } from "@/lib/supabase/credits"
+import { canManageKnowledgeBase } from "@/lib/knowledge/documents"
+
+// GET /api/knowledge/documents/[documentId] - Get a document with its chunks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const { documentId } = await params
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { data: document, error } = await supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('id', documentId)
+      .eq('organization_id', userOrg.organizationId)
+      .single()
+
+    if (error || !document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: chunks, error: chunksError } = await supabase
+      .from('knowledge_chunks')
+      .select('id, document_id, chunk_index, content, token_count')
+      .eq('document_id', documentId)
+      .order('chunk_index', { ascending: true })
+
+    if (chunksError) {
+      console.error('Error fetching knowledge chunks:', chunksError)
+      return NextResponse.json(
+        { error: 'Failed to fetch document chunks' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ document, chunks: chunks || [] })
+  } catch (error) {
+    console.error('Error in GET /api/knowledge/documents/[documentId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/knowledge/documents/[documentId] - Remove a document and its chunks
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ documentId: string }> }
+) {
+  try {
+    const { documentId } = await params
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    if (!(await canManageKnowledgeBase(supabase, userOrg.organizationId, userOrg.user!.id))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can remove documents from the knowledge base" },
+        { status: 403 }
+      )
+    }
+
+    // Chunks are removed with the document
+    const { error } = await supabase
+      .from('knowledge_documents')
+      .delete()
+      .eq('id', documentId)
+      .eq('organization_id', userOrg.organizationId)
+
+    if (error) {
+      console.error('Error deleting knowledge document:', error)
+      return NextResponse.json(
+        { error: 'Failed to delete document' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in DELETE /api/knowledge/documents/[documentId]:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,232 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits"
+import {
+  CREDIT_DESCRIPTIONS,
+  CREDIT_ERRORS,
+  calculateKnowledgeUploadCost
+} from "@/lib/supabase/creditConstants"
+import { getOrganizationLLMProvider } from "@/lib/llm"
+import { getAttachmentKind } from "@/lib/chat/attachments"
+import {
+  KNOWLEDGE_LIMITS,
+  canManageKnowledgeBase,
+  chunkDocument,
+  estimateEmbeddingUsage,
+  indexKnowledgeDocument
+} from "@/lib/knowledge/documents"
+
+// GET /api/knowledge/documents - List the organization's knowledge base documents
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    const { data: documents, error } = await supabase
+      .from('knowledge_documents')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching knowledge documents:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch documents' },
+        { status: 500 }
+      )
+    }
+
+    const canManage = await canManageKnowledgeBase(supabase, userOrg.organizationId, userOrg.user!.id)
+
+    return NextResponse.json({ documents: documents || [], canManage })
+  } catch (error) {
+    console.error('Error in GET /api/knowledge/documents:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/knowledge/documents - Upload a document, then chunk and embed it
+export async function POST(request: NextRequest) {
+  // Open credit hold, returned to the organization if indexing fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null
+
+  try {
+    const supabase = await createClient()
+    const userOrg = await getUserAndOrganization(supabase)
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      )
+    }
+
+    if (!(await canManageKnowledgeBase(supabase, userOrg.organizationId, userOrg.user!.id))) {
+      return NextResponse.json(
+        { error: "Only owners and admins can add documents to the knowledge base" },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: "A file is required" },
+        { status: 400 }
+      )
+    }
+
+    // PDFs and images would need extraction first; only text formats are indexed
+    const kind = getAttachmentKind(file)
+    if (kind?.kind !== 'text') {
+      return NextResponse.json(
+        { error: "Only text documents (.txt, .md, .csv, .json) can be added to the knowledge base" },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > KNOWLEDGE_LIMITS.MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `Documents can be at most ${KNOWLEDGE_LIMITS.MAX_FILE_BYTES / (1024 * 1024)}MB` },
+        { status: 400 }
+      )
+    }
+
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId)
+
+    if (!provider.embeddingModel) {
+      return NextResponse.json(
+        { error: `Embeddings are not available with ${provider.label}. Set an embedding model in the LLM provider settings.` },
+        { status: 400 }
+      )
+    }
+
+    const chunks = chunkDocument(await file.text())
+
+    if (chunks.length === 0) {
+      return NextResponse.json(
+        { error: "The document is empty" },
+        { status: 400 }
+      )
+    }
+
+    if (chunks.length > KNOWLEDGE_LIMITS.MAX_CHUNKS) {
+      return NextResponse.json(
+        { error: `The document is too long to index (${chunks.length} chunks, at most ${KNOWLEDGE_LIMITS.MAX_CHUNKS})` },
+        { status: 400 }
+      )
+    }
+
+    const description = `${CREDIT_DESCRIPTIONS.KNOWLEDGE_UPLOAD}: ${file.name}`
+    const estimatedCost = calculateKnowledgeUploadCost({
+      model: provider.embeddingModel,
+      ...estimateEmbeddingUsage(chunks)
+    })
+
+    const reservationResult = await reserveCredits(
+      supabase,
+      userOrg.organizationId,
+      estimatedCost,
+      description,
+      'knowledge_base'
+    )
+
+    if (!reservationResult.success || !reservationResult.reservationId) {
+      return NextResponse.json(
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      )
+    }
+
+    const admin = createAdminClient()
+    reservation = { supabase: admin, id: reservationResult.reservationId }
+
+    const { data: document, error: insertError } = await supabase
+      .from('knowledge_documents')
+      .insert({
+        organization_id: userOrg.organizationId,
+        uploaded_by: userOrg.user!.id,
+        filename: file.name,
+        mime_type: kind.mimeType,
+        size_bytes: file.size,
+        status: 'processing'
+      })
+      .select()
+      .single()
+
+    if (insertError || !document) {
+      throw new Error(`Failed to save document: ${insertError?.message || 'Unknown error'}`)
+    }
+
+    let usage
+    try {
+      usage = await indexKnowledgeDocument(supabase, provider, {
+        documentId: document.id,
+        organizationId: userOrg.organizationId,
+        chunks
+      })
+    } catch (indexError) {
+      const message = indexError instanceof Error ? indexError.message : 'Unknown error'
+      await supabase
+        .from('knowledge_documents')
+        .update({ status: 'failed', error: message, updated_at: new Date().toISOString() })
+        .eq('id', document.id)
+      throw indexError
+    }
+
+    // Settled from the tokens the provider counted; the hold is the most that can be charged
+    const costCredits = Math.min(
+      calculateKnowledgeUploadCost({ model: provider.embeddingModel, inputTokens: usage.inputTokens }),
+      estimatedCost
+    )
+    const settleResult = await settleCreditReservation(supabase, admin, userOrg.organizationId, reservation.id, costCredits, description)
+    reservation = null
+
+    if (!settleResult.success) {
+      await supabase.from('knowledge_documents').delete().eq('id', document.id)
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      )
+    }
+
+    const { data: indexed } = await supabase
+      .from('knowledge_documents')
+      .update({ cost_credits: costCredits })
+      .eq('id', document.id)
+      .select()
+      .single()
+
+    return NextResponse.json({ document: indexed || document }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/knowledge/documents:', error)
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED)
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to index document' },
+      { status: 500 }
+    )
+  }
+}
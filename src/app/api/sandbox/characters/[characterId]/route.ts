@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import {
+  parseCharacterSheetFields,
+  removeReferenceImages,
+  storeReferenceImages
+} from "@/lib/sandbox/characters";
+import type { CharacterSheetRequest } from "@/types/sandbox";
+
+// PATCH /api/sandbox/characters/[characterId] - Update a character sheet. Reference images, when
+// given, replace the current ones
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ characterId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { characterId } = await params;
+    const body: Partial<CharacterSheetRequest> = await request.json();
+    const parsed = parseCharacterSheetFields(body, { requireName: false });
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('character_sheets')
+      .select('reference_images')
+      .eq('id', characterId)
+      .eq('organization_id', userOrg.organizationId)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Error fetching character sheet:', existingError);
+      return NextResponse.json(
+        { error: "Failed to update character" },
+        { status: 500 }
+      );
+    }
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Character not found" },
+        { status: 404 }
+      );
+    }
+
+    const updates: Record<string, unknown> = { ...parsed.fields };
+    if (body.reference_images !== undefined) {
+      try {
+        updates.reference_images = await storeReferenceImages(supabase, userOrg.organizationId, body.reference_images);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid reference images" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { data: character, error } = await supabase
+      .from('character_sheets')
+      .update(updates)
+      .eq('id', characterId)
+      .eq('organization_id', userOrg.organizationId)
+      .select()
+      .single();
+
+    if (error) {
+      // Don't leave behind images uploaded for this update
+      if (Array.isArray(updates.reference_images)) {
+        const previous = existing.reference_images as string[];
+        await removeReferenceImages(
+          supabase,
+          userOrg.organizationId,
+          (updates.reference_images as string[]).filter(url => !previous.includes(url))
+        );
+      }
+
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A character with this name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating character sheet:', error);
+      return NextResponse.json(
+        { error: "Failed to update character" },
+        { status: 500 }
+      );
+    }
+
+    // Remove uploaded images the sheet no longer uses
+    const kept = character.reference_images as string[];
+    await removeReferenceImages(
+      supabase,
+      userOrg.organizationId,
+      (existing.reference_images as string[]).filter(url => !kept.includes(url))
+    );
+
+    return NextResponse.json({ character });
+  } catch (error) {
+    console.error('Error in update character sheet API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sandbox/characters/[characterId] - Delete a character sheet and its uploaded reference
+// images. Images generated with the character stay in their sessions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ characterId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { characterId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from('character_sheets')
+      .delete()
+      .eq('id', characterId)
+      .eq('organization_id', userOrg.organizationId)
+      .select('reference_images');
+
+    if (error) {
+      console.error('Error deleting character sheet:', error);
+      return NextResponse.json(
+        { error: "Failed to delete character" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Character not found" },
+        { status: 404 }
+      );
+    }
+
+    await removeReferenceImages(supabase, userOrg.organizationId, deleted[0].reference_images as string[]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in delete character sheet API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
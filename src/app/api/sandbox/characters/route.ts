@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import {
+  parseCharacterSheetFields,
+  removeReferenceImages,
+  storeReferenceImages
+} from "@/lib/sandbox/characters";
+import type { CharacterSheetRequest } from "@/types/sandbox";
+
+// GET /api/sandbox/characters - List the organization's character sheets
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { data: characters, error } = await supabase
+      .from('character_sheets')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching character sheets:', error);
+      return NextResponse.json(
+        { error: "Failed to fetch characters" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ characters: characters || [] });
+  } catch (error) {
+    console.error('Error in character sheets API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sandbox/characters - Create a character sheet, storing uploaded reference images
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const body: CharacterSheetRequest = await request.json();
+    const parsed = parseCharacterSheetFields(body, { requireName: true });
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    let referenceImages: string[];
+    try {
+      referenceImages = await storeReferenceImages(supabase, userOrg.organizationId, body.reference_images || []);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Invalid reference images" },
+        { status: 400 }
+      );
+    }
+
+    const { data: character, error } = await supabase
+      .from('character_sheets')
+      .insert({
+        ...parsed.fields,
+        organization_id: userOrg.organizationId,
+        reference_images: referenceImages,
+        created_by: userOrg.user.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Don't leave the uploaded images of a sheet that wasn't created
+      await removeReferenceImages(supabase, userOrg.organizationId, referenceImages);
+
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A character with this name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating character sheet:', error);
+      return NextResponse.json(
+        { error: "Failed to create character" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ character }, { status: 201 });
+  } catch (error) {
+    console.error('Error in create character sheet API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,32 @@
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { checkAndDeductCredits, getUserAndOrganization } from "@/lib/supabase/credits";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
 import { 
   CREDIT_ERRORS,
-  CREDIT_COSTS
+  CREDIT_COSTS,
+  CREDIT_DESCRIPTIONS
 } from "@/lib/supabase/creditConstants";
 import { uploadImagesFromUrls, ImageUploadResult } from "@/lib/storage/image-upload";
-import OpenAI from "openai";
-
-// Initialize OpenAI client
-const openai = new OpenAI();
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import { enqueueGenerationJob, GENERATION_JOB_LIMITS, runGenerationJob } from "@/lib/sandbox/generation-jobs";
+import { resolveParentArtifactIds } from "@/lib/sandbox/lineage";
+import { SupabaseClient } from "@supabase/supabase-js";
 
 /**
- * API route for creating image variations with OpenAI (DALL-E 2)
+ * API route for creating image variations with the organization's LLM provider (DALL-E 2 on OpenAI).
+ * With `background`, the variations are created by a generation job and the response returns the
+ * queued job. A sandbox image sent as `parentArtifactId` is recorded as the source of the variations
  */
 export async function POST(request: Request) {
+  // Open credit hold, returned to the organization if the request fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
   try {
     const formData = await request.formData();
     
@@ -23,6 +35,8 @@ export async function POST(request: Request) {
     const size = formData.get('size') as string || '1024x1024';
     const sessionId = formData.get('sessionId') as string || null;
     const sessionType = formData.get('sessionType') as string || 'sandbox';
+    const background = formData.get('background') === 'true';
+    const parentArtifactId = formData.get('parentArtifactId');
     
     // Get the image file
     const imageFile = formData.get('image') as File;
@@ -79,6 +93,24 @@ export async function POST(request: Request) {
         { status: userOrg.status || 401 }
       );
     }
+
+    const parentArtifactIds = await resolveParentArtifactIds(supabase, userOrg.organizationId, [parentArtifactId]);
+
+    if (!parentArtifactIds) {
+      return NextResponse.json(
+        { error: "Source image not found" },
+        { status: 400 }
+      );
+    }
+    
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
     
     // Calculate credit cost for image variations (same as regular image generation)
     const baseCost = CREDIT_COSTS.GENERATION.IMAGE;
@@ -87,62 +119,91 @@ export async function POST(request: Request) {
     // Credit description
     const description = `Image variations: ${count} variation${count > 1 ? 's' : ''}`;
     
-    // Check and deduct credits
-    const creditResult = await checkAndDeductCredits(
+    // Reserve credits for every requested image; settled once we know how many were returned
+    const reservationResult = await reserveCredits(
       supabase,
       userOrg.organizationId,
       creditCost,
       description,
-      'image_variation'
+      'image_variation',
+      background ? GENERATION_JOB_LIMITS.HOLD_MINUTES : undefined
     );
     
-    if (!creditResult.success) {
+    if (!reservationResult.success || !reservationResult.reservationId) {
       return NextResponse.json(
-        { error: creditResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
         { status: 402 }
       );
     }
+
+    const admin = createAdminClient();
+    reservation = { supabase: admin, id: reservationResult.reservationId };
+
+    const sessionTitle = sessionType === 'magic_ads' 
+      ? `Magic Ad Variations: ${count} variation${count > 1 ? 's' : ''}` 
+      : `Ad Variations: ${count} variation${count > 1 ? 's' : ''}`;
+
+    if (background) {
+      const job = await enqueueGenerationJob(admin, {
+        organizationId: userOrg.organizationId,
+        userId: userOrg.user!.id,
+        sessionId,
+        kind: 'variation',
+        params: {
+          size,
+          content: `Created ${count} variation${count > 1 ? 's' : ''} of uploaded image`,
+          session_type: sessionType,
+          session_title: sessionTitle,
+          session_metadata: { size, imageCount: count, action: 'variations' },
+          interaction_metadata: { size, action: 'variations' },
+          artifact_metadata: { size, action: 'variations' },
+          parent_artifact_ids: parentArtifactIds
+        },
+        inputs: [imageFile],
+        total: count,
+        costPerImage: baseCost,
+        reservationId: reservation.id
+      });
+      reservation = null;
+
+      // The worker keeps running after the response; the cron worker resumes it if it stops
+      after(() => runGenerationJob(createAdminClient(), job));
+
+      return NextResponse.json(
+        { success: true, message: "Image variations queued", job },
+        { status: 202 }
+      );
+    }
     
     console.log(`Creating ${count} variation${count > 1 ? 's' : ''} of uploaded image (size: ${size})`);
     
-    // Array to store all generated image URLs
-    const allImageUrls: string[] = [];
+    const allImageUrls = await provider.createImageVariations({ image: imageFile, count, size });
     
-    try {
-      const result = await openai.images.createVariation({
-        model: "dall-e-2", // Only DALL-E 2 supports variations
-        image: imageFile,
-        n: count,
-        size: size as "256x256" | "512x512" | "1024x1024",
-        response_format: "url" // DALL-E 2 supports URL response format
-      });
-      
-      if (result.data && result.data.length > 0) {
-        for (let i = 0; i < result.data.length; i++) {
-          const imageData = result.data[i];
-          if (imageData.url) {
-            allImageUrls.push(imageData.url);
-          }
-        }
-      }
-    } catch (err) {
-      console.error(`Error creating image variations:`, err);
-      
-      // Check if it's an OpenAI API error with more details
-      if (err instanceof Error) {
-        // Pass through the actual OpenAI error message
-        throw new Error(`DALL-E 2 API Error: ${err.message}`);
-      }
-      
-      throw new Error("Failed to create image variations with DALL-E 2");
-    }
-    
-    console.log(`OpenAI returned ${allImageUrls.length} variation URLs`);
+    console.log(`Provider returned ${allImageUrls.length} variations`);
     
     if (allImageUrls.length === 0) {
       throw new Error("Failed to create any variations");
     }
 
+    // Charge only for the images the provider actually returned
+    const chargedCredits = baseCost * allImageUrls.length;
+    const settleResult = await settleCreditReservation(
+      supabase,
+      admin,
+      userOrg.organizationId,
+      reservation.id,
+      chargedCredits,
+      `Image variations: ${allImageUrls.length} of ${count} variation${count > 1 ? 's' : ''}`
+    );
+    reservation = null;
+
+    if (!settleResult.success) {
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
     // Try to upload variation images to permanent storage (optional - graceful fallback)
     console.log("Attempting to upload variation images to Supabase Storage...");
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -186,6 +247,8 @@ export async function POST(request: Request) {
 
     // Create or use existing session
     let currentSessionId = sessionId;
+    // Artifacts of the variations, in order, so the client can continue from them
+    let artifactIds: string[] = [];
 
     if (!currentSessionId) {
       // Create a new session for this variation creation
@@ -195,9 +258,7 @@ export async function POST(request: Request) {
           organization_id: userOrg.organizationId,
           user_id: userOrg.user!.id,
           type: sessionType,
-          title: sessionType === 'magic_ads' 
-            ? `Magic Ad Variations: ${count} variation${count > 1 ? 's' : ''}` 
-            : `Ad Variations: ${count} variation${count > 1 ? 's' : ''}`,
+          title: sessionTitle,
           metadata: { 
             size: size,
             imageCount: count,
@@ -237,7 +298,7 @@ export async function POST(request: Request) {
             count: allImageUrls.length,
             action: 'variations'
           },
-          cost_credits: creditCost,
+          cost_credits: chargedCredits,
           sequence: nextSequence
         })
         .select()
@@ -249,6 +310,8 @@ export async function POST(request: Request) {
           interaction_id: interaction.id,
           type: 'image' as const,
           url: url,
+          operation: 'variation',
+          parent_artifact_ids: parentArtifactIds,
           metadata: { 
             index,
             size: size,
@@ -258,13 +321,15 @@ export async function POST(request: Request) {
           }
         }));
 
-        const { error: artifactsError } = await supabase
+        const { data: savedArtifacts, error: artifactsError } = await supabase
           .from('artifacts')
-          .insert(artifacts);
+          .insert(artifacts)
+          .select('id');
 
         if (artifactsError) {
           console.error('Error creating artifacts:', artifactsError);
         }
+        artifactIds = (savedArtifacts || []).map(artifact => artifact.id);
       }
     }
     
@@ -274,11 +339,12 @@ export async function POST(request: Request) {
       message: "Image variations created successfully",
       sessionId: currentSessionId,
       credits: {
-        cost: creditCost,
-        remaining: creditResult.newBalance
+        cost: chargedCredits,
+        remaining: settleResult.newBalance
       },
       data: {
         imageUrls: permanentImageUrls,
+        artifactIds,
         count: permanentImageUrls.length,
         size: size,
         timestamp: new Date().toISOString(),
@@ -292,6 +358,11 @@ export async function POST(request: Request) {
     });
   } catch (error) {
     console.error("Error in image variations API:", error);
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
     let errorMessage = "Failed to create image variations";
     if (error instanceof Error) {
       errorMessage = error.message;
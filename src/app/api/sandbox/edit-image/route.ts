@@ -1,36 +1,32 @@
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { checkAndDeductCredits, getUserAndOrganization } from "@/lib/supabase/credits";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
 import { 
   CREDIT_ERRORS,
-  CREDIT_COSTS
+  CREDIT_COSTS,
+  CREDIT_DESCRIPTIONS
 } from "@/lib/supabase/creditConstants";
 import { uploadImagesFromUrls, ImageUploadResult } from "@/lib/storage/image-upload";
-import OpenAI from "openai";
-
-// Initialize OpenAI client
-const openai = new OpenAI();
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import { enqueueGenerationJob, GENERATION_JOB_LIMITS, runGenerationJob } from "@/lib/sandbox/generation-jobs";
+import { resolveParentArtifactIds } from "@/lib/sandbox/lineage";
+import { SupabaseClient } from "@supabase/supabase-js";
 
 /**
- * Prepares images for GPT-Image-1 API
- * GPT-Image-1 supports up to 16 images natively as an array
- * @param imageFiles - Array of image files
- * @returns Single image or array of images for the API
- */
-function prepareImagesForAPI(imageFiles: File[]): File | File[] {
-  if (imageFiles.length === 1) {
-    return imageFiles[0];
-  }
-  
-  // GPT-Image-1 supports multiple images natively (up to 16)
-  console.log(`Sending ${imageFiles.length} images to GPT-Image-1 for editing`);
-  return imageFiles;
-}
-
-/**
- * API route for editing images with OpenAI
+ * API route for editing images with the organization's LLM provider. With `background`, the
+ * images are edited by a generation job and the response returns the queued job. Sandbox images
+ * sent as `parentArtifactId` fields are recorded as the sources of the edited images
  */
 export async function POST(request: Request) {
+  // Open credit hold, returned to the organization if the request fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
   try {
     const formData = await request.formData();
     
@@ -41,6 +37,8 @@ export async function POST(request: Request) {
     const size = formData.get('size') as string || '1024x1024';
     const sessionId = formData.get('sessionId') as string || null;
     const sessionType = formData.get('sessionType') as string || 'sandbox';
+    const background = formData.get('background') === 'true';
+    const parentArtifactValues = formData.getAll('parentArtifactId');
     
     // Get image files
     const imageFiles: File[] = [];
@@ -125,6 +123,24 @@ export async function POST(request: Request) {
         { status: userOrg.status || 401 }
       );
     }
+
+    const parentArtifactIds = await resolveParentArtifactIds(supabase, userOrg.organizationId, parentArtifactValues);
+
+    if (!parentArtifactIds) {
+      return NextResponse.json(
+        { error: "Source image not found" },
+        { status: 400 }
+      );
+    }
+    
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
     
     // Calculate credit cost for image editing (1.5x regular image generation)
     const baseCost = Math.round(CREDIT_COSTS.GENERATION.IMAGE * 1.5);
@@ -133,78 +149,98 @@ export async function POST(request: Request) {
     // Credit description
     const description = `Image editing: ${count} image${count > 1 ? 's' : ''}`;
     
-    // Check and deduct credits
-    const creditResult = await checkAndDeductCredits(
+    // Reserve credits for every requested image; settled once we know how many were returned
+    const reservationResult = await reserveCredits(
       supabase,
       userOrg.organizationId,
       creditCost,
       description,
-      'image_edit'
+      'image_edit',
+      background ? GENERATION_JOB_LIMITS.HOLD_MINUTES : undefined
     );
     
-    if (!creditResult.success) {
+    if (!reservationResult.success || !reservationResult.reservationId) {
       return NextResponse.json(
-        { error: creditResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
         { status: 402 }
       );
     }
+
+    const admin = createAdminClient();
+    reservation = { supabase: admin, id: reservationResult.reservationId };
     
-    // Convert quality for GPT Image 1
-    const gptImageQuality = quality === "hd" ? "high" : 
-                           quality === "standard" ? "medium" : 
+    // History metadata records the quality in GPT Image 1 terms
+    const gptImageQuality = quality === "hd" ? "high" :
+                           quality === "standard" ? "medium" :
                            quality as "low" | "medium" | "high" | "auto";
-    
-    console.log(`Editing ${imageFiles.length} image(s) with prompt: "${prompt.substring(0, 30)}..." (quality: ${gptImageQuality})`);
-    
-    // Array to store all generated image URLs
-    const allImageUrls: string[] = [];
-    
-    try {
-      // Prepare images for GPT-Image-1 (supports multiple images natively)
-      const imagesToEdit = prepareImagesForAPI(imageFiles);
-      
-      const result = await openai.images.edit({
-        model: "gpt-image-1",
-        image: imagesToEdit,
-        prompt: prompt,
-        n: count,
-        quality: gptImageQuality,
-        size: size as "1024x1024" // Cast to supported type while GPT-Image-1 API handles additional sizes
-      } as Parameters<typeof openai.images.edit>[0]);
-      
-      if (result.data && result.data.length > 0) {
-        for (let i = 0; i < result.data.length; i++) {
-          const imageData = result.data[i];
-          if (imageData.b64_json) {
-            // Convert base64 to data URL for immediate use
-            const dataUrl = `data:image/png;base64,${imageData.b64_json}`;
-            allImageUrls.push(dataUrl);
-          }
-        }
-      }
-    } catch (err) {
-      console.error(`Error editing images:`, err);
-      
-      // Check if it's an OpenAI API error with more details
-      if (err instanceof Error) {
-        // If it's a verification error, provide helpful message
-        if (err.message.includes('verification') || err.message.includes('verified')) {
-          throw new Error("Organization verification required for GPT Image 1. Please verify your OpenAI organization in the OpenAI console.");
-        }
-        
-        // Pass through the actual OpenAI error message
-        throw new Error(`GPT Image 1 API Error: ${err.message}`);
-      }
-      
-      throw new Error("Failed to edit images with GPT Image 1");
+
+    const sessionTitle = sessionType === 'magic_ads' 
+      ? `Magic Ad Edit: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}` 
+      : `Ad Edit: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`;
+
+    if (background) {
+      const job = await enqueueGenerationJob(admin, {
+        organizationId: userOrg.organizationId,
+        userId: userOrg.user!.id,
+        sessionId,
+        kind: 'edit',
+        params: {
+          prompt,
+          quality,
+          size,
+          content: prompt,
+          session_type: sessionType,
+          session_title: sessionTitle,
+          session_metadata: { style: quality, prompt, imageCount: count, action: 'edit' },
+          interaction_metadata: { quality: gptImageQuality, originalImageCount: imageFiles.length, action: 'edit' },
+          artifact_metadata: { prompt, quality: gptImageQuality, action: 'edit' },
+          parent_artifact_ids: parentArtifactIds
+        },
+        inputs: imageFiles,
+        total: count,
+        costPerImage: baseCost,
+        reservationId: reservation.id
+      });
+      reservation = null;
+
+      // The worker keeps running after the response; the cron worker resumes it if it stops
+      after(() => runGenerationJob(createAdminClient(), job));
+
+      return NextResponse.json(
+        { success: true, message: "Image editing queued", job },
+        { status: 202 }
+      );
     }
+
+    console.log(`Editing ${imageFiles.length} image(s) with prompt: "${prompt.substring(0, 30)}..." (quality: ${gptImageQuality}, provider: ${provider.id})`);
     
-    console.log(`OpenAI returned ${allImageUrls.length} edited image URLs`);
+    const allImageUrls = await provider.editImages({ images: imageFiles, prompt, count, quality, size });
+    
+    console.log(`Provider returned ${allImageUrls.length} edited images`);
     
     if (allImageUrls.length === 0) {
       throw new Error("Failed to edit any images");
     }
 
+    // Charge only for the images the provider actually returned
+    const chargedCredits = baseCost * allImageUrls.length;
+    const settleResult = await settleCreditReservation(
+      supabase,
+      admin,
+      userOrg.organizationId,
+      reservation.id,
+      chargedCredits,
+      `Image editing: ${allImageUrls.length} of ${count} image${count > 1 ? 's' : ''}`
+    );
+    reservation = null;
+
+    if (!settleResult.success) {
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
     // Try to upload edited images to permanent storage (optional - graceful fallback)
     console.log("Attempting to upload edited images to Supabase Storage...");
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -248,6 +284,8 @@ export async function POST(request: Request) {
 
     // Create or use existing session
     let currentSessionId = sessionId;
+    // Artifacts of the edited images, in order, so the client can continue from them
+    let artifactIds: string[] = [];
 
     if (!currentSessionId) {
       // Create a new session for this editing
@@ -257,9 +295,7 @@ export async function POST(request: Request) {
           organization_id: userOrg.organizationId,
           user_id: userOrg.user!.id,
           type: sessionType,
-          title: sessionType === 'magic_ads' 
-            ? `Magic Ad Edit: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}` 
-            : `Ad Edit: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`,
+          title: sessionTitle,
           metadata: { 
             style: quality, 
             prompt: prompt,
@@ -301,7 +337,7 @@ export async function POST(request: Request) {
             originalImageCount: imageFiles.length,
             action: 'edit'
           },
-          cost_credits: creditCost,
+          cost_credits: chargedCredits,
           sequence: nextSequence
         })
         .select()
@@ -313,6 +349,8 @@ export async function POST(request: Request) {
           interaction_id: interaction.id,
           type: 'image' as const,
           url: url,
+          operation: 'edit',
+          parent_artifact_ids: parentArtifactIds,
           metadata: { 
             index,
             prompt,
@@ -323,13 +361,15 @@ export async function POST(request: Request) {
           }
         }));
 
-        const { error: artifactsError } = await supabase
+        const { data: savedArtifacts, error: artifactsError } = await supabase
           .from('artifacts')
-          .insert(artifacts);
+          .insert(artifacts)
+          .select('id');
 
         if (artifactsError) {
           console.error('Error creating artifacts:', artifactsError);
         }
+        artifactIds = (savedArtifacts || []).map(artifact => artifact.id);
       }
     }
     
@@ -339,11 +379,12 @@ export async function POST(request: Request) {
       message: "Images edited successfully",
       sessionId: currentSessionId,
       credits: {
-        cost: creditCost,
-        remaining: creditResult.newBalance
+        cost: chargedCredits,
+        remaining: settleResult.newBalance
       },
       data: {
         imageUrls: permanentImageUrls,
+        artifactIds,
         count: permanentImageUrls.length,
         prompt: prompt,
         timestamp: new Date().toISOString(),
@@ -357,6 +398,11 @@ export async function POST(request: Request) {
     });
   } catch (error) {
     console.error("Error in image editing API:", error);
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
     let errorMessage = "Failed to edit images";
     if (error instanceof Error) {
       errorMessage = error.message;
@@ -0,0 +1,262 @@
+import { after, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCreditBatch
+} from "@/lib/supabase/credits";
+import {
+  CREDIT_ERRORS,
+  CREDIT_DESCRIPTIONS,
+  CREDIT_COSTS
+} from "@/lib/supabase/creditConstants";
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import { enqueueGenerationJob, GENERATION_JOB_LIMITS, runGenerationJob } from "@/lib/sandbox/generation-jobs";
+import { PRESET_LIMITS } from "@/lib/sandbox/presets";
+import { isUuid } from "@/lib/history/organize";
+import type { GenerationJob } from "@/types/sandbox";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * API route for generating a batch of prompts, e.g. a preset template filled from the rows of a
+ * CSV. Every prompt is a generation job with its own credit hold; the jobs save to one session and
+ * run one after the other. With `presetId`, each prompt counts as a use of the preset
+ */
+export async function POST(request: Request) {
+  // Credit holds not yet handed to a job, returned to the organization if the request fails
+  const reservations: { supabase: SupabaseClient; id: string }[] = [];
+
+  try {
+    const { prompts, count = 1, quality = "standard", size = "1024x1024", sessionId = null, presetId = null } = await request.json();
+
+    // Validate input
+    if (!Array.isArray(prompts) || prompts.length === 0 || prompts.length > PRESET_LIMITS.MAX_BATCH_ROWS) {
+      return NextResponse.json(
+        { error: `A batch must have 1 to ${PRESET_LIMITS.MAX_BATCH_ROWS} prompts` },
+        { status: 400 }
+      );
+    }
+
+    if (!prompts.every(prompt => typeof prompt === 'string' && prompt.trim() && prompt.length <= PRESET_LIMITS.MAX_PROMPT_LENGTH)) {
+      return NextResponse.json(
+        { error: `Prompts must be 1 to ${PRESET_LIMITS.MAX_PROMPT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > PRESET_LIMITS.MAX_COUNT) {
+      return NextResponse.json(
+        { error: `Count must be between 1 and ${PRESET_LIMITS.MAX_COUNT}` },
+        { status: 400 }
+      );
+    }
+
+    if (!["standard", "hd"].includes(quality)) {
+      return NextResponse.json(
+        { error: "Quality must be either 'standard' or 'hd'" },
+        { status: 400 }
+      );
+    }
+
+    const validSizes = ["1024x1024", "1536x1024", "1024x1536", "auto"];
+    if (!validSizes.includes(size)) {
+      return NextResponse.json(
+        { error: "Size must be one of: 1024x1024, 1536x1024, 1024x1536, auto" },
+        { status: 400 }
+      );
+    }
+
+    if (presetId !== null && !isUuid(presetId)) {
+      return NextResponse.json(
+        { error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    if (sessionId !== null && !isUuid(sessionId)) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    // Create Supabase client
+    const supabase = await createClient();
+
+    // Get user and organization
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+
+    let preset: { id: string; name: string } | null = null;
+    if (presetId) {
+      const { data } = await supabase
+        .from('generation_presets')
+        .select('id, name')
+        .eq('id', presetId)
+        .eq('organization_id', userOrg.organizationId)
+        .maybeSingle();
+
+      if (!data) {
+        return NextResponse.json(
+          { error: "Preset not found" },
+          { status: 404 }
+        );
+      }
+      preset = data;
+    }
+
+    // The jobs write with the service role, so the session they continue is checked here
+    if (sessionId) {
+      const { data: session } = await supabase
+        .from('sessions')
+        .select('id')
+        .eq('id', sessionId)
+        .eq('organization_id', userOrg.organizationId)
+        .eq('user_id', userOrg.user.id)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (!session) {
+        return NextResponse.json(
+          { error: "Session not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const isHDQuality = quality === "hd";
+    const creditCostPerImage = CREDIT_COSTS.GENERATION.IMAGE * (isHDQuality ? 2 : 1);
+
+    // Reserve a hold per prompt for the whole batch, all or none, before any job is queued. The jobs
+    // run one after another and only a charge extends a hold, so each hold lasts as long as the
+    // whole batch may take to reach its job
+    const reservationResult = await reserveCreditBatch(
+      supabase,
+      userOrg.organizationId,
+      creditCostPerImage * count,
+      prompts.map((_, index) =>
+        `${CREDIT_DESCRIPTIONS.GENERATION_IMAGE}: batch prompt ${index + 1} of ${prompts.length}, ${count} ${isHDQuality ? 'HD' : 'standard'} image${count > 1 ? 's' : ''}`
+      ),
+      'image_generation',
+      GENERATION_JOB_LIMITS.HOLD_MINUTES * prompts.length
+    );
+
+    if (!reservationResult.success || !reservationResult.reservationIds) {
+      return NextResponse.json(
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+    const admin = createAdminClient();
+    reservations.push(...reservationResult.reservationIds.map(id => ({ supabase: admin, id })));
+
+    // All jobs save to one session, created now so they don't each create one
+    const sessionTitle = preset
+      ? `Batch: ${preset.name.substring(0, 30)}${preset.name.length > 30 ? '...' : ''}`
+      : `Batch: ${prompts.length} prompts`;
+    let currentSessionId: string | null = sessionId;
+
+    if (!currentSessionId) {
+      const { data: newSession, error: sessionError } = await supabase
+        .from('sessions')
+        .insert({
+          organization_id: userOrg.organizationId,
+          user_id: userOrg.user.id,
+          type: 'sandbox',
+          title: sessionTitle,
+          metadata: {
+            style: quality,
+            imageCount: count * prompts.length,
+            action: 'batch',
+            preset_id: preset?.id || null
+          }
+        })
+        .select()
+        .single();
+
+      if (!sessionError && newSession) {
+        currentSessionId = newSession.id;
+      }
+    }
+
+    const jobs: GenerationJob[] = [];
+
+    for (const prompt of prompts as string[]) {
+      const job = await enqueueGenerationJob(admin, {
+        organizationId: userOrg.organizationId,
+        userId: userOrg.user.id,
+        sessionId: currentSessionId,
+        kind: 'generate',
+        params: {
+          prompt,
+          quality,
+          size,
+          content: prompt,
+          session_type: 'sandbox',
+          session_title: sessionTitle,
+          session_metadata: { style: quality, prompt, imageCount: count },
+          interaction_metadata: { quality, style: quality, preset_id: preset?.id || null },
+          artifact_metadata: { prompt, quality }
+        },
+        inputs: [],
+        total: count,
+        costPerImage: creditCostPerImage,
+        reservationId: reservations[0].id
+      });
+      // The job returns the rest of its hold when it finishes
+      reservations.shift();
+      jobs.push(job);
+    }
+
+    if (preset) {
+      const { error: useError } = await supabase.rpc('record_generation_preset_use', {
+        preset_id: preset.id,
+        uses: prompts.length
+      });
+      if (useError) {
+        console.error('Error recording preset use:', useError);
+      }
+    }
+
+    console.log(`Queued a batch of ${jobs.length} prompts (${count} image${count > 1 ? 's' : ''} each, provider: ${provider.id})`);
+
+    // One job at a time, like the cron worker, which picks up whatever is left if this stops
+    after(async () => {
+      for (const job of jobs) {
+        await runGenerationJob(admin, job);
+      }
+    });
+
+    return NextResponse.json(
+      { success: true, message: "Batch queued", sessionId: currentSessionId, jobs },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error in batch generation API:", error);
+
+    for (const reservation of reservations) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to queue batch" },
+      { status: 500 }
+    );
+  }
+}
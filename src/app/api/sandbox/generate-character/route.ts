@@ -0,0 +1,329 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
+import {
+  CREDIT_ERRORS,
+  CREDIT_DESCRIPTIONS,
+  CREDIT_COSTS
+} from "@/lib/supabase/creditConstants";
+import { uploadImagesFromUrls, ImageUploadResult } from "@/lib/storage/image-upload";
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import {
+  buildCharacterPrompt,
+  CHARACTER_LIMITS,
+  isCharacterPose,
+  isCharacterStyle,
+  isCharacterType,
+  loadReferenceImages
+} from "@/lib/sandbox/characters";
+import type { CharacterGenerationRequest, CharacterSheet } from "@/types/sandbox";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * API route for generating character images with the organization's LLM provider. With a saved
+ * character, its reference images are edited into the new pose so the character stays the same
+ */
+export async function POST(request: Request) {
+  // Open credit hold, returned to the organization if generation fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
+  try {
+    const body: CharacterGenerationRequest = await request.json();
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+    const customPose = typeof body.custom_pose === 'string' ? body.custom_pose.trim() : '';
+    const { pose, style, character_id: characterId = null, count = 1, quality = "standard", sessionId = null } = body;
+
+    // Validate input
+    if (!description && !characterId) {
+      return NextResponse.json(
+        { error: "Describe the character or choose a saved one" },
+        { status: 400 }
+      );
+    }
+
+    if (description.length > CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Descriptions must be at most ${CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isCharacterPose(pose) || !isCharacterStyle(style) || (!characterId && !isCharacterType(body.character_type))) {
+      return NextResponse.json(
+        { error: "Invalid character type, pose or style" },
+        { status: 400 }
+      );
+    }
+
+    if (pose === 'custom' && (!customPose || customPose.length > CHARACTER_LIMITS.MAX_CUSTOM_POSE_LENGTH)) {
+      return NextResponse.json(
+        { error: `Describe the custom pose in 1 to ${CHARACTER_LIMITS.MAX_CUSTOM_POSE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (count < 1 || count > CHARACTER_LIMITS.MAX_COUNT) {
+      return NextResponse.json(
+        { error: `Count must be between 1 and ${CHARACTER_LIMITS.MAX_COUNT}` },
+        { status: 400 }
+      );
+    }
+
+    if (!["standard", "hd"].includes(quality)) {
+      return NextResponse.json(
+        { error: "Quality must be either 'standard' or 'hd'" },
+        { status: 400 }
+      );
+    }
+
+    // Create Supabase client
+    const supabase = await createClient();
+
+    // Get user and organization
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    let sheet: CharacterSheet | null = null;
+    if (characterId) {
+      const { data, error } = await supabase
+        .from('character_sheets')
+        .select('*')
+        .eq('id', characterId)
+        .eq('organization_id', userOrg.organizationId)
+        .maybeSingle();
+
+      if (error || !data) {
+        return NextResponse.json(
+          { error: "Character not found" },
+          { status: 404 }
+        );
+      }
+      sheet = data as CharacterSheet;
+    }
+
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+
+    const references = sheet ? await loadReferenceImages(supabase, sheet.reference_images) : [];
+    const characterType = sheet ? sheet.character_type : body.character_type;
+    const prompt = buildCharacterPrompt({ description, characterType, pose, customPose, style, sheet });
+
+    // Generating from reference images is billed like image editing (1.5x regular image generation)
+    const isHDQuality = quality === "hd";
+    const baseCost = references.length > 0
+      ? Math.round(CREDIT_COSTS.GENERATION.IMAGE * 1.5)
+      : CREDIT_COSTS.GENERATION.IMAGE;
+    const creditCostPerImage = baseCost * (isHDQuality ? 2 : 1);
+    const creditCost = creditCostPerImage * count;
+
+    const reservationResult = await reserveCredits(
+      supabase,
+      userOrg.organizationId,
+      creditCost,
+      `Character generation: ${count} ${isHDQuality ? 'HD' : 'standard'} image${count > 1 ? 's' : ''}`,
+      references.length > 0 ? 'image_edit' : 'image_generation'
+    );
+
+    if (!reservationResult.success || !reservationResult.reservationId) {
+      return NextResponse.json(
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
+    const admin = createAdminClient();
+    reservation = { supabase: admin, id: reservationResult.reservationId };
+
+    console.log(`Generating ${count} character images${sheet ? ` of ${sheet.name} with ${references.length} reference(s)` : ''} (pose: ${pose}, style: ${style}, provider: ${provider.id})`);
+
+    const size = "1024x1024";
+    const allImageUrls = references.length > 0
+      ? await provider.editImages({ images: references, prompt, count, quality, size })
+      : await provider.generateImages({ prompt, count, quality, size });
+
+    if (allImageUrls.length === 0) {
+      throw new Error("Failed to generate any images");
+    }
+
+    // Charge only for the images the provider actually returned
+    const chargedCredits = creditCostPerImage * allImageUrls.length;
+    const settleResult = await settleCreditReservation(
+      supabase,
+      admin,
+      userOrg.organizationId,
+      reservation.id,
+      chargedCredits,
+      `Character generation: ${allImageUrls.length} of ${count} ${isHDQuality ? 'HD' : 'standard'} image${count > 1 ? 's' : ''}`
+    );
+    reservation = null;
+
+    if (!settleResult.success) {
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
+    // Upload images to permanent storage, falling back to data URLs
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    let uploadResults: ImageUploadResult[] = [];
+
+    try {
+      uploadResults = await uploadImagesFromUrls(supabase, allImageUrls, userOrg.organizationId, `character_${timestamp}`);
+    } catch (storageError) {
+      console.warn("Storage upload failed, using data URLs as fallback:", storageError);
+    }
+
+    const permanentImageUrls = allImageUrls.map((url, index) => {
+      const result = uploadResults[index];
+      if (result?.success && result.url) {
+        return result.url;
+      }
+      console.error(`Failed to upload character image ${index + 1}:`, result?.error);
+      return url;
+    });
+
+    // What the history shows for this generation
+    const content = description || sheet!.name;
+
+    // Create or use existing session
+    let currentSessionId = sessionId;
+    // Artifacts of the generated images, in order, so the client can continue from them
+    let artifactIds: string[] = [];
+
+    if (!currentSessionId) {
+      const { data: newSession, error: sessionError } = await supabase
+        .from('sessions')
+        .insert({
+          organization_id: userOrg.organizationId,
+          user_id: userOrg.user.id,
+          type: 'sandbox',
+          title: `Character: ${content.substring(0, 30)}${content.length > 30 ? '...' : ''}`,
+          metadata: {
+            style,
+            prompt: content,
+            imageCount: count,
+            action: 'character'
+          }
+        })
+        .select()
+        .single();
+
+      if (!sessionError && newSession) {
+        currentSessionId = newSession.id;
+      }
+    }
+
+    // Save generation as interaction and artifacts
+    if (currentSessionId) {
+      const { data: lastInteraction } = await supabase
+        .from('interactions')
+        .select('sequence')
+        .eq('session_id', currentSessionId)
+        .order('sequence', { ascending: false })
+        .limit(1)
+        .single();
+
+      const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
+
+      const { data: interaction, error: interactionError } = await supabase
+        .from('interactions')
+        .insert({
+          session_id: currentSessionId,
+          type: 'image_generation',
+          content,
+          metadata: {
+            quality,
+            count: allImageUrls.length,
+            action: 'character',
+            character_id: sheet?.id || null,
+            character_type: characterType,
+            pose,
+            ...(pose === 'custom' ? { custom_pose: customPose } : {}),
+            style,
+            prompt,
+            reference_count: references.length
+          },
+          cost_credits: chargedCredits,
+          sequence: nextSequence
+        })
+        .select()
+        .single();
+
+      if (!interactionError && interaction) {
+        const artifacts = permanentImageUrls.map((url, index) => ({
+          interaction_id: interaction.id,
+          type: 'image' as const,
+          url,
+          operation: 'character',
+          metadata: {
+            index,
+            prompt: content,
+            quality,
+            action: 'character',
+            character_id: sheet?.id || null,
+            original_temp_url: allImageUrls[index],
+            stored_permanently: uploadResults[index]?.success || false
+          }
+        }));
+
+        const { data: savedArtifacts, error: artifactsError } = await supabase
+          .from('artifacts')
+          .insert(artifacts)
+          .select('id');
+
+        if (artifactsError) {
+          console.error('Error creating artifacts:', artifactsError);
+        }
+        artifactIds = (savedArtifacts || []).map(artifact => artifact.id);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Character generated successfully",
+      sessionId: currentSessionId,
+      credits: {
+        cost: chargedCredits,
+        remaining: settleResult.newBalance
+      },
+      data: {
+        imageUrls: permanentImageUrls,
+        artifactIds,
+        count: permanentImageUrls.length,
+        prompt: content,
+        characterId: sheet?.id || null,
+        timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error("Error in character generation API:", error);
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to generate character" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,33 @@
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { checkAndDeductCredits, getUserAndOrganization } from "@/lib/supabase/credits";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
 import { 
   CREDIT_ERRORS,
   CREDIT_DESCRIPTIONS,
   CREDIT_COSTS
 } from "@/lib/supabase/creditConstants";
 import { uploadImagesFromUrls, ImageUploadResult } from "@/lib/storage/image-upload";
-import OpenAI from "openai";
-
-// Initialize OpenAI client
-const openai = new OpenAI();
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import { enqueueGenerationJob, GENERATION_JOB_LIMITS, runGenerationJob } from "@/lib/sandbox/generation-jobs";
+import { SupabaseClient } from "@supabase/supabase-js";
 
 /**
- * API route for generating images with OpenAI
+ * API route for generating images with the organization's LLM provider. With `background`, the
+ * images are generated by a generation job and the response returns the queued job
  */
 export async function POST(request: Request) {
+  // Open credit hold, returned to the organization if generation fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
   try {
     // Parse the request
-    const { prompt, count = 1, quality = "standard", size = "1024x1024", sessionId = null, sessionType = "sandbox" } = await request.json();
+    const { prompt, count = 1, quality = "standard", size = "1024x1024", sessionId = null, sessionType = "sandbox", background = false } = await request.json();
     
     // Validate input
     if (!prompt) {
@@ -65,81 +74,112 @@ export async function POST(request: Request) {
       );
     }
     
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+    
     // Calculate credit cost based on number of images and quality
     const isHDQuality = quality === "hd";
     const baseCost = CREDIT_COSTS.GENERATION.IMAGE;
-    const creditCost = baseCost * count * (isHDQuality ? 2 : 1);
+    const creditCostPerImage = baseCost * (isHDQuality ? 2 : 1);
+    const creditCost = creditCostPerImage * count;
     
     // Credit description
     const description = `${CREDIT_DESCRIPTIONS.GENERATION_IMAGE}: ${count} ${isHDQuality ? 'HD' : 'standard'} image${count > 1 ? 's' : ''}`;
     
-    // Check and deduct credits
-    const creditResult = await checkAndDeductCredits(
+    // Reserve credits for every requested image; settled once we know how many were generated
+    const reservationResult = await reserveCredits(
       supabase,
       userOrg.organizationId,
       creditCost,
       description,
-      'image_generation'
+      'image_generation',
+      background ? GENERATION_JOB_LIMITS.HOLD_MINUTES : undefined
     );
     
-    if (!creditResult.success) {
+    if (!reservationResult.success || !reservationResult.reservationId) {
       return NextResponse.json(
-        { error: creditResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
         { status: 402 }
       );
     }
-    
-    // Generate images with OpenAI - GPT Image 1 supports multiple images in a single request
-    console.log(`Generating ${count} images with prompt: "${prompt.substring(0, 30)}..." (quality: ${quality})`);
-    
-    // Array to store all generated image URLs
-    const allImageUrls: string[] = [];
-    
-    // Convert quality from DALL-E format to GPT Image 1 format
-    const gptImageQuality = quality === "hd" ? "high" : "medium";
-    
-    try {
-      const result = await openai.images.generate({
-        model: "gpt-image-1",
-        prompt: prompt,
-        n: count, // GPT Image 1 supports multiple images in one request
-        quality: gptImageQuality as "low" | "medium" | "high" | "auto",
-        size: size as "1024x1024" | "1536x1024" | "1024x1536" | "auto"
+
+    // Holds are settled and released with the service role now that the membership is checked
+    const admin = createAdminClient();
+    reservation = { supabase: admin, id: reservationResult.reservationId };
+
+    const sessionTitle = sessionType === 'magic_ads' 
+      ? `Magic Ad: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}` 
+      : `Image: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`;
+
+    if (background) {
+      const job = await enqueueGenerationJob(admin, {
+        organizationId: userOrg.organizationId,
+        userId: userOrg.user!.id,
+        sessionId,
+        kind: 'generate',
+        params: {
+          prompt,
+          quality,
+          size,
+          content: prompt,
+          session_type: sessionType,
+          session_title: sessionTitle,
+          session_metadata: { style: quality, prompt, imageCount: count },
+          interaction_metadata: { quality, style: quality },
+          artifact_metadata: { prompt, quality }
+        },
+        inputs: [],
+        total: count,
+        costPerImage: creditCostPerImage,
+        reservationId: reservation.id
       });
-      
-      if (result.data && result.data.length > 0) {
-        for (let i = 0; i < result.data.length; i++) {
-          const imageData = result.data[i];
-          if (imageData.b64_json) {
-            // Convert base64 to data URL for immediate use
-            const dataUrl = `data:image/png;base64,${imageData.b64_json}`;
-            allImageUrls.push(dataUrl);
-          }
-        }
-      }
-    } catch (err) {
-      console.error(`Error generating images:`, err);
-      
-      // Check if it's an OpenAI API error with more details
-      if (err instanceof Error) {
-        // If it's a verification error, provide helpful message
-        if (err.message.includes('verification') || err.message.includes('verified')) {
-          throw new Error("Organization verification required for GPT Image 1. Please verify your OpenAI organization in the OpenAI console.");
-        }
-        
-        // Pass through the actual OpenAI error message
-        throw new Error(`GPT Image 1 API Error: ${err.message}`);
-      }
-      
-      throw new Error("Failed to generate images with GPT Image 1");
+      reservation = null;
+
+      // The worker keeps running after the response; the cron worker resumes it if it stops
+      after(() => runGenerationJob(createAdminClient(), job));
+
+      return NextResponse.json(
+        { success: true, message: "Image generation queued", job },
+        { status: 202 }
+      );
     }
     
-    console.log(`OpenAI returned ${allImageUrls.length} image URLs:`, allImageUrls);
+    // Generate images with the organization's provider
+    console.log(`Generating ${count} images with prompt: "${prompt.substring(0, 30)}..." (quality: ${quality}, provider: ${provider.id})`);
+    
+    const allImageUrls = await provider.generateImages({ prompt, count, quality, size });
+    
+    console.log(`Provider returned ${allImageUrls.length} images`);
     
     if (allImageUrls.length === 0) {
       throw new Error("Failed to generate any images");
     }
 
+    // Charge only for the images the provider actually returned
+    const chargedCredits = creditCostPerImage * allImageUrls.length;
+    const settleResult = await settleCreditReservation(
+      supabase,
+      admin,
+      userOrg.organizationId,
+      reservation.id,
+      chargedCredits,
+      `${CREDIT_DESCRIPTIONS.GENERATION_IMAGE}: ${allImageUrls.length} of ${count} ${isHDQuality ? 'HD' : 'standard'} image${count > 1 ? 's' : ''}`
+    );
+    reservation = null;
+
+    if (!settleResult.success) {
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
     // Try to upload images to permanent storage (optional - graceful fallback)
     console.log("Attempting to upload images to Supabase Storage...");
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -183,6 +223,8 @@ export async function POST(request: Request) {
 
     // Create or use existing session
     let currentSessionId = sessionId;
+    // Artifacts of the generated images, in order, so the client can continue from them
+    let artifactIds: string[] = [];
 
     if (!currentSessionId) {
       // Create a new session for this generation
@@ -192,9 +234,7 @@ export async function POST(request: Request) {
           organization_id: userOrg.organizationId,
           user_id: userOrg.user!.id,
           type: sessionType,
-          title: sessionType === 'magic_ads' 
-            ? `Magic Ad: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}` 
-            : `Image: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`,
+          title: sessionTitle,
           metadata: { 
             style: quality, 
             prompt: prompt,
@@ -234,7 +274,7 @@ export async function POST(request: Request) {
             count: allImageUrls.length,
             style: quality
           },
-          cost_credits: creditCost,
+          cost_credits: chargedCredits,
           sequence: nextSequence
         })
         .select()
@@ -246,6 +286,7 @@ export async function POST(request: Request) {
           interaction_id: interaction.id,
           type: 'image' as const,
           url: url,
+          operation: 'generate',
           metadata: { 
             index,
             prompt,
@@ -255,13 +296,15 @@ export async function POST(request: Request) {
           }
         }));
 
-        const { error: artifactsError } = await supabase
+        const { data: savedArtifacts, error: artifactsError } = await supabase
           .from('artifacts')
-          .insert(artifacts);
+          .insert(artifacts)
+          .select('id');
 
         if (artifactsError) {
           console.error('Error creating artifacts:', artifactsError);
         }
+        artifactIds = (savedArtifacts || []).map(artifact => artifact.id);
       }
     }
     
@@ -271,11 +314,12 @@ export async function POST(request: Request) {
       message: "Images generated successfully",
       sessionId: currentSessionId,
       credits: {
-        cost: creditCost,
-        remaining: creditResult.newBalance
+        cost: chargedCredits,
+        remaining: settleResult.newBalance
       },
       data: {
         imageUrls: permanentImageUrls, // Return permanent URLs
+        artifactIds,
         count: permanentImageUrls.length,
         prompt: prompt,
         timestamp: new Date().toISOString(),
@@ -288,6 +332,11 @@ export async function POST(request: Request) {
     });
   } catch (error) {
     console.error("Error in image generation API:", error);
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
     let errorMessage = "Failed to generate images";
     if (error instanceof Error) {
       errorMessage = error.message;
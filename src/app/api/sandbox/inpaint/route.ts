@@ -0,0 +1,360 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  getUserAndOrganization,
+  releaseCreditReservation,
+  reserveCredits,
+  settleCreditReservation
+} from "@/lib/supabase/credits";
+import {
+  CREDIT_ERRORS,
+  CREDIT_COSTS,
+  CREDIT_DESCRIPTIONS
+} from "@/lib/supabase/creditConstants";
+import { uploadImageFromUrl, uploadImagesFromUrls, ImageUploadResult } from "@/lib/storage/image-upload";
+import { getOrganizationLLMProvider } from "@/lib/llm";
+import {
+  buildInpaintingPrompt,
+  INPAINTING_LIMITS,
+  INPAINTING_MASK_ROLE,
+  isInpaintingStyle
+} from "@/lib/sandbox/inpainting";
+import { resolveParentArtifactIds } from "@/lib/sandbox/lineage";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * API route for inpainting: regenerates the masked area of an image with the organization's LLM provider.
+ * Expects `image` and a PNG `mask` whose transparent pixels mark the area to regenerate. A sandbox
+ * image sent as `parentArtifactId` is recorded as the source of the results
+ */
+export async function POST(request: Request) {
+  // Open credit hold, returned to the organization if the request fails
+  let reservation: { supabase: SupabaseClient; id: string } | null = null;
+
+  try {
+    const formData = await request.formData();
+
+    const image = formData.get('image');
+    const mask = formData.get('mask');
+    const prompt = (formData.get('prompt') as string || '').trim();
+    const style = formData.get('style') as string || 'match';
+    const count = parseInt(formData.get('count') as string) || 1;
+    const quality = formData.get('quality') as string || 'medium';
+    const size = formData.get('size') as string || 'auto';
+    const sessionId = formData.get('sessionId') as string || null;
+    const parentArtifactId = formData.get('parentArtifactId');
+
+    // Validate input
+    if (!prompt) {
+      return NextResponse.json(
+        { error: "Prompt is required" },
+        { status: 400 }
+      );
+    }
+
+    if (prompt.length > INPAINTING_LIMITS.MAX_PROMPT_LENGTH) {
+      return NextResponse.json(
+        { error: `Prompt must be at most ${INPAINTING_LIMITS.MAX_PROMPT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isInpaintingStyle(style)) {
+      return NextResponse.json(
+        { error: "Style must be one of: match, enhance, replace, artistic" },
+        { status: 400 }
+      );
+    }
+
+    if (!(image instanceof File) || !image.type.startsWith('image/')) {
+      return NextResponse.json(
+        { error: "An image to edit is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(mask instanceof File) || mask.type !== 'image/png') {
+      return NextResponse.json(
+        { error: "A PNG mask is required" },
+        { status: 400 }
+      );
+    }
+
+    if (image.size > INPAINTING_LIMITS.MAX_FILE_BYTES || mask.size > INPAINTING_LIMITS.MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: "The image and mask must be less than 50MB each" },
+        { status: 400 }
+      );
+    }
+
+    if (count < 1 || count > INPAINTING_LIMITS.MAX_COUNT) {
+      return NextResponse.json(
+        { error: `Count must be between 1 and ${INPAINTING_LIMITS.MAX_COUNT}` },
+        { status: 400 }
+      );
+    }
+
+    const validSizes = ["1024x1024", "1536x1024", "1024x1536", "auto"];
+    if (!validSizes.includes(size)) {
+      return NextResponse.json(
+        { error: "Size must be one of: 1024x1024, 1536x1024, 1024x1536, auto" },
+        { status: 400 }
+      );
+    }
+
+    // Create Supabase client
+    const supabase = await createClient();
+
+    // Get user and organization
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const parentArtifactIds = await resolveParentArtifactIds(supabase, userOrg.organizationId, [parentArtifactId]);
+
+    if (!parentArtifactIds) {
+      return NextResponse.json(
+        { error: "Source image not found" },
+        { status: 400 }
+      );
+    }
+
+    const provider = await getOrganizationLLMProvider(supabase, userOrg.organizationId);
+
+    if (!provider.supportsImages) {
+      return NextResponse.json(
+        { error: `Image generation is not available with ${provider.label}` },
+        { status: 400 }
+      );
+    }
+
+    // Inpainting is billed like image editing (1.5x regular image generation)
+    const baseCost = Math.round(CREDIT_COSTS.GENERATION.IMAGE * 1.5);
+    const creditCost = baseCost * count;
+
+    const reservationResult = await reserveCredits(
+      supabase,
+      userOrg.organizationId,
+      creditCost,
+      `Inpainting: ${count} image${count > 1 ? 's' : ''}`,
+      'image_edit'
+    );
+
+    if (!reservationResult.success || !reservationResult.reservationId) {
+      return NextResponse.json(
+        { error: reservationResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
+    const admin = createAdminClient();
+    reservation = { supabase: admin, id: reservationResult.reservationId };
+
+    // History metadata records the quality in GPT Image 1 terms
+    const gptImageQuality = quality === "hd" ? "high" :
+                           quality === "standard" ? "medium" :
+                           quality as "low" | "medium" | "high" | "auto";
+    const inpaintingPrompt = buildInpaintingPrompt(prompt, style);
+
+    console.log(`Inpainting with style ${style} and prompt: "${prompt.substring(0, 30)}..." (quality: ${gptImageQuality}, provider: ${provider.id})`);
+
+    const allImageUrls = await provider.editImages({
+      images: [image],
+      mask,
+      prompt: inpaintingPrompt,
+      count,
+      quality,
+      size
+    });
+
+    if (allImageUrls.length === 0) {
+      throw new Error("Failed to inpaint the image");
+    }
+
+    // Charge only for the images the provider actually returned
+    const chargedCredits = baseCost * allImageUrls.length;
+    const settleResult = await settleCreditReservation(
+      supabase,
+      admin,
+      userOrg.organizationId,
+      reservation.id,
+      chargedCredits,
+      `Inpainting: ${allImageUrls.length} of ${count} image${count > 1 ? 's' : ''}`
+    );
+    reservation = null;
+
+    if (!settleResult.success) {
+      return NextResponse.json(
+        { error: settleResult.error || CREDIT_ERRORS.INSUFFICIENT },
+        { status: 402 }
+      );
+    }
+
+    // Upload the results and the mask to permanent storage, falling back to data URLs
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const baseFilename = `inpainted_${timestamp}`;
+    const maskDataUrl = `data:image/png;base64,${Buffer.from(await mask.arrayBuffer()).toString('base64')}`;
+
+    let uploadResults: ImageUploadResult[] = [];
+    let maskUpload: ImageUploadResult = { success: false };
+
+    try {
+      uploadResults = await uploadImagesFromUrls(supabase, allImageUrls, userOrg.organizationId, baseFilename);
+      maskUpload = await uploadImageFromUrl(supabase, maskDataUrl, userOrg.organizationId, `${baseFilename}_mask`);
+    } catch (storageError) {
+      console.warn("Storage upload failed, using data URLs as fallback:", storageError);
+    }
+
+    const permanentImageUrls = allImageUrls.map((url, index) => {
+      const result = uploadResults[index];
+      if (result?.success && result.url) {
+        return result.url;
+      }
+      console.error(`Failed to upload inpainted image ${index + 1}:`, result?.error);
+      return url;
+    });
+    const maskUrl = maskUpload.success && maskUpload.url ? maskUpload.url : maskDataUrl;
+
+    // Create or use existing session
+    let currentSessionId = sessionId;
+    // Artifacts of the results, in order, so the client can continue from them
+    let artifactIds: string[] = [];
+
+    if (!currentSessionId) {
+      const { data: newSession, error: sessionError } = await supabase
+        .from('sessions')
+        .insert({
+          organization_id: userOrg.organizationId,
+          user_id: userOrg.user.id,
+          type: 'sandbox',
+          title: `Inpaint: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`,
+          metadata: {
+            style,
+            prompt,
+            imageCount: count,
+            action: 'inpaint'
+          }
+        })
+        .select()
+        .single();
+
+      if (!sessionError && newSession) {
+        currentSessionId = newSession.id;
+      }
+    }
+
+    // Save the inpainting as an interaction with the results and the mask as artifacts
+    if (currentSessionId) {
+      const { data: lastInteraction } = await supabase
+        .from('interactions')
+        .select('sequence')
+        .eq('session_id', currentSessionId)
+        .order('sequence', { ascending: false })
+        .limit(1)
+        .single();
+
+      const nextSequence = lastInteraction ? lastInteraction.sequence + 1 : 1;
+
+      const { data: interaction, error: interactionError } = await supabase
+        .from('interactions')
+        .insert({
+          session_id: currentSessionId,
+          type: 'image_edit',
+          content: prompt,
+          metadata: {
+            quality: gptImageQuality,
+            count: allImageUrls.length,
+            style,
+            prompt: inpaintingPrompt,
+            action: 'inpaint'
+          },
+          cost_credits: chargedCredits,
+          sequence: nextSequence
+        })
+        .select()
+        .single();
+
+      if (!interactionError && interaction) {
+        const artifacts = [
+          ...permanentImageUrls.map((url, index) => ({
+            interaction_id: interaction.id,
+            type: 'image' as const,
+            url,
+            operation: 'inpaint',
+            parent_artifact_ids: parentArtifactIds,
+            metadata: {
+              index,
+              prompt,
+              style,
+              quality: gptImageQuality,
+              action: 'inpaint',
+              original_temp_url: allImageUrls[index],
+              stored_permanently: uploadResults[index]?.success || false
+            }
+          })),
+          {
+            interaction_id: interaction.id,
+            type: 'data' as const,
+            url: maskUrl,
+            filename: 'mask.png',
+            mime_type: 'image/png',
+            size_bytes: mask.size,
+            metadata: {
+              role: INPAINTING_MASK_ROLE,
+              action: 'inpaint',
+              stored_permanently: maskUpload.success
+            }
+          }
+        ];
+
+        const { data: savedArtifacts, error: artifactsError } = await supabase
+          .from('artifacts')
+          .insert(artifacts)
+          .select('id, type');
+
+        if (artifactsError) {
+          console.error('Error creating artifacts:', artifactsError);
+        }
+        artifactIds = (savedArtifacts || [])
+          .filter(artifact => artifact.type === 'image')
+          .map(artifact => artifact.id);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Image inpainted successfully",
+      sessionId: currentSessionId,
+      credits: {
+        cost: chargedCredits,
+        remaining: settleResult.newBalance
+      },
+      data: {
+        imageUrls: permanentImageUrls,
+        artifactIds,
+        count: permanentImageUrls.length,
+        prompt,
+        style,
+        timestamp: new Date().toISOString(),
+        action: 'inpaint'
+      }
+    });
+  } catch (error) {
+    console.error("Error in inpainting API:", error);
+
+    if (reservation) {
+      await releaseCreditReservation(reservation.supabase, reservation.id, CREDIT_DESCRIPTIONS.RESERVATION_FAILED);
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to inpaint image" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import { cancelGenerationJob } from "@/lib/sandbox/generation-jobs";
+import type { GenerationJob } from "@/types/sandbox";
+
+// POST /api/sandbox/jobs/[jobId]/cancel - Stop a generation job. Images it already completed are
+// kept and charged; the credits reserved for the rest are returned
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { jobId } = await params;
+
+    // Reading the job checks ownership (RLS); jobs are only written with the service role
+    const { data: job, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('organization_id', userOrg.organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching generation job:', error);
+      return NextResponse.json(
+        { error: "Failed to cancel generation job" },
+        { status: 500 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelGenerationJob(createAdminClient(), job as GenerationJob);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: "This job has already finished" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ job: cancelled });
+  } catch (error) {
+    console.error('Error in cancel generation job API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
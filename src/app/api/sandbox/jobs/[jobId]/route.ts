@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+
+// GET /api/sandbox/jobs/[jobId] - A generation job with its progress and completed images
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { jobId } = await params;
+
+    // Users can only read their own jobs (RLS)
+    const { data: job, error } = await supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('organization_id', userOrg.organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching generation job:', error);
+      return NextResponse.json(
+        { error: "Failed to fetch generation job" },
+        { status: 500 }
+      );
+    }
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Generation job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error in generation job API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+
+// GET /api/sandbox/jobs - List the user's recent generation jobs; ?active=true lists only queued
+// and running jobs, e.g. to show their progress again after a reload
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    let query = supabase
+      .from('generation_jobs')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId)
+      .eq('user_id', userOrg.user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (searchParams.get('active') === 'true') {
+      query = query.in('status', ['queued', 'running']);
+    }
+
+    const { data: jobs, error } = await query;
+
+    if (error) {
+      console.error('Error fetching generation jobs:', error);
+      return NextResponse.json(
+        { error: "Failed to fetch generation jobs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ jobs: jobs || [] });
+  } catch (error) {
+    console.error('Error in generation jobs API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
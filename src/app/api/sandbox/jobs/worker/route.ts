@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { GENERATION_JOB_LIMITS, runGenerationJobs } from "@/lib/sandbox/generation-jobs"
+
+// Prevent static optimization and ensure this route is always handled dynamically
+export const dynamic = 'force-dynamic'
+
+/**
+ * Generation job worker - processes queued jobs and resumes jobs whose worker stopped mid-way.
+ * Jobs start right after they are queued; this run picks up the rest.
+ * Call this from a cron (e.g. every minute) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Generation worker is not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || String(GENERATION_JOB_LIMITS.WORKER_BATCH_SIZE))
+
+    const supabase = createAdminClient()
+    const results = await runGenerationJobs(supabase, { limit })
+
+    console.log(`GENERATION - Worker ran ${results.length} job(s)`)
+
+    return NextResponse.json({
+      processed: results.length,
+      completed: results.filter(result => result.status === 'completed').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      cancelled: results.filter(result => result.status === 'cancelled').length,
+      results
+    })
+  } catch (error) {
+    console.error('Error in generation job worker:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import { parsePresetFields } from "@/lib/sandbox/presets";
+import type { GenerationPresetRequest } from "@/types/sandbox";
+
+// PATCH /api/sandbox/presets/[presetId] - Update a personal preset or one of the organization's
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ presetId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { presetId } = await params;
+    const body: Partial<GenerationPresetRequest> = await request.json();
+    const parsed = parsePresetFields(body, { requireAll: false });
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    // RLS only lets the member who saved a shared preset make it personal again
+    const { data: presets, error } = await supabase
+      .from('generation_presets')
+      .update(parsed.fields)
+      .eq('id', presetId)
+      .eq('organization_id', userOrg.organizationId)
+      .select();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A preset with this name already exists" },
+          { status: 409 }
+        );
+      }
+      if (error.code === '42501') {
+        return NextResponse.json(
+          { error: "Only the member who saved this preset can make it personal" },
+          { status: 403 }
+        );
+      }
+      console.error('Error updating preset:', error);
+      return NextResponse.json(
+        { error: "Failed to update preset" },
+        { status: 500 }
+      );
+    }
+
+    if (!presets || presets.length === 0) {
+      return NextResponse.json(
+        { error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ preset: presets[0] });
+  } catch (error) {
+    console.error('Error in update preset API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/sandbox/presets/[presetId] - Delete a personal preset or one of the organization's
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ presetId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { presetId } = await params;
+
+    const { data: deleted, error } = await supabase
+      .from('generation_presets')
+      .delete()
+      .eq('id', presetId)
+      .eq('organization_id', userOrg.organizationId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting preset:', error);
+      return NextResponse.json(
+        { error: "Failed to delete preset" },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in delete preset API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import { isUuid } from "@/lib/history/organize";
+
+// POST /api/sandbox/presets/[presetId]/use - Count a use of a preset, when it is applied
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ presetId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { presetId } = await params;
+
+    if (!isUuid(presetId)) {
+      return NextResponse.json(
+        { error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: usageCount, error } = await supabase.rpc('record_generation_preset_use', {
+      preset_id: presetId
+    });
+
+    if (error) {
+      console.error('Error recording preset use:', error);
+      return NextResponse.json(
+        { error: "Failed to record preset use" },
+        { status: 500 }
+      );
+    }
+
+    if (usageCount === null) {
+      return NextResponse.json(
+        { error: "Preset not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ usage_count: usageCount });
+  } catch (error) {
+    console.error('Error in preset use API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
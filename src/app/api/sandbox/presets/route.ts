@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getUserAndOrganization } from "@/lib/supabase/credits";
+import { toIlikeFilter, HISTORY_SEARCH_LIMITS } from "@/lib/history/search";
+import { isPresetScope, parsePresetFields } from "@/lib/sandbox/presets";
+import type { GenerationPresetRequest } from "@/types/sandbox";
+
+const SORT_COLUMNS: Record<string, { column: string; ascending: boolean }> = {
+  popular: { column: 'usage_count', ascending: false },
+  recent: { column: 'created_at', ascending: false },
+  name: { column: 'name', ascending: true }
+};
+
+// GET /api/sandbox/presets - The user's personal presets and the organization's shared presets,
+// most used first. Filter with `q` (name, description or template), `scope` and `sort`
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const search = (searchParams.get('q') || '').trim().slice(0, HISTORY_SEARCH_LIMITS.MAX_QUERY_LENGTH);
+    const scope = searchParams.get('scope');
+    const sort = SORT_COLUMNS[searchParams.get('sort') || ''] || SORT_COLUMNS.popular;
+
+    // Other members' personal presets are hidden by RLS
+    let query = supabase
+      .from('generation_presets')
+      .select('*')
+      .eq('organization_id', userOrg.organizationId);
+
+    if (isPresetScope(scope)) {
+      query = query.eq('scope', scope);
+    }
+    if (search) {
+      query = query.or(toIlikeFilter(['name', 'description', 'prompt_template'], search));
+    }
+
+    const { data: presets, error } = await query
+      .order(sort.column, { ascending: sort.ascending })
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching presets:', error);
+      return NextResponse.json(
+        { error: "Failed to fetch presets" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ presets: presets || [] });
+  } catch (error) {
+    console.error('Error in presets API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sandbox/presets - Save a preset, personal unless `scope` is organization
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const userOrg = await getUserAndOrganization(supabase);
+
+    if (!userOrg.success || !userOrg.user || !userOrg.organizationId) {
+      return NextResponse.json(
+        { error: userOrg.error || "Authentication error" },
+        { status: userOrg.status || 401 }
+      );
+    }
+
+    const body: GenerationPresetRequest = await request.json();
+    const parsed = parsePresetFields(body, { requireAll: true });
+
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { data: preset, error } = await supabase
+      .from('generation_presets')
+      .insert({
+        ...parsed.fields,
+        organization_id: userOrg.organizationId,
+        user_id: userOrg.user.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: "A preset with this name already exists" },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating preset:', error);
+      return NextResponse.json(
+        { error: "Failed to save preset" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (error) {
+    console.error('Error in create preset API:', error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
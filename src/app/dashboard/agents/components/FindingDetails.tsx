@@ -0,0 +1,115 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { ExternalLink } from "lucide-react"
+import type { AgentFindingWithMonitor } from "@/types/history"
+
+interface FindingDetailsProps {
+  finding: AgentFindingWithMonitor
+}
+
+interface FindingItem {
+  id: string
+  title: string
+  url?: string
+  published_at?: string
+}
+
+interface KeywordMatch {
+  keyword: string
+  excerpts: string[]
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : []
+}
+
+export function FindingDetails({ finding }: FindingDetailsProps) {
+  const details = finding.details || {}
+  const items = (Array.isArray(details.items) ? details.items : []) as FindingItem[]
+  const matches = (Array.isArray(details.matches) ? details.matches : []) as KeywordMatch[]
+  const added = asStringArray(details.added)
+  const removed = asStringArray(details.removed)
+  const totalNewItems = typeof details.total_new_items === 'number' ? details.total_new_items : items.length
+  const changeRatio = typeof details.change_ratio === 'number' ? details.change_ratio : null
+  const similarity = typeof details.similarity === 'number' ? details.similarity : null
+  const isStructure = finding.change_type === 'structure_change'
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <a
+          href={finding.monitor.target_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 hover:text-foreground truncate max-w-full"
+        >
+          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+          <span className="truncate">{finding.monitor.target_url}</span>
+        </a>
+        {changeRatio !== null && <Badge variant="outline">{Math.round(changeRatio * 100)}% of lines changed</Badge>}
+        {similarity !== null && <Badge variant="outline">{Math.round(similarity * 100)}% similar</Badge>}
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">
+            New items {totalNewItems > items.length && <span className="text-muted-foreground font-normal">(showing {items.length} of {totalNewItems})</span>}
+          </h4>
+          <ul className="space-y-1">
+            {items.map(item => (
+              <li key={item.id} className="flex items-start gap-2">
+                <span className="text-green-600">+</span>
+                {item.url ? (
+                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:underline break-words">
+                    {item.title}
+                  </a>
+                ) : (
+                  <span className="break-words">{item.title}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {matches.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Keyword matches</h4>
+          {matches.map(match => (
+            <div key={match.keyword} className="space-y-1">
+              <Badge variant="secondary">{match.keyword}</Badge>
+              <ul className="space-y-1 pl-2 border-l">
+                {match.excerpts.map((excerpt, index) => (
+                  <li key={index} className="text-muted-foreground break-words">{excerpt}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(added.length > 0 || removed.length > 0) && (
+        <div className="space-y-2">
+          <h4 className="font-medium">{isStructure ? 'Structure' : 'Diff'}</h4>
+          <div className="rounded-md border bg-muted/40 font-mono text-xs max-h-80 overflow-auto">
+            {added.map((line, index) => (
+              <div key={`added-${index}`} className="px-3 py-0.5 bg-green-500/10 text-green-700 dark:text-green-400 whitespace-pre-wrap break-words">
+                + {line}
+              </div>
+            ))}
+            {removed.map((line, index) => (
+              <div key={`removed-${index}`} className="px-3 py-0.5 bg-red-500/10 text-red-700 dark:text-red-400 whitespace-pre-wrap break-words">
+                - {line}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 && matches.length === 0 && added.length === 0 && removed.length === 0 && (
+        <p className="text-muted-foreground">No additional details were recorded for this finding.</p>
+      )}
+    </div>
+  )
+}
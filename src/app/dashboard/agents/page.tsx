@@ -0,0 +1,469 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog"
+import {
+  Bot,
+  Calendar,
+  Check,
+  Eye,
+  FileDiff,
+  Inbox,
+  LayoutTemplate,
+  MessageSquare,
+  Sparkles,
+  Tag,
+  Undo2
+} from "lucide-react"
+import { useAgentFindings } from "@/hooks/useAgentFindings"
+import { useOrganizationContext } from "@/contexts/organization-context"
+import { canMemberUseFeature } from "@/lib/organization/permissions"
+import { formatDistanceToNow } from "date-fns"
+import { useRouter } from "next/navigation"
+import { Skeleton } from "@/components/ui/skeleton"
+import { successToast, errorToast } from "@/lib/toast"
+import { FindingDetails } from "./components/FindingDetails"
+import type { AgentChangeType, AgentFindingFilters, AgentFindingWithMonitor } from "@/types/history"
+
+const PAGE_SIZE = 20
+
+const changeTypeLabels: Record<AgentChangeType, string> = {
+  new_content: "New content",
+  content_change: "Content change",
+  structure_change: "Structure change",
+  keyword_match: "Keyword match"
+}
+
+const changeTypeIcons = {
+  new_content: Sparkles,
+  content_change: FileDiff,
+  structure_change: LayoutTemplate,
+  keyword_match: Tag
+}
+
+const changeTypeColors = {
+  new_content: "bg-green-100 text-green-800",
+  content_change: "bg-blue-100 text-blue-800",
+  structure_change: "bg-purple-100 text-purple-800",
+  keyword_match: "bg-amber-100 text-amber-800"
+}
+
+export default function AgentFindingsPage() {
+  const router = useRouter()
+  const { organization, userRole } = useOrganizationContext()
+  const {
+    findings,
+    monitors,
+    loading,
+    error,
+    totalCount,
+    hasMore,
+    fetchFindings,
+    setFindingsReviewed,
+    createFindingSession
+  } = useAgentFindings()
+
+  const [reviewedTab, setReviewedTab] = useState<'unreviewed' | 'reviewed' | 'all'>('unreviewed')
+  const [monitorId, setMonitorId] = useState<string>('')
+  const [changeTypes, setChangeTypes] = useState<AgentChangeType[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [detailsFinding, setDetailsFinding] = useState<AgentFindingWithMonitor | null>(null)
+  const [updating, setUpdating] = useState(false)
+  const [openingSessionId, setOpeningSessionId] = useState<string | null>(null)
+
+  const canUseAgents = canMemberUseFeature(organization, userRole, "agents")
+
+  // Memoize filters to prevent unnecessary re-renders
+  const filters = useMemo((): AgentFindingFilters => ({
+    monitor_id: monitorId || undefined,
+    change_type: changeTypes.length > 0 ? changeTypes : undefined,
+    reviewed: reviewedTab === 'all' ? undefined : reviewedTab === 'reviewed',
+  }), [monitorId, changeTypes, reviewedTab])
+
+  useEffect(() => {
+    setSelectedIds(new Set())
+    fetchFindings(filters, { limit: PAGE_SIZE, offset: 0 })
+  }, [filters, fetchFindings])
+
+  const toggleChangeType = (changeType: AgentChangeType) => {
+    setChangeTypes(prev =>
+      prev.includes(changeType) ? prev.filter(type => type !== changeType) : [...prev, changeType]
+    )
+  }
+
+  const toggleSelected = (findingId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(findingId)) {
+        next.delete(findingId)
+      } else {
+        next.add(findingId)
+      }
+      return next
+    })
+  }
+
+  const allSelected = findings.length > 0 && findings.every(finding => selectedIds.has(finding.id))
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(findings.map(finding => finding.id)))
+  }
+
+  const handleSetReviewed = async (findingIds: string[], reviewed: boolean) => {
+    if (findingIds.length === 0) return
+    setUpdating(true)
+    try {
+      const updated = await setFindingsReviewed(findingIds, reviewed)
+      setSelectedIds(new Set())
+      successToast(`${updated.length} finding${updated.length !== 1 ? 's' : ''} marked ${reviewed ? 'reviewed' : 'unreviewed'}`)
+      // Findings that no longer match the active tab drop out of the list
+      if (reviewedTab !== 'all') {
+        fetchFindings(filters, { limit: PAGE_SIZE, offset: 0 })
+      }
+    } catch (error) {
+      console.error('Failed to update findings:', error)
+      errorToast(error instanceof Error ? error.message : 'Failed to update findings')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleAskAgent = async (finding: AgentFindingWithMonitor) => {
+    setOpeningSessionId(finding.id)
+    try {
+      const session = await createFindingSession(finding.id)
+      router.push(`/dashboard/chat?session=${session.id}`)
+    } catch (error) {
+      console.error('Failed to open finding in chat:', error)
+      errorToast(error instanceof Error ? error.message : 'Failed to open finding in chat')
+      setOpeningSessionId(null)
+    }
+  }
+
+  if (!canUseAgents) {
+    return (
+      <div className="grid gap-4">
+        <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Agent Findings</h1>
+        <Alert>
+          <Bot className="h-4 w-4" />
+          <AlertDescription>
+            You don&apos;t have permission to use agents in this organization. Please contact your organization owner for access.
+          </AlertDescription>
+        </Alert>
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4 md:gap-6 pb-4 md:pb-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Agent Findings</h1>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selectedIds.size === 0 || updating}
+            onClick={() => handleSetReviewed(Array.from(selectedIds), false)}
+            className="text-xs md:text-sm"
+          >
+            <Undo2 className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+            Mark unreviewed
+          </Button>
+          <Button
+            size="sm"
+            disabled={selectedIds.size === 0 || updating}
+            onClick={() => handleSetReviewed(Array.from(selectedIds), true)}
+            className="text-xs md:text-sm"
+          >
+            <Check className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+            Mark reviewed{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-3 md:p-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+            <select
+              value={monitorId}
+              onChange={(e) => setMonitorId(e.target.value)}
+              className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs md:w-64"
+              aria-label="Filter by monitor"
+            >
+              <option value="">All monitors</option>
+              {monitors.map(monitor => (
+                <option key={monitor.id} value={monitor.id}>{monitor.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              {(Object.keys(changeTypeLabels) as AgentChangeType[]).map(changeType => {
+                const Icon = changeTypeIcons[changeType]
+                return (
+                  <Button
+                    key={changeType}
+                    variant={changeTypes.includes(changeType) ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => toggleChangeType(changeType)}
+                    className="flex-shrink-0 text-xs md:text-sm px-2 md:px-3"
+                  >
+                    <Icon className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+                    {changeTypeLabels[changeType]}
+                  </Button>
+                )
+              })}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs value={reviewedTab} onValueChange={(value) => setReviewedTab(value as typeof reviewedTab)}>
+        <div className="flex items-center justify-between gap-2">
+          <TabsList>
+            <TabsTrigger value="unreviewed" className="text-xs md:text-sm px-2 md:px-3">
+              <Inbox className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+              Unreviewed
+            </TabsTrigger>
+            <TabsTrigger value="reviewed" className="text-xs md:text-sm px-2 md:px-3">
+              <Check className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+              Reviewed
+            </TabsTrigger>
+            <TabsTrigger value="all" className="text-xs md:text-sm px-2 md:px-3">
+              All
+            </TabsTrigger>
+          </TabsList>
+          {findings.length > 0 && (
+            <label className="flex items-center gap-2 text-xs md:text-sm text-muted-foreground cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleSelectAll}
+                className="h-4 w-4 rounded border-input accent-primary"
+              />
+              Select all ({findings.length} of {totalCount})
+            </label>
+          )}
+        </div>
+
+        <TabsContent value={reviewedTab} className="mt-4">
+          {loading && findings.length === 0 ? (
+            <div className="space-y-3 md:space-y-4">
+              {[...Array(4)].map((_, i) => (
+                <Card key={i} className="animate-pulse">
+                  <CardContent className="p-3 md:p-4">
+                    <div className="flex items-start gap-3 md:gap-4">
+                      <Skeleton className="h-4 w-4 rounded" />
+                      <div className="flex-1 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Skeleton className="h-5 w-24 rounded-full" />
+                          <Skeleton className="h-4 w-32" />
+                        </div>
+                        <Skeleton className="h-4 w-3/4" />
+                        <Skeleton className="h-3 w-40" />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : error ? (
+            <Card>
+              <CardContent className="p-4 md:p-6 text-center">
+                <div className="text-destructive space-y-3 md:space-y-4">
+                  <h3 className="font-medium text-sm md:text-base">Failed to load findings</h3>
+                  <p className="text-xs md:text-sm text-muted-foreground">{error}</p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="min-h-[44px] px-6"
+                    onClick={() => fetchFindings(filters, { limit: PAGE_SIZE, offset: 0 })}
+                  >
+                    Try Again
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : findings.length === 0 ? (
+            <Card>
+              <CardContent className="p-4 md:p-6 text-center">
+                <div className="text-muted-foreground space-y-3 md:space-y-4">
+                  <div className="mx-auto w-10 h-10 md:w-12 md:h-12 rounded-full bg-muted flex items-center justify-center mb-3 md:mb-4">
+                    <Inbox className="h-5 w-5 md:h-6 md:w-6" />
+                  </div>
+                  <h3 className="font-medium text-sm md:text-base">
+                    {monitorId || changeTypes.length > 0
+                      ? 'No findings match your filters'
+                      : reviewedTab === 'unreviewed' ? 'You\'re all caught up' : 'No findings yet'
+                    }
+                  </h3>
+                  <p className="text-xs md:text-sm">
+                    {monitors.length === 0
+                      ? 'Set up your first agent monitor to start collecting findings.'
+                      : 'New findings appear here when your monitors detect changes.'
+                    }
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-3 md:space-y-4">
+              {findings.map(finding => {
+                const Icon = changeTypeIcons[finding.change_type]
+                return (
+                  <Card
+                    key={finding.id}
+                    className={`hover:shadow-md transition-shadow cursor-pointer ${finding.reviewed ? 'opacity-75' : ''}`}
+                    onClick={() => setDetailsFinding(finding)}
+                  >
+                    <CardContent className="p-3 md:p-4">
+                      <div className="flex items-start gap-3 md:gap-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(finding.id)}
+                          onChange={() => toggleSelected(finding.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="mt-1 h-4 w-4 rounded border-input accent-primary flex-shrink-0"
+                          aria-label={`Select finding: ${finding.summary}`}
+                        />
+
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-start justify-between gap-2">
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 mb-1 flex-wrap">
+                                <Badge className={`${changeTypeColors[finding.change_type]} text-xs px-1.5 py-0.5 md:px-2 md:py-1`}>
+                                  <Icon className="h-3 w-3 mr-1" />
+                                  {changeTypeLabels[finding.change_type]}
+                                </Badge>
+                                <span className="text-xs md:text-sm font-medium truncate">{finding.monitor.name}</span>
+                                {!finding.reviewed && (
+                                  <span className="h-2 w-2 rounded-full bg-blue-500 flex-shrink-0" aria-label="Unreviewed" />
+                                )}
+                              </div>
+                              <p className="text-sm md:text-base line-clamp-2 break-words">{finding.summary}</p>
+                            </div>
+
+                            <div className="flex items-center gap-1 ml-2">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={finding.reviewed ? 'Mark unreviewed' : 'Mark reviewed'}
+                                disabled={updating}
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleSetReviewed([finding.id], !finding.reviewed)
+                                }}
+                              >
+                                {finding.reviewed ? <Undo2 className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="View details"
+                                className="hidden md:inline-flex"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  setDetailsFinding(finding)
+                                }}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={finding.session_id ? 'Open chat' : 'Ask the agent'}
+                                disabled={openingSessionId === finding.id}
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleAskAgent(finding)
+                                }}
+                              >
+                                <MessageSquare className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center gap-2 md:gap-4 mt-2 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="h-3 w-3" />
+                              {formatDistanceToNow(new Date(finding.created_at), { addSuffix: true })}
+                            </span>
+                            {finding.confidence_score !== undefined && finding.confidence_score !== null && (
+                              <span>{Math.round(finding.confidence_score * 100)}% confidence</span>
+                            )}
+                            {finding.session_id && (
+                              <span className="hidden sm:inline">Discussed in chat</span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+
+              {hasMore && (
+                <Card>
+                  <CardContent className="p-3 md:p-4 text-center">
+                    <Button
+                      variant="outline"
+                      disabled={loading}
+                      size="sm"
+                      className="min-h-[44px] px-6"
+                      onClick={() => fetchFindings(filters, { limit: PAGE_SIZE, offset: findings.length }, true)}
+                    >
+                      {loading ? 'Loading...' : 'Load More'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Finding details */}
+      <Dialog open={!!detailsFinding} onOpenChange={(open) => !open && setDetailsFinding(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {detailsFinding && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <Badge className={`${changeTypeColors[detailsFinding.change_type]} text-xs`}>
+                    {changeTypeLabels[detailsFinding.change_type]}
+                  </Badge>
+                  <span className="truncate">{detailsFinding.monitor.name}</span>
+                </DialogTitle>
+                <DialogDescription>{detailsFinding.summary}</DialogDescription>
+              </DialogHeader>
+              <FindingDetails finding={detailsFinding} />
+              <DialogFooter className="gap-2">
+                <Button
+                  variant="outline"
+                  disabled={updating}
+                  onClick={async () => {
+                    await handleSetReviewed([detailsFinding.id], !detailsFinding.reviewed)
+                    setDetailsFinding(null)
+                  }}
+                >
+                  {detailsFinding.reviewed ? 'Mark unreviewed' : 'Mark reviewed'}
+                </Button>
+                <Button
+                  disabled={openingSessionId === detailsFinding.id}
+                  onClick={() => handleAskAgent(detailsFinding)}
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  {detailsFinding.session_id ? 'Open chat' : 'Ask the agent'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -41,7 +41,9 @@ function BillingPageContent() {
     amount: number;
     description: string | null;
     created_at: string;
-    transaction_type: 'add' | 'use' | 'refund';
+    transaction_type: 'add' | 'use' | 'refund' | 'hold' | 'release';
+    reservation_id: string | null;
+    reservation_status: 'held' | 'settled' | 'released' | null;
   }>>([])
   const [creditLoading, setCreditLoading] = useState(false)
   
@@ -170,7 +172,9 @@ function BillingPageContent() {
               amount: t.amount,
               description: t.description || "",
               createdAt: t.created_at,
-              type: t.transaction_type === 'add' || t.transaction_type === 'refund' ? 'add' : 'use'
+              type: t.transaction_type === 'refund' ? 'add' : t.transaction_type,
+              reservationStatus: t.reservation_status,
+              reservationId: t.reservation_id
             }))}
             loading={creditLoading}
           />
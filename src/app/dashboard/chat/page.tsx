@@ -1,35 +1,69 @@
 "use client"
 
-import { useState, useEffect, Suspense } from "react"
+import { useState, useEffect, useMemo, useCallback, Suspense } from "react"
 import { ChatContainer, ChatContainerRef } from "@/components/dashboard-components/Chat"
+import type { ChatBranchAction } from "@/components/dashboard-components/Chat/ChatContainer"
 import { ChatMessageType } from "@/components/dashboard-components/Chat/ChatMessage"
 import { useOrganizationContext } from "@/contexts/organization-context"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Info } from "lucide-react"
 import { createClient } from "@/lib/supabase/client"
 import { canMemberUseFeature } from "@/lib/organization/permissions"
+import { parseChatSettings } from "@/lib/llm/settings"
+import type { LLMCitation } from "@/lib/llm/types"
+import { stripLegacySourcesFooter } from "@/lib/chat/citations"
+import { toChatAttachments } from "@/lib/chat/attachments"
 
 import { useRouter, useSearchParams } from "next/navigation"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useHistory } from "@/hooks/useHistory"
-import type { SessionWithInteractions } from "@/types/history"
+import type { InteractionWithArtifacts, SessionWithInteractions } from "@/types/history"
+import { SessionOrganizeButton } from "@/components/history/session-organize-menu"
 import { ChatInput } from "@/components/dashboard-components/Chat/ChatInput"
 import { useRef } from "react"
 
+// Converts the interactions of a session's active branch to chat messages.
+// Agent findings open sessions started from the findings inbox, so show them as assistant messages
+function toChatMessages(interactions: InteractionWithArtifacts[]): ChatMessageType[] {
+  return interactions
+    .filter(i => i.type === 'user_message' || i.type === 'assistant_message' || i.type === 'agent_finding')
+    .map(i => {
+      const citations = Array.isArray(i.metadata?.citations) ? i.metadata.citations as LLMCitation[] : undefined
+      return {
+        role: i.type === 'user_message' ? 'user' : 'assistant',
+        content: citations ? stripLegacySourcesFooter(i.content || '') : i.content || '',
+        id: i.id,
+        branch: i.branch,
+        citations,
+        attachments: i.type === 'user_message' ? toChatAttachments(i.artifacts) : undefined,
+        // Replies saved before token metering have no token counts
+        usage: i.input_tokens != null && i.output_tokens != null
+          ? { inputTokens: i.input_tokens, outputTokens: i.output_tokens, credits: i.cost_credits }
+          : undefined
+      }
+    })
+}
+
 function ChatPageContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
-  const { getSession } = useHistory()
+  const { getSession, updateSession } = useHistory()
   const chatContainerRef = useRef<ChatContainerRef>(null)
   
   // Session management
   const sessionId = searchParams.get('session')
+  // History search opens the session at the matching message
+  const targetInteractionId = searchParams.get('interaction')
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const [currentSession, setCurrentSession] = useState<SessionWithInteractions | null>(null)
   const [initialMessages, setInitialMessages] = useState<ChatMessageType[]>([])
   
   const [webSearchEnabled, setWebSearchEnabled] = useState(false)
+  const [knowledgeBaseEnabled, setKnowledgeBaseEnabled] = useState(false)
   const [agentEnabled, setAgentEnabled] = useState(false)
+  const [personaId, setPersonaId] = useState<string | null>(null)
   const { organization, userRole, updateOrganizationState } = useOrganizationContext()
+  const personas = useMemo(() => parseChatSettings(organization?.settings).personas, [organization?.settings])
   const [mismatch, setMismatch] = useState(false)
   const [actualOrgName, setActualOrgName] = useState<string | null>(null)
   
@@ -66,22 +100,34 @@ function ChatPageContent() {
       // Only load from database if we don't already have this session
       setSessionLoading(true)
       try {
-        const session = await getSession(sessionId)
+        let session = await getSession(sessionId)
+
+        // A match on another branch switches to it, so the matched message is shown
+        if (targetInteractionId && !session.interactions.some(i => i.id === targetInteractionId)) {
+          try {
+            await updateSession(sessionId, { active_interaction_id: targetInteractionId })
+            session = await getSession(sessionId)
+          } catch (error) {
+            console.error('Failed to switch to the matching branch:', error)
+          }
+        }
         setCurrentSession(session)
+        setHighlightedMessageId(targetInteractionId)
         
-        // Convert interactions to ChatMessageType format
-        const messages: ChatMessageType[] = session.interactions
-          .filter(i => i.type === 'user_message' || i.type === 'assistant_message')
-          .map(i => ({
-            role: i.type === 'user_message' ? 'user' : 'assistant',
-            content: i.content || ''
-          }))
-        
-        setInitialMessages(messages)
+        setInitialMessages(toChatMessages(session.interactions))
         // Set web search based on session metadata
         if (session.metadata?.webSearch) {
           setWebSearchEnabled(true)
         }
+        if (session.metadata?.knowledgeBase) {
+          setKnowledgeBaseEnabled(true)
+        }
+        // The session keeps the persona it started with
+        setPersonaId(typeof session.metadata?.personaId === 'string' ? session.metadata.personaId : null)
+        // Resume agent sessions in agent mode
+        if (session.type === 'agent' || session.metadata?.agentMode) {
+          setAgentEnabled(true)
+        }
       } catch (error) {
         console.error('Failed to load session:', error)
         // Could show a toast error here
@@ -91,7 +137,7 @@ function ChatPageContent() {
     }
     
     loadSession()
-  }, [sessionId, organization, getSession, justCreatedSession, currentSession?.id])
+  }, [sessionId, targetInteractionId, organization, getSession, updateSession, justCreatedSession, currentSession?.id])
 
 
 
@@ -134,7 +180,27 @@ function ChatPageContent() {
     verifyCurrentOrganization();
   }, [organization, updateOrganizationState]);
 
-  const handleSendMessage = async (message: string, previousMessages: ChatMessageType[] = [], sessionId?: string, approvals?: Record<string, boolean>) => {
+  // Reloads the active branch so saved messages get their ids and branch positions
+  const refreshActiveBranch = useCallback(async (refreshSessionId: string) => {
+    try {
+      const session = await getSession(refreshSessionId)
+      setCurrentSession(session)
+      setInitialMessages(toChatMessages(session.interactions))
+    } catch (error) {
+      console.error('Failed to reload session:', error)
+    }
+  }, [getSession])
+
+  const handleSwitchBranch = async (interactionId: string) => {
+    if (!currentSession) return
+
+    await updateSession(currentSession.id, { active_interaction_id: interactionId })
+    await refreshActiveBranch(currentSession.id)
+  }
+
+  const handleSendMessage = async (message: string, previousMessages: ChatMessageType[], sessionId?: string, approvals?: Record<string, boolean>, branch?: ChatBranchAction, attachments: File[] = []) => {
+    setHighlightedMessageId(null)
+
     // Check chat permission before proceeding
     if (!canMemberUseFeature(organization, userRole, "chat")) {
       // Return error message instead of throwing to maintain consistent error handling
@@ -145,28 +211,39 @@ function ChatPageContent() {
       // Choose API endpoint based on agent mode and permissions
       const apiEndpoint = (agentEnabled && canUseAgents) ? "/api/chat-agent" : "/api/chat";
       
-              // Prepare request body based on mode and permissions
+              // Prepare request body based on mode and permissions.
+        // Both routes load the conversation history from the session, so only the new message is sent
         const requestBody = (agentEnabled && canUseAgents) ? {
         message,
         sessionId: sessionId || currentSession?.id,
-        conversationHistory: previousMessages,
         agentMode: true,
         approvals
       } : {
         message,
         useWebSearch: webSearchEnabled,
-        history: previousMessages,
-        sessionId: sessionId || currentSession?.id
+        useKnowledgeBase: knowledgeBaseEnabled,
+        sessionId: sessionId || currentSession?.id,
+        personaId,
+        ...branch
       };
       
-      // Use streaming response
-      const response = await fetch(apiEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-      });
+      // Attachments are sent as form data, with the request body as its payload field
+      let response: Response;
+      if (attachments.length > 0) {
+        const formData = new FormData();
+        formData.append("payload", JSON.stringify(requestBody));
+        attachments.forEach(file => formData.append("attachments", file));
+        response = await fetch(apiEndpoint, { method: "POST", body: formData });
+      } else {
+        // Use streaming response
+        response = await fetch(apiEndpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(requestBody),
+        });
+      }
 
       if (!response.ok) {
         // For error handling, we need to get the JSON response
@@ -184,7 +261,7 @@ function ChatPageContent() {
             } else if (response.status === 401) {
               return "You need to be logged in to use this feature.";
             } else if (response.status === 400) {
-              return "Please select an organization before using this feature.";
+              return errorData.error || "Please select an organization before using this feature.";
             } else {
               return errorData.error || "Sorry, I encountered an error. Please try again.";
             }
@@ -242,6 +319,17 @@ function ChatPageContent() {
     </div>
   )
   
+  // Web search and the knowledge base answer from different sources, so only one is on at a time
+  const toggleWebSearch = (enabled: boolean) => {
+    setWebSearchEnabled(enabled)
+    if (enabled) setKnowledgeBaseEnabled(false)
+  }
+
+  const toggleKnowledgeBase = (enabled: boolean) => {
+    setKnowledgeBaseEnabled(enabled)
+    if (enabled) setWebSearchEnabled(false)
+  }
+
   // Handle session change (when a new session is created)
   const handleSessionChange = (newSessionId: string) => {
     // Mark this as a newly created session to avoid unnecessary loading
@@ -254,7 +342,7 @@ function ChatPageContent() {
       user_id: '',
       type: 'chat',
       title: 'New Chat',
-      metadata: { webSearch: webSearchEnabled },
+      metadata: { webSearch: webSearchEnabled, knowledgeBase: knowledgeBaseEnabled, personaId },
       starred: false,
       archived: false,
       created_at: new Date().toISOString(),
@@ -307,6 +395,12 @@ function ChatPageContent() {
                   🌐 Web Search
                 </span>
               )}
+              {knowledgeBaseEnabled && !(agentEnabled && canUseAgents) && (
+                <span className="px-2 py-1 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-600 border border-emerald-500/20">
+                  📚 Knowledge Base
+                </span>
+              )}
+              {currentSession && <SessionOrganizeButton session={currentSession} />}
             </div>
             <span className="text-xs sm:text-sm">Using credits from: <strong>{mismatch ? actualOrgName : organization.name}</strong></span>
           </div>
@@ -320,11 +414,18 @@ function ChatPageContent() {
           onSendMessage={handleSendMessage}
           streamingEnabled={true}
           webSearchEnabled={webSearchEnabled}
-          onToggleWebSearch={setWebSearchEnabled}
+          onToggleWebSearch={toggleWebSearch}
+          knowledgeBaseEnabled={knowledgeBaseEnabled}
+          onToggleKnowledgeBase={toggleKnowledgeBase}
           agentEnabled={agentEnabled && canUseAgents}
           onToggleAgent={canUseAgents ? setAgentEnabled : undefined}
           sessionId={currentSession?.id}
           onSessionChange={handleSessionChange}
+          onResponseComplete={refreshActiveBranch}
+          branchingEnabled={!(agentEnabled && canUseAgents)}
+          onSwitchBranch={handleSwitchBranch}
+          attachmentsEnabled={!(agentEnabled && canUseAgents)}
+          highlightedMessageId={highlightedMessageId}
           showInput={false}
           ref={chatContainerRef}
         />
@@ -336,14 +437,21 @@ function ChatPageContent() {
         <div className="ml-0 md:ml-64 p-4">
           <div className="max-w-4xl mx-auto">
             <ChatInput 
-              onSendMessage={(content: string) => {
-                chatContainerRef.current?.sendMessage(content)
+              onSendMessage={(content: string, attachments: File[]) => {
+                chatContainerRef.current?.sendMessage(content, attachments)
               }}
               isLoading={chatContainerRef.current?.isLoading || false}
               webSearchEnabled={webSearchEnabled}
-              onToggleWebSearch={setWebSearchEnabled}
+              onToggleWebSearch={toggleWebSearch}
+              knowledgeBaseEnabled={knowledgeBaseEnabled}
+              onToggleKnowledgeBase={toggleKnowledgeBase}
               agentEnabled={agentEnabled && canUseAgents}
               onToggleAgent={canUseAgents ? setAgentEnabled : undefined}
+              personas={personas}
+              personaId={personaId}
+              onPersonaChange={setPersonaId}
+              personaLocked={!!currentSession}
+              attachmentsEnabled={!(agentEnabled && canUseAgents)}
             />
           </div>
         </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useMemo } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -16,13 +16,28 @@ import {
   Trash2,
   Eye,
   Sparkles,
-  History
+  History,
+  Share2,
+  Download,
+  Upload,
+  Loader2,
+  Tag
 } from "lucide-react"
 import { useHistory } from "@/hooks/useHistory"
 import { formatDistanceToNow } from "date-fns"
-import type { SessionType, HistoryFilters } from "@/types/history"
+import type { SessionType, HistoryFilters, HistoryExportFormat, BulkSessionRequest } from "@/types/history"
 import { useRouter } from "next/navigation"
 import { Skeleton } from "@/components/ui/skeleton"
+import { ShareSessionDialog } from "@/components/history/share-session-dialog"
+import { ExportMenu } from "@/components/history/export-menu"
+import { HistorySearchResults } from "@/components/history/search-results"
+import { HistoryOrganizerPanel } from "@/components/history/history-organizer-panel"
+import { SessionOrganizeMenu } from "@/components/history/session-organize-menu"
+import { BulkActionsBar } from "@/components/history/bulk-actions-bar"
+import { useSessionOrganizer } from "@/hooks/useSessionOrganizer"
+import { TAG_COLOR_CLASSES } from "@/lib/history/organize"
+import { cn } from "@/lib/utils"
+import { errorToast, successToast } from "@/lib/toast"
 
 const sessionTypeIcons = {
   chat: MessageSquare,
@@ -50,8 +65,19 @@ export default function HistoryPage() {
     hasMore, 
     fetchSessions,
     deleteSession,
-    toggleSessionStar 
+    toggleSessionStar,
+    updateSession
   } = useHistory()
+  const {
+    tags,
+    folders,
+    createTag,
+    deleteTag,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+    bulkUpdateSessions
+  } = useSessionOrganizer()
 
   const [activeTab, setActiveTab] = useState<'all' | SessionType>('all')
   const [searchQuery, setSearchQuery] = useState('')
@@ -59,6 +85,13 @@ export default function HistoryPage() {
   const [sortBy, setSortBy] = useState<'updated_at' | 'created_at' | 'title'>('updated_at')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
   const [showStarredOnly, setShowStarredOnly] = useState(false)
+  const [sharingSession, setSharingSession] = useState<{ id: string; title?: string } | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null)
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
+  const [selectedSessionIds, setSelectedSessionIds] = useState<string[]>([])
+  const [bulkBusy, setBulkBusy] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   // Debounce search query
   useEffect(() => {
@@ -74,7 +107,9 @@ export default function HistoryPage() {
     search: debouncedSearchQuery || undefined,
     starred: showStarredOnly || undefined,
     type: activeTab !== 'all' ? [activeTab] : undefined,
-  }), [debouncedSearchQuery, showStarredOnly, activeTab])
+    tag_ids: selectedTagIds.length > 0 ? selectedTagIds : undefined,
+    folder_id: selectedFolderId || undefined,
+  }), [debouncedSearchQuery, showStarredOnly, activeTab, selectedTagIds, selectedFolderId])
 
   // Memoize pagination to prevent unnecessary re-renders
   const pagination = useMemo(() => ({
@@ -89,25 +124,109 @@ export default function HistoryPage() {
     fetchSessions(filters, pagination)
   }, [filters, pagination, fetchSessions])
 
-  const handleSessionClick = (session: typeof sessions[0]) => {
-    if (session.type === 'chat') {
-      router.push(`/dashboard/chat?session=${session.id}`)
+  // Selection is per view, so changing filters clears it
+  useEffect(() => {
+    setSelectedSessionIds([])
+  }, [filters])
+
+  // Chat and agent sessions can open at a search match; image sessions open as a whole
+  const handleSessionClick = (session: { id: string; type: SessionType }, interactionId?: string | null) => {
+    if (session.type === 'chat' || session.type === 'agent') {
+      router.push(`/dashboard/chat?session=${session.id}${interactionId ? `&interaction=${interactionId}` : ''}`)
     } else if (session.type === 'sandbox') {
       router.push(`/dashboard/sandbox?session=${session.id}`)
     } else if (session.type === 'magic_ads') {
       router.push(`/dashboard/magic-ads?session=${session.id}`)
     }
-    // TODO: Add agent routing when implemented
   }
 
   const handleDeleteSession = async (sessionId: string) => {
     try {
       await deleteSession(sessionId)
+      successToast('Session moved to trash')
     } catch (error) {
       console.error('Failed to delete session:', error)
     }
   }
 
+  // Export of every session matching the current filters, not only the loaded page
+  const getHistoryExportUrl = (format: HistoryExportFormat) => {
+    const params = new URLSearchParams({ format })
+    if (filters.type && filters.type.length > 0) params.set('type', filters.type.join(','))
+    if (filters.starred) params.set('starred', 'true')
+    if (filters.search) params.set('search', filters.search)
+    if (filters.tag_ids) params.set('tags', filters.tag_ids.join(','))
+    if (filters.folder_id) params.set('folder', filters.folder_id)
+    return `/api/history/sessions/export?${params.toString()}`
+  }
+
+  const handleImport = async (file: File) => {
+    setImporting(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      const response = await fetch('/api/history/sessions/import', {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import history')
+      }
+
+      successToast(`Imported ${data.imported} session${data.imported === 1 ? '' : 's'}`)
+      if (data.failed?.length > 0) {
+        errorToast(`Could not import: ${data.failed.join(', ')}`)
+      }
+      fetchSessions(filters, pagination)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : 'Failed to import history')
+    } finally {
+      setImporting(false)
+      if (importInputRef.current) importInputRef.current.value = ''
+    }
+  }
+
+  const toggleSessionSelected = (sessionId: string) => {
+    setSelectedSessionIds(prev => prev.includes(sessionId)
+      ? prev.filter(id => id !== sessionId)
+      : [...prev, sessionId])
+  }
+
+  const toggleTagFilter = (tagId: string) => {
+    setSelectedTagIds(prev => prev.includes(tagId) ? prev.filter(id => id !== tagId) : [...prev, tagId])
+  }
+
+  const handleBulkAction = async (request: Omit<BulkSessionRequest, 'session_ids'>) => {
+    setBulkBusy(true)
+    try {
+      const result = await bulkUpdateSessions({ ...request, session_ids: selectedSessionIds })
+      const count = `${result.updated.length} session${result.updated.length === 1 ? '' : 's'}`
+      successToast(request.action === 'delete' ? `Moved ${count} to trash` : `Updated ${count}`)
+      if (result.skipped.length > 0) {
+        errorToast(`${result.skipped.length} session${result.skipped.length === 1 ? " wasn't" : "s weren't"} changed because only their owners can change them`)
+      }
+      setSelectedSessionIds([])
+      fetchSessions(filters, pagination)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : 'Failed to update sessions')
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  // Tags and folders are changed one at a time; the list is reloaded to show the session's tags
+  const handleOrganizeSession = async (sessionId: string, updates: { tag_ids?: string[]; folder_id?: string | null }) => {
+    try {
+      await updateSession(sessionId, updates)
+      fetchSessions(filters, pagination)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : 'Failed to update session')
+    }
+  }
+
   const handleToggleStar = async (sessionId: string, starred: boolean) => {
     try {
       await toggleSessionStar(sessionId, !starred)
@@ -180,7 +299,7 @@ export default function HistoryPage() {
     <div className="grid gap-4 md:gap-6 pb-4 md:pb-6">
       <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
         <h1 className="text-2xl md:text-3xl font-bold tracking-tight">History</h1>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
           <Button
             variant={showStarredOnly ? "default" : "outline"}
             size="sm"
@@ -190,6 +309,45 @@ export default function HistoryPage() {
             <Star className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
             Starred
           </Button>
+          <ExportMenu getUrl={getHistoryExportUrl}>
+            <Button variant="outline" size="sm" className="text-xs md:text-sm">
+              <Download className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+              Export
+            </Button>
+          </ExportMenu>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={importing}
+            onClick={() => importInputRef.current?.click()}
+            className="text-xs md:text-sm"
+          >
+            {importing ? (
+              <Loader2 className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+            )}
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => router.push('/dashboard/history/trash')}
+            className="text-xs md:text-sm"
+          >
+            <Trash2 className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+            Trash
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImport(file)
+            }}
+          />
         </div>
       </div>
 
@@ -200,7 +358,7 @@ export default function HistoryPage() {
             <div className="relative">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search sessions..."
+                placeholder="Search titles, messages and prompts..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
@@ -249,315 +407,437 @@ export default function HistoryPage() {
         </CardContent>
       </Card>
 
-      {/* Session tabs */}
-      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as typeof activeTab)}>
-        <div className="overflow-x-auto">
-          <TabsList className="inline-flex w-max md:w-auto">
-            <TabsTrigger value="all" className="text-xs md:text-sm px-2 md:px-3">
-              <span className="md:hidden">All</span>
-              <span className="hidden md:inline">All ({totalCount})</span>
-            </TabsTrigger>
-            <TabsTrigger value="chat" className="text-xs md:text-sm px-2 md:px-3">
-              <MessageSquare className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-              Chat
-            </TabsTrigger>
-            <TabsTrigger value="sandbox" className="text-xs md:text-sm px-2 md:px-3">
-              <Image className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-label="Sandbox icon" />
-              <span className="hidden sm:inline">Sandbox</span>
-              <span className="sm:hidden">Box</span>
-            </TabsTrigger>
-            <TabsTrigger value="magic_ads" className="text-xs md:text-sm px-2 md:px-3">
-              <Sparkles className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-              <span className="hidden sm:inline">Magic Ads</span>
-              <span className="sm:hidden">Ads</span>
-            </TabsTrigger>
-            <TabsTrigger value="agent" className="text-xs md:text-sm px-2 md:px-3">
-              <Bot className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
-              <span className="hidden sm:inline">Agents</span>
-              <span className="sm:hidden">Bot</span>
-            </TabsTrigger>
-          </TabsList>
-        </div>
+      <div className="grid gap-4 md:grid-cols-[220px_1fr] md:items-start">
+        <HistoryOrganizerPanel
+          tags={tags}
+          folders={folders}
+          selectedFolderId={selectedFolderId}
+          onSelectFolder={setSelectedFolderId}
+          selectedTagIds={selectedTagIds}
+          onToggleTagFilter={toggleTagFilter}
+          onCreateTag={createTag}
+          onDeleteTag={deleteTag}
+          onCreateFolder={createFolder}
+          onUpdateFolder={updateFolder}
+          onDeleteFolder={deleteFolder}
+        />
 
-        <TabsContent value={activeTab} className="mt-4">
-          {loading ? (
-            <div className="space-y-3 md:space-y-4">
-              {[...Array(5)].map((_, i) => (
-                <Card key={i} className="animate-pulse">
-                  <CardContent className="p-3 md:p-4">
-                    <div className="flex items-start gap-3 md:gap-4">
-                      <div className="flex-shrink-0">
-                        <Skeleton className="h-8 w-8 md:h-10 md:w-10 rounded-full" />
-                      </div>
-                      <div className="flex-1 space-y-2 md:space-y-3">
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1 space-y-2">
-                            <div className="flex items-center gap-2">
-                              <Skeleton className="h-4 w-32 md:h-5 md:w-48" />
-                              <Skeleton className="h-4 w-12 md:h-5 md:w-16 rounded-full" />
+        {/* Session tabs */}
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as typeof activeTab)} className="min-w-0">
+          <div className="overflow-x-auto">
+            <TabsList className="inline-flex w-max md:w-auto">
+              <TabsTrigger value="all" className="text-xs md:text-sm px-2 md:px-3">
+                <span className="md:hidden">All</span>
+                <span className="hidden md:inline">All ({totalCount})</span>
+              </TabsTrigger>
+              <TabsTrigger value="chat" className="text-xs md:text-sm px-2 md:px-3">
+                <MessageSquare className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+                Chat
+              </TabsTrigger>
+              <TabsTrigger value="sandbox" className="text-xs md:text-sm px-2 md:px-3">
+                <Image className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" aria-label="Sandbox icon" />
+                <span className="hidden sm:inline">Sandbox</span>
+                <span className="sm:hidden">Box</span>
+              </TabsTrigger>
+              <TabsTrigger value="magic_ads" className="text-xs md:text-sm px-2 md:px-3">
+                <Sparkles className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+                <span className="hidden sm:inline">Magic Ads</span>
+                <span className="sm:hidden">Ads</span>
+              </TabsTrigger>
+              <TabsTrigger value="agent" className="text-xs md:text-sm px-2 md:px-3">
+                <Bot className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+                <span className="hidden sm:inline">Agents</span>
+                <span className="sm:hidden">Bot</span>
+              </TabsTrigger>
+            </TabsList>
+          </div>
+
+          <TabsContent value={activeTab} className="mt-4">
+            {debouncedSearchQuery ? (
+              <HistorySearchResults
+                query={debouncedSearchQuery}
+                filters={{ type: filters.type, starred: filters.starred }}
+                onOpen={(result) => handleSessionClick({ id: result.session_id, type: result.type }, result.interaction_id)}
+              />
+            ) : loading ? (
+              <div className="space-y-3 md:space-y-4">
+                {[...Array(5)].map((_, i) => (
+                  <Card key={i} className="animate-pulse">
+                    <CardContent className="p-3 md:p-4">
+                      <div className="flex items-start gap-3 md:gap-4">
+                        <div className="flex-shrink-0">
+                          <Skeleton className="h-8 w-8 md:h-10 md:w-10 rounded-full" />
+                        </div>
+                        <div className="flex-1 space-y-2 md:space-y-3">
+                          <div className="flex items-start justify-between">
+                            <div className="flex-1 space-y-2">
+                              <div className="flex items-center gap-2">
+                                <Skeleton className="h-4 w-32 md:h-5 md:w-48" />
+                                <Skeleton className="h-4 w-12 md:h-5 md:w-16 rounded-full" />
+                              </div>
+                              <Skeleton className="h-3 w-48 md:h-4 md:w-72" />
+                              <div className="flex gap-1 md:gap-2 mt-2">
+                                <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
+                                <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
+                                <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
+                              </div>
                             </div>
-                            <Skeleton className="h-3 w-48 md:h-4 md:w-72" />
-                            <div className="flex gap-1 md:gap-2 mt-2">
-                              <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
-                              <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
-                              <Skeleton className="h-12 w-12 md:h-16 md:w-16 rounded-md" />
+                            <div className="flex gap-1">
+                              <Skeleton className="h-8 w-8 rounded" />
+                              <Skeleton className="h-8 w-8 rounded md:inline hidden" />
+                              <Skeleton className="h-8 w-8 rounded md:inline hidden" />
                             </div>
                           </div>
-                          <div className="flex gap-1">
-                            <Skeleton className="h-8 w-8 rounded" />
-                            <Skeleton className="h-8 w-8 rounded md:inline hidden" />
-                            <Skeleton className="h-8 w-8 rounded md:inline hidden" />
-                          </div>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <div className="flex gap-2 md:gap-4">
-                            <Skeleton className="h-3 w-16 md:w-24" />
-                            <Skeleton className="h-3 w-12 md:w-20" />
+                          <div className="flex items-center justify-between">
+                            <div className="flex gap-2 md:gap-4">
+                              <Skeleton className="h-3 w-16 md:w-24" />
+                              <Skeleton className="h-3 w-12 md:w-20" />
+                            </div>
                           </div>
                         </div>
                       </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : error ? (
+              <Card>
+                <CardContent className="p-4 md:p-6 text-center">
+                  <div className="text-destructive space-y-3 md:space-y-4">
+                    <h3 className="font-medium text-sm md:text-base">Failed to load sessions</h3>
+                    <p className="text-xs md:text-sm text-muted-foreground">{error}</p>
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className="min-h-[44px] px-6"
+                      onClick={() => {
+                        const filters: HistoryFilters = {
+                          search: searchQuery || undefined,
+                          starred: showStarredOnly || undefined,
+                          type: activeTab !== 'all' ? [activeTab] : undefined,
+                          tag_ids: selectedTagIds.length > 0 ? selectedTagIds : undefined,
+                          folder_id: selectedFolderId || undefined,
+                        }
+                        const pagination = {
+                          limit: 5,
+                          offset: 0,
+                          order_by: sortBy,
+                          order_direction: sortDirection
+                        }
+                        fetchSessions(filters, pagination)
+                      }}
+                    >
+                      Try Again
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : sessions.length === 0 ? (
+              <Card>
+                <CardContent className="p-4 md:p-6 text-center">
+                  <div className="text-muted-foreground space-y-3 md:space-y-4">
+                    <div className="mx-auto w-10 h-10 md:w-12 md:h-12 rounded-full bg-muted flex items-center justify-center mb-3 md:mb-4">
+                      {activeTab === 'all' && <History className="h-5 w-5 md:h-6 md:w-6" />}
+                      {activeTab === 'chat' && <MessageSquare className="h-5 w-5 md:h-6 md:w-6" />}
+                      {activeTab === 'sandbox' && <Image className="h-5 w-5 md:h-6 md:w-6" aria-label="Sandbox icon" />}
+                      {activeTab === 'magic_ads' && <Sparkles className="h-5 w-5 md:h-6 md:w-6" />}
+                      {activeTab === 'agent' && <Bot className="h-5 w-5 md:h-6 md:w-6" />}
                     </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          ) : error ? (
-            <Card>
-              <CardContent className="p-4 md:p-6 text-center">
-                <div className="text-destructive space-y-3 md:space-y-4">
-                  <h3 className="font-medium text-sm md:text-base">Failed to load sessions</h3>
-                  <p className="text-xs md:text-sm text-muted-foreground">{error}</p>
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    className="min-h-[44px] px-6"
-                    onClick={() => {
-                      const filters: HistoryFilters = {
-                        search: searchQuery || undefined,
-                        starred: showStarredOnly || undefined,
-                        type: activeTab !== 'all' ? [activeTab] : undefined,
+                    <h3 className="font-medium text-sm md:text-base">
+                      {searchQuery || showStarredOnly || selectedFolderId || selectedTagIds.length > 0
+                        ? 'No sessions match your filters' 
+                        : `No ${activeTab === 'all' ? '' : activeTab} sessions yet`
+                      }
+                    </h3>
+                    <p className="text-xs md:text-sm">
+                      {!searchQuery && !showStarredOnly && activeTab === 'all' && 
+                        'Start a conversation or create something in the sandbox!'
+                      }
+                      {!searchQuery && !showStarredOnly && activeTab === 'chat' && 
+                        'Start your first conversation in the chat!'
                       }
-                      const pagination = {
-                        limit: 5,
-                        offset: 0,
-                        order_by: sortBy,
-                        order_direction: sortDirection
+                      {!searchQuery && !showStarredOnly && activeTab === 'sandbox' && 
+                        'Create your first image in the sandbox!'
                       }
-                      fetchSessions(filters, pagination)
-                    }}
-                  >
-                    Try Again
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ) : sessions.length === 0 ? (
-            <Card>
-              <CardContent className="p-4 md:p-6 text-center">
-                <div className="text-muted-foreground space-y-3 md:space-y-4">
-                  <div className="mx-auto w-10 h-10 md:w-12 md:h-12 rounded-full bg-muted flex items-center justify-center mb-3 md:mb-4">
-                    {activeTab === 'all' && <History className="h-5 w-5 md:h-6 md:w-6" />}
-                    {activeTab === 'chat' && <MessageSquare className="h-5 w-5 md:h-6 md:w-6" />}
-                    {activeTab === 'sandbox' && <Image className="h-5 w-5 md:h-6 md:w-6" aria-label="Sandbox icon" />}
-                    {activeTab === 'magic_ads' && <Sparkles className="h-5 w-5 md:h-6 md:w-6" />}
-                    {activeTab === 'agent' && <Bot className="h-5 w-5 md:h-6 md:w-6" />}
+                      {!searchQuery && !showStarredOnly && activeTab === 'magic_ads' && 
+                        'Generate your first ad in Magic Ads!'
+                      }
+                      {!searchQuery && !showStarredOnly && activeTab === 'agent' && 
+                        'Set up your first agent monitor!'
+                      }
+                    </p>
                   </div>
-                  <h3 className="font-medium text-sm md:text-base">
-                    {searchQuery || showStarredOnly 
-                      ? 'No sessions match your filters' 
-                      : `No ${activeTab === 'all' ? '' : activeTab} sessions yet`
-                    }
-                  </h3>
-                  <p className="text-xs md:text-sm">
-                    {!searchQuery && !showStarredOnly && activeTab === 'all' && 
-                      'Start a conversation or create something in the sandbox!'
-                    }
-                    {!searchQuery && !showStarredOnly && activeTab === 'chat' && 
-                      'Start your first conversation in the chat!'
-                    }
-                    {!searchQuery && !showStarredOnly && activeTab === 'sandbox' && 
-                      'Create your first image in the sandbox!'
-                    }
-                    {!searchQuery && !showStarredOnly && activeTab === 'magic_ads' && 
-                      'Generate your first ad in Magic Ads!'
-                    }
-                    {!searchQuery && !showStarredOnly && activeTab === 'agent' && 
-                      'Set up your first agent monitor!'
-                    }
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-3 md:space-y-4">
-              {sessions.map((session) => {
-                const Icon = sessionTypeIcons[session.type]
-                const latestImage = getLatestSessionImage(session)
-                
-                return (
-                  <Card 
-                    key={session.id} 
-                    className="hover:shadow-md transition-shadow cursor-pointer active:scale-[0.99] md:active:scale-100"
-                    onClick={() => handleSessionClick(session)}
-                  >
-                    <CardContent className="p-3 md:p-4">
-                      <div className="flex items-start gap-3 md:gap-4">
-                        <div className="flex-shrink-0">
-                          <div className="h-8 w-8 md:h-10 md:w-10 rounded-full bg-muted flex items-center justify-center">
-                            <Icon className="h-4 w-4 md:h-5 md:w-5" />
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3 md:space-y-4">
+                {selectedSessionIds.length > 0 && (
+                  <BulkActionsBar
+                    selectedCount={selectedSessionIds.length}
+                    tags={tags}
+                    folders={folders}
+                    disabled={bulkBusy}
+                    onAction={handleBulkAction}
+                    onClear={() => setSelectedSessionIds([])}
+                  />
+                )}
+
+                {sessions.map((session) => {
+                  const Icon = sessionTypeIcons[session.type]
+                  const latestImage = getLatestSessionImage(session)
+                  const sessionTagIds = session.tags?.map(tag => tag.id) || []
+                  const selected = selectedSessionIds.includes(session.id)
+                  
+                  return (
+                    <Card 
+                      key={session.id} 
+                      className={cn(
+                        "hover:shadow-md transition-shadow cursor-pointer active:scale-[0.99] md:active:scale-100",
+                        selected && "ring-2 ring-primary"
+                      )}
+                      onClick={() => handleSessionClick(session)}
+                    >
+                      <CardContent className="p-3 md:p-4">
+                        <div className="flex items-start gap-3 md:gap-4">
+                          <input
+                            type="checkbox"
+                            aria-label="Select session"
+                            checked={selected}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={() => toggleSessionSelected(session.id)}
+                            className="mt-2 h-4 w-4 flex-shrink-0 cursor-pointer accent-primary md:mt-3"
+                          />
+                          <div className="flex-shrink-0">
+                            <div className="h-8 w-8 md:h-10 md:w-10 rounded-full bg-muted flex items-center justify-center">
+                              <Icon className="h-4 w-4 md:h-5 md:w-5" />
+                            </div>
                           </div>
-                        </div>
-                        
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-start justify-between gap-2">
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center gap-2 mb-1">
-                                <h3 className="font-medium truncate text-sm md:text-base">
-                                  {session.title || `${session.type.charAt(0).toUpperCase() + session.type.slice(1)} Session`}
-                                </h3>
-                                <Badge className={`${sessionTypeColors[session.type]} text-xs px-1.5 py-0.5 md:px-2 md:py-1`}>
-                                  <span className="md:hidden">{session.type.charAt(0).toUpperCase()}</span>
-                                  <span className="hidden md:inline">{session.type}</span>
-                                </Badge>
-                                {session.starred && (
-                                  <Star className="h-3 w-3 md:h-4 md:w-4 text-yellow-500 fill-yellow-500 flex-shrink-0" />
+                          
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-start justify-between gap-2">
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 mb-1">
+                                  <h3 className="font-medium truncate text-sm md:text-base">
+                                    {session.title || `${session.type.charAt(0).toUpperCase() + session.type.slice(1)} Session`}
+                                  </h3>
+                                  <Badge className={`${sessionTypeColors[session.type]} text-xs px-1.5 py-0.5 md:px-2 md:py-1`}>
+                                    <span className="md:hidden">{session.type.charAt(0).toUpperCase()}</span>
+                                    <span className="hidden md:inline">{session.type}</span>
+                                  </Badge>
+                                  {session.starred && (
+                                    <Star className="h-3 w-3 md:h-4 md:w-4 text-yellow-500 fill-yellow-500 flex-shrink-0" />
+                                  )}
+                                </div>
+                                
+                                {session.description && (
+                                  <p className="text-xs md:text-sm text-muted-foreground mb-2 line-clamp-2">
+                                    {session.description}
+                                  </p>
                                 )}
-                              </div>
-                              
-                              {session.description && (
-                                <p className="text-xs md:text-sm text-muted-foreground mb-2 line-clamp-2">
-                                  {session.description}
-                                </p>
-                              )}
-                              
-                              {/* Mobile: Move image to same row as content */}
-                              <div className="flex items-center justify-between">
-                                {/* Latest image preview for sandbox and magic_ads sessions */}
-                                {latestImage && (
-                                  <div className="md:mb-3">
-                                    <img 
-                                      src={latestImage} 
-                                      alt={`Latest generated image from ${session.type} session`}
-                                      className="h-12 w-12 md:h-16 md:w-16 object-cover rounded-md border hover:ring-2 hover:ring-primary/50 transition-all"
+
+                                {session.tags && session.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mb-2">
+                                    {session.tags.map(tag => (
+                                      <Badge key={tag.id} variant="secondary" className={cn("text-xs px-1.5 py-0", TAG_COLOR_CLASSES[tag.color])}>
+                                        {tag.name}
+                                      </Badge>
+                                    ))}
+                                  </div>
+                                )}
+                                
+                                {/* Mobile: Move image to same row as content */}
+                                <div className="flex items-center justify-between">
+                                  {/* Latest image preview for sandbox and magic_ads sessions */}
+                                  {latestImage && (
+                                    <div className="md:mb-3">
+                                      <img 
+                                        src={latestImage} 
+                                        alt={`Latest generated image from ${session.type} session`}
+                                        className="h-12 w-12 md:h-16 md:w-16 object-cover rounded-md border hover:ring-2 hover:ring-primary/50 transition-all"
+                                        onClick={(e) => {
+                                          e.stopPropagation()
+                                          handleSessionClick(session)
+                                        }}
+                                      />
+                                    </div>
+                                  )}
+                                  
+                                  {/* Mobile: Show actions on the right */}
+                                  <div className="flex items-center gap-1 md:hidden">
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 w-8 p-0"
+                                      onClick={(e) => {
+                                        e.stopPropagation()
+                                        handleToggleStar(session.id, session.starred)
+                                      }}
+                                    >
+                                      <Star className={`h-3 w-3 ${session.starred ? 'text-yellow-500 fill-yellow-500' : ''}`} />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 w-8 p-0"
                                       onClick={(e) => {
                                         e.stopPropagation()
-                                        handleSessionClick(session)
+                                        setSharingSession(session)
                                       }}
-                                    />
+                                    >
+                                      <Share2 className="h-3 w-3" />
+                                    </Button>
+                                    <ExportMenu getUrl={(format) => `/api/history/sessions/${session.id}/export?format=${format}`}>
+                                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                        <Download className="h-3 w-3" />
+                                      </Button>
+                                    </ExportMenu>
+                                    <SessionOrganizeMenu
+                                      tags={tags}
+                                      folders={folders}
+                                      folderId={session.folder_id}
+                                      tagIds={sessionTagIds}
+                                      onToggleTag={(tagId, assigned) => handleOrganizeSession(session.id, {
+                                        tag_ids: assigned ? [...sessionTagIds, tagId] : sessionTagIds.filter(id => id !== tagId)
+                                      })}
+                                      onMove={(folderId) => handleOrganizeSession(session.id, { folder_id: folderId })}
+                                    >
+                                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                                        <Tag className="h-3 w-3" />
+                                      </Button>
+                                    </SessionOrganizeMenu>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-8 w-8 p-0"
+                                      onClick={(e) => {
+                                        e.stopPropagation()
+                                        handleDeleteSession(session.id)
+                                      }}
+                                    >
+                                      <Trash2 className="h-3 w-3 text-destructive" />
+                                    </Button>
                                   </div>
-                                )}
-                                
-                                {/* Mobile: Show actions on the right */}
-                                <div className="flex items-center gap-1 md:hidden">
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-8 w-8 p-0"
-                                    onClick={(e) => {
-                                      e.stopPropagation()
-                                      handleToggleStar(session.id, session.starred)
-                                    }}
-                                  >
-                                    <Star className={`h-3 w-3 ${session.starred ? 'text-yellow-500 fill-yellow-500' : ''}`} />
+                                </div>
+                              </div>
+                              
+                              {/* Desktop: Keep actions on the right */}
+                              <div className="hidden md:flex items-center gap-1 ml-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleToggleStar(session.id, session.starred)
+                                  }}
+                                >
+                                  <Star className={`h-4 w-4 ${session.starred ? 'text-yellow-500 fill-yellow-500' : ''}`} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleSessionClick(session)
+                                  }}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    setSharingSession(session)
+                                  }}
+                                >
+                                  <Share2 className="h-4 w-4" />
+                                </Button>
+                                <ExportMenu getUrl={(format) => `/api/history/sessions/${session.id}/export?format=${format}`}>
+                                  <Button variant="ghost" size="icon">
+                                    <Download className="h-4 w-4" />
                                   </Button>
-                                  <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    className="h-8 w-8 p-0"
-                                    onClick={(e) => {
-                                      e.stopPropagation()
-                                      handleDeleteSession(session.id)
-                                    }}
-                                  >
-                                    <Trash2 className="h-3 w-3 text-destructive" />
+                                </ExportMenu>
+                                <SessionOrganizeMenu
+                                  tags={tags}
+                                  folders={folders}
+                                  folderId={session.folder_id}
+                                  tagIds={sessionTagIds}
+                                  onToggleTag={(tagId, assigned) => handleOrganizeSession(session.id, {
+                                    tag_ids: assigned ? [...sessionTagIds, tagId] : sessionTagIds.filter(id => id !== tagId)
+                                  })}
+                                  onMove={(folderId) => handleOrganizeSession(session.id, { folder_id: folderId })}
+                                >
+                                  <Button variant="ghost" size="icon">
+                                    <Tag className="h-4 w-4" />
                                   </Button>
-                                </div>
+                                </SessionOrganizeMenu>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleDeleteSession(session.id)
+                                  }}
+                                >
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
                               </div>
                             </div>
                             
-                            {/* Desktop: Keep actions on the right */}
-                            <div className="hidden md:flex items-center gap-1 ml-2">
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  handleToggleStar(session.id, session.starred)
-                                }}
-                              >
-                                <Star className={`h-4 w-4 ${session.starred ? 'text-yellow-500 fill-yellow-500' : ''}`} />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  handleSessionClick(session)
-                                }}
-                              >
-                                <Eye className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  handleDeleteSession(session.id)
-                                }}
-                              >
-                                <Trash2 className="h-4 w-4 text-destructive" />
-                              </Button>
-                            </div>
-                          </div>
-                          
-                          <div className="flex items-center justify-between mt-2 md:mt-3 text-xs text-muted-foreground">
-                            <div className="flex items-center gap-2 md:gap-4">
-                              <span className="flex items-center gap-1">
-                                <Calendar className="h-3 w-3" />
-                                <span className="md:hidden">{formatDistanceToNow(new Date(session.updated_at), { addSuffix: true }).replace(' ago', '')}</span>
-                                <span className="hidden md:inline">{formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}</span>
-                              </span>
-                              {session.interaction_count > 0 && (
-                                <span className="hidden sm:inline">{session.interaction_count} interaction{session.interaction_count !== 1 ? 's' : ''}</span>
-                              )}
-                              {session.interaction_count > 0 && (
-                                <span className="sm:hidden">{session.interaction_count}x</span>
-                              )}
+                            <div className="flex items-center justify-between mt-2 md:mt-3 text-xs text-muted-foreground">
+                              <div className="flex items-center gap-2 md:gap-4">
+                                <span className="flex items-center gap-1">
+                                  <Calendar className="h-3 w-3" />
+                                  <span className="md:hidden">{formatDistanceToNow(new Date(session.updated_at), { addSuffix: true }).replace(' ago', '')}</span>
+                                  <span className="hidden md:inline">{formatDistanceToNow(new Date(session.updated_at), { addSuffix: true })}</span>
+                                </span>
+                                {session.interaction_count > 0 && (
+                                  <span className="hidden sm:inline">{session.interaction_count} interaction{session.interaction_count !== 1 ? 's' : ''}</span>
+                                )}
+                                {session.interaction_count > 0 && (
+                                  <span className="sm:hidden">{session.interaction_count}x</span>
+                                )}
+                              </div>
                             </div>
                           </div>
                         </div>
-                      </div>
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+                
+                {hasMore && (
+                  <Card>
+                    <CardContent className="p-3 md:p-4 text-center">
+                      <Button 
+                        variant="outline" 
+                        disabled={loading}
+                        size="sm"
+                        className="min-h-[44px] px-6"
+                        onClick={() => {
+                          const loadMorePagination = {
+                            ...pagination,
+                            offset: sessions.length, // Use current sessions count as offset
+                          }
+
+                          fetchSessions(filters, loadMorePagination, true) // true = append mode
+                        }}
+                      >
+                        {loading ? 'Loading...' : 'Load More'}
+                      </Button>
                     </CardContent>
                   </Card>
-                )
-              })}
-              
-              {hasMore && (
-                <Card>
-                  <CardContent className="p-3 md:p-4 text-center">
-                    <Button 
-                      variant="outline" 
-                      disabled={loading}
-                      size="sm"
-                      className="min-h-[44px] px-6"
-                      onClick={() => {
-                        const loadMorePagination = {
-                          ...pagination,
-                          offset: sessions.length, // Use current sessions count as offset
-                        }
+                )}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
 
-                        fetchSessions(filters, loadMorePagination, true) // true = append mode
-                      }}
-                    >
-                      {loading ? 'Loading...' : 'Load More'}
-                    </Button>
-                  </CardContent>
-                </Card>
-              )}
-            </div>
-          )}
-        </TabsContent>
-      </Tabs>
+      <ShareSessionDialog
+        session={sharingSession}
+        onOpenChange={(open) => !open && setSharingSession(null)}
+      />
     </div>
   )
 } 
\ No newline at end of file
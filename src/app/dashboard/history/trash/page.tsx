@@ -0,0 +1,252 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { formatDistanceToNow } from "date-fns"
+import { ArrowLeft, Bot, FileText, Image, Loader2, MessageSquare, RotateCcw, Sparkles, Trash2 } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { useTrash } from "@/hooks/useTrash"
+import { errorToast, successToast } from "@/lib/toast"
+
+const sessionTypeIcons = {
+  chat: MessageSquare,
+  sandbox: Image,
+  agent: Bot,
+  magic_ads: Sparkles
+}
+
+// What a confirmed permanent delete removes: everything, or the given items
+type PendingPurge = { all: true; label: string } | { all: false; label: string; sessionIds: string[]; artifactIds: string[] }
+
+function getSessionTitle(session: { title?: string; type: string }): string {
+  return session.title || `${session.type.charAt(0).toUpperCase() + session.type.slice(1)} Session`
+}
+
+export default function TrashPage() {
+  const router = useRouter()
+  const { sessions, artifacts, trashDays, loading, error, fetchTrash, restoreItems, purgeItems, emptyTrash } = useTrash()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null)
+  const [purging, setPurging] = useState(false)
+
+  const isEmpty = sessions.length === 0 && artifacts.length === 0
+
+  const handleRestore = async (id: string, kind: "session" | "artifact") => {
+    setBusyId(id)
+    try {
+      await (kind === "session" ? restoreItems([id]) : restoreItems([], [id]))
+      successToast(kind === "session" ? "Session restored" : "Item restored")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to restore")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return
+
+    setPurging(true)
+    try {
+      if (pendingPurge.all) {
+        await emptyTrash()
+        successToast("Trash emptied")
+      } else {
+        await purgeItems(pendingPurge.sessionIds, pendingPurge.artifactIds)
+        successToast("Deleted permanently")
+      }
+      setPendingPurge(null)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to delete")
+    } finally {
+      setPurging(false)
+    }
+  }
+
+  const itemActions = (id: string, kind: "session" | "artifact", label: string) => (
+    <div className="flex items-center gap-1 flex-shrink-0">
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={busyId === id}
+        onClick={() => handleRestore(id, kind)}
+        className="text-xs md:text-sm"
+      >
+        {busyId === id ? (
+          <Loader2 className="h-3 w-3 md:h-4 md:w-4 mr-1 animate-spin" />
+        ) : (
+          <RotateCcw className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+        )}
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => setPendingPurge({
+          all: false,
+          label,
+          sessionIds: kind === "session" ? [id] : [],
+          artifactIds: kind === "artifact" ? [id] : []
+        })}
+      >
+        <Trash2 className="h-4 w-4 text-destructive" />
+        <span className="sr-only">Delete permanently</span>
+      </Button>
+    </div>
+  )
+
+  const purgeNote = (item: { deleted_at: string; purge_at: string }) => (
+    <p className="text-xs text-muted-foreground">
+      Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })} · removed for good{" "}
+      {formatDistanceToNow(new Date(item.purge_at), { addSuffix: true })}
+    </p>
+  )
+
+  return (
+    <div className="grid gap-4 md:gap-6 pb-4 md:pb-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => router.push("/dashboard/history")}>
+            <ArrowLeft className="h-4 w-4" />
+            <span className="sr-only">Back to history</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Trash</h1>
+            {trashDays !== null && (
+              <p className="text-sm text-muted-foreground">
+                Items are deleted permanently, with their files, {trashDays} day{trashDays === 1 ? "" : "s"} after they are moved here.
+              </p>
+            )}
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isEmpty || loading}
+          onClick={() => setPendingPurge({ all: true, label: "everything in your trash" })}
+          className="text-xs md:text-sm text-destructive self-start md:self-auto"
+        >
+          <Trash2 className="h-3 w-3 md:h-4 md:w-4 mr-1 md:mr-2" />
+          Empty trash
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-16 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Card>
+          <CardContent className="p-4 md:p-6 text-center space-y-3">
+            <p className="text-sm text-destructive">{error}</p>
+            <Button variant="outline" size="sm" onClick={fetchTrash}>Try Again</Button>
+          </CardContent>
+        </Card>
+      ) : isEmpty ? (
+        <Card>
+          <CardContent className="p-4 md:p-6 text-center text-muted-foreground space-y-3">
+            <div className="mx-auto w-10 h-10 md:w-12 md:h-12 rounded-full bg-muted flex items-center justify-center">
+              <Trash2 className="h-5 w-5 md:h-6 md:w-6" />
+            </div>
+            <h3 className="font-medium text-sm md:text-base">Trash is empty</h3>
+            <p className="text-xs md:text-sm">Sessions and images you delete stay here until they are removed for good.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {sessions.length > 0 && (
+            <Card>
+              <CardHeader className="p-3 md:p-4 pb-0 md:pb-0">
+                <CardTitle className="text-base">Sessions</CardTitle>
+              </CardHeader>
+              <CardContent className="p-3 md:p-4 divide-y">
+                {sessions.map(session => {
+                  const Icon = sessionTypeIcons[session.type]
+                  return (
+                    <div key={session.id} className="flex items-center gap-3 py-3 first:pt-0 last:pb-0">
+                      <div className="h-8 w-8 md:h-10 md:w-10 flex-shrink-0 rounded-full bg-muted flex items-center justify-center">
+                        <Icon className="h-4 w-4 md:h-5 md:w-5" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium truncate text-sm md:text-base">{getSessionTitle(session)}</h3>
+                        {purgeNote(session)}
+                      </div>
+                      {itemActions(session.id, "session", `"${getSessionTitle(session)}"`)}
+                    </div>
+                  )
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {artifacts.length > 0 && (
+            <Card>
+              <CardHeader className="p-3 md:p-4 pb-0 md:pb-0">
+                <CardTitle className="text-base">Images and files</CardTitle>
+              </CardHeader>
+              <CardContent className="p-3 md:p-4 divide-y">
+                {artifacts.map(artifact => (
+                  <div key={artifact.id} className="flex items-center gap-3 py-3 first:pt-0 last:pb-0">
+                    {artifact.type === "image" && artifact.url ? (
+                      <img
+                        src={artifact.url}
+                        alt={artifact.filename || "Trashed image"}
+                        className="h-10 w-10 md:h-12 md:w-12 flex-shrink-0 rounded-md border object-cover"
+                      />
+                    ) : (
+                      <div className="h-10 w-10 md:h-12 md:w-12 flex-shrink-0 rounded-md border bg-muted flex items-center justify-center">
+                        <FileText className="h-4 w-4 md:h-5 md:w-5" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium truncate text-sm md:text-base">
+                        {artifact.filename || (artifact.type === "image" ? "Image" : "File")}
+                      </h3>
+                      <p className="text-xs text-muted-foreground truncate">
+                        From {getSessionTitle({ title: artifact.session_title, type: artifact.session_type })}
+                      </p>
+                      {purgeNote(artifact)}
+                    </div>
+                    {itemActions(artifact.id, "artifact", artifact.filename ? `"${artifact.filename}"` : "this item")}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <Dialog open={!!pendingPurge} onOpenChange={(open) => !open && !purging && setPendingPurge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete permanently?</DialogTitle>
+            <DialogDescription>
+              This deletes {pendingPurge?.label} and its files for good. It can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" disabled={purging} onClick={() => setPendingPurge(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={purging} onClick={handleConfirmPurge}>
+              {purging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete permanently
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
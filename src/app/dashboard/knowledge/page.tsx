@@ -0,0 +1,257 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef, Suspense } from "react"
+import { useSearchParams, useRouter } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { FileText, Library, Loader2, Trash2, Upload, X } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { errorToast, successToast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+import { KNOWLEDGE_BASE_PATH } from "@/lib/knowledge/retrieval"
+import type { KnowledgeChunk, KnowledgeDocument, KnowledgeDocumentStatus } from "@/types/knowledge"
+
+const statusColors: Record<KnowledgeDocumentStatus, string> = {
+  processing: "bg-amber-100 text-amber-800",
+  ready: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800"
+}
+
+function KnowledgePageContent() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const selectedDocumentId = searchParams.get("document")
+  const citedChunk = searchParams.get("chunk")
+
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [selected, setSelected] = useState<{ document: KnowledgeDocument; chunks: KnowledgeChunk[] } | null>(null)
+  const [loadingChunks, setLoadingChunks] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const citedChunkRef = useRef<HTMLDivElement>(null)
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      const response = await fetch("/api/knowledge/documents")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load documents")
+      setDocuments(data.documents)
+      setCanManage(data.canManage)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to load documents")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [fetchDocuments])
+
+  // Chunks of the document opened from the list or from a chat citation
+  useEffect(() => {
+    if (!selectedDocumentId) {
+      setSelected(null)
+      return
+    }
+
+    let cancelled = false
+    setLoadingChunks(true)
+    fetch(`/api/knowledge/documents/${selectedDocumentId}`)
+      .then(async response => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load document")
+        if (!cancelled) setSelected(data)
+      })
+      .catch(error => {
+        if (!cancelled) errorToast(error instanceof Error ? error.message : "Failed to load document")
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingChunks(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [selectedDocumentId])
+
+  useEffect(() => {
+    citedChunkRef.current?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [selected, citedChunk])
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append("file", file)
+      const response = await fetch("/api/knowledge/documents", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to add document")
+      successToast(`${file.name} added to the knowledge base`)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to add document")
+    } finally {
+      setUploading(false)
+      fetchDocuments()
+    }
+  }
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    try {
+      const response = await fetch(`/api/knowledge/documents/${document.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to delete document")
+      setDocuments(prev => prev.filter(d => d.id !== document.id))
+      if (selectedDocumentId === document.id) router.push(KNOWLEDGE_BASE_PATH)
+      successToast(`${document.filename} removed from the knowledge base`)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to delete document")
+    }
+  }
+
+  return (
+    <div className="grid gap-4 md:gap-6 pb-4 md:pb-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold tracking-tight">Knowledge Base</h1>
+          <p className="text-sm text-muted-foreground">
+            Documents chat can search and cite when &quot;Use knowledge base&quot; is on
+          </p>
+        </div>
+        {canManage && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.md,.csv,.json,text/plain,text/markdown,text/csv,application/json"
+              className="hidden"
+              onChange={handleUpload}
+            />
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+              {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              {uploading ? "Indexing..." : "Add document"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Documents</CardTitle>
+            <CardDescription>Text, Markdown, CSV and JSON files are split into chunks and embedded for search</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+            ) : documents.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+                <Library className="h-8 w-8" />
+                <p className="text-sm">No documents yet</p>
+              </div>
+            ) : (
+              documents.map(document => (
+                <div
+                  key={document.id}
+                  className={cn(
+                    "flex items-center gap-3 rounded-md border p-3 cursor-pointer hover:bg-muted/50",
+                    selectedDocumentId === document.id && "border-primary bg-muted/50"
+                  )}
+                  onClick={() => router.push(`${KNOWLEDGE_BASE_PATH}?document=${document.id}`)}
+                >
+                  <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{document.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {document.chunk_count} chunks · {document.cost_credits} credits · {formatDistanceToNow(new Date(document.created_at), { addSuffix: true })}
+                    </p>
+                    {document.status === "failed" && document.error && (
+                      <p className="truncate text-xs text-destructive">{document.error}</p>
+                    )}
+                  </div>
+                  <Badge variant="secondary" className={statusColors[document.status]}>
+                    {document.status}
+                  </Badge>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        handleDelete(document)
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedDocumentId && (
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="min-w-0">
+                <CardTitle className="truncate">{selected?.document.filename || "Document"}</CardTitle>
+                <CardDescription>
+                  {selected ? `${selected.chunks.length} chunks` : "Loading chunks..."}
+                </CardDescription>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => router.push(KNOWLEDGE_BASE_PATH)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-2 max-h-[70vh] overflow-y-auto">
+              {loadingChunks || !selected ? (
+                Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-24 w-full" />)
+              ) : (
+                selected.chunks.map(chunk => {
+                  const isCited = String(chunk.chunk_index) === citedChunk
+                  return (
+                    <div
+                      key={chunk.id}
+                      ref={isCited ? citedChunkRef : undefined}
+                      className={cn(
+                        "rounded-md border p-3 text-sm whitespace-pre-wrap",
+                        isCited && "border-primary bg-primary/5"
+                      )}
+                    >
+                      <p className="mb-1 text-xs text-muted-foreground">
+                        Chunk {chunk.chunk_index + 1}{isCited ? " · cited" : ""}
+                      </p>
+                      {chunk.content}
+                    </div>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function KnowledgePage() {
+  return (
+    <Suspense fallback={
+      <div className="grid gap-4">
+        <Skeleton className="h-9 w-48" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    }>
+      <KnowledgePageContent />
+    </Suspense>
+  )
+}
@@ -3,6 +3,8 @@ import { Send, Upload, Trash2, ChevronDown, ImageIcon } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { PresetActions } from "@/components/presets/preset-actions"
+import type { GenerationPreset } from "@/types/sandbox"
 import { toast } from "sonner"
 
 interface AdCreationPanelProps {
@@ -139,6 +141,12 @@ export function AdCreationPanel({
     setProductImages(prev => [...prev, ...imageFiles.slice(0, 8 - prev.length)])
   }
 
+  // Presets bring the prompt and size; the images stay as uploaded
+  const applyPreset = (preset: GenerationPreset, presetPrompt: string) => {
+    setInputValue(presetPrompt)
+    if (preset.size) setSelectedSize(preset.size)
+  }
+
   const removeAdExampleImage = (index: number) => {
     setAdExampleImages(prev => prev.filter((_, i) => i !== index))
   }
@@ -281,6 +289,13 @@ export function AdCreationPanel({
           </p>
         </CardHeader>
         <CardContent className="pt-0 flex-1 flex flex-col min-h-0">
+          <div className="mb-4 flex-shrink-0">
+            <PresetActions
+              draft={{ prompt_template: inputValue, size: selectedSize, quality: null, count: null, style: null }}
+              onApply={applyPreset}
+              disabled={isLoading}
+            />
+          </div>
           <form onSubmit={handleSubmit} className="flex-1 flex flex-col gap-4 min-h-0">
             {/* Modern Input Container */}
             <div className="flex-1 flex flex-col min-h-0">
@@ -9,6 +9,7 @@ import { toast } from "sonner"
 import { useHistory } from "@/hooks/useHistory"
 import { useSearchParams, useRouter } from "next/navigation"
 import type { SessionWithInteractions } from "@/types/history"
+import { SessionOrganizeButton } from "@/components/history/session-organize-menu"
 import { useOrganizationContext } from "@/contexts/organization-context"
 import { downloadImage } from "@/lib/utils/download"
 import { canMemberUseFeature } from "@/lib/organization/permissions"
@@ -311,7 +312,7 @@ function MagicAdsPageContent() {
       if (item.id.length === 36 && item.id.includes('-') && !item.id.includes('generate') && !item.id.includes('edit')) {
         // This is a database artifact, delete it
         await deleteArtifact(item.id)
-        toast.success('Image deleted successfully!')
+        toast.success('Image moved to trash')
       }
       
       // Remove from local state regardless
@@ -478,6 +479,7 @@ function MagicAdsPageContent() {
               <Sparkles className="h-5 w-5 text-primary" />
               <h1 className="text-lg font-semibold">Magic Ads</h1>
             </div>
+            {currentSession && <SessionOrganizeButton session={currentSession} className="justify-end" />}
           </div>
         </div>
 
@@ -565,6 +567,7 @@ function MagicAdsPageContent() {
               <p className="text-sm text-muted-foreground mt-1">
                 Create, edit, and refine advertisements with AI
               </p>
+              {currentSession && <SessionOrganizeButton session={currentSession} className="mt-2" />}
             </div>
             
             <div className="flex-1 p-4 overflow-y-auto">
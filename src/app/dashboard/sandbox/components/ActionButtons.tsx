@@ -22,15 +22,14 @@ export function ActionButtons({
 
   return (
     <div className="mt-auto px-2 space-y-2 pt-4">
-      <Button className="w-full" onClick={handleGenerate} disabled={isLoading || selectedControl !== "image"}>
+      <Button className="w-full" onClick={handleGenerate} disabled={isLoading || !selectedControl}>
         {isLoading ? (
           <>
             <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             Working...
           </>
         ) : (
-          selectedControl === "image" ? "Generate" : 
-          "Coming Soon"
+          selectedControl === "inpainting" ? "Inpaint" : "Generate"
         )}
       </Button>
     </div>
@@ -1,6 +1,21 @@
-import React from "react"
-import { Sparkles, UserCircle, Bot, Cat, PenTool } from "lucide-react"
+import React, { useState } from "react"
+import { Sparkles, UserCircle, Bot, Cat, PenTool, Plus, Pencil, Trash2, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { CHARACTER_LIMITS } from "@/lib/sandbox/characters"
+import { useCharacterSheets } from "@/hooks/useCharacterSheets"
+import type { CharacterSheet, CharacterSheetRequest } from "@/types/sandbox"
 import { OptionCards, renderIconOption, renderColorCircle, renderPoseOption } from "./OptionCards"
+import { CharacterSheetDialog } from "./CharacterSheetDialog"
 
 // Define character types
 export const characterTypes = [
@@ -36,6 +51,15 @@ interface CharacterGenerationPanelProps {
   setSelectedPose: (pose: string) => void
   selectedStyle: string
   setSelectedStyle: (style: string) => void
+  description: string
+  setDescription: (description: string) => void
+  customPose: string
+  setCustomPose: (customPose: string) => void
+  // The saved character to generate, if any
+  selectedCharacterId: string | null
+  setSelectedCharacterId: (characterId: string | null) => void
+  // Images in the preview, offered as references for a new character
+  currentImages: string[]
 }
 
 export function CharacterGenerationPanel({
@@ -44,25 +68,155 @@ export function CharacterGenerationPanel({
   selectedPose,
   setSelectedPose,
   selectedStyle,
-  setSelectedStyle
+  setSelectedStyle,
+  description,
+  setDescription,
+  customPose,
+  setCustomPose,
+  selectedCharacterId,
+  setSelectedCharacterId,
+  currentImages
 }: CharacterGenerationPanelProps) {
+  const { characters, loading, createCharacter, updateCharacter, deleteCharacter } = useCharacterSheets()
+  // The sheet dialog is open for a new character (null) or the one being edited
+  const [editing, setEditing] = useState<CharacterSheet | null | undefined>(undefined)
+  const [pendingDelete, setPendingDelete] = useState<CharacterSheet | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const selectedCharacter = characters.find(character => character.id === selectedCharacterId) || null
+
+  const toggleCharacter = (character: CharacterSheet) => {
+    if (character.id === selectedCharacterId) {
+      setSelectedCharacterId(null)
+      return
+    }
+    setSelectedCharacterId(character.id)
+    setSelectedStyle(character.style)
+  }
+
+  // A new character is selected right away so the next generation uses it
+  const handleSaveCharacter = async (request: CharacterSheetRequest) => {
+    if (editing) {
+      await updateCharacter(editing.id, request)
+      return
+    }
+    const character = await createCharacter(request)
+    setSelectedCharacterId(character.id)
+    setSelectedStyle(character.style)
+  }
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return
+
+    setDeleting(true)
+    try {
+      await deleteCharacter(pendingDelete.id)
+      if (pendingDelete.id === selectedCharacterId) setSelectedCharacterId(null)
+      toast.success("Character deleted")
+      setPendingDelete(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete character")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
-        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Description</label>
+        <div className="flex items-center justify-between">
+          <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Characters</label>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditing(null)}>
+            <Plus className="h-4 w-4" />
+            <span className="sr-only">New character</span>
+          </Button>
+        </div>
+
+        {loading && characters.length === 0 ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : characters.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Save a character to keep it the same across generations.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {characters.map(character => (
+              <div
+                key={character.id}
+                className={cn(
+                  "group flex items-center rounded-md border hover:bg-muted",
+                  character.id === selectedCharacterId ? "border-primary bg-primary/5" : "border-transparent"
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleCharacter(character)}
+                  className="flex flex-1 min-w-0 items-center gap-2 p-1.5 text-left"
+                >
+                  {character.reference_images[0] ? (
+                    <img
+                      src={character.reference_images[0]}
+                      alt={character.name}
+                      className="h-8 w-8 flex-shrink-0 rounded object-cover"
+                    />
+                  ) : (
+                    <div className="h-8 w-8 flex-shrink-0 rounded bg-muted flex items-center justify-center">
+                      <UserCircle className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{character.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {character.reference_images.length} reference{character.reference_images.length === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setEditing(character)}>
+                    <Pencil className="h-3 w-3" />
+                    <span className="sr-only">Edit character</span>
+                  </Button>
+                  <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setPendingDelete(character)}>
+                    <Trash2 className="h-3 w-3 text-destructive" />
+                    <span className="sr-only">Delete character</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          {selectedCharacter ? "Scene (optional)" : "Description"}
+        </label>
         <textarea 
           className="w-full min-h-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm ring-offset-background" 
-          placeholder="Describe the character you want to generate..."
+          placeholder={selectedCharacter
+            ? `What is ${selectedCharacter.name} doing, and where?`
+            : "Describe the character you want to generate..."}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH}
         />
       </div>
       
-      <OptionCards
-        label="Character Type"
-        options={characterTypes}
-        selectedOption={selectedType}
-        onSelectOption={setSelectedType}
-        renderIcon={renderIconOption}
-      />
+      {selectedCharacter ? (
+        <p className="text-xs text-muted-foreground">
+          Generating {selectedCharacter.name} as a {characterTypes.find(type => type.id === selectedCharacter.character_type)?.name.toLowerCase() || "character"}.
+        </p>
+      ) : (
+        <OptionCards
+          label="Character Type"
+          options={characterTypes}
+          selectedOption={selectedType}
+          onSelectOption={setSelectedType}
+          renderIcon={renderIconOption}
+        />
+      )}
       
       <OptionCards
         label="Pose"
@@ -72,6 +226,16 @@ export function CharacterGenerationPanel({
         cardWidth="w-[110px]"
         renderIcon={(option) => renderPoseOption(option, option.id === selectedPose)}
       />
+
+      {selectedPose === "custom" && (
+        <input
+          className="w-full h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+          placeholder="e.g. waving from a balcony"
+          value={customPose}
+          onChange={(e) => setCustomPose(e.target.value)}
+          maxLength={CHARACTER_LIMITS.MAX_CUSTOM_POSE_LENGTH}
+        />
+      )}
       
       <OptionCards
         label="Style"
@@ -81,6 +245,36 @@ export function CharacterGenerationPanel({
         cardWidth="w-[110px]"
         renderIcon={(option) => renderColorCircle({ ...option, color: option.color })}
       />
+
+      <CharacterSheetDialog
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+        character={editing || null}
+        draft={{ character_type: selectedType, style: selectedStyle, reference_images: currentImages }}
+        typeOptions={characterTypes}
+        styleOptions={characterStyles}
+        onSave={handleSaveCharacter}
+      />
+
+      <Dialog open={!!pendingDelete} onOpenChange={(open) => !open && !deleting && setPendingDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete character?</DialogTitle>
+            <DialogDescription>
+              This deletes {pendingDelete?.name} and its uploaded reference images for everyone in your organization. Images already generated are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" disabled={deleting} onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={deleting} onClick={handleConfirmDelete}>
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,244 @@
+import React, { useRef, useState } from "react"
+import { ImagePlus, Loader2, X } from "lucide-react"
+import { toast } from "sonner"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { CHARACTER_LIMITS } from "@/lib/sandbox/characters"
+import type { CharacterSheet, CharacterSheetRequest } from "@/types/sandbox"
+
+// What a new character starts with, e.g. the images in the preview
+export interface CharacterSheetDraft {
+  character_type: string
+  style: string
+  reference_images: string[]
+}
+
+interface CharacterSheetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The character being edited; a new one is created from the draft otherwise
+  character: CharacterSheet | null
+  draft: CharacterSheetDraft
+  typeOptions: { id: string; name: string }[]
+  styleOptions: { id: string; name: string }[]
+  onSave: (request: CharacterSheetRequest) => Promise<unknown>
+}
+
+export function CharacterSheetDialog({ open, onOpenChange, character, ...formProps }: CharacterSheetDialogProps) {
+  const [saving, setSaving] = useState(false)
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !saving && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        {/* The content unmounts while closed, so the form starts over from the character or draft each time it opens */}
+        <CharacterSheetForm
+          key={character?.id || "new"}
+          character={character}
+          {...formProps}
+          saving={saving}
+          onSavingChange={setSaving}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface CharacterSheetFormProps extends Omit<CharacterSheetDialogProps, "open" | "onOpenChange"> {
+  saving: boolean
+  onSavingChange: (saving: boolean) => void
+  onClose: () => void
+}
+
+function CharacterSheetForm({
+  character,
+  draft,
+  typeOptions,
+  styleOptions,
+  onSave,
+  saving,
+  onSavingChange,
+  onClose
+}: CharacterSheetFormProps) {
+  const source = character || draft
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [name, setName] = useState(character?.name || "")
+  const [description, setDescription] = useState(character?.description || "")
+  const [characterType, setCharacterType] = useState(source.character_type)
+  const [style, setStyle] = useState(source.style)
+  const [referenceImages, setReferenceImages] = useState(() => source.reference_images.slice(0, CHARACTER_LIMITS.MAX_REFERENCE_IMAGES))
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ""
+
+    const room = CHARACTER_LIMITS.MAX_REFERENCE_IMAGES - referenceImages.length
+    if (files.length > room) {
+      toast.error(`Characters can have up to ${CHARACTER_LIMITS.MAX_REFERENCE_IMAGES} reference images`)
+    }
+
+    files.slice(0, room).forEach(file => {
+      if (!["image/png", "image/jpeg", "image/webp"].includes(file.type) || file.size > CHARACTER_LIMITS.MAX_REFERENCE_BYTES) {
+        toast.error(`${file.name} must be a PNG, JPEG or WebP image under 10MB`)
+        return
+      }
+
+      const reader = new FileReader()
+      reader.onload = () => setReferenceImages(images =>
+        images.length < CHARACTER_LIMITS.MAX_REFERENCE_IMAGES ? [...images, reader.result as string] : images
+      )
+      reader.onerror = () => toast.error(`Failed to read ${file.name}`)
+      reader.readAsDataURL(file)
+    })
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please name the character")
+      return
+    }
+
+    onSavingChange(true)
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        character_type: characterType,
+        style,
+        reference_images: referenceImages
+      })
+      toast.success(character ? "Character updated" : "Character saved")
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save character")
+    } finally {
+      onSavingChange(false)
+    }
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{character ? "Edit character" : "New character"}</DialogTitle>
+        <DialogDescription>
+          Reference images and the description are sent with every generation of this character, so it looks the same in any pose.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="character-name">Name</Label>
+          <Input
+            id="character-name"
+            value={name}
+            maxLength={CHARACTER_LIMITS.MAX_NAME_LENGTH}
+            placeholder="e.g. Captain Nova"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="character-description">Description</Label>
+          <Textarea
+            id="character-description"
+            value={description}
+            maxLength={CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH}
+            placeholder="Appearance, clothing and distinguishing features..."
+            className="min-h-24"
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="character-type">Type</Label>
+            <select
+              id="character-type"
+              value={characterType}
+              onChange={(e) => setCharacterType(e.target.value)}
+              className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              {typeOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="character-style">Default style</Label>
+            <select
+              id="character-style"
+              value={style}
+              onChange={(e) => setStyle(e.target.value)}
+              className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+            >
+              {styleOptions.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Reference images</Label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/webp"
+            multiple
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <div className="grid grid-cols-4 gap-2">
+            {referenceImages.map((url, index) => (
+              <div key={`${index}-${url.slice(-16)}`} className="relative aspect-square rounded-md border overflow-hidden">
+                <img src={url} alt={`Reference ${index + 1}`} className="w-full h-full object-cover" />
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  className="absolute top-1 right-1 h-5 w-5"
+                  onClick={() => setReferenceImages(images => images.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove reference image</span>
+                </Button>
+              </div>
+            ))}
+            {referenceImages.length < CHARACTER_LIMITS.MAX_REFERENCE_IMAGES && (
+              <button
+                type="button"
+                className="aspect-square rounded-md border border-dashed flex items-center justify-center hover:bg-muted/30 transition-colors"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <ImagePlus className="h-5 w-5 text-muted-foreground" />
+                <span className="sr-only">Add reference image</span>
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Without reference images, only the description keeps the character consistent.
+          </p>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" disabled={saving} onClick={onClose}>
+          Cancel
+        </Button>
+        <Button disabled={saving} onClick={handleSave}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {character ? "Save changes" : "Save character"}
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
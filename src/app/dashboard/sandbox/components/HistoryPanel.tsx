@@ -8,6 +8,8 @@ export interface HistoryItem {
   prompt: string
   date: string
   starred: boolean
+  // Saved artifact of the image, when it was stored in a session
+  artifactId?: string
 }
 
 interface HistoryPanelProps {
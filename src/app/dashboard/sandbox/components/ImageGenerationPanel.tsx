@@ -1,5 +1,8 @@
 import React from "react"
-import { BadgeCheck, Shapes, Paintbrush, Layers, Wand2 } from "lucide-react"
+import { BadgeCheck, Shapes, Paintbrush, Layers, Wand2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { PresetActions } from "@/components/presets/preset-actions"
+import type { GenerationPreset } from "@/types/sandbox"
 import { OptionCards, renderIconOption } from "./OptionCards"
 
 // Define the image styles
@@ -11,9 +14,22 @@ export const imageStyles = [
   { id: "pixelart", name: "Pixel Art", icon: Wand2, color: "text-green-500", bg: "bg-green-500", description: "Retro pixel-based graphics" },
 ]
 
+export const imageSizes = [
+  { id: "1024x1024", name: "Square" },
+  { id: "1536x1024", name: "Landscape" },
+  { id: "1024x1536", name: "Portrait" },
+  { id: "auto", name: "Auto" },
+]
+
 // Max prompt length - OpenAI GPT Image 1 has limitations on prompt length  
 const MAX_PROMPT_LENGTH = 1000
 
+// An image the prompt edits instead of generating new images
+export interface ImageEditSource {
+  url: string
+  artifactId?: string
+}
+
 interface ImageGenerationPanelProps {
   selectedStyle: string
   setSelectedStyle: (style: string) => void
@@ -23,6 +39,11 @@ interface ImageGenerationPanelProps {
   setPrompt: (prompt: string) => void
   imageCount: number
   setImageCount: (count: number) => void
+  imageSize: string
+  setImageSize: (size: string) => void
+  editSource?: ImageEditSource | null
+  onClearEditSource?: () => void
+  onRunBatch?: (preset: GenerationPreset, prompts: string[]) => Promise<void>
 }
 
 export function ImageGenerationPanel({
@@ -33,15 +54,56 @@ export function ImageGenerationPanel({
   prompt,
   setPrompt,
   imageCount,
-  setImageCount
+  setImageCount,
+  imageSize,
+  setImageSize,
+  editSource = null,
+  onClearEditSource = () => {},
+  onRunBatch
 }: ImageGenerationPanelProps) {
   // Calculate the percentage of max length used
   const promptLength = prompt.length
   const isNearLimit = promptLength > MAX_PROMPT_LENGTH * 0.8
   const isOverLimit = promptLength > MAX_PROMPT_LENGTH
+
+  // Settings the preset leaves empty keep their current value
+  const applyPreset = (preset: GenerationPreset, presetPrompt: string) => {
+    setPrompt(presetPrompt)
+    if (preset.style && imageStyles.some(style => style.id === preset.style)) setSelectedStyle(preset.style)
+    if (preset.quality) setQualityValue(preset.quality === "hd" ? 75 : 50)
+    if (preset.count) setImageCount(preset.count)
+    if (preset.size) setImageSize(preset.size)
+  }
   
   return (
     <div className="space-y-6">
+      {editSource && (
+        <div className="flex items-center gap-3 rounded-md border p-2">
+          <img src={editSource.url} alt="Image to edit" className="h-12 w-12 rounded object-cover flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">Editing an image</p>
+            <p className="text-xs text-muted-foreground">The prompt describes the changes to make</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClearEditSource}>
+            <X className="h-3 w-3" />
+            <span className="sr-only">Stop editing</span>
+          </Button>
+        </div>
+      )}
+
+      <PresetActions
+        draft={{
+          prompt_template: prompt,
+          size: imageSize,
+          quality: qualityValue >= 75 ? "hd" : "standard",
+          count: imageCount,
+          style: selectedStyle
+        }}
+        styleOptions={imageStyles}
+        onApply={applyPreset}
+        onRunBatch={onRunBatch}
+      />
+
       <div className="space-y-2">
         <div className="flex justify-between items-center">
           <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Prompt</label>
@@ -51,7 +113,7 @@ export function ImageGenerationPanel({
         </div>
         <textarea 
           className="w-full min-h-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm ring-offset-background" 
-          placeholder="Describe the image you want to generate..."
+          placeholder={editSource ? "Describe the changes to make..." : "Describe the image you want to generate..."}
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
           maxLength={MAX_PROMPT_LENGTH + 50} // Allow slightly over the limit with warning
@@ -83,6 +145,23 @@ export function ImageGenerationPanel({
         </div>
       </div>
       
+      <div className="space-y-2">
+        <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          Size <span className="ml-1 text-xs opacity-70">{imageSizes.find(size => size.id === imageSize)?.name}</span>
+        </label>
+        <div className="grid grid-cols-4 gap-1">
+          {imageSizes.map(size => (
+            <button
+              key={size.id}
+              className={`h-8 rounded-md text-xs ${imageSize === size.id ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/80'}`}
+              onClick={() => setImageSize(size.id)}
+            >
+              {size.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="space-y-2">
         <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
           Quality <span className="ml-1 text-xs opacity-70">{qualityValue >= 75 ? "HD" : "Standard"}</span>
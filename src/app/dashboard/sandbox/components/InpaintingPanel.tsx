@@ -1,6 +1,10 @@
-import React from "react"
-import { Upload, BadgeCheck, Sparkles, ImagePlus, Paintbrush } from "lucide-react"
+import React, { useRef, useState } from "react"
+import { Upload, BadgeCheck, Sparkles, ImagePlus, Paintbrush, Eraser, Undo2, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { INPAINTING_LIMITS } from "@/lib/sandbox/inpainting"
 import { OptionCards, renderIconOption } from "./OptionCards"
+import type { HistoryItem } from "./HistoryPanel"
 
 // Define inpainting styles
 export const inpaintingStyles = [
@@ -10,32 +14,348 @@ export const inpaintingStyles = [
   { id: "artistic", name: "Artistic", icon: Paintbrush, color: "text-amber-500", bg: "bg-amber-500", description: "Apply artistic style to area" },
 ]
 
+// The image being inpainted; url is a data URL for uploads
+export interface InpaintingSource {
+  url: string
+  name: string
+  // Sandbox image it was picked from, recorded as the source of the results
+  artifactId?: string
+}
+
+// Painting snapshots kept for undo
+const MAX_UNDO_STEPS = 20
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("Failed to load image"))
+    image.src = src
+  })
+}
+
+/**
+ * Turns the painted layer into the mask the API expects: a PNG the size of the image that is
+ * opaque everywhere except the painted area
+ */
+export async function createInpaintingMask(maskLayer: string): Promise<Blob> {
+  const strokes = await loadImage(maskLayer)
+  const canvas = document.createElement("canvas")
+  canvas.width = strokes.naturalWidth
+  canvas.height = strokes.naturalHeight
+
+  const context = canvas.getContext("2d")!
+  context.fillStyle = "#000000"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.globalCompositeOperation = "destination-out"
+  context.drawImage(strokes, 0, 0)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to create mask")), "image/png")
+  })
+}
+
+function hasPaint(canvas: HTMLCanvasElement): boolean {
+  const { data } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height)
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true
+  }
+  return false
+}
+
 interface InpaintingPanelProps {
   selectedStyle: string
   setSelectedStyle: (style: string) => void
+  prompt: string
+  setPrompt: (prompt: string) => void
+  source: InpaintingSource | null
+  setSource: (source: InpaintingSource | null) => void
+  // Data URL of the painted area at the image's natural size, null when nothing is painted
+  maskLayer: string | null
+  setMaskLayer: (maskLayer: string | null) => void
+  historyItems: HistoryItem[]
 }
 
 export function InpaintingPanel({
   selectedStyle,
-  setSelectedStyle
+  setSelectedStyle,
+  prompt,
+  setPrompt,
+  source,
+  setSource,
+  maskLayer,
+  setMaskLayer,
+  historyItems
 }: InpaintingPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+  const undoStackRef = useRef<ImageData[]>([])
+  const [tool, setTool] = useState<"paint" | "erase">("paint")
+  const [brushSize, setBrushSize] = useState(40)
+  const [undoCount, setUndoCount] = useState(0)
+
+  // Size the canvas to the image once it loads and restore the painted layer, e.g. after switching controls
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    canvas.width = event.currentTarget.naturalWidth
+    canvas.height = event.currentTarget.naturalHeight
+    undoStackRef.current = []
+    setUndoCount(0)
+
+    if (maskLayer) {
+      loadImage(maskLayer)
+        .then(layer => canvas.getContext("2d")?.drawImage(layer, 0, 0))
+        .catch(error => console.error("Failed to restore mask:", error))
+    }
+  }
+
+  const selectSource = (nextSource: InpaintingSource | null) => {
+    setMaskLayer(null)
+    setSource(nextSource)
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image")
+      return
+    }
+    if (file.size > INPAINTING_LIMITS.MAX_FILE_BYTES) {
+      toast.error("Images must be less than 50MB")
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => selectSource({ url: reader.result as string, name: file.name })
+    reader.onerror = () => toast.error("Failed to read image")
+    reader.readAsDataURL(file)
+  }
+
+  const getCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    const scale = canvas.width / rect.width
+    return {
+      x: (event.clientX - rect.left) * scale,
+      y: (event.clientY - rect.top) * scale,
+      scale
+    }
+  }
+
+  const drawTo = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext("2d")
+    if (!context) return
+
+    const { x, y, scale } = getCanvasPoint(event)
+    const from = lastPointRef.current || { x, y }
+
+    // Strokes are drawn opaque; the canvas is shown translucent over the image
+    context.globalCompositeOperation = tool === "erase" ? "destination-out" : "source-over"
+    context.strokeStyle = "#ef4444"
+    context.lineWidth = brushSize * scale
+    context.lineCap = "round"
+    context.lineJoin = "round"
+    context.beginPath()
+    context.moveTo(from.x, from.y)
+    context.lineTo(x, y)
+    context.stroke()
+
+    lastPointRef.current = { x, y }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const context = canvas.getContext("2d")
+    if (!context) return
+
+    canvas.setPointerCapture(event.pointerId)
+    undoStackRef.current = [
+      ...undoStackRef.current.slice(-(MAX_UNDO_STEPS - 1)),
+      context.getImageData(0, 0, canvas.width, canvas.height)
+    ]
+    setUndoCount(undoStackRef.current.length)
+    lastPointRef.current = null
+    drawTo(event)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) {
+      drawTo(event)
+    }
+  }
+
+  const saveMaskLayer = () => {
+    const canvas = canvasRef.current
+    if (canvas) {
+      setMaskLayer(hasPaint(canvas) ? canvas.toDataURL("image/png") : null)
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return
+    lastPointRef.current = null
+    saveMaskLayer()
+  }
+
+  const handleUndo = () => {
+    const canvas = canvasRef.current
+    const snapshot = undoStackRef.current.pop()
+    if (!canvas || !snapshot) return
+
+    canvas.getContext("2d")?.putImageData(snapshot, 0, 0)
+    setUndoCount(undoStackRef.current.length)
+    saveMaskLayer()
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    undoStackRef.current = [
+      ...undoStackRef.current.slice(-(MAX_UNDO_STEPS - 1)),
+      context.getImageData(0, 0, canvas.width, canvas.height)
+    ]
+    setUndoCount(undoStackRef.current.length)
+    context.clearRect(0, 0, canvas.width, canvas.height)
+    setMaskLayer(null)
+  }
+
+  const pickableHistory = historyItems.slice(0, 8)
+
   return (
     <div className="space-y-6">
-      <div className="border border-input rounded-md bg-transparent p-2 flex items-center justify-center cursor-pointer hover:bg-muted/30 transition-colors">
-        <div className="flex flex-col items-center gap-3 py-6">
-          <Upload className="h-6 w-6 text-muted-foreground" />
-          <span className="text-sm text-muted-foreground">Select image to edit</span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/webp"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {source ? (
+        <div className="space-y-3">
+          <div className="relative rounded-md border overflow-hidden bg-muted/30">
+            <img
+              src={source.url}
+              alt={source.name}
+              className="w-full h-auto select-none"
+              draggable={false}
+              onLoad={handleImageLoad}
+              onError={() => toast.error("Failed to load image")}
+            />
+            <canvas
+              ref={canvasRef}
+              className={`absolute inset-0 h-full w-full touch-none opacity-50 ${tool === "erase" ? "cursor-cell" : "cursor-crosshair"}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            <Button
+              variant="secondary"
+              size="icon"
+              className="absolute top-1 right-1 h-6 w-6"
+              onClick={() => selectSource(null)}
+            >
+              <X className="h-3 w-3" />
+              <span className="sr-only">Remove image</span>
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <Button
+              variant={tool === "paint" ? "default" : "outline"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setTool("paint")}
+            >
+              <Paintbrush className="h-4 w-4" />
+              <span className="sr-only">Paint</span>
+            </Button>
+            <Button
+              variant={tool === "erase" ? "default" : "outline"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setTool("erase")}
+            >
+              <Eraser className="h-4 w-4" />
+              <span className="sr-only">Erase</span>
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" disabled={undoCount === 0} onClick={handleUndo}>
+              <Undo2 className="h-4 w-4" />
+              <span className="sr-only">Undo</span>
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8" disabled={!maskLayer} onClick={handleClear}>
+              <Trash2 className="h-4 w-4" />
+              <span className="sr-only">Clear mask</span>
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Brush Size <span className="ml-1 text-xs opacity-70">{brushSize}px</span>
+            </label>
+            <input
+              type="range"
+              min="5"
+              max="100"
+              step="1"
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-md appearance-none cursor-pointer dark:bg-gray-700"
+            />
+            <p className="text-xs text-muted-foreground">Paint over the area to regenerate.</p>
+          </div>
         </div>
-      </div>
-      
+      ) : (
+        <div className="space-y-3">
+          <div
+            className="border border-input rounded-md bg-transparent p-2 flex items-center justify-center cursor-pointer hover:bg-muted/30 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <div className="flex flex-col items-center gap-3 py-6">
+              <Upload className="h-6 w-6 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Select image to edit</span>
+            </div>
+          </div>
+
+          {pickableHistory.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Or pick from history</label>
+              <div className="grid grid-cols-4 gap-2">
+                {pickableHistory.map(item => (
+                  <button
+                    key={item.id}
+                    className="aspect-square rounded-md border overflow-hidden hover:ring-2 hover:ring-primary transition-shadow"
+                    onClick={() => selectSource({ url: item.url, name: `${item.id}.png`, artifactId: item.artifactId })}
+                  >
+                    <img src={item.url} alt={item.prompt} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Prompt</label>
-        <textarea 
-          className="w-full min-h-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm ring-offset-background" 
+        <textarea
+          className="w-full min-h-24 rounded-md border border-input bg-transparent px-3 py-2 text-sm ring-offset-background"
           placeholder="Describe what to generate in the selected area..."
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          maxLength={INPAINTING_LIMITS.MAX_PROMPT_LENGTH}
         />
       </div>
-      
+
       <OptionCards
         label="Inpainting Style"
         options={inpaintingStyles}
@@ -45,4 +365,4 @@ export function InpaintingPanel({
       />
     </div>
   )
-} 
\ No newline at end of file
+}
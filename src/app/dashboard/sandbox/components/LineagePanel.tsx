@@ -0,0 +1,153 @@
+import React, { useMemo } from "react"
+import { GitBranch, Loader2, Paintbrush, Pencil, Shuffle, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useArtifactLineage } from "@/hooks/useArtifactLineage"
+import { buildLineageTree, LineageTreeNode } from "@/lib/sandbox/lineage"
+import type { ArtifactLineageNode, ArtifactOperation } from "@/types/history"
+
+// How an image of the lineage is fed back into the sandbox
+export type LineageAction = "edit" | "variation" | "inpaint"
+
+const operationLabels: Record<ArtifactOperation, string> = {
+  generate: "Generated",
+  edit: "Edited",
+  inpaint: "Inpainted",
+  variation: "Variation",
+  character: "Character"
+}
+
+const actions: { id: LineageAction; label: string; icon: typeof Pencil }[] = [
+  { id: "edit", label: "Edit", icon: Pencil },
+  { id: "variation", label: "Variations", icon: Shuffle },
+  { id: "inpaint", label: "Inpaint", icon: Paintbrush },
+]
+
+interface LineagePanelProps {
+  artifactId: string
+  onSelectImage?: (node: ArtifactLineageNode) => void
+  onContinue?: (node: ArtifactLineageNode, action: LineageAction) => void
+  onClose?: () => void
+  disabled?: boolean
+}
+
+interface LineageRowProps {
+  treeNode: LineageTreeNode
+  depth: number
+  currentId: string
+  onSelectImage: (node: ArtifactLineageNode) => void
+  onContinue: (node: ArtifactLineageNode, action: LineageAction) => void
+  disabled: boolean
+}
+
+function LineageRow({ treeNode, depth, currentId, onSelectImage, onContinue, disabled }: LineageRowProps) {
+  const { node, children, otherParentCount } = treeNode
+  const isCurrent = node.id === currentId
+
+  return (
+    <>
+      <div
+        className={`group flex items-center gap-2 rounded-md px-1.5 py-1 ${isCurrent ? "bg-primary/10" : "hover:bg-muted/60"}`}
+        style={{ paddingLeft: `${depth * 16 + 6}px` }}
+      >
+        <button
+          className={`h-10 w-10 flex-shrink-0 rounded border-2 overflow-hidden bg-muted ${isCurrent ? "border-primary" : "border-transparent hover:border-muted-foreground/50"}`}
+          onClick={() => onSelectImage(node)}
+          disabled={!node.url}
+        >
+          {node.url && <img src={node.url} alt={node.prompt || "Image"} className="h-full w-full object-cover" />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-medium">
+            {node.operation ? operationLabels[node.operation] : "Image"}
+            {otherParentCount > 0 && (
+              <span className="ml-1 font-normal text-muted-foreground">+{otherParentCount} source{otherParentCount > 1 ? "s" : ""}</span>
+            )}
+          </p>
+          <p className="text-[10px] text-muted-foreground truncate">{node.prompt || new Date(node.created_at).toLocaleString()}</p>
+        </div>
+        {node.url && (
+          <div className={`flex gap-0.5 ${isCurrent ? "" : "opacity-0 group-hover:opacity-100"} transition-opacity`}>
+            {actions.map(action => (
+              <Button
+                key={action.id}
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                title={`${action.label} from this image`}
+                disabled={disabled}
+                onClick={() => onContinue(node, action.id)}
+              >
+                <action.icon className="h-3 w-3" />
+                <span className="sr-only">{action.label} from this image</span>
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      {children.map(child => (
+        <LineageRow
+          key={child.node.id}
+          treeNode={child}
+          depth={depth + 1}
+          currentId={currentId}
+          onSelectImage={onSelectImage}
+          onContinue={onContinue}
+          disabled={disabled}
+        />
+      ))}
+    </>
+  )
+}
+
+// The tree of generations the previewed image belongs to, with actions to continue from any image
+export function LineagePanel({
+  artifactId,
+  onSelectImage = () => {},
+  onContinue = () => {},
+  onClose = () => {},
+  disabled = false
+}: LineagePanelProps) {
+  const { nodes, truncated, loading, error } = useArtifactLineage(artifactId)
+  const tree = useMemo(() => buildLineageTree(nodes), [nodes])
+
+  return (
+    <div className="mt-2 rounded-md border bg-background/80">
+      <div className="flex items-center justify-between border-b px-2 sm:px-3 py-1.5">
+        <p className="flex items-center gap-1.5 text-xs font-medium">
+          <GitBranch className="h-3 w-3 sm:h-4 sm:w-4" />
+          Lineage
+          {nodes.length > 0 && <span className="font-normal text-muted-foreground">{nodes.length} image{nodes.length > 1 ? "s" : ""}</span>}
+        </p>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3 w-3" />
+          <span className="sr-only">Close lineage</span>
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto p-1">
+        {loading && nodes.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">{error}</p>
+        ) : (
+          tree.map(treeNode => (
+            <LineageRow
+              key={treeNode.node.id}
+              treeNode={treeNode}
+              depth={0}
+              currentId={artifactId}
+              onSelectImage={onSelectImage}
+              onContinue={onContinue}
+              disabled={disabled}
+            />
+          ))
+        )}
+        {truncated && (
+          <p className="px-2 py-1 text-[10px] text-muted-foreground">Only the oldest {nodes.length} images are shown</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,18 @@
 import React, { useState } from "react"
-import { Download, Star, StarOff, Share2, Copy, Maximize, Minus, Plus, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Trash2, Loader2 } from "lucide-react"
+import { Download, Star, StarOff, Share2, Copy, Maximize, Minus, Plus, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Trash2, Loader2, X, GitBranch } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
 import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { ArtifactLineageNode } from "@/types/history"
+import { LineagePanel, LineageAction } from "./LineagePanel"
+
+// Progress of a background generation, whose images are shown as they complete
+export interface GenerationProgress {
+  completed: number
+  total: number
+  onCancel?: () => void
+  isCancelling?: boolean
+}
 
 interface PreviewAreaProps {
   images?: string[] 
@@ -18,6 +29,11 @@ interface PreviewAreaProps {
   isMobile?: boolean
   onRemoveImage?: (index: number) => void
   isLoading?: boolean
+  progress?: GenerationProgress
+  // Saved artifacts of the images, by position; images without one have no lineage
+  artifactIds?: (string | undefined)[]
+  onSelectLineageImage?: (node: ArtifactLineageNode) => void
+  onContinueFrom?: (node: ArtifactLineageNode, action: LineageAction) => void
 }
 
 export function PreviewArea({
@@ -34,14 +50,20 @@ export function PreviewArea({
   isRightPanelCollapsed = false,
   isMobile = false,
   onRemoveImage = () => {},
-  isLoading = false
+  isLoading = false,
+  progress,
+  artifactIds = [],
+  onSelectLineageImage = () => {},
+  onContinueFrom = () => {}
 }: PreviewAreaProps) {
   const [zoomLevel, setZoomLevel] = useState(100)
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
+  const [showLineage, setShowLineage] = useState(false)
   
   // Use empty array when no images are provided
   const allImages = images.length > 0 ? images : []
   const currentImage = allImages.length > 0 ? allImages[currentImageIndex] : null
+  const currentArtifactId = currentImage ? artifactIds[currentImageIndex] : undefined
 
   const goToNextImage = () => {
     setCurrentImageIndex((prevIndex) => 
@@ -140,6 +162,14 @@ export function PreviewArea({
                   <StarOff className="h-3 w-3 sm:h-4 sm:w-4" />
                 )}
               </button>
+              <button 
+                className={`backdrop-blur p-1 sm:p-1.5 rounded-md hover:bg-background ${showLineage ? "bg-background text-primary" : "bg-background/50"}`}
+                onClick={() => setShowLineage(!showLineage)}
+                disabled={isLoading || !currentArtifactId}
+                title="Lineage"
+              >
+                <GitBranch className="h-3 w-3 sm:h-4 sm:w-4" />
+              </button>
               {allImages.length > 1 && !isLoading && (
                 <button 
                   className="bg-red-500/20 text-red-500 backdrop-blur p-1 sm:p-1.5 rounded-md hover:bg-red-500/30"
@@ -176,7 +206,11 @@ export function PreviewArea({
             {isLoading ? (
               <div className="flex flex-col items-center justify-center h-48 sm:h-64 md:h-96 w-full gap-3">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                <p className="text-muted-foreground text-sm">Generating {prompt ? 'images' : 'your image'}...</p>
+                <p className="text-muted-foreground text-sm">
+                  {progress && progress.total > 1
+                    ? `Generating image ${progress.completed + 1} of ${progress.total}...`
+                    : `Generating ${prompt ? 'images' : 'your image'}...`}
+                </p>
                 <p className="text-xs text-muted-foreground/70 max-w-md text-center">
                   This may take 10-20 seconds. AI image generation is processing your prompt and creating high-quality imagery.
                 </p>
@@ -224,6 +258,45 @@ export function PreviewArea({
             </button>
           </div>
           
+          {/* Background generation progress */}
+          {progress && (
+            <div className="mt-2 flex items-center gap-2 sm:gap-3 rounded-md border bg-background/80 px-2 sm:px-3 py-1.5 sm:py-2">
+              <Loader2 className="h-3 w-3 sm:h-4 sm:w-4 animate-spin text-primary flex-shrink-0" />
+              <div className="flex-1 space-y-1">
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  {progress.completed} of {progress.total} image{progress.total > 1 ? 's' : ''} ready
+                </p>
+                <Progress value={(progress.completed / progress.total) * 100} className="h-1.5" />
+              </div>
+              {progress.onCancel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={progress.isCancelling}
+                  onClick={progress.onCancel}
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Tree of generations of the current image */}
+          {showLineage && currentArtifactId && !isLoading && (
+            <LineagePanel
+              artifactId={currentArtifactId}
+              onSelectImage={(node) => {
+                setCurrentImageIndex(0)
+                onSelectLineageImage(node)
+              }}
+              onContinue={onContinueFrom}
+              onClose={() => setShowLineage(false)}
+              disabled={!!progress}
+            />
+          )}
+
           {/* Multiple Image Thumbnail Preview */}
           {allImages.length > 1 && !isLoading && (
             <div className="mt-2 flex justify-center gap-2 overflow-x-auto py-1">
@@ -1,31 +1,76 @@
 "use client"
 
-import React, { useState, useEffect, Suspense } from "react"
+import React, { useState, useEffect, useRef, Suspense } from "react"
 import { Separator } from "@/components/ui/separator"
 import { History } from "lucide-react"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
 import { toast } from "sonner"
 import { useHistory } from "@/hooks/useHistory"
+import { useGenerationJob } from "@/hooks/useGenerationJob"
+import { useGenerationBatch } from "@/hooks/useGenerationBatch"
 import { useSearchParams, useRouter } from "next/navigation"
-import type { SessionWithInteractions } from "@/types/history"
+import type { ArtifactLineageNode, SessionWithInteractions } from "@/types/history"
+import type { GenerationJob, GenerationPreset } from "@/types/sandbox"
+import { SessionOrganizeButton } from "@/components/history/session-organize-menu"
 import { useOrganizationContext } from "@/contexts/organization-context"
 import { downloadImage } from "@/lib/utils/download"
 
 // Import components
 import { ControlSelector, controls } from "./components/ControlSelector"
-import { ImageGenerationPanel, imageStyles } from "./components/ImageGenerationPanel"
+import { ImageGenerationPanel, ImageEditSource } from "./components/ImageGenerationPanel"
 import { CharacterGenerationPanel } from "./components/CharacterGenerationPanel"
-import { InpaintingPanel } from "./components/InpaintingPanel"
+import { InpaintingPanel, InpaintingSource, createInpaintingMask } from "./components/InpaintingPanel"
 import { ActionButtons } from "./components/ActionButtons"
 import { PreviewArea } from "./components/PreviewArea"
 import { HistoryPanel, HistoryItem } from "./components/HistoryPanel"
+import type { LineageAction } from "./components/LineagePanel"
+
+// Images are fetched so history images and uploads are sent to the routes the same way
+async function fetchImageFile(url: string, name: string): Promise<File> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error("Failed to load the selected image")
+  const blob = await response.blob()
+  return new File([blob], name, { type: blob.type || 'image/png' })
+}
+
+// Add the selected image style to a prompt in a natural way; photorealistic needs no hint
+function withImageStyle(prompt: string, styleId: string): string {
+  const styleDescription =
+    styleId === "abstract" ? "Create this in abstract art style." :
+    styleId === "watercolor" ? "Render this as a watercolor painting." :
+    styleId === "3drender" ? "Make this a detailed 3D rendering." :
+    styleId === "pixelart" ? "Create this in pixel art style." : ""
+
+  return styleDescription ? `${prompt}. ${styleDescription}`.trim() : prompt
+}
 
 function SandboxPageContent() {
   const searchParams = useSearchParams()
   const router = useRouter()
   const { organization } = useOrganizationContext()
   const { getSession } = useHistory()
+  const {
+    job: generationJob,
+    active: isJobRunning,
+    cancelling: isCancellingJob,
+    trackJob,
+    cancelJob
+  } = useGenerationJob()
+  // Images of the current background generation already added to the preview and history
+  const shownJobImages = useRef(0)
+  const {
+    jobs: batchJobs,
+    active: isBatchRunning,
+    completed: batchCompleted,
+    total: batchTotal,
+    cancelling: isCancellingBatch,
+    trackJobs: trackBatchJobs,
+    cancelBatch
+  } = useGenerationBatch()
+  // The same for the jobs of a batch, by job, and whether the finished batch has been summed up
+  const shownBatchImages = useRef<Record<string, number>>({})
+  const batchSummarized = useRef(false)
   
   // Session management
   const sessionId = searchParams.get('session')
@@ -40,19 +85,31 @@ function SandboxPageContent() {
   // Image generation state
   const [imagePrompt, setImagePrompt] = useState("")
   const [imageCount, setImageCount] = useState(1)
+  const [imageSize, setImageSize] = useState("1024x1024")
   const [isGenerating, setIsGenerating] = useState(false)
   const [selectedImageStyle, setSelectedImageStyle] = useState("photorealistic")
+  const [editSource, setEditSource] = useState<ImageEditSource | null>(null)
   const [selectedInpaintStyle, setSelectedInpaintStyle] = useState("match")
+
+  // Inpainting state
+  const [inpaintPrompt, setInpaintPrompt] = useState("")
+  const [inpaintSource, setInpaintSource] = useState<InpaintingSource | null>(null)
+  const [inpaintMaskLayer, setInpaintMaskLayer] = useState<string | null>(null)
   
   // Character generation selections
   const [selectedCharacterType, setSelectedCharacterType] = useState("human")
   const [selectedPose, setSelectedPose] = useState("portrait")
   const [selectedCharacterStyle, setSelectedCharacterStyle] = useState("realistic")
+  const [characterDescription, setCharacterDescription] = useState("")
+  const [customPose, setCustomPose] = useState("")
+  const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null)
 
   // Preview state
   const [currentImages, setCurrentImages] = useState<string[]>([])
   const [currentPrompt, setCurrentPrompt] = useState<string | null>(null)
   const [isStarred, setIsStarred] = useState(false)
+  // Artifacts of lineage images opened in the preview, by URL; other images are found in the history
+  const [lineageArtifactIds, setLineageArtifactIds] = useState<Record<string, string>>({})
 
   // Responsive UI state
   const [isMobile, setIsMobile] = useState(false)
@@ -118,15 +175,17 @@ function SandboxPageContent() {
         const sessionHistoryItems: HistoryItem[] = []
         
         session.interactions.forEach(interaction => {
-          if (interaction.type === 'image_generation' && interaction.artifacts) {
+          if ((interaction.type === 'image_generation' || interaction.type === 'image_edit' || interaction.type === 'image_variation') && interaction.artifacts) {
             interaction.artifacts.forEach((artifact, index) => {
-              if (artifact.url) {
+              // Inpainting masks are saved as data artifacts and are not shown
+              if (artifact.type === 'image' && artifact.url) {
                 sessionHistoryItems.push({
                   id: `${interaction.id}-${index}`,
                   url: artifact.url,
                   prompt: interaction.content || '',
                   date: new Date(interaction.created_at || '').toLocaleDateString(),
-                  starred: session.starred || false
+                  starred: session.starred || false,
+                  artifactId: artifact.id
                 })
               }
             })
@@ -160,7 +219,186 @@ function SandboxPageContent() {
     }
   }
   
-  // Generate images with OpenAI API
+  // Adopt a session created by a generation request without refetching it
+  const showNewSession = (newSessionId: string, title: string) => {
+    // Mark this as a newly created session to avoid unnecessary loading
+    setJustCreatedSession(newSessionId)
+
+    // Create a lightweight session object to avoid refetching
+    setCurrentSession({
+      id: newSessionId,
+      organization_id: organization?.id || '',
+      user_id: '',
+      type: 'sandbox',
+      title,
+      metadata: { webSearch: false },
+      starred: false,
+      archived: false,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+      interactions: []
+    })
+
+    // Update URL with new session ID
+    const newUrl = new URL(window.location.href)
+    newUrl.searchParams.set('session', newSessionId)
+    router.replace(newUrl.pathname + newUrl.search, { scroll: false })
+  }
+
+  // Add generated images to the preview and to the top of the history
+  const showGeneratedImages = (imageUrls: string[], prompt: string, artifactIds: (string | null)[] = []) => {
+    setCurrentImages(imageUrls)
+    setCurrentPrompt(prompt)
+
+    // Add all images to history individually
+    const timestamp = Date.now()
+    const formattedTime = new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})
+
+    const newHistoryItems = imageUrls.map((url: string, index: number) => ({
+      id: `img-${timestamp}-${index}`,
+      url: url,
+      prompt,
+      date: `Today, ${formattedTime}`,
+      starred: false,
+      artifactId: artifactIds[index] || undefined
+    }))
+
+    setHistoryItems(items => [...newHistoryItems, ...items])
+  }
+
+  // Show the images of a background generation as they complete
+  const showJobUpdate = (job: GenerationJob) => {
+    const prompt = job.params.prompt || job.params.content
+    if (job.session_id && job.session_id !== currentSession?.id) {
+      showNewSession(job.session_id, job.params.session_title)
+    }
+
+    const newImages = job.image_urls.slice(shownJobImages.current)
+    if (newImages.length > 0) {
+      const newArtifactIds = (job.artifact_ids || []).slice(shownJobImages.current)
+      shownJobImages.current = job.image_urls.length
+      showGeneratedImages(newImages, prompt, newArtifactIds)
+      setCurrentImages(job.image_urls)
+    }
+
+    const { completed, total, credits_charged: credits } = job
+    if (job.status === 'completed') {
+      toast.success(`Generated ${completed} image${completed > 1 ? 's' : ''} (${credits} credits used)`)
+    } else if (job.status === 'failed') {
+      toast.error(completed > 0
+        ? `Generation stopped after ${completed} of ${total} images: ${job.error}`
+        : job.error || "Failed to generate images")
+    } else if (job.status === 'cancelled') {
+      toast(`Generation cancelled after ${completed} of ${total} image${total > 1 ? 's' : ''}`)
+    }
+  }
+
+  // Runs the latest handler for each update of the job, so the session and preview are read as they are at that point
+  const jobUpdateHandler = useRef(showJobUpdate)
+  useEffect(() => {
+    jobUpdateHandler.current = showJobUpdate
+  })
+  useEffect(() => {
+    if (generationJob) jobUpdateHandler.current(generationJob)
+  }, [generationJob])
+
+  const handleCancelGeneration = async () => {
+    try {
+      await cancelJob()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel generation")
+    }
+  }
+
+  // Show the images of each job of a batch as they complete, and sum up the batch once all are done
+  const showBatchUpdate = (jobs: GenerationJob[]) => {
+    const sessionJob = jobs.find(job => job.session_id)
+    if (sessionJob?.session_id && sessionJob.session_id !== currentSession?.id) {
+      showNewSession(sessionJob.session_id, sessionJob.params.session_title)
+    }
+
+    jobs.forEach(job => {
+      const shown = shownBatchImages.current[job.id] || 0
+      const newImages = job.image_urls.slice(shown)
+      if (newImages.length > 0) {
+        shownBatchImages.current[job.id] = job.image_urls.length
+        showGeneratedImages(newImages, job.params.prompt || job.params.content, (job.artifact_ids || []).slice(shown))
+      }
+    })
+
+    if (isBatchRunning || batchSummarized.current) return
+    batchSummarized.current = true
+
+    const credits = jobs.reduce((sum, job) => sum + job.credits_charged, 0)
+    const failed = jobs.filter(job => job.status === 'failed').length
+    const cancelled = jobs.some(job => job.status === 'cancelled')
+    if (failed > 0) {
+      toast.error(`${failed} of ${jobs.length} batch prompts failed; ${batchCompleted} of ${batchTotal} images generated (${credits} credits used)`)
+    } else if (cancelled) {
+      toast(`Batch cancelled after ${batchCompleted} of ${batchTotal} images (${credits} credits used)`)
+    } else {
+      toast.success(`Generated ${batchCompleted} images from ${jobs.length} prompts (${credits} credits used)`)
+    }
+  }
+
+  // Runs the latest handler for each update of the batch, so the session and preview are read as they are at that point
+  const batchUpdateHandler = useRef(showBatchUpdate)
+  useEffect(() => {
+    batchUpdateHandler.current = showBatchUpdate
+  })
+  useEffect(() => {
+    if (batchJobs.length > 0) batchUpdateHandler.current(batchJobs)
+  }, [batchJobs])
+
+  const handleCancelBatch = async () => {
+    try {
+      await cancelBatch()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel batch")
+    }
+  }
+
+  // Generate a preset's template filled from each row of a CSV; settings the preset leaves empty
+  // use the current selection
+  const handleRunBatch = async (preset: GenerationPreset, prompts: string[]) => {
+    if (isJobRunning || isBatchRunning) {
+      throw new Error("Wait for the current generation to finish")
+    }
+
+    const style = preset.style || selectedImageStyle
+    const response = await fetch('/api/sandbox/generate-batch', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        prompts: prompts.map(prompt => withImageStyle(prompt, style)),
+        count: preset.count || imageCount,
+        quality: preset.quality || (qualityValue >= 75 ? "hd" : "standard"),
+        size: preset.size || imageSize,
+        sessionId: currentSession?.id,
+        presetId: preset.id
+      }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to run batch")
+    }
+
+    if (isMobile) {
+      setActiveMobilePanel("preview")
+    }
+
+    shownBatchImages.current = {}
+    batchSummarized.current = false
+    trackBatchJobs(data.jobs)
+    toast.success(`Queued ${prompts.length} prompts from "${preset.name}"`)
+  }
+
+  // Generate images in the background, or edit the edit source; the preview follows the job as
+  // each image completes
   const handleGenerateImages = async () => {
     if (!imagePrompt.trim()) {
       toast.error("Please enter a prompt");
@@ -178,107 +416,262 @@ function SandboxPageContent() {
       // GPT Image 1 accepts 'low', 'medium', 'high', or 'auto', but we map to our existing format
       const imageQuality = qualityValue >= 75 ? "hd" : "standard";
       
-      // Find the selected style's details from the imageStyles array
-      const selectedStyleInfo = imageStyles.find(style => style.id === selectedImageStyle);
+      // Enhance prompt with the selected style
+      const enhancedPrompt = withImageStyle(imagePrompt, selectedImageStyle);
       
-      // Enhance prompt with the selected style if available
-      let enhancedPrompt = imagePrompt;
-      if (selectedStyleInfo && selectedImageStyle !== "photorealistic") {
-        // Add style information to the prompt in a more natural way
-        const styleDescription = 
-          selectedImageStyle === "abstract" ? "Create this in abstract art style." :
-          selectedImageStyle === "watercolor" ? "Render this as a watercolor painting." :
-          selectedImageStyle === "3drender" ? "Make this a detailed 3D rendering." :
-          selectedImageStyle === "pixelart" ? "Create this in pixel art style." : "";
-        
-        enhancedPrompt = `${imagePrompt}. ${styleDescription}`.trim();
+      console.log(`${editSource ? 'Editing' : 'Generating'} images with prompt: "${enhancedPrompt}", style: ${selectedImageStyle}, count: ${imageCount}, quality: ${imageQuality}, size: ${imageSize}`);
+      
+      let response: Response;
+      if (editSource) {
+        const formData = new FormData();
+        formData.append('image', await fetchImageFile(editSource.url, 'source.png'));
+        formData.append('prompt', enhancedPrompt);
+        formData.append('count', String(imageCount));
+        formData.append('quality', imageQuality);
+        formData.append('size', imageSize);
+        formData.append('background', 'true');
+        if (currentSession?.id) {
+          formData.append('sessionId', currentSession.id);
+        }
+        if (editSource.artifactId) {
+          formData.append('parentArtifactId', editSource.artifactId);
+        }
+
+        response = await fetch('/api/sandbox/edit-image', {
+          method: 'POST',
+          body: formData,
+        });
+      } else {
+        response = await fetch('/api/sandbox/generate-image', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            prompt: enhancedPrompt,
+            count: imageCount,
+            quality: imageQuality,
+            size: imageSize,
+            sessionId: currentSession?.id,
+            background: true
+          }),
+        });
       }
       
-      console.log(`Generating images with prompt: "${enhancedPrompt}", style: ${selectedImageStyle}, count: ${imageCount}, quality: ${imageQuality}`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate images");
+      }
       
-      const response = await fetch('/api/sandbox/generate-image', {
+      shownJobImages.current = 0;
+      trackJob(data.job);
+    } catch (error) {
+      console.error("Error generating images:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to generate images");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Generate a character, or a saved character in a new pose
+  const handleGenerateCharacter = async () => {
+    if (!characterDescription.trim() && !selectedCharacterId) {
+      toast.error("Describe the character or choose a saved one")
+      return
+    }
+    if (selectedPose === "custom" && !customPose.trim()) {
+      toast.error("Please describe the custom pose")
+      return
+    }
+
+    try {
+      setIsGenerating(true)
+
+      if (isMobile) {
+        setActiveMobilePanel("preview")
+      }
+
+      const response = await fetch('/api/sandbox/generate-character', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          prompt: enhancedPrompt,
-          count: imageCount,
-          quality: imageQuality,
+          description: characterDescription,
+          character_type: selectedCharacterType,
+          pose: selectedPose,
+          custom_pose: selectedPose === "custom" ? customPose : undefined,
+          style: selectedCharacterStyle,
+          character_id: selectedCharacterId,
+          quality: qualityValue >= 75 ? "hd" : "standard",
           sessionId: currentSession?.id
         }),
-      });
-      
-      const data = await response.json();
-      
+      })
+
+      const data = await response.json()
+
       if (!response.ok) {
-        throw new Error(data.error || "Failed to generate images");
+        throw new Error(data.error || "Failed to generate character")
       }
-      
-      if (data.success) {
-        // Get image URLs from response
-        const imageUrls = data.data.imageUrls || [];
-        
-        // Handle session ID from response
-        if (data.sessionId && data.sessionId !== currentSession?.id) {
-          // Mark this as a newly created session to avoid unnecessary loading
-          setJustCreatedSession(data.sessionId)
-          
-          // Create a lightweight session object to avoid refetching
-          setCurrentSession({
-            id: data.sessionId,
-            organization_id: organization?.id || '',
-            user_id: '',
-            type: 'sandbox',
-            title: `Image: ${imagePrompt.substring(0, 30)}${imagePrompt.length > 30 ? '...' : ''}`,
-            metadata: { webSearch: false },
-            starred: false,
-            archived: false,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-            interactions: []
-          })
-          
-          // Update URL with new session ID
-          const newUrl = new URL(window.location.href)
-          newUrl.searchParams.set('session', data.sessionId)
-          router.replace(newUrl.pathname + newUrl.search, { scroll: false })
-        }
-        
-        if (imageUrls.length > 0) {
-          setCurrentImages(imageUrls);
-          setCurrentPrompt(imagePrompt);
-          
-          // Add all images to history individually
-          const timestamp = Date.now();
-          const formattedTime = new Date().toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'});
-          
-          const newHistoryItems = imageUrls.map((url: string, index: number) => ({
-            id: `img-${timestamp}-${index}`,
-            url: url,
-            prompt: imagePrompt,
-            date: `Today, ${formattedTime}`,
-            starred: false
-          }));
-          
-          // Add all new history items to the existing history
-          setHistoryItems([...newHistoryItems, ...historyItems]);
-          
-          toast.success(`Generated ${imageUrls.length} image${imageUrls.length > 1 ? 's' : ''} (${data.credits.cost} credits used)`);
-        } else {
-          toast.error("No images were generated");
-        }
+
+      const prompt: string = data.data.prompt
+      if (data.sessionId && data.sessionId !== currentSession?.id) {
+        showNewSession(data.sessionId, `Character: ${prompt.substring(0, 30)}${prompt.length > 30 ? '...' : ''}`)
+      }
+
+      const imageUrls: string[] = data.data.imageUrls || []
+      if (imageUrls.length > 0) {
+        showGeneratedImages(imageUrls, prompt, data.data.artifactIds)
+        toast.success(`Generated ${imageUrls.length} image${imageUrls.length > 1 ? 's' : ''} (${data.credits.cost} credits used)`)
+      } else {
+        toast.error("No images were generated")
       }
     } catch (error) {
-      console.error("Error generating images:", error);
-      toast.error(error instanceof Error ? error.message : "Failed to generate images");
+      console.error("Error generating character:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to generate character")
     } finally {
-      setIsGenerating(false);
+      setIsGenerating(false)
     }
-  };
-  
+  }
+
+  // Regenerate the painted area of the selected image
+  const handleInpaint = async () => {
+    if (!inpaintSource) {
+      toast.error("Please select an image to edit")
+      return
+    }
+    if (!inpaintMaskLayer) {
+      toast.error("Paint over the area you want to change")
+      return
+    }
+    if (!inpaintPrompt.trim()) {
+      toast.error("Please enter a prompt")
+      return
+    }
+
+    try {
+      setIsGenerating(true)
+
+      if (isMobile) {
+        setActiveMobilePanel("preview")
+      }
+
+      const image = await fetchImageFile(inpaintSource.url, inpaintSource.name)
+      const mask = await createInpaintingMask(inpaintMaskLayer)
+
+      const formData = new FormData()
+      formData.append('image', image)
+      formData.append('mask', new File([mask], 'mask.png', { type: 'image/png' }))
+      formData.append('prompt', inpaintPrompt)
+      formData.append('style', selectedInpaintStyle)
+      if (currentSession?.id) {
+        formData.append('sessionId', currentSession.id)
+      }
+      if (inpaintSource.artifactId) {
+        formData.append('parentArtifactId', inpaintSource.artifactId)
+      }
+
+      const response = await fetch('/api/sandbox/inpaint', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to inpaint image")
+      }
 
+      if (data.sessionId && data.sessionId !== currentSession?.id) {
+        showNewSession(data.sessionId, `Inpaint: ${inpaintPrompt.substring(0, 30)}${inpaintPrompt.length > 30 ? '...' : ''}`)
+      }
+
+      const imageUrls: string[] = data.data.imageUrls || []
+      if (imageUrls.length > 0) {
+        showGeneratedImages(imageUrls, inpaintPrompt, data.data.artifactIds)
+        toast.success(`Inpainted ${imageUrls.length} image${imageUrls.length > 1 ? 's' : ''} (${data.credits.cost} credits used)`)
+      } else {
+        toast.error("No images were generated")
+      }
+    } catch (error) {
+      console.error("Error inpainting image:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to inpaint image")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
   
+  // Create variations of a lineage image in the background
+  const handleCreateVariations = async (node: ArtifactLineageNode) => {
+    if (!node.url) return
+
+    try {
+      setIsGenerating(true)
+
+      const formData = new FormData()
+      formData.append('image', await fetchImageFile(node.url, `${node.id}.png`))
+      formData.append('count', String(imageCount))
+      formData.append('background', 'true')
+      formData.append('parentArtifactId', node.id)
+      if (currentSession?.id) {
+        formData.append('sessionId', currentSession.id)
+      }
+
+      const response = await fetch('/api/sandbox/create-variations', {
+        method: 'POST',
+        body: formData,
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create variations")
+      }
+
+      shownJobImages.current = 0
+      trackJob(data.job)
+    } catch (error) {
+      console.error("Error creating variations:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to create variations")
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Feed a lineage image back into editing, variations or inpainting
+  const handleContinueFrom = (node: ArtifactLineageNode, action: LineageAction) => {
+    if (!node.url) return
+
+    if (action === "variation") {
+      handleCreateVariations(node)
+      return
+    }
+
+    if (action === "edit") {
+      setEditSource({ url: node.url, artifactId: node.id })
+      setImagePrompt(node.prompt || "")
+      setSelectedControl("image")
+    } else {
+      setInpaintSource({ url: node.url, name: `${node.id}.png`, artifactId: node.id })
+      setInpaintMaskLayer(null)
+      setSelectedControl("inpainting")
+    }
+
+    setIsControlPanelCollapsed(false)
+    if (isMobile) {
+      setActiveMobilePanel("controls")
+    }
+  }
+
+  const handleSelectLineageImage = (node: ArtifactLineageNode) => {
+    if (!node.url) return
+
+    setLineageArtifactIds(ids => ({ ...ids, [node.url!]: node.id }))
+    setCurrentImages([node.url])
+    setCurrentPrompt(node.prompt)
+  }
+
   const handleToggleStar = () => {
     setIsStarred(!isStarred)
   }
@@ -374,6 +767,7 @@ function SandboxPageContent() {
             <div className="flex flex-col px-3 py-4">
               <div className="px-2 py-2">
                 <h2 className="text-lg font-semibold">Generation Controls</h2>
+                {currentSession && <SessionOrganizeButton session={currentSession} className="mt-2" />}
               </div>
               
               <ControlSelector 
@@ -394,6 +788,11 @@ function SandboxPageContent() {
                     setPrompt={setImagePrompt}
                     imageCount={imageCount}
                     setImageCount={setImageCount}
+                    imageSize={imageSize}
+                    setImageSize={setImageSize}
+                    editSource={editSource}
+                    onClearEditSource={() => setEditSource(null)}
+                    onRunBatch={handleRunBatch}
                   />
                 )}
                 
@@ -405,6 +804,13 @@ function SandboxPageContent() {
                     setSelectedPose={setSelectedPose}
                     selectedStyle={selectedCharacterStyle}
                     setSelectedStyle={setSelectedCharacterStyle}
+                    description={characterDescription}
+                    setDescription={setCharacterDescription}
+                    customPose={customPose}
+                    setCustomPose={setCustomPose}
+                    selectedCharacterId={selectedCharacterId}
+                    setSelectedCharacterId={setSelectedCharacterId}
+                    currentImages={currentImages}
                   />
                 )}
                 
@@ -412,6 +818,13 @@ function SandboxPageContent() {
                   <InpaintingPanel
                     selectedStyle={selectedInpaintStyle}
                     setSelectedStyle={setSelectedInpaintStyle}
+                    prompt={inpaintPrompt}
+                    setPrompt={setInpaintPrompt}
+                    source={inpaintSource}
+                    setSource={setInpaintSource}
+                    maskLayer={inpaintMaskLayer}
+                    setMaskLayer={setInpaintMaskLayer}
+                    historyItems={historyItems}
                   />
                 )}
                 
@@ -422,10 +835,12 @@ function SandboxPageContent() {
                 <ActionButtons 
                   selectedControl={selectedControl} 
                   onAction={() => isMobile && setActiveMobilePanel("preview")}
-                  onGenerate={selectedControl === "image" ? handleGenerateImages : () => {
-                    toast.info(`${selectedControl === "character" ? "Character" : "Inpainting"} generation not yet implemented`);
-                  }}
-                  isLoading={isGenerating}
+                  onGenerate={
+                    selectedControl === "character" ? handleGenerateCharacter :
+                    selectedControl === "inpainting" ? handleInpaint :
+                    handleGenerateImages
+                  }
+                  isLoading={isGenerating || isJobRunning || isBatchRunning}
                 />
               </div>
             </div>
@@ -477,7 +892,23 @@ function SandboxPageContent() {
                 setCurrentPrompt(null);
               }
             }}
-            isLoading={isGenerating}
+            isLoading={isGenerating || (isJobRunning && generationJob?.completed === 0) || (isBatchRunning && batchCompleted === 0)}
+            progress={isJobRunning && generationJob ? {
+              completed: generationJob.completed,
+              total: generationJob.total,
+              onCancel: handleCancelGeneration,
+              isCancelling: isCancellingJob
+            } : isBatchRunning ? {
+              completed: batchCompleted,
+              total: batchTotal,
+              onCancel: handleCancelBatch,
+              isCancelling: isCancellingBatch
+            } : undefined}
+            artifactIds={currentImages.map(url =>
+              lineageArtifactIds[url] || historyItems.find(item => item.url === url)?.artifactId
+            )}
+            onSelectLineageImage={handleSelectLineageImage}
+            onContinueFrom={handleContinueFrom}
           />
         </div>
         
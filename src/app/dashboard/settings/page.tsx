@@ -15,6 +15,10 @@ import { useSearchParams, useRouter, usePathname } from 'next/navigation'
 import { SubscriptionManager } from "@/components/billing/subscription-manager"
 import { OrganizationManager } from '@/components/organization/organization-manager'
 import { PermissionManager } from "@/components/organization/permission-manager"
+import { LLMProviderManager } from "@/components/organization/llm-provider-manager"
+import { ChatSettingsManager } from "@/components/organization/chat-settings-manager"
+import { SessionSharesManager } from "@/components/organization/session-shares-manager"
+import { HistoryRetentionManager } from "@/components/organization/history-retention-manager"
 import { Skeleton } from "@/components/ui/skeleton"
 
 // Skeleton component for the Settings page
@@ -294,6 +298,22 @@ function SettingsPageContent() {
           {organization && (
             <PermissionManager />
           )}
+
+          {organization && (
+            <LLMProviderManager />
+          )}
+
+          {organization && (
+            <ChatSettingsManager />
+          )}
+
+          {organization && (
+            <SessionSharesManager />
+          )}
+
+          {organization && (
+            <HistoryRetentionManager />
+          )}
         </TabsContent>
         
         <TabsContent value="billing" className="space-y-8">
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { readArtifactFile } from "@/lib/history/export"
+import { isUuid } from "@/lib/history/organize"
+import { getInlineShareType, SHARE_LIMITS } from "@/lib/history/shares"
+import { isOrganizationArtifactFile } from "@/lib/storage/signed-urls"
+
+// GET /share/[token]/artifacts/[artifactId] - The file of an artifact in a shared session, while the share is active.
+// Share pages link here rather than to storage, so revoking or expiring a share also stops its files from loading
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string; artifactId: string }> }
+) {
+  try {
+    const { token, artifactId } = await params
+    const notFound = NextResponse.json(
+      { error: "File not found" },
+      { status: 404 }
+    )
+
+    if (!isUuid(artifactId)) {
+      return notFound
+    }
+
+    const admin = createAdminClient()
+
+    const { data: share, error: shareError } = await admin
+      .from('session_shares')
+      .select('session_id, organization_id, session:sessions!inner(deleted_at)')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .is('session.deleted_at', null)
+      .maybeSingle()
+
+    if (shareError || !share) {
+      return notFound
+    }
+
+    const { data: artifact, error: artifactError } = await admin
+      .from('artifacts')
+      .select('type, url, mime_type, interaction:interactions!inner(session_id)')
+      .eq('id', artifactId)
+      .eq('interaction.session_id', share.session_id)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (artifactError || !artifact?.url) {
+      return notFound
+    }
+
+    // Files are read with the service role, so an artifact row can only point at its organization's files
+    if (!artifact.url.startsWith('data:') && !isOrganizationArtifactFile(artifact.url, share.organization_id)) {
+      return notFound
+    }
+
+    const data = await readArtifactFile(admin, artifact.url)
+    if (!data) {
+      return notFound
+    }
+
+    // Types a browser could run as a page are downloaded instead of shown
+    const inlineType = getInlineShareType(artifact.mime_type || (artifact.type === 'image' ? 'image/png' : ''))
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': inlineType || 'application/octet-stream',
+        ...(inlineType ? {} : { 'Content-Disposition': 'attachment' }),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': `private, max-age=${SHARE_LIMITS.ARTIFACT_CACHE_SECONDS}`
+      }
+    })
+  } catch (error) {
+    console.error('Error serving shared artifact:', error)
+    return NextResponse.json(
+      { error: "Failed to load file" },
+      { status: 500 }
+    )
+  }
+}
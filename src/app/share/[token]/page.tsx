@@ -0,0 +1,137 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import Image from "next/image"
+import Link from "next/link"
+import { Link2Off } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { createClient } from "@/lib/supabase/server"
+import { getActiveBranch } from "@/lib/history/branches"
+import { getShareArtifactPath } from "@/lib/history/shares"
+import { toChatAttachments } from "@/lib/chat/attachments"
+import { stripLegacySourcesFooter } from "@/lib/chat/citations"
+import type { LLMCitation } from "@/lib/llm/types"
+import { ChatMessage, type ChatMessageType } from "@/components/dashboard-components/Chat/ChatMessage"
+import type { SharedInteraction, SharedSession } from "@/types/history"
+
+const IMAGE_INTERACTION_TYPES = ["image_generation", "image_edit", "image_variation"]
+
+// Loads the share once per request, so metadata and the page count a single view
+const getSharedSession = cache(async (token: string): Promise<SharedSession | null> => {
+  const supabase = await createClient()
+  const { data, error } = await supabase.rpc("get_shared_session", { p_token: token })
+
+  if (error) {
+    console.error("Error loading shared session:", error)
+    return null
+  }
+  if (!data) return null
+
+  const shared = data as SharedSession
+
+  // Storage URLs aren't returned; files are served through the share, which checks the token on every request
+  for (const interaction of shared.interactions) {
+    interaction.artifacts = interaction.artifacts.map(a => ({ ...a, url: getShareArtifactPath(token, a.id) }))
+  }
+
+  return shared
+})
+
+function toChatMessages(interactions: SharedInteraction[]): ChatMessageType[] {
+  return interactions
+    .filter(i => i.type === "user_message" || i.type === "assistant_message" || i.type === "agent_finding")
+    .map(i => {
+      const citations = Array.isArray(i.metadata?.citations) ? i.metadata.citations as LLMCitation[] : undefined
+      return {
+        role: i.type === "user_message" ? "user" : "assistant",
+        content: citations ? stripLegacySourcesFooter(i.content || "") : i.content || "",
+        citations,
+        attachments: i.type === "user_message" ? toChatAttachments(i.artifacts) : undefined
+      }
+    })
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ token: string }> }): Promise<Metadata> {
+  const { token } = await params
+  const shared = await getSharedSession(token)
+
+  return {
+    title: shared?.session.title || "Shared session",
+    // Share links are meant for the people they were sent to
+    robots: { index: false, follow: false }
+  }
+}
+
+export default async function SharedSessionPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const shared = await getSharedSession(token)
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-3 p-6 text-center">
+        <Link2Off className="h-10 w-10 text-muted-foreground" />
+        <h1 className="text-2xl font-bold tracking-tight">This link is no longer available</h1>
+        <p className="text-sm text-muted-foreground">It may have expired or been revoked by the person who shared it.</p>
+        <Link href="/" className="text-sm underline underline-offset-4">Go to the home page</Link>
+      </div>
+    )
+  }
+
+  const { session, share } = shared
+  const interactions = getActiveBranch(shared.interactions, session.active_interaction_id)
+  const isGallery = session.type === "sandbox" || session.type === "magic_ads"
+
+  return (
+    <div className="min-h-screen">
+      <header className="border-b">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+          <div className="min-w-0">
+            <h1 className="truncate text-xl font-bold tracking-tight">{session.title || "Shared session"}</h1>
+            <p className="text-xs text-muted-foreground">
+              Read-only · shared {formatDistanceToNow(new Date(share.created_at), { addSuffix: true })}
+              {share.expires_at && ` · expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}`}
+            </p>
+          </div>
+          <Link href="/" className="text-xs text-muted-foreground hover:text-foreground">SupaStart</Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6">
+        {isGallery ? (
+          <div className="space-y-8">
+            {interactions
+              .filter(i => IMAGE_INTERACTION_TYPES.includes(i.type))
+              .map(interaction => (
+                <section key={interaction.id} className="space-y-3">
+                  {interaction.content && (
+                    <p className="text-sm text-muted-foreground">{interaction.content}</p>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {interaction.artifacts
+                      .filter(artifact => artifact.type === "image" && artifact.url)
+                      .map(artifact => (
+                        <a key={artifact.id} href={artifact.url} target="_blank" rel="noopener noreferrer">
+                          <Image
+                            src={artifact.url!}
+                            alt={interaction.content || artifact.filename || "Generated image"}
+                            width={512}
+                            height={512}
+                            unoptimized
+                            className="aspect-square w-full rounded-lg border object-cover"
+                          />
+                        </a>
+                      ))}
+                  </div>
+                </section>
+              ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {toChatMessages(interactions).map((message, index) => (
+              <ChatMessage key={index} message={message} />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
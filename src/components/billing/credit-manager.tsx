@@ -3,22 +3,62 @@
 import { useOrganizationContext } from "@/contexts/organization-context"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
 import { AlertCircle } from "lucide-react"
 import { format } from "date-fns"
 
+export type CreditTransactionType = "add" | "use" | "hold" | "release"
+
+export type CreditReservationStatus = "held" | "settled" | "released"
+
+export interface CreditTransaction {
+  id: string;
+  amount: number;
+  description: string;
+  createdAt: string;
+  type: CreditTransactionType;
+  // Set on holds: whether the reservation is still open or how it was closed
+  reservationStatus?: CreditReservationStatus | null;
+  // Set on usage and releases that closed a reservation
+  reservationId?: string | null;
+}
+
 interface CreditManagerProps {
   credits: number;
   isActiveOrg: boolean;
-  transactions?: {
-    id: string;
-    amount: number;
-    description: string;
-    createdAt: string;
-    type: "add" | "use";
-  }[];
+  transactions?: CreditTransaction[];
   loading?: boolean;
 }
 
+const TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  add: "Added",
+  use: "Used",
+  hold: "Reserved",
+  release: "Released",
+}
+
+const RESERVATION_STATUS_LABELS: Record<CreditReservationStatus, string> = {
+  held: "Pending",
+  settled: "Settled",
+  released: "Released",
+}
+
+// Holds only reduce the balance while they are open, and releases never change it
+function getAmountDisplay(transaction: CreditTransaction) {
+  switch (transaction.type) {
+    case "add":
+      return { sign: "+", className: "text-green-600" }
+    case "use":
+      return { sign: "-", className: "text-red-600" }
+    case "hold":
+      return transaction.reservationStatus === "held"
+        ? { sign: "-", className: "text-amber-600" }
+        : { sign: "", className: "text-muted-foreground line-through" }
+    case "release":
+      return { sign: "", className: "text-muted-foreground" }
+  }
+}
+
 export function CreditManager({
   credits = 0,
   isActiveOrg = true,
@@ -83,33 +123,41 @@ export function CreditManager({
               <div className="mt-6">
                 <h3 className="mb-2 text-sm font-medium">Transaction History</h3>
                 <div className="space-y-2">
-                  {transactions.map((transaction) => (
-                    <div
-                      key={transaction.id}
-                      className="flex items-center justify-between rounded-md border p-3"
-                    >
-                      <div>
-                        <p className="font-medium">
-                          {transaction.type === "add" ? "Added" : "Used"}{" "}
-                          {transaction.amount} credits
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {transaction.description}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {formatDate(transaction.createdAt)}
-                        </p>
-                      </div>
-                      <span
-                        className={`text-sm font-medium ${
-                          transaction.type === "add" ? "text-green-600" : "text-red-600"
-                        }`}
+                  {transactions.map((transaction) => {
+                    const amountDisplay = getAmountDisplay(transaction)
+
+                    return (
+                      <div
+                        key={transaction.id}
+                        className="flex items-center justify-between rounded-md border p-3"
                       >
-                        {transaction.type === "add" ? "+" : "-"}
-                        {transaction.amount}
-                      </span>
-                    </div>
-                  ))}
+                        <div>
+                          <p className="flex items-center gap-2 font-medium">
+                            {TRANSACTION_LABELS[transaction.type]}{" "}
+                            {transaction.amount} credits
+                            {transaction.type === "hold" && transaction.reservationStatus && (
+                              <Badge variant={transaction.reservationStatus === "held" ? "outline" : "secondary"}>
+                                {RESERVATION_STATUS_LABELS[transaction.reservationStatus]}
+                              </Badge>
+                            )}
+                            {transaction.type !== "hold" && transaction.reservationId && (
+                              <Badge variant="outline">From reservation</Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {transaction.description}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDate(transaction.createdAt)}
+                          </p>
+                        </div>
+                        <span className={`text-sm font-medium ${amountDisplay.className}`}>
+                          {amountDisplay.sign}
+                          {transaction.amount}
+                        </span>
+                      </div>
+                    )
+                  })}
                 </div>
               </div>
             )}
@@ -12,6 +12,7 @@ interface ApprovalRequest {
   arguments: Record<string, unknown>;
   agent: string;
   timestamp: number;
+  expiresAt?: number;
 }
 
 interface ApprovalMessageProps {
@@ -57,6 +58,15 @@ export default function ApprovalMessage({
   onApproveAll, 
   onRejectAll 
 }: ApprovalMessageProps) {
+  // Re-render periodically so expired requests are shown as expired
+  const [now, setNow] = React.useState(() => Date.now());
+
+  React.useEffect(() => {
+    if (!approvalRequests.some(request => request.expiresAt)) return;
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, [approvalRequests]);
+
   // Move hooks outside conditional logic
   const handleApprove = React.useCallback((requestId: string) => {
     onApprove(requestId);
@@ -91,6 +101,7 @@ export default function ApprovalMessage({
         
         {approvalRequests.map((request) => {
           const toolInfo = getToolDescription(request.toolName, request.arguments);
+          const isExpired = !!request.expiresAt && request.expiresAt <= now;
           
           return (
             <Card key={request.id} className="border-l-4 border-l-amber-500 bg-amber-50/50 dark:bg-amber-950/20">
@@ -100,12 +111,19 @@ export default function ApprovalMessage({
                     {getToolIcon(request.toolName)}
                     <CardTitle className="text-base">{toolInfo.title}</CardTitle>
                   </div>
-                  <Badge variant="outline" className="text-xs">
-                    {request.agent}
-                  </Badge>
+                  <div className="flex items-center gap-1">
+                    {isExpired && (
+                      <Badge variant="destructive" className="text-xs">
+                        Expired
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {request.agent}
+                    </Badge>
+                  </div>
                 </div>
                 <CardDescription className="text-sm">
-                  Search for: {toolInfo.description}
+                  {toolInfo.type === 'search' ? 'Search for: ' : ''}{toolInfo.description}
                 </CardDescription>
               </CardHeader>
 
@@ -116,31 +134,37 @@ export default function ApprovalMessage({
                   </p>
                 </div>
                 
-                <div className="flex gap-2">
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => handleReject(request.id)}
-                    className="flex items-center gap-1"
-                  >
-                    <XCircle className="h-4 w-4" />
-                    Reject
-                  </Button>
-                  <Button
-                    size="sm"
-                    onClick={() => handleApprove(request.id)}
-                    className="flex items-center gap-1"
-                  >
-                    <CheckCircle className="h-4 w-4" />
-                    Approve
-                  </Button>
-                </div>
+                {isExpired ? (
+                  <p className="text-sm text-muted-foreground">
+                    This request expired. Send your message again to continue.
+                  </p>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReject(request.id)}
+                      className="flex items-center gap-1"
+                    >
+                      <XCircle className="h-4 w-4" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleApprove(request.id)}
+                      className="flex items-center gap-1"
+                    >
+                      <CheckCircle className="h-4 w-4" />
+                      Approve
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
         })}
 
-        {approvalRequests.length > 1 && (
+        {approvalRequests.length > 1 && !approvalRequests.some(request => request.expiresAt && request.expiresAt <= now) && (
           <div className="flex gap-2 pt-2">
             <Button
               size="sm"
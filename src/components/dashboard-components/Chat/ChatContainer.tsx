@@ -4,8 +4,12 @@ import { useEffect, useRef, useState, forwardRef, useImperativeHandle } from "re
 import { ChatInput } from "./ChatInput"
 import { ChatHistory } from "./ChatHistory"
 import { ChatMessageType } from "./ChatMessage"
-import { LoadingMessage } from "./LoadingMessage"
+import { AgentActivity, AgentTimelineStep, LoadingMessage } from "./LoadingMessage"
 import ApprovalMessage from "./ApprovalMessage"
+import { AGENT_STREAM_CONTENT_TYPE, readAgentEventStream } from "@/lib/agents/stream-events"
+import { CHAT_STREAM_HEADER, ChatReplyUsage, readChatEventStream } from "@/lib/chat/stream-events"
+import { ChatAttachment, getAttachmentKind } from "@/lib/chat/attachments"
+import type { LLMCitation } from "@/lib/llm/types"
 
 interface ApprovalRequest {
   id: string
@@ -13,23 +17,65 @@ interface ApprovalRequest {
   arguments: Record<string, unknown>
   agent: string
   timestamp: number
+  expiresAt?: number
 }
 
+interface PendingContext {
+  message: string
+  conversationHistory: ChatMessageType[]
+  sessionId?: string
+}
+
+const describeToolCall = (toolName: string, args: Record<string, unknown>) => {
+  switch (toolName) {
+    case "web_search":
+      return args.query ? `Searching the web for "${args.query}"` : "Searching the web"
+    case "get_session_info":
+      return "Looking up session information"
+    case "list_recent_sessions":
+      return "Listing recent sessions"
+    case "search_history":
+      return args.query ? `Searching your history for "${args.query}"` : "Searching your history"
+    case "summarize_session":
+      return "Reading session transcript"
+    case "get_credit_usage":
+      return "Checking credit usage"
+    default:
+      return `Running ${toolName}`
+  }
+}
+
+// Sent with a message that edits an earlier message or regenerates a reply, starting a new branch
+export type ChatBranchAction =
+  | { editInteractionId: string }
+  | { regenerateInteractionId: string }
+
 interface ChatContainerProps {
   initialMessages?: ChatMessageType[]
-  onSendMessage?: (message: string, previousMessages: ChatMessageType[], sessionId?: string, approvals?: Record<string, boolean>) => Promise<Response | string | null>
+  onSendMessage?: (message: string, previousMessages: ChatMessageType[], sessionId?: string, approvals?: Record<string, boolean>, branch?: ChatBranchAction, attachments?: File[]) => Promise<Response | string | null>
   streamingEnabled?: boolean
   webSearchEnabled?: boolean
   onToggleWebSearch?: (enabled: boolean) => void
+  knowledgeBaseEnabled?: boolean
+  onToggleKnowledgeBase?: (enabled: boolean) => void
   agentEnabled?: boolean
   onToggleAgent?: (enabled: boolean) => void
   sessionId?: string
   onSessionChange?: (sessionId: string) => void
+  // Called once a chat reply has been saved, e.g. to reload the branch with its saved ids
+  onResponseComplete?: (sessionId: string) => void
+  // Edit and regenerate are offered when enabled; switching branches only needs the handler
+  branchingEnabled?: boolean
+  onSwitchBranch?: (interactionId: string) => Promise<void>
+  // Offers attaching files in the input; onSendMessage receives them
+  attachmentsEnabled?: boolean
+  // Message a history search result opened the session at; shown instead of the latest message
+  highlightedMessageId?: string | null
   showInput?: boolean
 }
 
 export interface ChatContainerRef {
-  sendMessage: (content: string) => void
+  sendMessage: (content: string, attachments?: File[]) => void
   isLoading: boolean
 }
 
@@ -39,21 +85,29 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
   streamingEnabled = true,
   webSearchEnabled = false,
   onToggleWebSearch,
+  knowledgeBaseEnabled = false,
+  onToggleKnowledgeBase,
   agentEnabled = false,
   onToggleAgent,
   sessionId,
   onSessionChange,
+  onResponseComplete,
+  branchingEnabled = false,
+  onSwitchBranch,
+  attachmentsEnabled = false,
+  highlightedMessageId = null,
   showInput = true
 }: ChatContainerProps, ref) => {
   const [messages, setMessages] = useState<ChatMessageType[]>(initialMessages)
   const [isLoading, setIsLoading] = useState(false)
   const [currentSessionId, setCurrentSessionId] = useState<string | undefined>(sessionId)
   const [pendingApprovals, setPendingApprovals] = useState<ApprovalRequest[]>([])
-  const [pendingContext, setPendingContext] = useState<{
-    message: string
-    conversationHistory: ChatMessageType[]
-    sessionId?: string
-  } | null>(null)
+  // Decisions made so far for the pending approvals; sent together once every request is decided
+  const [approvalDecisions, setApprovalDecisions] = useState<Record<string, boolean>>({})
+  const [pendingContext, setPendingContext] = useState<PendingContext | null>(null)
+  // Active specialist and tool calls of the agent run that is currently streaming
+  const [agentActivity, setAgentActivity] = useState<AgentActivity | null>(null)
+  const [switchingBranch, setSwitchingBranch] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   
   const isEmpty = messages.length === 0
@@ -68,57 +122,59 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
     setCurrentSessionId(sessionId)
   }, [sessionId])
 
-  // Auto-scroll to bottom when messages change or loading state changes
+  // Auto-scroll to bottom when messages change or loading state changes, unless the history
+  // scrolled to a highlighted message
   useEffect(() => {
+    if (highlightedMessageId && !isLoading && messages.some(message => message.id === highlightedMessageId)) {
+      return
+    }
     scrollToBottom()
-  }, [messages, isLoading, pendingApprovals])
+  }, [messages, isLoading, pendingApprovals, agentActivity, highlightedMessageId])
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
-  const handleApprove = (requestId: string) => {
-    const approvedRequest = pendingApprovals.find(req => req.id === requestId)
-    if (approvedRequest && pendingContext) {
-      // Remove this specific approval request
-      setPendingApprovals(prev => prev.filter(req => req.id !== requestId))
-      
-      // If this was the last approval, continue with the request
-      if (pendingApprovals.length === 1) {
-        continueWithApprovals({ [requestId]: true })
-      }
+  const decideApproval = (requestId: string, approved: boolean) => {
+    if (!pendingContext || !pendingApprovals.some(req => req.id === requestId)) return
+
+    const decisions = { ...approvalDecisions, [requestId]: approved }
+    const remaining = pendingApprovals.filter(req => req.id !== requestId)
+    setPendingApprovals(remaining)
+
+    // Resume the paused run once every tool call has a decision
+    if (remaining.length === 0) {
+      setApprovalDecisions({})
+      continueWithApprovals(decisions)
+    } else {
+      setApprovalDecisions(decisions)
     }
   }
 
+  const handleApprove = (requestId: string) => {
+    decideApproval(requestId, true)
+  }
+
   const handleReject = (requestId: string) => {
-    const rejectedRequest = pendingApprovals.find(req => req.id === requestId)
-    if (rejectedRequest) {
-      // Remove this specific approval request
-      setPendingApprovals(prev => prev.filter(req => req.id !== requestId))
-      
-      // If this was the last approval, continue with rejection
-      if (pendingApprovals.length === 1) {
-        continueWithApprovals({ [requestId]: false })
-      }
-    }
+    decideApproval(requestId, false)
   }
 
-  const handleApproveAll = () => {
-    const approvals: Record<string, boolean> = {}
+  const decideAll = (approved: boolean) => {
+    const decisions = { ...approvalDecisions }
     pendingApprovals.forEach(req => {
-      approvals[req.id] = true
+      decisions[req.id] = approved
     })
     setPendingApprovals([])
-    continueWithApprovals(approvals)
+    setApprovalDecisions({})
+    continueWithApprovals(decisions)
+  }
+
+  const handleApproveAll = () => {
+    decideAll(true)
   }
 
   const handleRejectAll = () => {
-    const approvals: Record<string, boolean> = {}
-    pendingApprovals.forEach(req => {
-      approvals[req.id] = false
-    })
-    setPendingApprovals([])
-    continueWithApprovals(approvals)
+    decideAll(false)
   }
 
   const continueWithApprovals = async (approvals: Record<string, boolean>) => {
@@ -132,43 +188,7 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
       const response = await onSendMessage(message, conversationHistory, pendingSessionId, approvals)
       
       if (response instanceof Response) {
-        const contentType = response.headers.get('content-type')
-        
-        if (contentType?.includes('application/json')) {
-          const data = await response.json()
-          
-          // Handle approval requests
-          if (data.status === 'pending_approval' && data.approvalRequests) {
-            setPendingApprovals(data.approvalRequests)
-            setPendingContext({
-              message: message,
-              conversationHistory: conversationHistory,
-              sessionId: pendingSessionId
-            })
-            setIsLoading(false)
-            return
-          }
-          
-          // Handle regular JSON response
-          if (data.message) {
-            const assistantMessage: ChatMessageType = { role: "assistant", content: data.message }
-            setMessages(prev => [...prev, assistantMessage])
-            
-            // Check if we got a new session ID from the JSON response (agent mode)
-            if (data.sessionId && data.sessionId !== currentSessionId) {
-              setCurrentSessionId(data.sessionId)
-              onSessionChange?.(data.sessionId)
-            }
-            
-            setIsLoading(false)
-            return
-          }
-        } else {
-          // Handle streaming response only if it's not JSON
-          if (streamingEnabled) {
-            await handleStreamingResponse(response)
-          }
-        }
+        await handleResponse(response, { message, conversationHistory, sessionId: pendingSessionId })
       } else if (typeof response === "string") {
         const assistantMessage: ChatMessageType = { role: "assistant", content: response }
         setMessages(prev => [...prev, assistantMessage])
@@ -181,11 +201,133 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
       }
       setMessages(prev => [...prev, errorMessage])
     } finally {
+      setAgentActivity(null)
       setIsLoading(false)
     }
   }
 
-  const handleStreamingResponse = async (response: Response) => {
+  const handleResponse = async (response: Response, context: PendingContext) => {
+    const contentType = response.headers.get('content-type')
+
+    if (response.headers.has(CHAT_STREAM_HEADER)) {
+      await handleChatEventStream(response)
+    } else if (contentType?.includes(AGENT_STREAM_CONTENT_TYPE)) {
+      await handleAgentEventStream(response, context)
+    }
+  }
+
+  const handleAgentEventStream = async (response: Response, context: PendingContext) => {
+    if (!response.body) {
+      throw new Error("Stream reader not available")
+    }
+
+    let newSessionId: string | undefined
+    let streamedText = ""
+    let hasDraft = false
+
+    // Streamed text goes into an assistant message that is replaced by the final reply
+    const setDraft = (content: string, usage?: ChatReplyUsage) => {
+      if (!hasDraft) {
+        hasDraft = true
+        setMessages(prev => [...prev, { role: "assistant", content, usage }])
+        return
+      }
+      setMessages(prev => {
+        const updated = [...prev]
+        updated[updated.length - 1] = { role: "assistant", content, usage }
+        return updated
+      })
+    }
+
+    const addStep = (step: AgentTimelineStep) => {
+      setAgentActivity(prev => prev && { ...prev, steps: [...prev.steps, step] })
+    }
+
+    setAgentActivity({ activeAgent: "AI Assistant", steps: [] })
+
+    for await (const event of readAgentEventStream(response.body)) {
+      switch (event.type) {
+        case "session":
+          if (event.sessionId !== currentSessionId) {
+            setCurrentSessionId(event.sessionId)
+            newSessionId = event.sessionId
+          }
+          break
+        case "agent_updated":
+          setAgentActivity(prev => prev && { ...prev, activeAgent: event.agent })
+          break
+        case "handoff":
+          addStep({
+            id: `handoff-${event.from}-${event.to}-${Date.now()}`,
+            type: "handoff",
+            label: `${event.from} handed off to ${event.to}`,
+            agent: event.from,
+            status: "completed"
+          })
+          break
+        case "tool_call_started":
+          addStep({
+            id: event.callId,
+            type: "tool",
+            label: describeToolCall(event.toolName, event.arguments),
+            agent: event.agent,
+            status: "running"
+          })
+          break
+        case "tool_call_completed":
+          setAgentActivity(prev => {
+            if (!prev) return prev
+            if (prev.steps.some(step => step.id === event.callId)) {
+              return {
+                ...prev,
+                steps: prev.steps.map(step => step.id === event.callId ? { ...step, status: event.status } : step)
+              }
+            }
+            return {
+              ...prev,
+              steps: [...prev.steps, {
+                id: event.callId,
+                type: "tool",
+                label: describeToolCall(event.toolName, {}),
+                agent: event.agent,
+                status: event.status
+              }]
+            }
+          })
+          break
+        case "text_delta":
+          streamedText += event.delta
+          setDraft(streamedText)
+          break
+        case "approval_required":
+          // Text streamed before the pause isn't saved, so it isn't kept either
+          if (hasDraft) {
+            setMessages(prev => prev.slice(0, -1))
+            hasDraft = false
+          }
+          setPendingApprovals(event.approvalRequests)
+          setPendingContext(context)
+          break
+        case "done":
+          setDraft(event.message, {
+            inputTokens: event.usage.inputTokens,
+            outputTokens: event.usage.outputTokens,
+            credits: event.usage.creditsUsed
+          })
+          break
+        case "error":
+          setDraft(event.error)
+          break
+      }
+    }
+
+    // Only update URL after streaming is complete
+    if (newSessionId) {
+      onSessionChange?.(newSessionId)
+    }
+  }
+
+  const handleChatEventStream = async (response: Response) => {
     // Check if we got a new session ID from the response
     const newSessionId = response.headers.get('X-Session-Id')
     let shouldUpdateURL = false
@@ -194,100 +336,82 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
       setCurrentSessionId(newSessionId)
       shouldUpdateURL = true
     }
-    
-    // Create an empty assistant message
-    const assistantMessage: ChatMessageType = { role: "assistant", content: "" }
-    setMessages(prev => [...prev, assistantMessage])
-    
-    // Set up streaming reader
-    const reader = response.body?.getReader()
-    const decoder = new TextDecoder()
-    
-    if (!reader) {
+
+    if (!response.body) {
       throw new Error("Stream reader not available")
     }
     
-    // Read and process the stream
-    let fullText = ""
-    let done = false
-    
-    while (!done) {
-      const { value, done: doneReading } = await reader.read()
-      done = doneReading
-      
-      if (value) {
-        const text = decoder.decode(value, { stream: !done })
-        fullText += text
-        
-        // Update the assistant's message with the complete text
-        setMessages(prev => {
-          const updated = [...prev]
-          const lastMessage = updated[updated.length - 1]
-          if (lastMessage.role === "assistant") {
-            lastMessage.content = fullText
-          }
-          return updated
-        })
+    // Create an empty assistant message, updated as text and citations arrive
+    let content = ""
+    let citations: LLMCitation[] = []
+    let usage: ChatReplyUsage | undefined
+    const updateReply = () => {
+      setMessages(prev => {
+        const updated = [...prev]
+        updated[updated.length - 1] = { role: "assistant", content, citations, usage }
+        return updated
+      })
+    }
+    setMessages(prev => [...prev, { role: "assistant", content: "" }])
+
+    // Without streaming the reply is only shown once complete
+    for await (const event of readChatEventStream(response.body)) {
+      switch (event.type) {
+        case "text_delta":
+          content += event.delta
+          if (streamingEnabled) updateReply()
+          break
+        case "citation":
+          citations = [...citations, event.citation]
+          if (streamingEnabled) updateReply()
+          break
+        case "done":
+          content = event.message
+          citations = event.citations
+          usage = event.usage
+          break
+        case "error":
+          content = content ? `${content}\n\n${event.error}` : event.error
+          break
       }
     }
+
+    updateReply()
     
     // Only update URL after streaming is complete
     if (shouldUpdateURL && newSessionId) {
       onSessionChange?.(newSessionId)
     }
+
+    const replySessionId = newSessionId || currentSessionId
+    if (replySessionId) {
+      onResponseComplete?.(replySessionId)
+    }
   }
 
-  const handleSendMessage = async (content: string) => {
-    // Add user message
-    const userMessage: ChatMessageType = { role: "user", content }
-    const updatedMessages = [...messages, userMessage]
+  // Sends a message after the conversation shown has been updated to `updatedMessages`
+  const sendMessage = async (content: string, updatedMessages: ChatMessageType[], branch?: ChatBranchAction, attachments?: File[]) => {
+    // A new message abandons any paused run; the server expires it
+    if (pendingApprovals.length > 0) {
+      setPendingApprovals([])
+      setApprovalDecisions({})
+      setPendingContext(null)
+    }
+
     setMessages(updatedMessages)
     
     if (onSendMessage) {
       setIsLoading(true)
       try {
         // Pass all previous messages for context and current session ID
-        const response = await onSendMessage(content, updatedMessages, currentSessionId)
+        const response = await onSendMessage(content, updatedMessages, currentSessionId, undefined, branch, attachments)
         
-        // Check if response is a JSON response with approval requests
         if (response instanceof Response) {
-          const contentType = response.headers.get('content-type')
-          
-          if (contentType?.includes('application/json')) {
-            const data = await response.json()
-            
-            // Handle approval requests
-            if (data.status === 'pending_approval' && data.approvalRequests) {
-              setPendingApprovals(data.approvalRequests)
-              setPendingContext({
-                message: content,
-                conversationHistory: updatedMessages,
-                sessionId: currentSessionId
-              })
-              setIsLoading(false)
-              return
-            }
-            
-            // Handle regular JSON response
-            if (data.message) {
-              const assistantMessage: ChatMessageType = { role: "assistant", content: data.message }
-              setMessages(prev => [...prev, assistantMessage])
-              
-              // Check if we got a new session ID from the JSON response (agent mode)
-              if (data.sessionId && data.sessionId !== currentSessionId) {
-                setCurrentSessionId(data.sessionId)
-                onSessionChange?.(data.sessionId)
-              }
-              
-              setIsLoading(false)
-              return
-            }
-          } else {
-            // Handle streaming response only if it's not JSON
-            if (streamingEnabled) {
-              await handleStreamingResponse(response)
-            }
-          }
+          await handleResponse(response, {
+            message: content,
+            conversationHistory: updatedMessages,
+            sessionId: currentSessionId
+          })
         } else if (typeof response === "string") {
           // Handle non-streaming response
           const assistantMessage: ChatMessageType = { role: "assistant", content: response }
@@ -301,11 +425,57 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
         }
         setMessages(prev => [...prev, errorMessage])
       } finally {
+        setAgentActivity(null)
         setIsLoading(false)
       }
     }
   }
 
+  const handleSendMessage = async (content: string, attachments: File[] = []) => {
+    // Attachments show from local previews until the conversation is reloaded with their stored copies
+    const previews: ChatAttachment[] = attachments.map(file => ({
+      type: getAttachmentKind(file)?.kind === "image" ? "image" : "document",
+      url: URL.createObjectURL(file),
+      filename: file.name,
+      mime_type: file.type,
+      size_bytes: file.size
+    }))
+    const userMessage: ChatMessageType = { role: "user", content, attachments: previews.length > 0 ? previews : undefined }
+    await sendMessage(content, [...messages, userMessage], undefined, attachments)
+  }
+
+  // The edited message replaces the original and everything after it in the view; the original stays as a branch
+  const handleEditMessage = async (index: number, content: string) => {
+    const original = messages[index]
+    if (!original?.id || isLoading) return
+
+    // The edited message keeps the original's attachments
+    const userMessage: ChatMessageType = { role: "user", content, attachments: original.attachments }
+    await sendMessage(content, [...messages.slice(0, index), userMessage], { editInteractionId: original.id })
+  }
+
+  // A new reply to the same user message, shown in place of the original
+  const handleRegenerateMessage = async (index: number) => {
+    const original = messages[index]
+    const userMessage = messages[index - 1]
+    if (!original?.id || userMessage?.role !== "user" || isLoading) return
+
+    await sendMessage(userMessage.content, messages.slice(0, index), { regenerateInteractionId: original.id })
+  }
+
+  const handleSwitchBranch = async (interactionId: string) => {
+    if (!onSwitchBranch || isLoading || switchingBranch) return
+
+    setSwitchingBranch(true)
+    try {
+      await onSwitchBranch(interactionId)
+    } catch (error) {
+      console.error("Error switching branch:", error)
+    } finally {
+      setSwitchingBranch(false)
+    }
+  }
+
   useImperativeHandle(ref, () => ({
     sendMessage: handleSendMessage,
     isLoading: isLoading
@@ -338,8 +508,11 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
               isLoading={isLoading} 
               webSearchEnabled={webSearchEnabled}
               onToggleWebSearch={onToggleWebSearch}
+              knowledgeBaseEnabled={knowledgeBaseEnabled}
+              onToggleKnowledgeBase={onToggleKnowledgeBase}
               agentEnabled={agentEnabled}
               onToggleAgent={onToggleAgent}
+              attachmentsEnabled={attachmentsEnabled && !agentEnabled}
             />
           )}
         </div>
@@ -350,7 +523,14 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
   return (
     <div className="flex flex-col h-full mx-auto max-w-4xl w-full">
       <div className="flex-1 px-4 overflow-y-auto min-h-0">
-        <ChatHistory messages={messages} />
+        <ChatHistory
+          messages={messages}
+          onEditMessage={branchingEnabled ? handleEditMessage : undefined}
+          onRegenerateMessage={branchingEnabled ? handleRegenerateMessage : undefined}
+          onSwitchBranch={onSwitchBranch ? handleSwitchBranch : undefined}
+          actionsDisabled={isLoading || switchingBranch || pendingApprovals.length > 0}
+          highlightedMessageId={highlightedMessageId}
+        />
         {pendingApprovals.length > 0 && (
           <div className="mb-6">
             <ApprovalMessage
@@ -362,7 +542,7 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
             />
           </div>
         )}
-        {isLoading && <LoadingMessage />}
+        {isLoading && <LoadingMessage activity={agentActivity} />}
         <div ref={messagesEndRef} />
       </div>
       <div className="flex-shrink-0 w-full px-4 pb-5">
@@ -372,8 +552,11 @@ export const ChatContainer = forwardRef<ChatContainerRef, ChatContainerProps>(({
             isLoading={isLoading}
             webSearchEnabled={webSearchEnabled}
             onToggleWebSearch={onToggleWebSearch}
+            knowledgeBaseEnabled={knowledgeBaseEnabled}
+            onToggleKnowledgeBase={onToggleKnowledgeBase}
             agentEnabled={agentEnabled}
             onToggleAgent={onToggleAgent}
+            attachmentsEnabled={attachmentsEnabled && !agentEnabled}
           />
         )}
       </div>
@@ -5,15 +5,32 @@ import { ChatMessage, ChatMessageType } from "./ChatMessage"
 
 interface ChatHistoryProps {
   messages: ChatMessageType[]
+  onEditMessage?: (index: number, content: string) => void
+  onRegenerateMessage?: (index: number) => void
+  onSwitchBranch?: (interactionId: string) => void
+  actionsDisabled?: boolean
+  // Message to scroll to and mark instead of following the latest message
+  highlightedMessageId?: string | null
 }
 
-export function ChatHistory({ messages }: ChatHistoryProps) {
+export function ChatHistory({
+  messages,
+  onEditMessage,
+  onRegenerateMessage,
+  onSwitchBranch,
+  actionsDisabled = false,
+  highlightedMessageId = null
+}: ChatHistoryProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
-  // Auto-scroll to bottom on new messages
+  // Auto-scroll to bottom on new messages, or to the highlighted message while it's shown
   useEffect(() => {
+    if (highlightedMessageId && messages.some(message => message.id === highlightedMessageId)) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+      return
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
-  }, [messages])
+  }, [messages, highlightedMessageId])
 
   if (messages.length === 0) {
     return (
@@ -26,7 +43,15 @@ export function ChatHistory({ messages }: ChatHistoryProps) {
   return (
     <div className="flex-1 space-y-4 overflow-y-auto">
       {messages.map((message, index) => (
-        <ChatMessage key={index} message={message} />
+        <ChatMessage
+          key={message.id || index}
+          message={message}
+          onEdit={onEditMessage && ((content) => onEditMessage(index, content))}
+          onRegenerate={onRegenerateMessage && (() => onRegenerateMessage(index))}
+          onSwitchBranch={onSwitchBranch}
+          actionsDisabled={actionsDisabled}
+          highlighted={!!message.id && message.id === highlightedMessageId}
+        />
       ))}
       <div ref={messagesEndRef} />
     </div>
@@ -1,16 +1,45 @@
 "use client"
 
 import { Button } from "@/components/ui/button"
-import { Activity, Bot, Globe, Mic, MoreHorizontal, Plus, SendIcon } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu"
+import { CHAT_ATTACHMENT_ACCEPT, getAttachmentKind, validateAttachments } from "@/lib/chat/attachments"
+import type { ChatPersona } from "@/lib/llm/types"
+import { errorToast } from "@/lib/toast"
+import { Activity, Bot, FileText, Globe, Library, Mic, MoreHorizontal, Plus, SendIcon, UserRound, X } from "lucide-react"
+import Image from "next/image"
 import { useEffect, useRef, useState } from "react"
 
+interface PendingAttachment {
+  file: File
+  // Object URL shown as the thumbnail of an image
+  previewUrl?: string
+}
+
 interface ChatInputProps {
-  onSendMessage: (message: string) => void
+  onSendMessage: (message: string, attachments: File[]) => void
   isLoading?: boolean
   webSearchEnabled?: boolean
   onToggleWebSearch?: (enabled: boolean) => void
+  // Answers from the organization's knowledge base; not available in agent mode
+  knowledgeBaseEnabled?: boolean
+  onToggleKnowledgeBase?: (enabled: boolean) => void
   agentEnabled?: boolean
   onToggleAgent?: (enabled: boolean) => void
+  personas?: ChatPersona[]
+  personaId?: string | null
+  onPersonaChange?: (personaId: string | null) => void
+  // The persona can only be picked before the first message of a chat
+  personaLocked?: boolean
+  // Images and documents can't be attached in agent mode or to web searches
+  attachmentsEnabled?: boolean
 }
 
 export function ChatInput({ 
@@ -18,11 +47,22 @@ export function ChatInput({
   isLoading = false, 
   webSearchEnabled = false, 
   onToggleWebSearch,
+  knowledgeBaseEnabled = false,
+  onToggleKnowledgeBase,
   agentEnabled = false,
-  onToggleAgent
+  onToggleAgent,
+  personas = [],
+  personaId = null,
+  onPersonaChange,
+  personaLocked = false,
+  attachmentsEnabled = false
 }: ChatInputProps) {
   const [input, setInput] = useState("")
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const selectedPersona = personas.find(persona => persona.id === personaId)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const canAttach = attachmentsEnabled && !webSearchEnabled
 
   // Auto-resize textarea
   useEffect(() => {
@@ -81,8 +121,45 @@ export function ChatInput({
     e.preventDefault()
     if (input.trim() === "" || isLoading) return
     
-    onSendMessage(input.trim())
+    onSendMessage(input.trim(), canAttach ? attachments.map(attachment => attachment.file) : [])
     setInput("")
+    clearAttachments()
+  }
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    // Reset so the same file can be picked again after removing it
+    e.target.value = ""
+    if (files.length === 0) return
+
+    const error = validateAttachments([...attachments.map(attachment => attachment.file), ...files])
+    if (error) {
+      errorToast(error)
+      return
+    }
+
+    setAttachments(current => [
+      ...current,
+      ...files.map(file => ({
+        file,
+        previewUrl: getAttachmentKind(file)?.kind === "image" ? URL.createObjectURL(file) : undefined
+      }))
+    ])
+  }
+
+  const removeAttachment = (index: number) => {
+    setAttachments(current => {
+      const removed = current[index]
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl)
+      return current.filter((_, i) => i !== index)
+    })
+  }
+
+  const clearAttachments = () => {
+    attachments.forEach(attachment => {
+      if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+    })
+    setAttachments([])
   }
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -98,6 +175,12 @@ export function ChatInput({
     }
   }
 
+  const toggleKnowledgeBase = () => {
+    if (onToggleKnowledgeBase) {
+      onToggleKnowledgeBase(!knowledgeBaseEnabled)
+    }
+  }
+
   const toggleAgent = () => {
     if (onToggleAgent) {
       onToggleAgent(!agentEnabled)
@@ -118,10 +201,21 @@ export function ChatInput({
                 size="icon" 
                 variant="ghost" 
                 className="rounded-full h-9 w-9 sm:h-8 sm:w-8 flex-shrink-0"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!canAttach || isLoading}
+                title={canAttach ? "Attach images or documents" : "Attachments aren't available in agent mode or with web search"}
               >
                 <Plus className="size-5 sm:size-4" />
                 <span className="sr-only">Add attachment</span>
               </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={CHAT_ATTACHMENT_ACCEPT}
+                className="hidden"
+                onChange={handleFilesSelected}
+              />
               
               <Button
                 type="button"
@@ -147,6 +241,49 @@ export function ChatInput({
             
             {/* Right side toggle buttons */}
             <div className="flex items-center gap-2">
+              {/* Persona picker - agent mode uses its own instructions */}
+              {onPersonaChange && personas.length > 0 && !agentEnabled && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant={selectedPersona ? "default" : "ghost"}
+                      size="sm"
+                      className={`h-9 sm:h-8 rounded-full px-4 sm:px-3 text-sm sm:text-xs font-medium flex items-center gap-2 sm:gap-1.5 max-w-[12rem] ${
+                        selectedPersona
+                          ? "bg-purple-500/10 text-purple-600 hover:bg-purple-500/20 dark:bg-purple-500/20 dark:hover:bg-purple-500/30"
+                          : ""
+                      }`}
+                      disabled={personaLocked}
+                      title={personaLocked ? "The persona is set when a chat starts" : undefined}
+                    >
+                      <UserRound className="size-4 sm:size-3 flex-shrink-0" />
+                      <span className="truncate">{selectedPersona?.name || "Default"}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-64">
+                    <DropdownMenuLabel>Assistant persona</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuRadioGroup
+                      value={selectedPersona?.id || ""}
+                      onValueChange={(value) => onPersonaChange(value || null)}
+                    >
+                      <DropdownMenuRadioItem value="">Default assistant</DropdownMenuRadioItem>
+                      {personas.map(persona => (
+                        <DropdownMenuRadioItem key={persona.id} value={persona.id}>
+                          <div className="flex flex-col">
+                            <span>{persona.name}</span>
+                            {persona.description && (
+                              <span className="text-xs text-muted-foreground">{persona.description}</span>
+                            )}
+                          </div>
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+
               {/* Agent Mode button */}
               {onToggleAgent && (
                 <Button
@@ -182,9 +319,64 @@ export function ChatInput({
                 <span className="hidden xs:inline">Web Search</span>
                 <span className="xs:hidden">Web</span>
               </Button>
+
+              {/* Knowledge base button */}
+              {onToggleKnowledgeBase && !agentEnabled && (
+                <Button
+                  type="button"
+                  variant={knowledgeBaseEnabled ? "default" : "ghost"}
+                  size="sm"
+                  className={`h-9 sm:h-8 rounded-full px-4 sm:px-3 text-sm sm:text-xs font-medium flex items-center gap-2 sm:gap-1.5 ${
+                    knowledgeBaseEnabled 
+                      ? "bg-emerald-500/10 text-emerald-600 hover:bg-emerald-500/20 dark:bg-emerald-500/20 dark:hover:bg-emerald-500/30" 
+                      : ""
+                  }`}
+                  onClick={toggleKnowledgeBase}
+                >
+                  <Library className="size-4 sm:size-3" />
+                  <span className="hidden xs:inline">Use knowledge base</span>
+                  <span className="xs:hidden">Docs</span>
+                </Button>
+              )}
             </div>
           </div>
           
+          {/* Attachments waiting to be sent */}
+          {canAttach && attachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 px-4 pt-3">
+              {attachments.map((attachment, index) => (
+                <div
+                  key={`${attachment.file.name}-${index}`}
+                  className="relative flex items-center gap-2 rounded-lg border border-border bg-background/60 pr-7 text-xs"
+                >
+                  {attachment.previewUrl ? (
+                    <Image
+                      src={attachment.previewUrl}
+                      alt={attachment.file.name}
+                      width={40}
+                      height={40}
+                      unoptimized
+                      className="h-10 w-10 rounded-l-lg object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-10 w-10 items-center justify-center rounded-l-lg bg-muted">
+                      <FileText className="size-4 text-muted-foreground" />
+                    </div>
+                  )}
+                  <span className="max-w-[10rem] truncate">{attachment.file.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(index)}
+                    className="absolute right-1.5 top-1/2 -translate-y-1/2 rounded-full p-0.5 text-muted-foreground hover:bg-muted hover:text-foreground"
+                  >
+                    <X className="size-3" />
+                    <span className="sr-only">Remove {attachment.file.name}</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Bottom row with input and send - all screen sizes */}
           <div className="flex items-end gap-3 px-4 py-4">
             {/* Input field - gets full width */}
@@ -1,22 +1,127 @@
 "use client"
 
-import { useMemo, useState } from "react"
+import { useId, useMemo, useState } from "react"
 import { cn } from "@/lib/utils"
 import { SourcesSection } from "./SourcesSection"
-import { Source } from "./SourceCard"
+import { addCitationFootnotes, CITATION_LINK_PREFIX } from "@/lib/chat/citations"
+import type { LLMCitation } from "@/lib/llm/types"
+import type { ChatReplyUsage } from "@/lib/chat/stream-events"
+import type { ChatAttachment } from "@/lib/chat/attachments"
 import ReactMarkdown from "react-markdown"
 import remarkGfm from "remark-gfm"
 import rehypeSanitize from "rehype-sanitize"
 import type { Components } from "react-markdown"
-import { Check, ClipboardCopy } from "lucide-react"
+import { Check, ChevronLeft, ChevronRight, ClipboardCopy, FileText, Pencil, RefreshCw } from "lucide-react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import type { InteractionBranch } from "@/types/history"
 
 export type ChatMessageType = {
   content: string
   role: "user" | "assistant"
+  // Saved interaction and its position among alternative branches, once the message is stored
+  id?: string
+  branch?: InteractionBranch
+  // Web search citations; their indexes refer to `content`
+  citations?: LLMCitation[]
+  // Tokens and credits of an assistant reply, once it has been charged
+  usage?: ChatReplyUsage
+  // Images and documents attached to a user message
+  attachments?: ChatAttachment[]
 }
 
 interface ChatMessageProps {
   message: ChatMessageType
+  // Edit and regenerate are only offered when handlers are given
+  onEdit?: (content: string) => void
+  onRegenerate?: () => void
+  onSwitchBranch?: (interactionId: string) => void
+  actionsDisabled?: boolean
+  // Marks the message a history search result opened the session at
+  highlighted?: boolean
+}
+
+function ReplyUsage({ usage }: { usage: ChatReplyUsage }) {
+  const tokens = usage.inputTokens + usage.outputTokens
+  return (
+    <span
+      className="px-1 text-xs tabular-nums text-muted-foreground"
+      title={`${usage.inputTokens.toLocaleString()} input tokens (including history) · ${usage.outputTokens.toLocaleString()} output tokens`}
+    >
+      {usage.credits} {usage.credits === 1 ? "credit" : "credits"} · {tokens.toLocaleString()} tokens
+    </span>
+  )
+}
+
+function MessageAttachments({ attachments }: { attachments: ChatAttachment[] }) {
+  return (
+    <div className="flex flex-wrap justify-end gap-2">
+      {attachments.map((attachment, index) => (
+        <a
+          key={attachment.id || `${attachment.filename}-${index}`}
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={attachment.filename}
+        >
+          {attachment.type === "image" ? (
+            <Image
+              src={attachment.url}
+              alt={attachment.filename}
+              width={128}
+              height={128}
+              unoptimized
+              className="h-32 w-32 rounded-lg border border-border object-cover"
+            />
+          ) : (
+            <span className="flex items-center gap-2 rounded-lg border border-border bg-muted px-3 py-2 text-xs hover:bg-muted/70">
+              <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="max-w-[12rem] truncate">{attachment.filename}</span>
+            </span>
+          )}
+        </a>
+      ))}
+    </div>
+  )
+}
+
+function BranchSwitcher({
+  branch,
+  onSwitchBranch,
+  disabled
+}: {
+  branch: InteractionBranch
+  onSwitchBranch: (interactionId: string) => void
+  disabled: boolean
+}) {
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-muted-foreground">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || branch.index <= 0}
+        onClick={() => onSwitchBranch(branch.siblingIds[branch.index - 1])}
+      >
+        <ChevronLeft className="h-3.5 w-3.5" />
+        <span className="sr-only">Previous version</span>
+      </Button>
+      <span className="tabular-nums">{branch.index + 1} / {branch.count}</span>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || branch.index >= branch.count - 1}
+        onClick={() => onSwitchBranch(branch.siblingIds[branch.index + 1])}
+      >
+        <ChevronRight className="h-3.5 w-3.5" />
+        <span className="sr-only">Next version</span>
+      </Button>
+    </div>
+  )
 }
 
 function CodeBlock({ className, children }: { className?: string; children: React.ReactNode }) {
@@ -54,53 +159,79 @@ function CodeBlock({ className, children }: { className?: string; children: Reac
   )
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({ message, onEdit, onRegenerate, onSwitchBranch, actionsDisabled = false, highlighted = false }: ChatMessageProps) {
   const isUser = message.role === "user"
+  const sourceIdPrefix = useId()
+  // Source highlighted after its footnote was clicked
+  const [activeSource, setActiveSource] = useState<number | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    const content = draft.trim()
+    if (!content || !onEdit) return
+    setIsEditing(false)
+    // An unchanged message isn't resent
+    if (content !== message.content) {
+      onEdit(content)
+    }
+  }
+
+  const showSwitcher = !!onSwitchBranch && !!message.branch && message.branch.count > 1
+  const canEdit = isUser && !!onEdit && !!message.id
+  const canRegenerate = !isUser && !!onRegenerate && !!message.id
+  const showUsage = !isUser && !!message.usage
   
-  // Extract sources from the message content if it's from the assistant
+  // Number the assistant's citations as footnotes after the spans they cite
   const { cleanContent, sources } = useMemo(() => {
     if (isUser) return { cleanContent: message.content, sources: [] }
-    
-    let content = message.content
-    const sources: Source[] = []
-    
-    // Check if there's a sources section in the content
-    const sourcesMatch = content.match(/\n\n---\nSources:\n([\s\S]+)$/i)
-    
-    if (sourcesMatch) {
-      // Remove the sources section from the content
-      content = content.replace(sourcesMatch[0], '')
-      
-      // Parse the sources
-      const sourcesText = sourcesMatch[1]
-      const sourceLines = sourcesText.split('\n').filter(line => line.trim().length > 0)
-      
-      // Extract the sources
-      for (const line of sourceLines) {
-        const matches = line.match(/\[(\d+)\]\s+(.+?):\s+(https?:\/\/\S+)/)
-        if (matches) {
-          sources.push({
-            title: matches[2].trim(),
-            url: matches[3].trim()
-          })
-        }
-      }
-    }
-    
+
+    const { content, sources } = addCitationFootnotes(message.content, message.citations)
     return { cleanContent: content, sources }
-  }, [message.content, isUser])
+  }, [message.content, message.citations, isUser])
 
   // Custom component overrides for markdown rendering
   const components: Components = {
     // Override the default link component for security
-    a: (props) => (
-      <a 
-        {...props} 
-        target="_blank" 
-        rel="noopener noreferrer"
-        className="text-blue-500 hover:underline"
-      />
-    ),
+    a: ({ href, children, ...props }) => {
+      // Citation footnotes point at the numbered source below the message
+      if (href?.startsWith(CITATION_LINK_PREFIX)) {
+        const number = Number(href.slice(CITATION_LINK_PREFIX.length))
+        const source = sources.find(s => s.number === number)
+        return (
+          <sup className="mx-0.5">
+            <a
+              href={`#${sourceIdPrefix}-${number}`}
+              title={source?.title}
+              className="rounded px-1 text-[0.7rem] font-medium no-underline bg-primary/10 text-primary hover:bg-primary/20"
+              onClick={(e) => {
+                e.preventDefault()
+                setActiveSource(number)
+              }}
+            >
+              {children}
+            </a>
+          </sup>
+        )
+      }
+
+      return (
+        <a 
+          {...props} 
+          href={href}
+          target="_blank" 
+          rel="noopener noreferrer"
+          className="text-blue-500 hover:underline"
+        >
+          {children}
+        </a>
+      )
+    },
     // Add proper styling for code blocks
     code: (props) => {
       // Check if this is a code block (has className with language-*)
@@ -136,33 +267,112 @@ export function ChatMessage({ message }: ChatMessageProps) {
     td: (props) => <td className="px-4 py-3 text-sm" {...props} />,
   }
   
+  if (isEditing) {
+    return (
+      <div className="flex gap-2 mb-4 flex-row-reverse">
+        <div className="size-8 rounded-full flex-shrink-0 bg-secondary" />
+        <div className="w-full max-w-3xl space-y-2">
+          <Textarea
+            value={draft}
+            rows={3}
+            autoFocus
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault()
+                submitEdit()
+              } else if (e.key === "Escape") {
+                setIsEditing(false)
+              }
+            }}
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button type="button" size="sm" onClick={submitEdit} disabled={!draft.trim() || actionsDisabled}>
+              Save & Send
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
-    <div className={cn("flex gap-2 mb-4", isUser && "flex-row-reverse")}>
+    <div
+      id={message.id ? `message-${message.id}` : undefined}
+      className={cn(
+        "group flex gap-2 mb-4 scroll-mt-4",
+        isUser && "flex-row-reverse",
+        highlighted && "rounded-lg ring-2 ring-amber-400 ring-offset-4 ring-offset-background"
+      )}
+    >
       <div className={cn(
         "size-8 rounded-full flex-shrink-0",
         isUser ? "bg-secondary" : "bg-primary"
       )} />
-      <div className={cn(
-        "rounded-lg p-4 max-w-3xl",
-        isUser ? "bg-primary text-primary-foreground" : "bg-muted"
-      )}>
-        {isUser ? (
-          <p className="text-sm whitespace-pre-wrap">{cleanContent}</p>
-        ) : (
-          <div className="prose prose-sm dark:prose-invert max-w-none">
-            <ReactMarkdown
-              remarkPlugins={[remarkGfm]}
-              rehypePlugins={[rehypeSanitize]}
-              components={components}
-            >
-              {cleanContent}
-            </ReactMarkdown>
-          </div>
+      <div className={cn("flex flex-col gap-1 max-w-3xl", isUser && "items-end")}>
+        {isUser && message.attachments && message.attachments.length > 0 && (
+          <MessageAttachments attachments={message.attachments} />
         )}
-        
-        {/* Display sources if available */}
-        {!isUser && sources.length > 0 && (
-          <SourcesSection sources={sources} />
+        <div className={cn(
+          "rounded-lg p-4",
+          isUser ? "bg-primary text-primary-foreground" : "bg-muted"
+        )}>
+          {isUser ? (
+            <p className="text-sm whitespace-pre-wrap">{cleanContent}</p>
+          ) : (
+            <div className="prose prose-sm dark:prose-invert max-w-none">
+              <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                rehypePlugins={[rehypeSanitize]}
+                components={components}
+              >
+                {cleanContent}
+              </ReactMarkdown>
+            </div>
+          )}
+          
+          {/* Display sources if available */}
+          {!isUser && sources.length > 0 && (
+            <SourcesSection sources={sources} idPrefix={sourceIdPrefix} activeSource={activeSource} />
+          )}
+        </div>
+
+        {(showSwitcher || canEdit || canRegenerate || showUsage) && (
+          <div className="flex items-center gap-1">
+            {showSwitcher && (
+              <BranchSwitcher branch={message.branch!} onSwitchBranch={onSwitchBranch!} disabled={actionsDisabled} />
+            )}
+            {canEdit && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                disabled={actionsDisabled}
+                onClick={startEditing}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                <span className="sr-only">Edit message</span>
+              </Button>
+            )}
+            {canRegenerate && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                disabled={actionsDisabled}
+                onClick={onRegenerate}
+              >
+                <RefreshCw className="h-3.5 w-3.5" />
+                <span className="sr-only">Regenerate reply</span>
+              </Button>
+            )}
+            {showUsage && <ReplyUsage usage={message.usage!} />}
+          </div>
         )}
       </div>
     </div>
@@ -1,10 +1,42 @@
 "use client"
 
 import { useEffect, useState } from "react"
+import { ArrowRightLeft, CheckCircle2, Loader2, XCircle } from "lucide-react"
 
-export function LoadingMessage() {
+export interface AgentTimelineStep {
+  id: string
+  type: "handoff" | "tool"
+  label: string
+  agent: string
+  status: "running" | "completed" | "rejected"
+}
+
+// Live progress of an agent mode run, built from the agent stream events
+export interface AgentActivity {
+  activeAgent: string
+  steps: AgentTimelineStep[]
+}
+
+interface LoadingMessageProps {
+  activity?: AgentActivity | null
+}
+
+function StepIcon({ step }: { step: AgentTimelineStep }) {
+  if (step.type === "handoff") {
+    return <ArrowRightLeft className="h-3.5 w-3.5 text-primary" />
+  }
+  if (step.status === "running") {
+    return <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+  }
+  if (step.status === "rejected") {
+    return <XCircle className="h-3.5 w-3.5 text-muted-foreground" />
+  }
+  return <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+}
+
+export function LoadingMessage({ activity }: LoadingMessageProps) {
   const [dots, setDots] = useState("")
-  
+
   // Animate the dots to show typing
   useEffect(() => {
     const interval = setInterval(() => {
@@ -13,10 +45,10 @@ export function LoadingMessage() {
         return prev + "."
       })
     }, 400)
-    
+
     return () => clearInterval(interval)
   }, [])
-  
+
   return (
     <div className="flex gap-2 mb-4">
       <div className="size-8 rounded-full flex-shrink-0 bg-primary" />
@@ -26,10 +58,22 @@ export function LoadingMessage() {
           <div className="w-2 h-2 rounded-full bg-gray-500 animate-pulse delay-150" />
           <div className="w-2 h-2 rounded-full bg-gray-500 animate-pulse delay-300" />
           <span className="text-sm text-gray-500 ml-2">
-            Thinking{dots}
+            {activity ? `${activity.activeAgent} is working` : "Thinking"}{dots}
           </span>
         </div>
+        {activity && activity.steps.length > 0 && (
+          <ul className="mt-3 space-y-1.5">
+            {activity.steps.map(step => (
+              <li key={step.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <StepIcon step={step} />
+                <span className={step.status === "rejected" ? "line-through" : undefined}>
+                  {step.label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -2,40 +2,46 @@
 
 import { ExternalLink } from "lucide-react"
 import { cn } from "@/lib/utils"
-
-export interface Source {
-  title: string;
-  url: string;
-}
+import type { CitedSource } from "@/lib/chat/citations"
 
 interface SourceCardProps {
-  source: Source;
-  index: number;
+  source: CitedSource;
+  id?: string;
+  highlighted?: boolean;
 }
 
-export function SourceCard({ source, index }: SourceCardProps) {
+export function SourceCard({ source, id, highlighted = false }: SourceCardProps) {
+  // Knowledge base sources link to the cited chunk within the app
+  const isKnowledgeBase = source.url.startsWith("/")
+
   // Extract domain from URL for display
   let domain = ""
-  try {
-    domain = new URL(source.url).hostname.replace("www.", "")
-  } catch {
-    domain = source.url
+  if (isKnowledgeBase) {
+    domain = "Knowledge base"
+  } else {
+    try {
+      domain = new URL(source.url).hostname.replace("www.", "")
+    } catch {
+      domain = source.url
+    }
   }
   
   return (
     <a 
+      id={id}
       href={source.url} 
-      target="_blank" 
-      rel="noopener noreferrer"
+      target={isKnowledgeBase ? undefined : "_blank"}
+      rel={isKnowledgeBase ? undefined : "noopener noreferrer"}
       className={cn(
-        "flex flex-col p-3 rounded-lg transition-colors border group",
+        "flex flex-col p-3 rounded-lg transition-colors border group scroll-mt-4",
         "bg-gray-50 hover:bg-gray-100 border-gray-200",
-        "dark:bg-gray-800/60 dark:hover:bg-gray-800 dark:border-gray-700"
+        "dark:bg-gray-800/60 dark:hover:bg-gray-800 dark:border-gray-700",
+        highlighted && "ring-2 ring-primary"
       )}
     >
       <div className="flex justify-between items-start mb-2 gap-2">
         <span className="text-sm font-medium text-gray-500 dark:text-gray-400">
-          #{index + 1}
+          #{source.number}
         </span>
         <ExternalLink className="h-4 w-4 text-gray-400 group-hover:text-gray-600 dark:text-gray-500 dark:group-hover:text-gray-300 flex-shrink-0" />
       </div>
@@ -43,6 +49,13 @@ export function SourceCard({ source, index }: SourceCardProps) {
       <h3 className="font-medium text-sm text-gray-800 dark:text-gray-200 line-clamp-2 mb-1">
         {source.title || "Untitled Source"}
       </h3>
+
+      {/* The text this source was cited for */}
+      {source.excerpt && (
+        <p className="text-xs italic text-gray-600 dark:text-gray-300 line-clamp-3 mb-1">
+          &ldquo;{source.excerpt}&rdquo;
+        </p>
+      )}
       
       <span className="text-xs text-gray-500 dark:text-gray-400">
         {domain}
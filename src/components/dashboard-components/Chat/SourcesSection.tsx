@@ -1,17 +1,36 @@
 "use client"
 
-import { useState } from "react"
-import { Source, SourceCard } from "./SourceCard"
+import { useEffect, useState } from "react"
+import { SourceCard } from "./SourceCard"
 import { Button } from "@/components/ui/button"
 import { Link2Icon } from "lucide-react"
+import type { CitedSource } from "@/lib/chat/citations"
 
 interface SourcesSectionProps {
-  sources: Source[];
+  sources: CitedSource[];
   initialVisibleCount?: number;
+  // Prefix of the source card ids that citation footnotes link to
+  idPrefix?: string;
+  // Footnote number of the source to reveal and highlight
+  activeSource?: number | null;
 }
 
-export function SourcesSection({ sources, initialVisibleCount = 3 }: SourcesSectionProps) {
+export function SourcesSection({ sources, initialVisibleCount = 3, idPrefix, activeSource = null }: SourcesSectionProps) {
   const [showAll, setShowAll] = useState(false)
+
+  // Reveal a hidden source when its footnote is clicked, then bring it into view
+  useEffect(() => {
+    if (activeSource === null) return
+
+    if (sources.findIndex(source => source.number === activeSource) >= initialVisibleCount) {
+      setShowAll(true)
+    }
+    if (idPrefix) {
+      requestAnimationFrame(() => {
+        document.getElementById(`${idPrefix}-${activeSource}`)?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+      })
+    }
+  }, [activeSource, idPrefix, initialVisibleCount, sources])
   
   // Only show the initial number of sources unless showAll is true
   const visibleSources = showAll ? sources : sources.slice(0, initialVisibleCount)
@@ -27,8 +46,13 @@ export function SourcesSection({ sources, initialVisibleCount = 3 }: SourcesSect
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
-        {visibleSources.map((source, index) => (
-          <SourceCard key={index} source={source} index={index} />
+        {visibleSources.map(source => (
+          <SourceCard
+            key={source.url}
+            source={source}
+            id={idPrefix ? `${idPrefix}-${source.number}` : undefined}
+            highlighted={source.number === activeSource}
+          />
         ))}
       </div>
       
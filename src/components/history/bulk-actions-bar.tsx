@@ -0,0 +1,127 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Archive, Folder, FolderInput, Tag, Trash2, X } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { flattenFolderTree } from "@/lib/history/organize"
+import type { BulkSessionRequest, SessionFolder, SessionTag } from "@/types/history"
+
+interface BulkActionsBarProps {
+  selectedCount: number
+  tags: SessionTag[]
+  folders: SessionFolder[]
+  disabled?: boolean
+  onAction: (request: Omit<BulkSessionRequest, "session_ids">) => void
+  onClear: () => void
+}
+
+function TagMenu({ tags, label, icon, onSelect, disabled }: {
+  tags: SessionTag[]
+  label: string
+  icon: ReactNode
+  onSelect: (tagId: string) => void
+  disabled?: boolean
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || tags.length === 0} className="text-xs md:text-sm">
+          {icon}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        {tags.map(tag => (
+          <DropdownMenuItem key={tag.id} onClick={() => onSelect(tag.id)}>
+            {tag.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+// Actions for the sessions selected in the history list
+export function BulkActionsBar({ selectedCount, tags, folders, disabled = false, onAction, onClear }: BulkActionsBarProps) {
+  return (
+    <Card className="sticky top-2 z-10 border-primary/40 shadow-md">
+      <CardContent className="flex flex-wrap items-center gap-2 p-2 md:p-3">
+        <span className="px-1 text-sm font-medium">{selectedCount} selected</span>
+
+        <TagMenu
+          tags={tags}
+          label="Tag"
+          icon={<Tag className="h-3 w-3 md:h-4 md:w-4 mr-1" />}
+          disabled={disabled}
+          onSelect={(tagId) => onAction({ action: "tag", tag_ids: [tagId] })}
+        />
+        <TagMenu
+          tags={tags}
+          label="Untag"
+          icon={<X className="h-3 w-3 md:h-4 md:w-4 mr-1" />}
+          disabled={disabled}
+          onSelect={(tagId) => onAction({ action: "untag", tag_ids: [tagId] })}
+        />
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled} className="text-xs md:text-sm">
+              <FolderInput className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+              Move
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+            <DropdownMenuItem onClick={() => onAction({ action: "move", folder_id: null })}>
+              No folder
+            </DropdownMenuItem>
+            {folders.length > 0 ? <DropdownMenuSeparator /> : (
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">No folders yet</DropdownMenuLabel>
+            )}
+            {flattenFolderTree(folders).map(({ folder, depth }) => (
+              <DropdownMenuItem key={folder.id} onClick={() => onAction({ action: "move", folder_id: folder.id })}>
+                <span style={{ paddingLeft: depth * 12 }} className="flex items-center">
+                  <Folder className="mr-2 h-3.5 w-3.5" />
+                  {folder.name}
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onAction({ action: "archive" })}
+          className="text-xs md:text-sm"
+        >
+          <Archive className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+          Archive
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onAction({ action: "delete" })}
+          className="text-xs md:text-sm text-destructive"
+        >
+          <Trash2 className="h-3 w-3 md:h-4 md:w-4 mr-1" />
+          Delete
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={onClear} className="ml-auto text-xs md:text-sm">
+          Clear
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
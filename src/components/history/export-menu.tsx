@@ -0,0 +1,42 @@
+"use client"
+
+import type { ReactNode } from "react"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { HistoryExportFormat } from "@/types/history"
+
+const EXPORT_FORMATS: { format: HistoryExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "zip", label: "ZIP with images" },
+]
+
+interface ExportMenuProps {
+  // Download URL of the export in the format
+  getUrl: (format: HistoryExportFormat) => string
+  children: ReactNode
+}
+
+// Downloads go through the browser, which saves the attachment the export route responds with
+export function ExportMenu({ getUrl, children }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={getUrl(format)} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,267 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Folder, FolderPlus, Pencil, Plus, Tag, Trash2, X } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { errorToast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+import { flattenFolderTree, SESSION_TAG_COLORS, TAG_COLOR_CLASSES } from "@/lib/history/organize"
+import type {
+  CreateSessionFolderRequest,
+  CreateSessionTagRequest,
+  SessionFolder,
+  SessionTag,
+  SessionTagColor
+} from "@/types/history"
+
+interface HistoryOrganizerPanelProps {
+  tags: SessionTag[]
+  folders: SessionFolder[]
+  selectedFolderId: string | null
+  onSelectFolder: (folderId: string | null) => void
+  selectedTagIds: string[]
+  onToggleTagFilter: (tagId: string) => void
+  onCreateTag: (request: CreateSessionTagRequest) => Promise<unknown>
+  onDeleteTag: (tagId: string) => Promise<void>
+  onCreateFolder: (request: CreateSessionFolderRequest) => Promise<unknown>
+  onUpdateFolder: (folderId: string, updates: Partial<CreateSessionFolderRequest>) => Promise<unknown>
+  onDeleteFolder: (folderId: string) => Promise<void>
+}
+
+// Folder being named: a new one under parentId, or an existing one being renamed
+type FolderDraft = { mode: "create"; parentId: string | null } | { mode: "rename"; folderId: string }
+
+// Folder tree and tags of the organization, used to filter and organize the history list
+export function HistoryOrganizerPanel({
+  tags,
+  folders,
+  selectedFolderId,
+  onSelectFolder,
+  selectedTagIds,
+  onToggleTagFilter,
+  onCreateTag,
+  onDeleteTag,
+  onCreateFolder,
+  onUpdateFolder,
+  onDeleteFolder
+}: HistoryOrganizerPanelProps) {
+  const [folderDraft, setFolderDraft] = useState<FolderDraft | null>(null)
+  const [folderName, setFolderName] = useState("")
+  const [tagName, setTagName] = useState("")
+  const [tagColor, setTagColor] = useState<SessionTagColor>("blue")
+  const [saving, setSaving] = useState(false)
+
+  const startFolderDraft = (draft: FolderDraft) => {
+    setFolderDraft(draft)
+    setFolderName(draft.mode === "rename" ? folders.find(folder => folder.id === draft.folderId)?.name || "" : "")
+  }
+
+  const saveFolder = async () => {
+    const name = folderName.trim()
+    if (!folderDraft || !name) return
+
+    setSaving(true)
+    try {
+      if (folderDraft.mode === "create") {
+        await onCreateFolder({ name, parent_id: folderDraft.parentId })
+      } else {
+        await onUpdateFolder(folderDraft.folderId, { name })
+      }
+      setFolderDraft(null)
+      setFolderName("")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to save folder")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Sessions of deleted folders are kept without a folder, so deleting doesn't ask for confirmation
+  const removeFolder = async (folder: SessionFolder) => {
+    try {
+      await onDeleteFolder(folder.id)
+      if (selectedFolderId === folder.id) onSelectFolder(null)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to delete folder")
+    }
+  }
+
+  const saveTag = async () => {
+    const name = tagName.trim()
+    if (!name) return
+
+    setSaving(true)
+    try {
+      await onCreateTag({ name, color: tagColor })
+      setTagName("")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to create tag")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeTag = async (tag: SessionTag) => {
+    try {
+      await onDeleteTag(tag.id)
+      if (selectedTagIds.includes(tag.id)) onToggleTagFilter(tag.id)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to delete tag")
+    }
+  }
+
+  const folderInput = (
+    <div className="flex items-center gap-1 py-1">
+      <Input
+        autoFocus
+        value={folderName}
+        onChange={(e) => setFolderName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") saveFolder()
+          if (e.key === "Escape") setFolderDraft(null)
+        }}
+        placeholder="Folder name"
+        className="h-8 text-sm"
+      />
+      <Button size="icon" variant="ghost" className="h-8 w-8" disabled={saving || !folderName.trim()} onClick={saveFolder}>
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setFolderDraft(null)}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardContent className="p-3 md:p-4 space-y-4">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Folders</h3>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => startFolderDraft({ mode: "create", parentId: null })}
+            >
+              <FolderPlus className="h-4 w-4" />
+              <span className="sr-only">New folder</span>
+            </Button>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => onSelectFolder(null)}
+            className={cn(
+              "w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+              !selectedFolderId && "bg-muted font-medium"
+            )}
+          >
+            All sessions
+          </button>
+
+          {folderDraft?.mode === "create" && folderDraft.parentId === null && folderInput}
+
+          {flattenFolderTree(folders).map(({ folder, depth }) => (
+            <div key={folder.id} style={{ paddingLeft: depth * 16 }}>
+              {folderDraft?.mode === "rename" && folderDraft.folderId === folder.id ? folderInput : (
+                <div
+                  className={cn(
+                    "group flex items-center rounded-md hover:bg-muted",
+                    selectedFolderId === folder.id && "bg-muted font-medium"
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSelectFolder(folder.id)}
+                    className="flex flex-1 items-center gap-2 truncate px-2 py-1.5 text-left text-sm"
+                  >
+                    <Folder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">{folder.name}</span>
+                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startFolderDraft({ mode: "create", parentId: folder.id })}>
+                      <Plus className="h-3 w-3" />
+                      <span className="sr-only">New subfolder</span>
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startFolderDraft({ mode: "rename", folderId: folder.id })}>
+                      <Pencil className="h-3 w-3" />
+                      <span className="sr-only">Rename folder</span>
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => removeFolder(folder)}>
+                      <Trash2 className="h-3 w-3 text-destructive" />
+                      <span className="sr-only">Delete folder</span>
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {folderDraft?.mode === "create" && folderDraft.parentId === folder.id && (
+                <div style={{ paddingLeft: 16 }}>{folderInput}</div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Tags</h3>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {tags.map(tag => (
+                <span
+                  key={tag.id}
+                  className={cn(
+                    "group inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium",
+                    TAG_COLOR_CLASSES[tag.color],
+                    selectedTagIds.includes(tag.id) && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                  )}
+                >
+                  <button type="button" onClick={() => onToggleTagFilter(tag.id)} className="flex items-center gap-1">
+                    <Tag className="h-3 w-3" />
+                    {tag.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => removeTag(tag)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">Delete tag</span>
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-1">
+            <Input
+              value={tagName}
+              onChange={(e) => setTagName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && saveTag()}
+              placeholder="New tag"
+              className="h-8 text-sm"
+            />
+            <Button size="icon" variant="ghost" className="h-8 w-8" disabled={saving || !tagName.trim()} onClick={saveTag}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-1">
+            {SESSION_TAG_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                title={color}
+                onClick={() => setTagColor(color)}
+                className={cn(
+                  "h-5 w-5 rounded-full border",
+                  TAG_COLOR_CLASSES[color],
+                  tagColor === color && "ring-2 ring-primary ring-offset-1 ring-offset-background"
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
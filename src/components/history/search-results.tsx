@@ -0,0 +1,156 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Loader2, SearchX } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { useHistory } from "@/hooks/useHistory"
+import { splitSnippet } from "@/lib/history/search"
+import type { HistoryFilters, HistorySearchResult } from "@/types/history"
+
+const MATCH_LABELS: Record<string, string> = {
+  user_message: "Your message",
+  assistant_message: "Reply",
+  image_generation: "Image prompt",
+  image_edit: "Edit prompt",
+  image_variation: "Variation",
+  agent_action: "Agent action",
+  agent_finding: "Agent finding"
+}
+
+interface HistorySearchResultsProps {
+  query: string
+  filters: Pick<HistoryFilters, "type" | "starred">
+  onOpen: (result: HistorySearchResult) => void
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+  return (
+    <p className="text-xs md:text-sm text-muted-foreground line-clamp-3 break-words">
+      {splitSnippet(snippet).map((part, index) => part.highlighted ? (
+        <mark key={index} className="rounded bg-amber-200/70 px-0.5 text-foreground dark:bg-amber-500/30">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      ))}
+    </p>
+  )
+}
+
+export function HistorySearchResults({ query, filters, onOpen }: HistorySearchResultsProps) {
+  const { searchHistory } = useHistory()
+  const [results, setResults] = useState<HistorySearchResult[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { type, starred } = filters
+
+  useEffect(() => {
+    let cancelled = false
+
+    const runSearch = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await searchHistory(query, { type, starred })
+        if (cancelled) return
+        setResults(response.results)
+        setHasMore(response.has_more)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to search history")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    runSearch()
+    return () => {
+      cancelled = true
+    }
+  }, [query, type, starred, searchHistory])
+
+  const loadMore = async () => {
+    setLoading(true)
+    try {
+      const response = await searchHistory(query, { type, starred }, results.length)
+      setResults(prev => [...prev, ...response.results])
+      setHasMore(response.has_more)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to search history")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="p-4 md:p-6 text-center text-sm text-destructive">{error}</CardContent>
+      </Card>
+    )
+  }
+
+  if (loading && results.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (results.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 md:p-8 text-center">
+          <SearchX className="h-10 w-10 md:h-12 md:w-12 mx-auto text-muted-foreground mb-3" />
+          <h3 className="text-base md:text-lg font-medium mb-1">No matches</h3>
+          <p className="text-xs md:text-sm text-muted-foreground">
+            No titles, messages or prompts match &ldquo;{query}&rdquo;
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-3 md:space-y-4">
+      {results.map(result => (
+        <Card
+          key={result.session_id}
+          className="cursor-pointer hover:shadow-md transition-shadow"
+          onClick={() => onOpen(result)}
+        >
+          <CardContent className="p-3 md:p-4 space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium text-sm md:text-base truncate">
+                {result.title || `${result.type.charAt(0).toUpperCase() + result.type.slice(1)} Session`}
+              </h3>
+              <Badge variant="secondary" className="text-xs flex-shrink-0">
+                {result.type === "magic_ads" ? "Magic Ads" : result.type}
+              </Badge>
+            </div>
+            <Snippet snippet={result.snippet} />
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span>
+                {result.interaction_type ? MATCH_LABELS[result.interaction_type] || "Message" : "Title"}
+                {result.match_count > 1 && ` · ${result.match_count} matches`}
+              </span>
+              <span>{formatDistanceToNow(new Date(result.updated_at), { addSuffix: true })}</span>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" disabled={loading} onClick={loadMore}>
+            {loading ? "Loading..." : "Load More"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { Folder, FolderInput, Tag } from "lucide-react"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useHistory } from "@/hooks/useHistory"
+import { useSessionOrganizer } from "@/hooks/useSessionOrganizer"
+import { flattenFolderTree, getFolderPath, TAG_COLOR_CLASSES } from "@/lib/history/organize"
+import { errorToast } from "@/lib/toast"
+import { cn } from "@/lib/utils"
+import type { SessionFolder, SessionTag } from "@/types/history"
+
+interface SessionOrganizeMenuProps {
+  tags: SessionTag[]
+  folders: SessionFolder[]
+  folderId?: string | null
+  tagIds?: string[]
+  onToggleTag: (tagId: string, assigned: boolean) => void
+  onMove: (folderId: string | null) => void
+  children: ReactNode
+}
+
+// Tags and folder of one session, for the history list and the session pages
+export function SessionOrganizeMenu({
+  tags,
+  folders,
+  folderId = null,
+  tagIds = [],
+  onToggleTag,
+  onMove,
+  children
+}: SessionOrganizeMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <Tag className="mr-2 h-4 w-4" />
+            Tags
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+            {tags.length === 0 ? (
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Create tags on the History page
+              </DropdownMenuLabel>
+            ) : tags.map(tag => (
+              <DropdownMenuCheckboxItem
+                key={tag.id}
+                checked={tagIds.includes(tag.id)}
+                onSelect={(e) => e.preventDefault()}
+                onCheckedChange={(checked) => onToggleTag(tag.id, checked)}
+              >
+                <span className={cn("mr-2 h-2 w-2 rounded-full", TAG_COLOR_CLASSES[tag.color])} />
+                {tag.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>
+            <FolderInput className="mr-2 h-4 w-4" />
+            Move to folder
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+            <DropdownMenuCheckboxItem checked={!folderId} onCheckedChange={() => onMove(null)}>
+              No folder
+            </DropdownMenuCheckboxItem>
+            {folders.length > 0 && <DropdownMenuSeparator />}
+            {flattenFolderTree(folders).map(({ folder, depth }) => (
+              <DropdownMenuCheckboxItem
+                key={folder.id}
+                checked={folder.id === folderId}
+                onCheckedChange={() => onMove(folder.id)}
+              >
+                <span style={{ paddingLeft: depth * 12 }} className="flex items-center">
+                  <Folder className="mr-2 h-3.5 w-3.5" />
+                  {folder.name}
+                </span>
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+interface SessionOrganizeButtonProps {
+  session: { id: string; folder_id?: string | null; tag_ids?: string[] }
+  className?: string
+}
+
+// Organize control for the chat, sandbox and Magic Ads headers, with the session's tags shown next to it
+export function SessionOrganizeButton({ session, className }: SessionOrganizeButtonProps) {
+  const { tags, folders } = useSessionOrganizer()
+  const { updateSession } = useHistory()
+  const [folderId, setFolderId] = useState<string | null>(session.folder_id || null)
+  const [tagIds, setTagIds] = useState<string[]>(session.tag_ids || [])
+
+  useEffect(() => {
+    setFolderId(session.folder_id || null)
+    setTagIds(session.tag_ids || [])
+  }, [session.id, session.folder_id, session.tag_ids])
+
+  const toggleTag = async (tagId: string, assigned: boolean) => {
+    const previous = tagIds
+    const next = assigned ? [...tagIds, tagId] : tagIds.filter(id => id !== tagId)
+    setTagIds(next)
+    try {
+      await updateSession(session.id, { tag_ids: next })
+    } catch (error) {
+      setTagIds(previous)
+      errorToast(error instanceof Error ? error.message : "Failed to update tags")
+    }
+  }
+
+  const move = async (nextFolderId: string | null) => {
+    const previous = folderId
+    setFolderId(nextFolderId)
+    try {
+      await updateSession(session.id, { folder_id: nextFolderId })
+    } catch (error) {
+      setFolderId(previous)
+      errorToast(error instanceof Error ? error.message : "Failed to move session")
+    }
+  }
+
+  const assignedTags = tags.filter(tag => tagIds.includes(tag.id))
+
+  return (
+    <div className={cn("flex items-center gap-1.5 flex-wrap", className)}>
+      {folderId && (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Folder className="h-3 w-3" />
+          {getFolderPath(folders, folderId)}
+        </span>
+      )}
+      {assignedTags.map(tag => (
+        <Badge key={tag.id} variant="secondary" className={cn("text-xs", TAG_COLOR_CLASSES[tag.color])}>
+          {tag.name}
+        </Badge>
+      ))}
+      <SessionOrganizeMenu
+        tags={tags}
+        folders={folders}
+        folderId={folderId}
+        tagIds={tagIds}
+        onToggleTag={toggleTag}
+        onMove={move}
+      >
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <Tag className="h-3 w-3 mr-1" />
+          Organize
+        </Button>
+      </SessionOrganizeMenu>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Check, Copy, Loader2, Link2, Trash2 } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { errorToast, successToast } from "@/lib/toast"
+import { SHARE_EXPIRY_OPTIONS, getSharePath } from "@/lib/history/shares"
+import type { SessionShare } from "@/types/history"
+
+interface ShareSessionDialogProps {
+  // The session to share; the dialog is open while one is set
+  session: { id: string; title?: string } | null
+  onOpenChange: (open: boolean) => void
+}
+
+function getShareUrl(token: string): string {
+  return `${window.location.origin}${getSharePath(token)}`
+}
+
+export function ShareSessionDialog({ session, onOpenChange }: ShareSessionDialogProps) {
+  const [shares, setShares] = useState<SessionShare[]>([])
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const fetchShares = useCallback(async (sessionId: string) => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/history/shares?session_id=${sessionId}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load share links")
+      setShares(data.shares)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to load share links")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (session) {
+      setShares([])
+      fetchShares(session.id)
+    }
+  }, [session, fetchShares])
+
+  const copyLink = async (share: SessionShare) => {
+    await navigator.clipboard.writeText(getShareUrl(share.token))
+    setCopiedId(share.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  const handleCreate = async () => {
+    if (!session) return
+
+    setCreating(true)
+    try {
+      const response = await fetch("/api/history/shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session_id: session.id, expires_in_days: expiresInDays })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create share link")
+      setShares(prev => [data.share, ...prev])
+      await copyLink(data.share)
+      successToast("Share link copied to clipboard")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to create share link")
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (share: SessionShare) => {
+    try {
+      const response = await fetch(`/api/history/shares/${share.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to revoke share link")
+      setShares(prev => prev.filter(s => s.id !== share.id))
+      successToast("Share link revoked")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to revoke share link")
+    }
+  }
+
+  return (
+    <Dialog open={!!session} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share session</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view {session?.title ? <strong>{session.title}</strong> : "this session"} read-only, without signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Link expires after</p>
+          <div className="flex flex-wrap gap-1">
+            {SHARE_EXPIRY_OPTIONS.map(option => (
+              <Button
+                key={option.label}
+                type="button"
+                variant={expiresInDays === option.days ? "default" : "outline"}
+                size="sm"
+                onClick={() => setExpiresInDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Button className="w-full" onClick={handleCreate} disabled={creating}>
+            {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Active links</p>
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This session hasn&apos;t been shared.</p>
+          ) : (
+            shares.map(share => (
+              <div key={share.id} className="space-y-1 rounded-md border p-2">
+                <div className="flex items-center gap-1">
+                  <Input readOnly value={getShareUrl(share.token)} className="h-8 text-xs" />
+                  <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => copyLink(share)}>
+                    {copiedId === share.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={() => handleRevoke(share)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Created {formatDistanceToNow(new Date(share.created_at), { addSuffix: true })}
+                  {" · "}
+                  {share.expires_at ? `expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}` : "never expires"}
+                  {" · "}
+                  {share.view_count} {share.view_count === 1 ? "view" : "views"}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,297 @@
+'use client'
+
+import { useState, useEffect } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { useOrganizationContext } from "@/contexts/organization-context"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { CHAT_LIMITS, DEFAULT_SYSTEM_PROMPT, parseChatSettings } from "@/lib/llm/settings"
+import type { ChatPersona } from "@/lib/llm/types"
+import { errorToast, successToast } from "@/lib/toast"
+
+// Form values are kept as strings so fields can be cleared back to the provider default
+interface ChatSettingsForm {
+  model: string
+  temperature: string
+  max_tokens: string
+  system_prompt: string
+}
+
+const EMPTY_FORM: ChatSettingsForm = {
+  model: "",
+  temperature: "",
+  max_tokens: "",
+  system_prompt: "",
+}
+
+export function ChatSettingsManager() {
+  const { organization, isAdmin, updateOrganization } = useOrganizationContext()
+  const [form, setForm] = useState<ChatSettingsForm>(EMPTY_FORM)
+  const [personas, setPersonas] = useState<ChatPersona[]>([])
+  const [saving, setSaving] = useState(false)
+
+  // Load the current chat settings from organization settings
+  useEffect(() => {
+    if (organization) {
+      const current = parseChatSettings(organization.settings)
+      setForm({
+        model: current.model || "",
+        temperature: current.temperature?.toString() || "",
+        max_tokens: current.max_tokens?.toString() || "",
+        system_prompt: current.system_prompt || "",
+      })
+      setPersonas(current.personas)
+    }
+  }, [organization])
+
+  // Only owners and admins can change chat settings
+  if (!isAdmin) {
+    return null
+  }
+
+  const updateField = (field: keyof ChatSettingsForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const addPersona = () => {
+    setPersonas(prev => [...prev, { id: crypto.randomUUID(), name: "", description: "", system_prompt: "" }])
+  }
+
+  const updatePersona = (id: string, updates: Partial<ChatPersona>) => {
+    setPersonas(prev => prev.map(persona => persona.id === id ? { ...persona, ...updates } : persona))
+  }
+
+  const removePersona = (id: string) => {
+    setPersonas(prev => prev.filter(persona => persona.id !== id))
+  }
+
+  // Returns an error message for the first invalid field
+  const validate = (): string | null => {
+    const temperature = form.temperature.trim()
+    if (temperature) {
+      const value = Number(temperature)
+      if (!Number.isFinite(value) || value < CHAT_LIMITS.TEMPERATURE.min || value > CHAT_LIMITS.TEMPERATURE.max) {
+        return `Temperature must be between ${CHAT_LIMITS.TEMPERATURE.min} and ${CHAT_LIMITS.TEMPERATURE.max}`
+      }
+    }
+
+    const maxTokens = form.max_tokens.trim()
+    if (maxTokens) {
+      const value = Number(maxTokens)
+      if (!Number.isInteger(value) || value < CHAT_LIMITS.MAX_TOKENS.min || value > CHAT_LIMITS.MAX_TOKENS.max) {
+        return `Max tokens must be a whole number between ${CHAT_LIMITS.MAX_TOKENS.min} and ${CHAT_LIMITS.MAX_TOKENS.max}`
+      }
+    }
+
+    if (personas.some(persona => !persona.name.trim() || !persona.system_prompt.trim())) {
+      return "Every persona needs a name and instructions"
+    }
+
+    return null
+  }
+
+  const handleSave = async () => {
+    if (!organization) return
+
+    const validationError = validate()
+    if (validationError) {
+      errorToast(validationError)
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      // Empty fields are left out so the provider default applies
+      const chat = {
+        model: form.model.trim() || undefined,
+        temperature: form.temperature.trim() ? Number(form.temperature) : undefined,
+        max_tokens: form.max_tokens.trim() ? Number(form.max_tokens) : undefined,
+        system_prompt: form.system_prompt.trim() || undefined,
+        personas: personas.map(persona => ({
+          id: persona.id,
+          name: persona.name.trim(),
+          description: persona.description?.trim() || undefined,
+          system_prompt: persona.system_prompt.trim()
+        }))
+      }
+
+      const result = await updateOrganization({
+        settings: { ...(organization.settings || {}), chat }
+      })
+
+      if (result.success) {
+        successToast("Chat settings updated successfully")
+      } else {
+        errorToast(result.error || "Failed to update chat settings")
+      }
+    } catch (error) {
+      console.error("Error updating chat settings:", error)
+      errorToast("An unexpected error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Chat Settings</CardTitle>
+        <CardDescription>
+          Set the model, sampling and instructions used for chat, and the assistant personas members can pick from.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="chat-model">Default model</Label>
+              <Input
+                id="chat-model"
+                value={form.model}
+                placeholder="Provider default"
+                onChange={(event) => updateField("model", event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="chat-temperature">Temperature</Label>
+              <Input
+                id="chat-temperature"
+                type="number"
+                step="0.1"
+                min={CHAT_LIMITS.TEMPERATURE.min}
+                max={CHAT_LIMITS.TEMPERATURE.max}
+                value={form.temperature}
+                placeholder="Provider default"
+                onChange={(event) => updateField("temperature", event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="chat-max-tokens">Max tokens</Label>
+              <Input
+                id="chat-max-tokens"
+                type="number"
+                step="1"
+                min={CHAT_LIMITS.MAX_TOKENS.min}
+                max={CHAT_LIMITS.MAX_TOKENS.max}
+                value={form.max_tokens}
+                placeholder="Provider default"
+                onChange={(event) => updateField("max_tokens", event.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="chat-system-prompt">System prompt</Label>
+            <Textarea
+              id="chat-system-prompt"
+              rows={4}
+              maxLength={CHAT_LIMITS.SYSTEM_PROMPT_LENGTH}
+              value={form.system_prompt}
+              placeholder={DEFAULT_SYSTEM_PROMPT}
+              onChange={(event) => updateField("system_prompt", event.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Sent at the start of every chat. Web search chats always use the provider&apos;s search model.
+            </p>
+          </div>
+
+          <Separator className="my-4" />
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-base font-medium">Assistant personas</h3>
+                <p className="text-sm text-muted-foreground">
+                  Persona instructions are added to the system prompt for chats that use them.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={addPersona}
+                disabled={personas.length >= CHAT_LIMITS.PERSONAS}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Persona
+              </Button>
+            </div>
+
+            {personas.length === 0 && (
+              <p className="text-sm text-muted-foreground">No personas yet. Chats use the system prompt only.</p>
+            )}
+
+            {personas.map(persona => (
+              <div key={persona.id} className="space-y-3 rounded-md border p-4">
+                <div className="flex items-start gap-3">
+                  <div className="grid flex-1 gap-3 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <Label htmlFor={`persona-name-${persona.id}`}>Name</Label>
+                      <Input
+                        id={`persona-name-${persona.id}`}
+                        value={persona.name}
+                        placeholder="Marketing copywriter"
+                        onChange={(event) => updatePersona(persona.id, { name: event.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor={`persona-description-${persona.id}`}>Description</Label>
+                      <Input
+                        id={`persona-description-${persona.id}`}
+                        value={persona.description || ""}
+                        placeholder="Optional"
+                        onChange={(event) => updatePersona(persona.id, { description: event.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="mt-7"
+                    onClick={() => removePersona(persona.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove persona</span>
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`persona-prompt-${persona.id}`}>Instructions</Label>
+                  <Textarea
+                    id={`persona-prompt-${persona.id}`}
+                    rows={3}
+                    maxLength={CHAT_LIMITS.SYSTEM_PROMPT_LENGTH}
+                    value={persona.system_prompt}
+                    placeholder="Write punchy, on-brand copy and suggest two alternatives."
+                    onChange={(event) => updatePersona(persona.id, { system_prompt: event.target.value })}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <Separator className="my-4" />
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Chat Settings
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState, useEffect } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2 } from "lucide-react"
+import { useOrganizationContext } from "@/contexts/organization-context"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { HISTORY_RETENTION_LIMITS, parseHistoryRetention } from "@/lib/history/trash"
+import { errorToast, successToast } from "@/lib/toast"
+
+type PolicyAction = "keep" | "archive" | "delete"
+
+const POLICY_OPTIONS: { id: PolicyAction; label: string; description: string }[] = [
+  { id: "keep", label: "Keep sessions", description: "Sessions stay in History until members delete them" },
+  { id: "archive", label: "Archive old sessions", description: "Sessions not updated for a while are archived" },
+  { id: "delete", label: "Delete old sessions", description: "Sessions not updated for a while are moved to the trash" },
+]
+
+function isWholeNumberIn(value: string, { min, max }: { min: number; max: number }): boolean {
+  const number = Number(value)
+  return Number.isInteger(number) && number >= min && number <= max
+}
+
+export function HistoryRetentionManager() {
+  const { organization, isAdmin, updateOrganization } = useOrganizationContext()
+  // Kept as strings so the fields can be edited freely before saving
+  const [trashDays, setTrashDays] = useState("")
+  const [action, setAction] = useState<PolicyAction>("keep")
+  const [afterDays, setAfterDays] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  // Load the current retention settings from organization settings
+  useEffect(() => {
+    if (organization) {
+      const current = parseHistoryRetention(organization.settings)
+      setTrashDays(current.trash_days.toString())
+      setAction(current.policy?.action || "keep")
+      setAfterDays(current.policy?.after_days.toString() || "")
+    }
+  }, [organization])
+
+  // Only owners and admins can change retention
+  if (!isAdmin) {
+    return null
+  }
+
+  const handleSave = async () => {
+    if (!organization) return
+
+    const { TRASH_DAYS, POLICY_DAYS } = HISTORY_RETENTION_LIMITS
+    if (!isWholeNumberIn(trashDays, TRASH_DAYS)) {
+      errorToast(`Trash period must be a whole number of days between ${TRASH_DAYS.min} and ${TRASH_DAYS.max}`)
+      return
+    }
+    if (action !== "keep" && !isWholeNumberIn(afterDays, POLICY_DAYS)) {
+      errorToast(`Session age must be a whole number of days between ${POLICY_DAYS.min} and ${POLICY_DAYS.max}`)
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const result = await updateOrganization({
+        settings: {
+          ...(organization.settings || {}),
+          history_retention: {
+            trash_days: Number(trashDays),
+            policy: action === "keep" ? null : { action, after_days: Number(afterDays) }
+          }
+        }
+      })
+
+      if (result.success) {
+        successToast("Retention settings updated successfully")
+      } else {
+        errorToast(result.error || "Failed to update retention settings")
+      }
+    } catch (error) {
+      console.error("Error updating retention settings:", error)
+      errorToast("An unexpected error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History Retention</CardTitle>
+        <CardDescription>
+          Choose how long deleted items stay in the trash and what happens to sessions nobody has touched in a while.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="space-y-2 sm:max-w-xs">
+            <Label htmlFor="retention-trash-days">Days in trash</Label>
+            <Input
+              id="retention-trash-days"
+              type="number"
+              step="1"
+              min={HISTORY_RETENTION_LIMITS.TRASH_DAYS.min}
+              max={HISTORY_RETENTION_LIMITS.TRASH_DAYS.max}
+              value={trashDays}
+              onChange={(event) => setTrashDays(event.target.value)}
+            />
+            <p className="text-sm text-muted-foreground">
+              Trashed sessions and images are then deleted permanently, with their files.
+            </p>
+          </div>
+
+          <div className="space-y-2" role="radiogroup" aria-label="Retention policy">
+            {POLICY_OPTIONS.map(option => (
+              <label
+                key={option.id}
+                className={`flex cursor-pointer items-start gap-3 rounded-md border p-3 ${
+                  action === option.id ? "border-primary bg-primary/5" : ""
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="retention-policy"
+                  className="mt-1"
+                  checked={action === option.id}
+                  onChange={() => setAction(option.id)}
+                />
+                <div>
+                  <p className="font-medium">{option.label}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {action !== "keep" && (
+            <div className="space-y-2 sm:max-w-xs">
+              <Label htmlFor="retention-after-days">Not updated for (days)</Label>
+              <Input
+                id="retention-after-days"
+                type="number"
+                step="1"
+                min={HISTORY_RETENTION_LIMITS.POLICY_DAYS.min}
+                max={HISTORY_RETENTION_LIMITS.POLICY_DAYS.max}
+                value={afterDays}
+                placeholder="365"
+                onChange={(event) => setAfterDays(event.target.value)}
+              />
+              <p className="text-sm text-muted-foreground">
+                Starred sessions are always kept.
+              </p>
+            </div>
+          )}
+
+          <Separator className="my-4" />
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Retention
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
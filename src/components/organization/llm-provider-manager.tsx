@@ -0,0 +1,177 @@
+'use client'
+
+import { useState, useEffect } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2 } from "lucide-react"
+import { useOrganizationContext } from "@/contexts/organization-context"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { LLM_PROVIDER_OPTIONS, parseLLMProviderSettings } from "@/lib/llm/settings"
+import type { LLMProviderId } from "@/lib/llm/types"
+import { errorToast, successToast } from "@/lib/toast"
+
+type ModelField = "chat_model" | "search_model" | "agent_model" | "image_model" | "vision_model" | "embedding_model"
+
+const MODEL_FIELDS: { id: ModelField; label: string; placeholder: string }[] = [
+  { id: "chat_model", label: "Chat model", placeholder: "Provider default" },
+  { id: "search_model", label: "Web search model", placeholder: "Provider default" },
+  { id: "agent_model", label: "Agent model", placeholder: "Provider default" },
+  { id: "image_model", label: "Image model", placeholder: "Provider default" },
+  { id: "vision_model", label: "Vision model", placeholder: "Provider default" },
+  { id: "embedding_model", label: "Embedding model", placeholder: "Provider default" },
+]
+
+const EMPTY_MODELS: Record<ModelField, string> = {
+  chat_model: "",
+  search_model: "",
+  agent_model: "",
+  image_model: "",
+  vision_model: "",
+  embedding_model: "",
+}
+
+export function LLMProviderManager() {
+  const { organization, isOwner, updateOrganization } = useOrganizationContext()
+  // An empty provider means the server default (LLM_PROVIDER) is used
+  const [provider, setProvider] = useState<LLMProviderId | "">("")
+  const [models, setModels] = useState<Record<ModelField, string>>(EMPTY_MODELS)
+  const [saving, setSaving] = useState(false)
+
+  // Load the current provider from organization settings
+  useEffect(() => {
+    if (organization) {
+      const current = parseLLMProviderSettings(organization.settings)
+      setProvider(current?.provider || "")
+      setModels({
+        chat_model: current?.chat_model || "",
+        search_model: current?.search_model || "",
+        agent_model: current?.agent_model || "",
+        image_model: current?.image_model || "",
+        vision_model: current?.vision_model || "",
+        embedding_model: current?.embedding_model || "",
+      })
+    }
+  }, [organization])
+
+  // Only owners can change the provider
+  if (!isOwner) {
+    return null
+  }
+
+  const handleSave = async () => {
+    if (!organization) return
+
+    setSaving(true)
+
+    try {
+      // Get current settings without the previous provider
+      const currentSettings = { ...(organization.settings || {}) }
+      delete currentSettings.llm_provider
+
+      // Only set model overrides are stored
+      const modelOverrides = Object.fromEntries(
+        Object.entries(models).filter(([, value]) => value.trim()).map(([key, value]) => [key, value.trim()])
+      )
+
+      const result = await updateOrganization({
+        settings: provider
+          ? { ...currentSettings, llm_provider: { provider, ...modelOverrides } }
+          : currentSettings
+      })
+
+      if (result.success) {
+        successToast("AI provider updated successfully")
+      } else {
+        errorToast(result.error || "Failed to update AI provider")
+      }
+    } catch (error) {
+      console.error("Error updating AI provider:", error)
+      errorToast("An unexpected error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Provider</CardTitle>
+        <CardDescription>
+          Choose which LLM provider answers chat, agent mode and image generation for your organization.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="space-y-2" role="radiogroup" aria-label="AI provider">
+            {[{ id: "" as const, label: "Server default", description: "Use the provider configured for this deployment" }, ...LLM_PROVIDER_OPTIONS].map(option => (
+              <label
+                key={option.id || "default"}
+                className={`flex cursor-pointer items-start gap-3 rounded-md border p-3 ${
+                  provider === option.id ? "border-primary bg-primary/5" : ""
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="llm-provider"
+                  className="mt-1"
+                  checked={provider === option.id}
+                  onChange={() => setProvider(option.id)}
+                />
+                <div>
+                  <p className="font-medium">{option.label}</p>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {provider === "openai_compatible" && (
+            <Alert>
+              <AlertDescription>
+                The server endpoint and API key are set by your deployment (OPENAI_COMPATIBLE_BASE_URL).
+                Web search, images and chat attachments are only available when you set a model for them.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {provider && provider !== "mock" && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              {MODEL_FIELDS.map(field => (
+                <div key={field.id} className="space-y-2">
+                  <Label htmlFor={`llm-${field.id}`}>{field.label}</Label>
+                  <Input
+                    id={`llm-${field.id}`}
+                    value={models[field.id]}
+                    placeholder={field.placeholder}
+                    onChange={(event) => setModels(prev => ({ ...prev, [field.id]: event.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Separator className="my-4" />
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Provider
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
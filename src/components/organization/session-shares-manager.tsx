@@ -0,0 +1,108 @@
+'use client'
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ExternalLink, Loader2, Trash2 } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { useOrganizationContext } from "@/contexts/organization-context"
+import { getSharePath } from "@/lib/history/shares"
+import type { SessionShareWithSession } from "@/types/history"
+import { errorToast, successToast } from "@/lib/toast"
+
+export function SessionSharesManager() {
+  const { organization, isAdmin } = useOrganizationContext()
+  const [shares, setShares] = useState<SessionShareWithSession[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchShares = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch("/api/history/shares")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load share links")
+      setShares(data.shares)
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to load share links")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // Reload when switching organizations
+  useEffect(() => {
+    if (organization?.id && isAdmin) {
+      fetchShares()
+    }
+  }, [organization?.id, isAdmin, fetchShares])
+
+  // Only owners and admins see every share of the organization
+  if (!isAdmin) {
+    return null
+  }
+
+  const handleRevoke = async (share: SessionShareWithSession) => {
+    try {
+      const response = await fetch(`/api/history/shares/${share.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to revoke share link")
+      setShares(prev => prev.filter(s => s.id !== share.id))
+      successToast("Share link revoked")
+    } catch (error) {
+      errorToast(error instanceof Error ? error.message : "Failed to revoke share link")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shared Links</CardTitle>
+        <CardDescription>
+          Sessions anyone with the link can view. Revoke a link to stop it from working.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : shares.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active share links.</p>
+        ) : (
+          shares.map(share => (
+            <div key={share.id} className="flex items-center gap-3 rounded-md border p-3">
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="truncate text-sm font-medium">{share.session?.title || "Untitled session"}</p>
+                  {share.session && <Badge variant="secondary">{share.session.type}</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Shared {formatDistanceToNow(new Date(share.created_at), { addSuffix: true })}
+                  {" · "}
+                  {share.expires_at ? `expires ${formatDistanceToNow(new Date(share.expires_at), { addSuffix: true })}` : "never expires"}
+                  {" · "}
+                  {share.view_count} {share.view_count === 1 ? "view" : "views"}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                <a href={getSharePath(share.token)} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleRevoke(share)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import React, { useState } from "react"
+import { BookOpen, BookmarkPlus } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { PresetFilters, useGenerationPresets } from "@/hooks/useGenerationPresets"
+import { PresetLibraryDialog } from "./preset-library-dialog"
+import { PresetDraft, SavePresetDialog } from "./save-preset-dialog"
+import type { GenerationPreset } from "@/types/sandbox"
+
+interface PresetActionsProps {
+  // What "Save preset" saves
+  draft: PresetDraft
+  styleOptions?: { id: string; name: string }[]
+  // Receives the preset and its template with the variables the user filled in
+  onApply: (preset: GenerationPreset, prompt: string) => void
+  onRunBatch?: (preset: GenerationPreset, prompts: string[]) => Promise<void>
+  disabled?: boolean
+}
+
+// Buttons opening the prompt library and saving the current prompt and settings as a preset
+export function PresetActions({
+  draft,
+  styleOptions = [],
+  onApply,
+  onRunBatch,
+  disabled = false
+}: PresetActionsProps) {
+  const [libraryOpen, setLibraryOpen] = useState(false)
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [filters, setFilters] = useState<PresetFilters>({ search: "", scope: "all", sort: "popular" })
+  const {
+    presets,
+    loading,
+    createPreset,
+    updatePreset,
+    deletePreset,
+    recordUse
+  } = useGenerationPresets(filters, libraryOpen)
+
+  const handleApply = (preset: GenerationPreset, prompt: string) => {
+    onApply(preset, prompt)
+    recordUse(preset.id)
+    toast.success(`Applied "${preset.name}"`)
+  }
+
+  const handleSaveClick = () => {
+    if (!draft.prompt_template.trim()) {
+      toast.error("Enter a prompt to save as a preset")
+      return
+    }
+    setSaveOpen(true)
+  }
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 h-8" disabled={disabled} onClick={() => setLibraryOpen(true)}>
+          <BookOpen className="h-3.5 w-3.5" />
+          Presets
+        </Button>
+        <Button variant="outline" size="sm" className="flex-1 h-8" disabled={disabled} onClick={handleSaveClick}>
+          <BookmarkPlus className="h-3.5 w-3.5" />
+          Save preset
+        </Button>
+      </div>
+
+      <PresetLibraryDialog
+        open={libraryOpen}
+        onOpenChange={setLibraryOpen}
+        presets={presets}
+        loading={loading}
+        filters={filters}
+        onFiltersChange={setFilters}
+        styleOptions={styleOptions}
+        onApply={handleApply}
+        onRunBatch={onRunBatch}
+        onToggleScope={(preset) => updatePreset(preset.id, {
+          scope: preset.scope === "personal" ? "organization" : "personal"
+        })}
+        onDelete={(preset) => deletePreset(preset.id)}
+      />
+
+      <SavePresetDialog
+        open={saveOpen}
+        onOpenChange={setSaveOpen}
+        draft={draft}
+        styleOptions={styleOptions}
+        onSave={createPreset}
+      />
+    </>
+  )
+}
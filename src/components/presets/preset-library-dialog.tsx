@@ -0,0 +1,361 @@
+"use client"
+
+import React, { useEffect, useMemo, useRef, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Building2, FileUp, Loader2, Lock, Play, Search, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { buildBatchPrompts, extractTemplateVariables, fillTemplate, PRESET_LIMITS } from "@/lib/sandbox/presets"
+import type { PresetFilters, PresetSort } from "@/hooks/useGenerationPresets"
+import type { GenerationPreset, GenerationPresetRequest, GenerationPresetScope } from "@/types/sandbox"
+
+const SCOPE_FILTERS: { value: GenerationPresetScope | "all"; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "personal", label: "Mine" },
+  { value: "organization", label: "Organization" }
+]
+
+const SORT_OPTIONS: { value: PresetSort; label: string }[] = [
+  { value: "popular", label: "Most used" },
+  { value: "recent", label: "Recently used" },
+  { value: "name", label: "Name" }
+]
+
+const SIZE_LABELS: Record<string, string> = {
+  "1024x1024": "Square",
+  "1536x1024": "Landscape",
+  "1024x1536": "Portrait",
+  "auto": "Auto size"
+}
+
+// A one-line summary of what applying a preset changes besides the prompt
+export function describePresetSettings(
+  preset: Pick<GenerationPresetRequest, "size" | "quality" | "count" | "style">,
+  styleOptions: { id: string; name: string }[] = []
+): string {
+  return [
+    preset.size && (SIZE_LABELS[preset.size] || preset.size),
+    preset.quality && (preset.quality === "hd" ? "HD" : "Standard"),
+    preset.count && `${preset.count} image${preset.count > 1 ? "s" : ""}`,
+    preset.style && (styleOptions.find(option => option.id === preset.style)?.name || preset.style)
+  ].filter(Boolean).join(" · ")
+}
+
+interface PresetLibraryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  presets: GenerationPreset[]
+  loading: boolean
+  filters: PresetFilters
+  onFiltersChange: (filters: PresetFilters) => void
+  styleOptions?: { id: string; name: string }[]
+  onApply: (preset: GenerationPreset, prompt: string) => void
+  // Runs the preset once per CSV row; without it the library only applies presets
+  onRunBatch?: (preset: GenerationPreset, prompts: string[]) => Promise<void>
+  onToggleScope: (preset: GenerationPreset) => Promise<unknown>
+  onDelete: (preset: GenerationPreset) => Promise<void>
+}
+
+export function PresetLibraryDialog({
+  open,
+  onOpenChange,
+  presets,
+  loading,
+  filters,
+  onFiltersChange,
+  styleOptions = [],
+  onApply,
+  onRunBatch,
+  onToggleScope,
+  onDelete
+}: PresetLibraryDialogProps) {
+  const csvInputRef = useRef<HTMLInputElement>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [csv, setCsv] = useState("")
+  const [runningBatch, setRunningBatch] = useState(false)
+  const [presetToDelete, setPresetToDelete] = useState<GenerationPreset | null>(null)
+  const [deleting, setDeleting] = useState(false)
+
+  const selected = presets.find(preset => preset.id === selectedId) || null
+  const variables = useMemo(() => selected ? extractTemplateVariables(selected.prompt_template) : [], [selected])
+  const batch = useMemo(() => selected && csv.trim() ? buildBatchPrompts(selected.prompt_template, csv) : null, [selected, csv])
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedId(null)
+      setCsv("")
+    }
+  }, [open])
+
+  const selectPreset = (preset: GenerationPreset) => {
+    setSelectedId(preset.id === selectedId ? null : preset.id)
+    setValues({})
+    setCsv("")
+  }
+
+  // Variables left empty stay in the prompt as {{name}} to be filled in by hand
+  const handleApply = (preset: GenerationPreset) => {
+    const { prompt } = fillTemplate(preset.prompt_template, preset.id === selectedId ? values : {})
+    onApply(preset, prompt)
+    onOpenChange(false)
+  }
+
+  const handleCsvFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => setCsv(reader.result as string)
+    reader.onerror = () => toast.error(`Failed to read ${file.name}`)
+    reader.readAsText(file)
+  }
+
+  const handleRunBatch = async () => {
+    if (!selected || !onRunBatch || !batch || "error" in batch) return
+
+    setRunningBatch(true)
+    try {
+      await onRunBatch(selected, batch.prompts)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run batch")
+    } finally {
+      setRunningBatch(false)
+    }
+  }
+
+  const handleToggleScope = async (preset: GenerationPreset) => {
+    try {
+      await onToggleScope(preset)
+      toast.success(preset.scope === "personal" ? "Preset shared with your organization" : "Preset is now personal")
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update preset")
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!presetToDelete) return
+
+    setDeleting(true)
+    try {
+      await onDelete(presetToDelete)
+      toast.success("Preset deleted")
+      setPresetToDelete(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete preset")
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={(nextOpen) => !runningBatch && onOpenChange(nextOpen)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Prompt library</DialogTitle>
+            <DialogDescription>
+              Your presets and the ones shared with your organization. Apply one to fill in the prompt and settings.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={filters.search}
+                  placeholder="Search presets..."
+                  className="pl-8"
+                  onChange={(e) => onFiltersChange({ ...filters, search: e.target.value })}
+                />
+              </div>
+              <select
+                value={filters.sort}
+                onChange={(e) => onFiltersChange({ ...filters, sort: e.target.value as PresetSort })}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-1">
+              {SCOPE_FILTERS.map(option => (
+                <Button
+                  key={option.value}
+                  variant={filters.scope === option.value ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => onFiltersChange({ ...filters, scope: option.value })}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+              {loading && presets.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : presets.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  {filters.search ? "No presets match your search" : "No presets yet. Save a prompt as a preset to reuse it."}
+                </p>
+              ) : presets.map(preset => {
+                const isSelected = preset.id === selectedId
+                const settings = describePresetSettings(preset, styleOptions)
+
+                return (
+                  <div
+                    key={preset.id}
+                    className={`rounded-md border p-3 transition-colors ${isSelected ? "border-primary" : "hover:bg-muted/30"}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <button type="button" className="flex-1 min-w-0 text-left" onClick={() => selectPreset(preset)}>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate">{preset.name}</span>
+                          <Badge variant="outline" className="text-[10px] gap-1 flex-shrink-0">
+                            {preset.scope === "organization" ? <Building2 className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                            {preset.scope === "organization" ? "Organization" : "Personal"}
+                          </Badge>
+                        </div>
+                        {preset.description && (
+                          <p className="text-xs text-muted-foreground mt-0.5 truncate">{preset.description}</p>
+                        )}
+                        <p className={`text-xs mt-1 ${isSelected ? "whitespace-pre-wrap" : "line-clamp-2"}`}>{preset.prompt_template}</p>
+                        <p className="text-[11px] text-muted-foreground mt-1">
+                          Used {preset.usage_count} time{preset.usage_count === 1 ? "" : "s"}
+                          {preset.last_used_at && `, last ${formatDistanceToNow(new Date(preset.last_used_at), { addSuffix: true })}`}
+                          {settings && ` · ${settings}`}
+                        </p>
+                      </button>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button size="sm" className="h-7" onClick={() => handleApply(preset)}>
+                          Apply
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          title={preset.scope === "personal" ? "Share with organization" : "Make personal"}
+                          onClick={() => handleToggleScope(preset)}
+                        >
+                          {preset.scope === "personal" ? <Building2 className="h-3.5 w-3.5" /> : <Lock className="h-3.5 w-3.5" />}
+                          <span className="sr-only">{preset.scope === "personal" ? "Share with organization" : "Make personal"}</span>
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setPresetToDelete(preset)}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                          <span className="sr-only">Delete preset</span>
+                        </Button>
+                      </div>
+                    </div>
+
+                    {isSelected && variables.length > 0 && (
+                      <div className="mt-3 space-y-3 border-t pt-3">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {variables.map(variable => (
+                            <div key={variable} className="space-y-1">
+                              <Label htmlFor={`preset-variable-${variable}`} className="text-xs">{variable}</Label>
+                              <Input
+                                id={`preset-variable-${variable}`}
+                                value={values[variable] || ""}
+                                className="h-8"
+                                onChange={(e) => setValues(current => ({ ...current, [variable]: e.target.value }))}
+                              />
+                            </div>
+                          ))}
+                        </div>
+
+                        {onRunBatch && (
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label htmlFor="preset-csv" className="text-xs">Or fill the variables from a CSV to run a batch</Label>
+                              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => csvInputRef.current?.click()}>
+                                <FileUp className="h-3.5 w-3.5 mr-1" />
+                                Upload CSV
+                              </Button>
+                            </div>
+                            <input
+                              ref={csvInputRef}
+                              type="file"
+                              accept=".csv,text/csv"
+                              className="hidden"
+                              onChange={handleCsvFile}
+                            />
+                            <Textarea
+                              id="preset-csv"
+                              value={csv}
+                              placeholder={`${variables.join(",")}\n${variables.map(() => "...").join(",")}`}
+                              className="min-h-20 font-mono text-xs"
+                              onChange={(e) => setCsv(e.target.value)}
+                            />
+                            <div className="flex items-center justify-between gap-2">
+                              <p className={`text-xs ${batch && "error" in batch ? "text-red-500" : "text-muted-foreground"}`}>
+                                {batch
+                                  ? "error" in batch ? batch.error : `${batch.prompts.length} prompt${batch.prompts.length > 1 ? "s" : ""}, each generated and charged like a single generation`
+                                  : `A header row with the variable names, then up to ${PRESET_LIMITS.MAX_BATCH_ROWS} rows of values`}
+                              </p>
+                              <Button
+                                size="sm"
+                                className="h-7 flex-shrink-0"
+                                disabled={!batch || "error" in batch || runningBatch}
+                                onClick={handleRunBatch}
+                              >
+                                {runningBatch ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Play className="h-3.5 w-3.5 mr-1" />}
+                                Run batch
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!presetToDelete} onOpenChange={(nextOpen) => !nextOpen && !deleting && setPresetToDelete(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete preset?</DialogTitle>
+            <DialogDescription>
+              {presetToDelete?.scope === "organization"
+                ? `"${presetToDelete.name}" will be removed for everyone in your organization.`
+                : `"${presetToDelete?.name}" will be removed from your presets.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" disabled={deleting} onClick={() => setPresetToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={deleting} onClick={handleDelete}>
+              {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,197 @@
+"use client"
+
+import React, { useState } from "react"
+import { Building2, Loader2, Lock } from "lucide-react"
+import { toast } from "sonner"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { extractTemplateVariables, PRESET_LIMITS } from "@/lib/sandbox/presets"
+import { describePresetSettings } from "./preset-library-dialog"
+import type { GenerationPresetRequest, GenerationPresetScope } from "@/types/sandbox"
+
+// The current prompt and settings of the panel saving the preset; settings it doesn't have are null
+export type PresetDraft = Pick<GenerationPresetRequest, "prompt_template" | "size" | "quality" | "count" | "style">
+
+interface SavePresetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  draft: PresetDraft
+  styleOptions?: { id: string; name: string }[]
+  onSave: (request: GenerationPresetRequest) => Promise<unknown>
+}
+
+export function SavePresetDialog({ open, onOpenChange, ...formProps }: SavePresetDialogProps) {
+  const [saving, setSaving] = useState(false)
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !saving && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        {/* The content unmounts while closed, so the form starts over from the draft each time it opens */}
+        <SavePresetForm
+          {...formProps}
+          saving={saving}
+          onSavingChange={setSaving}
+          onClose={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface SavePresetFormProps extends Omit<SavePresetDialogProps, "open" | "onOpenChange"> {
+  saving: boolean
+  onSavingChange: (saving: boolean) => void
+  onClose: () => void
+}
+
+function SavePresetForm({
+  draft,
+  styleOptions = [],
+  onSave,
+  saving,
+  onSavingChange,
+  onClose
+}: SavePresetFormProps) {
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [template, setTemplate] = useState(draft.prompt_template)
+  const [scope, setScope] = useState<GenerationPresetScope>("personal")
+
+  const variables = extractTemplateVariables(template)
+  const settings = describePresetSettings(draft, styleOptions)
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please name the preset")
+      return
+    }
+    if (!template.trim()) {
+      toast.error("Please enter a prompt")
+      return
+    }
+
+    onSavingChange(true)
+    try {
+      await onSave({
+        ...draft,
+        name: name.trim(),
+        description: description.trim(),
+        prompt_template: template.trim(),
+        scope
+      })
+      toast.success(scope === "organization" ? "Preset shared with your organization" : "Preset saved")
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save preset")
+    } finally {
+      onSavingChange(false)
+    }
+  }
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Save preset</DialogTitle>
+        <DialogDescription>
+          Save the prompt and settings to reuse them. Write {"{{name}}"} in the prompt for parts to fill in each time.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="preset-name">Name</Label>
+          <Input
+            id="preset-name"
+            value={name}
+            maxLength={PRESET_LIMITS.MAX_NAME_LENGTH}
+            placeholder="e.g. Product on a marble table"
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="preset-description">Description</Label>
+          <Input
+            id="preset-description"
+            value={description}
+            maxLength={PRESET_LIMITS.MAX_DESCRIPTION_LENGTH}
+            placeholder="When to use this preset (optional)"
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="preset-template">Prompt</Label>
+          <Textarea
+            id="preset-template"
+            value={template}
+            maxLength={PRESET_LIMITS.MAX_TEMPLATE_LENGTH}
+            className="min-h-24"
+            onChange={(e) => setTemplate(e.target.value)}
+          />
+          {variables.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground">Variables:</span>
+              {variables.map(variable => (
+                <Badge key={variable} variant="outline" className="text-[10px] font-mono">{variable}</Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {"e.g. \"{{product}} on a marble table, {{lighting}} lighting\""}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Shared with</Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={scope === "personal" ? "secondary" : "outline"}
+              className="justify-start"
+              onClick={() => setScope("personal")}
+            >
+              <Lock className="h-4 w-4" />
+              Only me
+            </Button>
+            <Button
+              type="button"
+              variant={scope === "organization" ? "secondary" : "outline"}
+              className="justify-start"
+              onClick={() => setScope("organization")}
+            >
+              <Building2 className="h-4 w-4" />
+              Organization
+            </Button>
+          </div>
+        </div>
+
+        {settings && (
+          <p className="text-xs text-muted-foreground">Settings saved with the preset: {settings}</p>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" disabled={saving} onClick={onClose}>
+          Cancel
+        </Button>
+        <Button disabled={saving} onClick={handleSave}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save preset
+        </Button>
+      </DialogFooter>
+    </>
+  )
+}
@@ -12,6 +12,8 @@ import {
   Building,
   Code,
   Sparkles,
+  Bot,
+  Library,
 } from "lucide-react"
 import { usePathname } from "next/navigation"
 
@@ -72,6 +74,12 @@ const data = {
       icon: BookOpen,
       permissionRequired: "history"
     },
+    {
+      title: "Knowledge Base",
+      url: "/dashboard/knowledge",
+      icon: Library,
+      permissionRequired: "chat"
+    },
     {
       title: "Sandbox",
       url: "/dashboard/sandbox",
@@ -82,6 +90,12 @@ const data = {
       url: "/dashboard/magic-ads",
       icon: Sparkles,
       permissionRequired: "magic_ads"
+    },
+    {
+      title: "Agent Findings",
+      url: "/dashboard/agents",
+      icon: Bot,
+      permissionRequired: "agents"
     }
   ],
   navSecondary: [
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useOrganizationContext } from '@/contexts/organization-context'
+import type {
+  AgentMonitor,
+  AgentFindingWithMonitor,
+  AgentFindingFilters,
+  AgentFindingsResponse,
+  HistoryPagination,
+  Session
+} from '@/types/history'
+
+export function useAgentFindings() {
+  const { organization } = useOrganizationContext()
+  const [findings, setFindings] = useState<AgentFindingWithMonitor[]>([])
+  const [monitors, setMonitors] = useState<AgentMonitor[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [totalCount, setTotalCount] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+
+  // Request deduplication
+  const currentRequestRef = useRef<AbortController | null>(null)
+
+  // Fetch findings with filters and pagination
+  const fetchFindings = useCallback(async (
+    filters?: AgentFindingFilters,
+    pagination?: Pick<HistoryPagination, 'limit' | 'offset'>,
+    append = false
+  ) => {
+    if (!organization) return
+
+    // Cancel any existing request to prevent race conditions
+    if (currentRequestRef.current) {
+      currentRequestRef.current.abort()
+    }
+
+    const controller = new AbortController()
+    currentRequestRef.current = controller
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const searchParams = new URLSearchParams()
+
+      if (filters?.monitor_id) {
+        searchParams.append('monitor_id', filters.monitor_id)
+      }
+      if (filters?.change_type && filters.change_type.length > 0) {
+        searchParams.append('change_type', filters.change_type.join(','))
+      }
+      if (filters?.reviewed !== undefined) {
+        searchParams.append('reviewed', filters.reviewed.toString())
+      }
+      if (pagination?.limit) {
+        searchParams.append('limit', pagination.limit.toString())
+      }
+      if (pagination?.offset) {
+        searchParams.append('offset', pagination.offset.toString())
+      }
+
+      const response = await fetch(`/api/agents/findings?${searchParams.toString()}`, {
+        signal: controller.signal,
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || `Request failed with status ${response.status}`)
+      }
+
+      const data: AgentFindingsResponse = await response.json()
+
+      if (append) {
+        setFindings(prev => [...prev, ...data.findings])
+      } else {
+        setFindings(data.findings)
+      }
+
+      setTotalCount(data.total_count)
+      setHasMore(data.has_more)
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        // Don't set error for superseded requests
+        return
+      }
+      console.error('Error fetching findings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch findings')
+    } finally {
+      if (currentRequestRef.current === controller) {
+        currentRequestRef.current = null
+        setLoading(false)
+      }
+    }
+  }, [organization])
+
+  // Fetch the organization's monitors (used for filtering)
+  const fetchMonitors = useCallback(async () => {
+    if (!organization) return
+
+    const response = await fetch('/api/agents/monitors')
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch monitors')
+    }
+
+    const { monitors } = await response.json()
+    setMonitors(monitors)
+    return monitors as AgentMonitor[]
+  }, [organization])
+
+  // Mark findings reviewed/unreviewed
+  const setFindingsReviewed = useCallback(async (findingIds: string[], reviewed: boolean) => {
+    const response = await fetch('/api/agents/findings', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ finding_ids: findingIds, reviewed }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to update findings')
+    }
+
+    const { updated } = await response.json() as { updated: string[] }
+
+    // Update local state
+    const updatedIds = new Set(updated)
+    setFindings(prev => prev.map(finding =>
+      updatedIds.has(finding.id) ? { ...finding, reviewed } : finding
+    ))
+
+    return updated
+  }, [])
+
+  // Start (or reopen) an agent chat session about a finding
+  const createFindingSession = useCallback(async (findingId: string) => {
+    const response = await fetch(`/api/agents/findings/${findingId}/session`, {
+      method: 'POST',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to create session')
+    }
+
+    const { session } = await response.json() as { session: Session }
+
+    setFindings(prev => prev.map(finding =>
+      finding.id === findingId ? { ...finding, session_id: session.id, reviewed: true } : finding
+    ))
+
+    return session
+  }, [])
+
+  // Load monitors when organization changes
+  useEffect(() => {
+    if (organization) {
+      fetchMonitors().catch(err => console.error('Error fetching monitors:', err))
+    }
+  }, [organization, fetchMonitors])
+
+  return {
+    // State
+    findings,
+    monitors,
+    loading,
+    error,
+    totalCount,
+    hasMore,
+
+    // Actions
+    fetchFindings,
+    fetchMonitors,
+    setFindingsReviewed,
+    createFindingSession,
+  }
+}
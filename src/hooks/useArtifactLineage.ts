@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ArtifactLineageNode } from '@/types/history'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+// The tree of images an image belongs to; nothing is fetched without an artifact
+export function useArtifactLineage(artifactId: string | null | undefined) {
+  const [nodes, setNodes] = useState<ArtifactLineageNode[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchLineage = useCallback(async () => {
+    if (!artifactId) {
+      setNodes([])
+      setTruncated(false)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const data = await requestJson<{ nodes: ArtifactLineageNode[]; truncated: boolean }>(
+        `/api/history/artifacts/${artifactId}/lineage`,
+        { method: 'GET' },
+        'Failed to fetch image lineage'
+      )
+      setNodes(data.nodes)
+      setTruncated(data.truncated)
+    } catch (err) {
+      console.error('Error fetching image lineage:', err)
+      setNodes([])
+      setError(err instanceof Error ? err.message : 'Failed to fetch image lineage')
+    } finally {
+      setLoading(false)
+    }
+  }, [artifactId])
+
+  useEffect(() => {
+    fetchLineage()
+  }, [fetchLineage])
+
+  return {
+    nodes,
+    truncated,
+    loading,
+    error,
+    refresh: fetchLineage,
+  }
+}
@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOrganizationContext } from '@/contexts/organization-context'
+import type { CharacterSheet, CharacterSheetRequest } from '@/types/sandbox'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+function byName(a: CharacterSheet, b: CharacterSheet) {
+  return a.name.localeCompare(b.name)
+}
+
+// Character sheets of the current organization
+export function useCharacterSheets() {
+  const { organization } = useOrganizationContext()
+  const [characters, setCharacters] = useState<CharacterSheet[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchCharacters = useCallback(async () => {
+    if (!organization) return
+
+    setLoading(true)
+    try {
+      const data = await requestJson<{ characters: CharacterSheet[] }>(
+        '/api/sandbox/characters',
+        { method: 'GET' },
+        'Failed to fetch characters'
+      )
+      setCharacters(data.characters)
+    } catch (err) {
+      console.error('Error fetching characters:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [organization])
+
+  useEffect(() => {
+    fetchCharacters()
+  }, [fetchCharacters])
+
+  const createCharacter = useCallback(async (request: CharacterSheetRequest) => {
+    const { character } = await requestJson<{ character: CharacterSheet }>('/api/sandbox/characters', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, 'Failed to create character')
+    setCharacters(prev => [...prev, character].sort(byName))
+    return character
+  }, [])
+
+  const updateCharacter = useCallback(async (characterId: string, updates: Partial<CharacterSheetRequest>) => {
+    const { character } = await requestJson<{ character: CharacterSheet }>(`/api/sandbox/characters/${characterId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Failed to update character')
+    setCharacters(prev => prev.map(existing => existing.id === characterId ? character : existing).sort(byName))
+    return character
+  }, [])
+
+  const deleteCharacter = useCallback(async (characterId: string) => {
+    await requestJson(`/api/sandbox/characters/${characterId}`, { method: 'DELETE' }, 'Failed to delete character')
+    setCharacters(prev => prev.filter(character => character.id !== characterId))
+  }, [])
+
+  return {
+    characters,
+    loading,
+    fetchCharacters,
+    createCharacter,
+    updateCharacter,
+    deleteCharacter,
+  }
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { GenerationJob } from '@/types/sandbox'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+function isActive(job: GenerationJob): boolean {
+  return job.status === 'queued' || job.status === 'running'
+}
+
+// Follows the generation jobs of a batch through realtime updates of their rows
+export function useGenerationBatch() {
+  const [jobs, setJobs] = useState<GenerationJob[]>([])
+  const [cancelling, setCancelling] = useState(false)
+
+  const active = jobs.some(isActive)
+  const jobIds = jobs.map(job => job.id).join(',')
+
+  useEffect(() => {
+    if (!jobIds || !active) return
+
+    const supabase = createClient()
+    // An update can arrive both live and with the catch-up fetch; only a newer row replaces a job
+    const applyUpdate = (next: GenerationJob) => {
+      setJobs(prev => prev.map(job =>
+        job.id === next.id && new Date(next.updated_at).getTime() > new Date(job.updated_at).getTime()
+          ? next
+          : job
+      ))
+    }
+
+    const channel = supabase
+      .channel(`generation-batch-${jobIds}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'generation_jobs',
+        filter: `id=in.(${jobIds})`
+      }, (payload) => applyUpdate(payload.new as GenerationJob))
+      .subscribe((status) => {
+        // Catch up on anything that happened before the subscription was ready
+        if (status === 'SUBSCRIBED') {
+          jobIds.split(',').forEach(jobId => {
+            requestJson<{ job: GenerationJob }>(`/api/sandbox/jobs/${jobId}`, { method: 'GET' }, 'Failed to fetch generation job')
+              .then(data => applyUpdate(data.job))
+              .catch(err => console.error('Error fetching generation job:', err))
+          })
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [jobIds, active])
+
+  // Follow the jobs returned by the batch route
+  const trackJobs = useCallback((queuedJobs: GenerationJob[]) => {
+    setJobs(queuedJobs)
+  }, [])
+
+  // Cancels the jobs that haven't finished; images already completed are kept
+  const cancelBatch = useCallback(async () => {
+    setCancelling(true)
+    try {
+      const results = await Promise.allSettled(jobs.filter(isActive).map(job =>
+        requestJson<{ job: GenerationJob }>(`/api/sandbox/jobs/${job.id}/cancel`, { method: 'POST' }, 'Failed to cancel generation')
+      ))
+      const cancelled = results.flatMap(result => result.status === 'fulfilled' ? [result.value.job] : [])
+      setJobs(prev => prev.map(job => cancelled.find(c => c.id === job.id) || job))
+    } finally {
+      setCancelling(false)
+    }
+  }, [jobs])
+
+  return {
+    jobs,
+    active,
+    completed: jobs.reduce((sum, job) => sum + job.completed, 0),
+    total: jobs.reduce((sum, job) => sum + job.total, 0),
+    cancelling,
+    trackJobs,
+    cancelBatch,
+  }
+}
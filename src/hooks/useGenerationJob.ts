@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import type { GenerationJob } from '@/types/sandbox'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+function isActive(job: GenerationJob | null): boolean {
+  return !!job && (job.status === 'queued' || job.status === 'running')
+}
+
+// Follows a background generation job through realtime updates of its row
+export function useGenerationJob() {
+  const [job, setJob] = useState<GenerationJob | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+
+  const jobId = job?.id
+  const active = isActive(job)
+
+  useEffect(() => {
+    if (!jobId || !active) return
+
+    const supabase = createClient()
+    // An update can arrive both live and with the catch-up fetch; only a newer row replaces the job
+    const applyUpdate = (next: GenerationJob) => {
+      setJob(prev => prev?.id === next.id && new Date(next.updated_at).getTime() > new Date(prev.updated_at).getTime()
+        ? next
+        : prev
+      )
+    }
+
+    const channel = supabase
+      .channel(`generation-job-${jobId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'generation_jobs',
+        filter: `id=eq.${jobId}`
+      }, (payload) => applyUpdate(payload.new as GenerationJob))
+      .subscribe((status) => {
+        // Catch up on anything that happened before the subscription was ready
+        if (status === 'SUBSCRIBED') {
+          requestJson<{ job: GenerationJob }>(`/api/sandbox/jobs/${jobId}`, { method: 'GET' }, 'Failed to fetch generation job')
+            .then(data => applyUpdate(data.job))
+            .catch(err => console.error('Error fetching generation job:', err))
+        }
+      })
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [jobId, active])
+
+  // Follow a job returned by a generation route
+  const trackJob = useCallback((queuedJob: GenerationJob | null) => {
+    setJob(queuedJob)
+  }, [])
+
+  const cancelJob = useCallback(async () => {
+    if (!jobId) return
+
+    setCancelling(true)
+    try {
+      const data = await requestJson<{ job: GenerationJob }>(
+        `/api/sandbox/jobs/${jobId}/cancel`,
+        { method: 'POST' },
+        'Failed to cancel generation'
+      )
+      setJob(data.job)
+    } finally {
+      setCancelling(false)
+    }
+  }, [jobId])
+
+  return {
+    job,
+    active,
+    cancelling,
+    trackJob,
+    cancelJob,
+  }
+}
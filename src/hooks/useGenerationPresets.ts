@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOrganizationContext } from '@/contexts/organization-context'
+import type { GenerationPreset, GenerationPresetRequest, GenerationPresetScope } from '@/types/sandbox'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+export type PresetSort = 'popular' | 'recent' | 'name'
+
+export interface PresetFilters {
+  search: string
+  scope: GenerationPresetScope | 'all'
+  sort: PresetSort
+}
+
+// The prompt library: the user's presets and the organization's shared ones. Only fetched while
+// enabled, e.g. while the library is open
+export function useGenerationPresets({ search, scope, sort }: PresetFilters, enabled = true) {
+  const { organization } = useOrganizationContext()
+  const [presets, setPresets] = useState<GenerationPreset[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchPresets = useCallback(async () => {
+    if (!organization || !enabled) return
+
+    const params = new URLSearchParams({ sort })
+    if (search.trim()) params.set('q', search.trim())
+    if (scope !== 'all') params.set('scope', scope)
+
+    setLoading(true)
+    try {
+      const data = await requestJson<{ presets: GenerationPreset[] }>(
+        `/api/sandbox/presets?${params}`,
+        { method: 'GET' },
+        'Failed to fetch presets'
+      )
+      setPresets(data.presets)
+    } catch (err) {
+      console.error('Error fetching presets:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [organization, enabled, search, scope, sort])
+
+  useEffect(() => {
+    // Wait for the user to stop typing before searching
+    const timeout = setTimeout(fetchPresets, 250)
+    return () => clearTimeout(timeout)
+  }, [fetchPresets])
+
+  const createPreset = useCallback(async (request: GenerationPresetRequest) => {
+    const { preset } = await requestJson<{ preset: GenerationPreset }>('/api/sandbox/presets', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, 'Failed to save preset')
+    setPresets(prev => [preset, ...prev])
+    return preset
+  }, [])
+
+  const updatePreset = useCallback(async (presetId: string, updates: Partial<GenerationPresetRequest>) => {
+    const { preset } = await requestJson<{ preset: GenerationPreset }>(`/api/sandbox/presets/${presetId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Failed to update preset')
+    setPresets(prev => prev.map(p => p.id === presetId ? preset : p))
+    return preset
+  }, [])
+
+  const deletePreset = useCallback(async (presetId: string) => {
+    await requestJson(`/api/sandbox/presets/${presetId}`, { method: 'DELETE' }, 'Failed to delete preset')
+    setPresets(prev => prev.filter(p => p.id !== presetId))
+  }, [])
+
+  // Counts a use of a preset when it is applied; batches are counted by the batch route
+  const recordUse = useCallback(async (presetId: string) => {
+    try {
+      const { usage_count } = await requestJson<{ usage_count: number }>(
+        `/api/sandbox/presets/${presetId}/use`,
+        { method: 'POST' },
+        'Failed to record preset use'
+      )
+      setPresets(prev => prev.map(p => p.id === presetId ? { ...p, usage_count } : p))
+    } catch (err) {
+      console.error('Error recording preset use:', err)
+    }
+  }, [])
+
+  return {
+    presets,
+    loading,
+    refresh: fetchPresets,
+    createPreset,
+    updatePreset,
+    deletePreset,
+    recordUse,
+  }
+}
@@ -9,7 +9,8 @@ import type {
   UpdateSessionRequest,
   HistoryFilters,
   HistoryPagination,
-  HistoryResponse 
+  HistoryResponse,
+  HistorySearchResponse
 } from '@/types/history'
 
 export function useHistory() {
@@ -61,6 +62,12 @@ export function useHistory() {
       if (filters?.date_to) {
         searchParams.append('date_to', filters.date_to)
       }
+      if (filters?.tag_ids && filters.tag_ids.length > 0) {
+        searchParams.append('tags', filters.tag_ids.join(','))
+      }
+      if (filters?.folder_id) {
+        searchParams.append('folder', filters.folder_id)
+      }
 
       // Add pagination
       if (pagination?.limit) {
@@ -172,6 +179,33 @@ export function useHistory() {
     return session
   }, [organization])
 
+  // Full-text search across titles, messages and image prompts
+  const searchHistory = useCallback(async (
+    query: string,
+    filters?: Pick<HistoryFilters, 'type' | 'starred'>,
+    offset = 0
+  ) => {
+    const searchParams = new URLSearchParams({ q: query })
+    if (filters?.type && filters.type.length > 0) {
+      searchParams.append('type', filters.type[0])
+    }
+    if (filters?.starred) {
+      searchParams.append('starred', 'true')
+    }
+    if (offset) {
+      searchParams.append('offset', offset.toString())
+    }
+
+    const response = await fetch(`/api/history/search?${searchParams.toString()}`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to search history')
+    }
+
+    return await response.json() as HistorySearchResponse
+  }, [])
+
   // Get a specific session
   const getSession = useCallback(async (sessionId: string) => {
     const response = await fetch(`/api/history/sessions/${sessionId}`)
@@ -313,6 +347,7 @@ export function useHistory() {
     fetchSessions,
     createSession,
     getSession,
+    searchHistory,
     updateSession,
     deleteSession,
     createInteraction,
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOrganizationContext } from '@/contexts/organization-context'
+import type {
+  BulkSessionRequest,
+  CreateSessionFolderRequest,
+  CreateSessionTagRequest,
+  SessionFolder,
+  SessionTag
+} from '@/types/history'
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError)
+  }
+  return data as T
+}
+
+// Tags and folders of the current organization, and bulk changes to sessions
+export function useSessionOrganizer() {
+  const { organization } = useOrganizationContext()
+  const [tags, setTags] = useState<SessionTag[]>([])
+  const [folders, setFolders] = useState<SessionFolder[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const fetchOrganizer = useCallback(async () => {
+    if (!organization) return
+
+    setLoading(true)
+    try {
+      const [tagsData, foldersData] = await Promise.all([
+        requestJson<{ tags: SessionTag[] }>('/api/history/tags', { method: 'GET' }, 'Failed to fetch tags'),
+        requestJson<{ folders: SessionFolder[] }>('/api/history/folders', { method: 'GET' }, 'Failed to fetch folders'),
+      ])
+      setTags(tagsData.tags)
+      setFolders(foldersData.folders)
+    } catch (err) {
+      console.error('Error fetching tags and folders:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [organization])
+
+  useEffect(() => {
+    fetchOrganizer()
+  }, [fetchOrganizer])
+
+  const createTag = useCallback(async (request: CreateSessionTagRequest) => {
+    const { tag } = await requestJson<{ tag: SessionTag }>('/api/history/tags', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, 'Failed to create tag')
+    setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))
+    return tag
+  }, [])
+
+  const deleteTag = useCallback(async (tagId: string) => {
+    await requestJson(`/api/history/tags/${tagId}`, { method: 'DELETE' }, 'Failed to delete tag')
+    setTags(prev => prev.filter(tag => tag.id !== tagId))
+  }, [])
+
+  const createFolder = useCallback(async (request: CreateSessionFolderRequest) => {
+    const { folder } = await requestJson<{ folder: SessionFolder }>('/api/history/folders', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, 'Failed to create folder')
+    setFolders(prev => [...prev, folder])
+    return folder
+  }, [])
+
+  const updateFolder = useCallback(async (folderId: string, updates: Partial<CreateSessionFolderRequest>) => {
+    const { folder } = await requestJson<{ folder: SessionFolder }>(`/api/history/folders/${folderId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    }, 'Failed to update folder')
+    setFolders(prev => prev.map(existing => existing.id === folderId ? folder : existing))
+    return folder
+  }, [])
+
+  // Subfolders are deleted with the folder, so the list is reloaded
+  const deleteFolder = useCallback(async (folderId: string) => {
+    await requestJson(`/api/history/folders/${folderId}`, { method: 'DELETE' }, 'Failed to delete folder')
+    await fetchOrganizer()
+  }, [fetchOrganizer])
+
+  const bulkUpdateSessions = useCallback(async (request: BulkSessionRequest) => {
+    return await requestJson<{ updated: string[]; skipped: string[] }>('/api/history/sessions/bulk', {
+      method: 'POST',
+      body: JSON.stringify(request),
+    }, `Failed to ${request.action} sessions`)
+  }, [])
+
+  return {
+    tags,
+    folders,
+    loading,
+    fetchOrganizer,
+    createTag,
+    deleteTag,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+    bulkUpdateSessions,
+  }
+}
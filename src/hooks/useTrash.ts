@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useOrganizationContext } from '@/contexts/organization-context'
+import type { TrashedArtifact, TrashedSession, TrashRequest, TrashResponse } from '@/types/history'
+
+// The user's trashed sessions and artifacts, with restore and permanent delete
+export function useTrash() {
+  const { organization } = useOrganizationContext()
+  const [sessions, setSessions] = useState<TrashedSession[]>([])
+  const [artifacts, setArtifacts] = useState<TrashedArtifact[]>([])
+  const [trashDays, setTrashDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTrash = useCallback(async () => {
+    if (!organization) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/history/trash')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load trash')
+      }
+
+      const trash = data as TrashResponse
+      setSessions(trash.sessions)
+      setArtifacts(trash.artifacts)
+      setTrashDays(trash.trash_days)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }, [organization])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const removeLocally = useCallback((sessionIds: string[], artifactIds: string[]) => {
+    setSessions(prev => prev.filter(session => !sessionIds.includes(session.id)))
+    setArtifacts(prev => prev.filter(artifact => !artifactIds.includes(artifact.id)))
+  }, [])
+
+  const updateTrash = useCallback(async (request: TrashRequest) => {
+    const response = await fetch('/api/history/trash', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to ${request.action} items`)
+    }
+
+    removeLocally(data.sessions, data.artifacts)
+    return data as { sessions: string[]; artifacts: string[]; skipped: string[] }
+  }, [removeLocally])
+
+  const restoreItems = useCallback((sessionIds: string[], artifactIds: string[] = []) => {
+    return updateTrash({ action: 'restore', session_ids: sessionIds, artifact_ids: artifactIds })
+  }, [updateTrash])
+
+  const purgeItems = useCallback((sessionIds: string[], artifactIds: string[] = []) => {
+    return updateTrash({ action: 'purge', session_ids: sessionIds, artifact_ids: artifactIds })
+  }, [updateTrash])
+
+  const emptyTrash = useCallback(async () => {
+    const response = await fetch('/api/history/trash', { method: 'DELETE' })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to empty trash')
+    }
+
+    setSessions([])
+    setArtifacts([])
+    return data as { sessions: number; artifacts: number; files: number }
+  }, [])
+
+  return {
+    sessions,
+    artifacts,
+    trashDays,
+    loading,
+    error,
+    fetchTrash,
+    restoreItems,
+    purgeItems,
+    emptyTrash,
+  }
+}
@@ -0,0 +1,197 @@
+import { tool, RunContext } from '@openai/agents'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getOrganizationCreditUsage,
+  getSessionById,
+  listRecentSessions,
+  searchSessionHistory
+} from '@/lib/session-management'
+
+/**
+ * Run context for agent mode. It is stored with paused runs, so it only holds ids;
+ * the route re-applies it from the authenticated request when a run resumes.
+ */
+export interface AgentToolContext {
+  organizationId: string
+  userId: string
+  sessionId?: string
+}
+
+// Longest message excerpt included when a session is summarized
+const TRANSCRIPT_MESSAGE_LENGTH = 600
+const TRANSCRIPT_MAX_MESSAGES = 40
+
+function getToolContext(runContext?: RunContext<AgentToolContext>): AgentToolContext {
+  const context = runContext?.context
+  if (!context?.organizationId || !context.userId) {
+    throw new Error('Agent tools require an organization context')
+  }
+  return context
+}
+
+function clampLimit(limit: number | null, fallback: number, max: number): number {
+  if (!limit || limit < 1) return fallback
+  return Math.min(Math.floor(limit), max)
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+export const sessionInfoTool = tool({
+  name: 'get_session_info',
+  description: 'Get the title, dates, message count, artifacts and credits of a chat session. Defaults to the current session.',
+  parameters: z.object({
+    sessionId: z.string().nullable().describe('The session ID to look up, or null for the current session')
+  }),
+  execute: async ({ sessionId }, runContext?: RunContext<AgentToolContext>) => {
+    const context = getToolContext(runContext)
+    const targetId = sessionId || context.sessionId
+    if (!targetId) {
+      return 'This conversation has not been saved as a session yet.'
+    }
+
+    const supabase = await createClient()
+    const session = await getSessionById(supabase, context.organizationId, targetId)
+    if (!session) {
+      return 'Session not found in your organization.'
+    }
+
+    return [
+      `Session "${session.title}" (${session.type}, id ${session.id})`,
+      `Created: ${formatDate(session.createdAt)}, last updated: ${formatDate(session.updatedAt)}`,
+      `Messages: ${session.messages.length}, artifacts: ${session.artifactCount}, credits used: ${session.creditsUsed}`
+    ].join('\n')
+  }
+})
+
+export const recentSessionsTool = tool({
+  name: 'list_recent_sessions',
+  description: "List the user's most recently updated sessions",
+  parameters: z.object({
+    limit: z.number().nullable().describe('How many sessions to return (1-20), or null for 10'),
+    type: z.enum(['chat', 'sandbox', 'agent', 'magic_ads']).nullable().describe('Only return sessions of this type, or null for all')
+  }),
+  execute: async ({ limit, type }, runContext?: RunContext<AgentToolContext>) => {
+    const context = getToolContext(runContext)
+    const supabase = await createClient()
+    const sessions = await listRecentSessions(supabase, context.organizationId, context.userId, {
+      limit: clampLimit(limit, 10, 20),
+      type: type || undefined
+    })
+
+    if (sessions.length === 0) {
+      return 'No sessions found.'
+    }
+
+    return sessions
+      .map(session => `- "${session.title}" (${session.type}, updated ${formatDate(session.updatedAt)}, id ${session.id})`)
+      .join('\n')
+  }
+})
+
+export const searchHistoryTool = tool({
+  name: 'search_history',
+  description: "Search the user's session titles and messages for text",
+  parameters: z.object({
+    query: z.string().describe('The text to search for'),
+    limit: z.number().nullable().describe('How many sessions to return (1-20), or null for 10')
+  }),
+  execute: async ({ query, limit }, runContext?: RunContext<AgentToolContext>) => {
+    const context = getToolContext(runContext)
+    if (!query.trim()) {
+      return 'Please provide text to search for.'
+    }
+
+    const supabase = await createClient()
+    const results = await searchSessionHistory(
+      supabase,
+      context.organizationId,
+      context.userId,
+      query.trim(),
+      clampLimit(limit, 10, 20)
+    )
+
+    if (results.length === 0) {
+      return `No sessions mention "${query}".`
+    }
+
+    return results
+      .map(result => `- "${result.title}" (${result.type}, updated ${formatDate(result.updatedAt)}, id ${result.id}): ${result.snippet}`)
+      .join('\n')
+  }
+})
+
+export const summarizeSessionTool = tool({
+  name: 'summarize_session',
+  description: 'Get the transcript of a session so it can be summarized. Defaults to the current session.',
+  parameters: z.object({
+    sessionId: z.string().nullable().describe('The session ID to summarize, or null for the current session')
+  }),
+  execute: async ({ sessionId }, runContext?: RunContext<AgentToolContext>) => {
+    const context = getToolContext(runContext)
+    const targetId = sessionId || context.sessionId
+    if (!targetId) {
+      return 'This conversation has not been saved as a session yet.'
+    }
+
+    const supabase = await createClient()
+    const session = await getSessionById(supabase, context.organizationId, targetId)
+    if (!session) {
+      return 'Session not found in your organization.'
+    }
+
+    if (session.messages.length === 0) {
+      return `Session "${session.title}" has no messages.`
+    }
+
+    // Long sessions keep their most recent messages
+    const messages = session.messages.slice(-TRANSCRIPT_MAX_MESSAGES)
+    const transcript = messages
+      .map(message => {
+        const content = message.content.length > TRANSCRIPT_MESSAGE_LENGTH
+          ? `${message.content.slice(0, TRANSCRIPT_MESSAGE_LENGTH)}...`
+          : message.content
+        return `${message.role}: ${content}`
+      })
+      .join('\n\n')
+
+    return [
+      `Session "${session.title}" (${session.type}), ${session.messages.length} messages, created ${formatDate(session.createdAt)}.`,
+      messages.length < session.messages.length ? `Only the last ${messages.length} messages are included.` : '',
+      'Summarize this transcript for the user:',
+      transcript
+    ].filter(Boolean).join('\n\n')
+  }
+})
+
+export const creditUsageTool = tool({
+  name: 'get_credit_usage',
+  description: "Get the organization's credit balance and credits used per feature",
+  parameters: z.object({
+    days: z.number().nullable().describe('How many days of usage to include (1-365), or null for 30')
+  }),
+  execute: async ({ days }, runContext?: RunContext<AgentToolContext>) => {
+    const context = getToolContext(runContext)
+    const supabase = await createClient()
+    const usage = await getOrganizationCreditUsage(supabase, context.organizationId, clampLimit(days, 30, 365))
+
+    const lines = [`Credit balance: ${usage.balance}`]
+    if (usage.usageByFeature.length === 0) {
+      lines.push(`No credits used in the last ${usage.periodDays} days.`)
+    } else {
+      lines.push(`Credits used in the last ${usage.periodDays} days:`)
+      usage.usageByFeature.forEach(row => lines.push(`- ${row.featureId}: ${row.totalUsage}`))
+    }
+    return lines.join('\n')
+  }
+})
+
+export const databaseTools = [
+  sessionInfoTool,
+  recentSessionsTool,
+  searchHistoryTool,
+  summarizeSessionTool,
+  creditUsageTool
+]
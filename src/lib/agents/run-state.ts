@@ -0,0 +1,281 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { RunState, RunToolApprovalItem } from '@openai/agents'
+import type { LLMUsage } from '@/lib/llm/types'
+
+// How long a paused run waits for the user's decision before it expires
+export const APPROVAL_TTL_MINUTES = 15
+
+export interface ApprovalRequest {
+  id: string
+  toolName: string
+  arguments: Record<string, unknown>
+  agent: string
+  timestamp: number
+  expiresAt: number
+}
+
+export interface PausedRun {
+  id: string
+  session_id: string | null
+  state: string
+  status: 'pending' | 'resumed' | 'expired'
+  expires_at: string
+  // Credits already charged for the turn this run belongs to, and the tokens they paid for
+  credits_charged: number
+  input_tokens: number
+  output_tokens: number
+}
+
+export interface PausedRunApproval {
+  id: string
+  run_id: string
+  call_id: string
+  tool_name: string
+  agent_name: string | null
+  arguments: Record<string, unknown>
+  approved: boolean | null
+  created_at: string
+}
+
+export type LoadPausedRunResult =
+  | { success: true; run: PausedRun; approvals: PausedRunApproval[] }
+  | { success: false; error: string; status: number }
+
+/**
+ * Identifies a tool call across serialization: function calls carry a callId, hosted tool calls an id
+ */
+export function getApprovalCallId(item: RunToolApprovalItem): string {
+  const rawItem = item.rawItem
+  return ('callId' in rawItem && rawItem.callId) || rawItem.id || rawItem.name
+}
+
+/**
+ * Parses the model's tool arguments (a JSON string) so they can be shown to the user
+ */
+export function parseToolArguments(rawArguments: string | undefined): Record<string, unknown> {
+  if (!rawArguments) return {}
+  try {
+    const parsed = JSON.parse(rawArguments)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value: parsed }
+  } catch {
+    return { raw: rawArguments }
+  }
+}
+
+function toApprovalRequest(approval: PausedRunApproval, expiresAt: string): ApprovalRequest {
+  return {
+    id: approval.id,
+    toolName: approval.tool_name,
+    arguments: approval.arguments || {},
+    agent: approval.agent_name || 'AI Assistant',
+    timestamp: new Date(approval.created_at).getTime(),
+    expiresAt: new Date(expiresAt).getTime()
+  }
+}
+
+/**
+ * Persists a run paused on tool approvals and returns the approval requests for the client.
+ * Each interruption gets its own approval row, keyed by the id the client sends back.
+ * Runs are written with the service client; members can only read them.
+ */
+export async function savePausedRun(
+  admin: SupabaseClient,
+  params: {
+    organizationId: string
+    userId: string
+    sessionId?: string | null
+    // The paused run's RunState; serialized with RunState#toString
+    state: Pick<RunState<unknown, never>, 'toString'>
+    interruptions: RunToolApprovalItem[]
+    creditsCharged: number
+    usage: LLMUsage
+  }
+): Promise<ApprovalRequest[]> {
+  const expiresAt = new Date(Date.now() + APPROVAL_TTL_MINUTES * 60 * 1000).toISOString()
+
+  const { data: run, error: runError } = await admin
+    .from('agent_runs')
+    .insert({
+      organization_id: params.organizationId,
+      user_id: params.userId,
+      session_id: params.sessionId || null,
+      state: params.state.toString(),
+      expires_at: expiresAt,
+      credits_charged: params.creditsCharged,
+      input_tokens: params.usage.inputTokens,
+      output_tokens: params.usage.outputTokens
+    })
+    .select('id')
+    .single()
+
+  if (runError || !run) {
+    throw new Error(`Failed to save paused agent run: ${runError?.message || 'unknown error'}`)
+  }
+
+  const { data: approvals, error: approvalsError } = await admin
+    .from('agent_run_approvals')
+    .insert(params.interruptions.map(item => ({
+      run_id: run.id,
+      call_id: getApprovalCallId(item),
+      tool_name: item.rawItem.name,
+      agent_name: item.agent?.name,
+      arguments: parseToolArguments(item.rawItem.arguments)
+    })))
+    .select()
+
+  if (approvalsError || !approvals) {
+    await admin.from('agent_runs').delete().eq('id', run.id)
+    throw new Error(`Failed to save approval requests: ${approvalsError?.message || 'unknown error'}`)
+  }
+
+  return (approvals as PausedRunApproval[]).map(approval => toApprovalRequest(approval, expiresAt))
+}
+
+/**
+ * Loads the paused run that the given approval ids belong to.
+ * All ids must belong to the same pending, unexpired run owned by the current user (RLS).
+ */
+export async function loadPausedRun(
+  supabase: SupabaseClient,
+  approvalIds: string[]
+): Promise<LoadPausedRunResult> {
+  const { data: requested, error } = await supabase
+    .from('agent_run_approvals')
+    .select('run_id')
+    .in('id', approvalIds)
+
+  if (error) {
+    console.error('Error loading approvals:', error)
+    return { success: false, error: 'Failed to load approval requests', status: 500 }
+  }
+
+  const runIds = Array.from(new Set((requested || []).map(approval => approval.run_id)))
+
+  if (runIds.length === 0 || (requested || []).length !== approvalIds.length) {
+    return { success: false, error: 'Approval request not found. Please send your message again.', status: 404 }
+  }
+
+  if (runIds.length > 1) {
+    return { success: false, error: 'Approvals must belong to the same agent run', status: 400 }
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('agent_runs')
+    .select('id, session_id, state, status, expires_at, credits_charged, input_tokens, output_tokens')
+    .eq('id', runIds[0])
+    .single()
+
+  if (runError || !run) {
+    return { success: false, error: 'Approval request not found. Please send your message again.', status: 404 }
+  }
+
+  // expireStaleRuns marks the run expired; this catches runs that expired since
+  if (run.status === 'expired' || new Date(run.expires_at).getTime() <= Date.now()) {
+    return { success: false, error: 'This approval request has expired. Please send your message again.', status: 410 }
+  }
+
+  if (run.status !== 'pending') {
+    return { success: false, error: 'These actions have already been handled.', status: 409 }
+  }
+
+  const { data: approvals, error: approvalsError } = await supabase
+    .from('agent_run_approvals')
+    .select('*')
+    .eq('run_id', run.id)
+    .order('created_at', { ascending: true })
+
+  if (approvalsError) {
+    console.error('Error loading run approvals:', approvalsError)
+    return { success: false, error: 'Failed to load approval requests', status: 500 }
+  }
+
+  return { success: true, run: run as PausedRun, approvals: (approvals || []) as PausedRunApproval[] }
+}
+
+/**
+ * Records the user's decisions on a run loaded with loadPausedRun. Returns the approvals still
+ * waiting for a decision, so approvals can be answered one at a time or all at once.
+ */
+export async function recordApprovalDecisions(
+  admin: SupabaseClient,
+  run: PausedRun,
+  approvals: PausedRunApproval[],
+  decisions: Record<string, boolean>
+): Promise<{ approvals: PausedRunApproval[]; remaining: ApprovalRequest[] }> {
+  const decidedAt = new Date().toISOString()
+
+  for (const [approvalId, approved] of Object.entries(decisions)) {
+    const { error } = await admin
+      .from('agent_run_approvals')
+      .update({ approved, decided_at: decidedAt })
+      .eq('id', approvalId)
+      .eq('run_id', run.id)
+
+    if (error) {
+      throw new Error(`Failed to record approval decision: ${error.message}`)
+    }
+  }
+
+  const updated = approvals.map(approval =>
+    approval.id in decisions ? { ...approval, approved: decisions[approval.id] } : approval
+  )
+
+  return {
+    approvals: updated,
+    remaining: updated
+      .filter(approval => approval.approved === null)
+      .map(approval => toApprovalRequest(approval, run.expires_at))
+  }
+}
+
+/**
+ * Marks a paused run as resumed. Only one request can claim a run, so a double-submitted
+ * approval can't execute the same tool call twice.
+ */
+export async function claimPausedRun(admin: SupabaseClient, runId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from('agent_runs')
+    .update({ status: 'resumed' })
+    .eq('id', runId)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) {
+    console.error('Error claiming agent run:', error)
+    return false
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Expires the user's pending runs that passed their deadline and clears out old ones.
+ * Called opportunistically on each agent request - there is no background job for this.
+ */
+export async function expireStaleRuns(admin: SupabaseClient, userId: string): Promise<void> {
+  const now = new Date().toISOString()
+
+  const { error: expireError } = await admin
+    .from('agent_runs')
+    .update({ status: 'expired' })
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .lt('expires_at', now)
+
+  if (expireError) {
+    console.error('Error expiring agent runs:', expireError)
+  }
+
+  // Serialized states contain the whole conversation; don't keep them around longer than needed
+  const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+  const { error: deleteError } = await admin
+    .from('agent_runs')
+    .delete()
+    .eq('user_id', userId)
+    .neq('status', 'pending')
+    .lt('updated_at', cutoff)
+
+  if (deleteError) {
+    console.error('Error deleting old agent runs:', deleteError)
+  }
+}
@@ -0,0 +1,60 @@
+import { EVENT_STREAM_CONTENT_TYPE, encodeStreamEvent, readEventStream } from '@/lib/utils/event-stream'
+import type { ApprovalRequest } from './run-state'
+
+/**
+ * Server-Sent Events protocol for agent mode (see `@/lib/utils/event-stream` for the encoding)
+ */
+export type AgentStreamEvent =
+  | { type: 'session'; sessionId: string }
+  | { type: 'agent_updated'; agent: string }
+  | { type: 'handoff'; from: string; to: string }
+  | { type: 'text_delta'; delta: string; agent: string }
+  | {
+      type: 'tool_call_started'
+      callId: string
+      toolName: string
+      agent: string
+      arguments: Record<string, unknown>
+    }
+  | {
+      type: 'tool_call_completed'
+      callId: string
+      toolName: string
+      agent: string
+      status: 'completed' | 'rejected'
+    }
+  | {
+      type: 'approval_required'
+      message: string
+      approvalRequests: ApprovalRequest[]
+      sessionId?: string
+    }
+  | {
+      type: 'done'
+      message: string
+      sessionId?: string
+      usage: {
+        activeAgent: string
+        toolsUsed: string[]
+        // Totals of the whole turn, including requests before the run paused
+        creditsUsed: number
+        inputTokens: number
+        outputTokens: number
+      }
+    }
+  | { type: 'error'; error: string }
+
+export type AgentStreamEventType = AgentStreamEvent['type']
+
+export const AGENT_STREAM_CONTENT_TYPE = EVENT_STREAM_CONTENT_TYPE
+
+export function encodeAgentEvent(event: AgentStreamEvent): string {
+  return encodeStreamEvent(event)
+}
+
+/**
+ * Reads an agent SSE response body and yields its events in order
+ */
+export function readAgentEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<AgentStreamEvent> {
+  return readEventStream<AgentStreamEvent>(body)
+}
@@ -0,0 +1,147 @@
+import type { LLMAttachment } from '@/lib/llm/types'
+import type { Artifact } from '@/types/history'
+
+/**
+ * A file attached to a chat message, as shown in the conversation. Saved as an artifact of the
+ * user interaction, marked with `metadata.source`
+ */
+export interface ChatAttachment {
+  id?: string
+  type: 'image' | 'document'
+  url: string
+  filename: string
+  mime_type: string
+  size_bytes: number
+}
+
+export type AttachmentArtifact = Pick<Artifact, 'type' | 'url' | 'filename' | 'mime_type' | 'metadata'>
+
+export const CHAT_ATTACHMENT_SOURCE = 'chat_attachment'
+
+export const CHAT_ATTACHMENT_LIMITS = {
+  MAX_FILES: 4,
+  MAX_FILE_BYTES: 10 * 1024 * 1024,
+  // Characters of a text document quoted in the message
+  MAX_TEXT_CHARS: 20000,
+  // Lifetime of the signed URLs attachments are shown and sent to the model with
+  SIGNED_URL_SECONDS: 60 * 60
+}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+const PDF_TYPE = 'application/pdf'
+
+// Browsers don't always report a type for text files, so text documents are recognized by extension
+const TEXT_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json'
+}
+
+// For the file input
+export const CHAT_ATTACHMENT_ACCEPT = [
+  ...IMAGE_TYPES,
+  PDF_TYPE,
+  ...Object.values(TEXT_TYPES_BY_EXTENSION),
+  ...Object.keys(TEXT_TYPES_BY_EXTENSION).map(extension => `.${extension}`)
+].join(',')
+
+export type ChatAttachmentKind = 'image' | 'pdf' | 'text'
+
+type FileInfo = { name: string; type: string; size: number }
+
+/**
+ * How a file is sent to the model, with the MIME type it is stored as. Null for unsupported files
+ */
+export function getAttachmentKind(file: Pick<FileInfo, 'name' | 'type'>): { kind: ChatAttachmentKind; mimeType: string } | null {
+  if (IMAGE_TYPES.includes(file.type)) {
+    return { kind: 'image', mimeType: file.type }
+  }
+  if (file.type === PDF_TYPE) {
+    return { kind: 'pdf', mimeType: PDF_TYPE }
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  const textType = TEXT_TYPES_BY_EXTENSION[extension]
+  return textType ? { kind: 'text', mimeType: textType } : null
+}
+
+/**
+ * Returns an error message for the first problem with the files, or null if they can be attached
+ */
+export function validateAttachments(files: FileInfo[]): string | null {
+  if (files.length > CHAT_ATTACHMENT_LIMITS.MAX_FILES) {
+    return `You can attach up to ${CHAT_ATTACHMENT_LIMITS.MAX_FILES} files to a message`
+  }
+
+  for (const file of files) {
+    if (!getAttachmentKind(file)) {
+      return `${file.name} can't be attached. Use an image, a PDF or a text file`
+    }
+    if (file.size > CHAT_ATTACHMENT_LIMITS.MAX_FILE_BYTES) {
+      return `${file.name} is larger than ${CHAT_ATTACHMENT_LIMITS.MAX_FILE_BYTES / (1024 * 1024)} MB`
+    }
+  }
+
+  return null
+}
+
+export function isChatAttachment(artifact: Pick<Artifact, 'metadata'>): boolean {
+  return artifact.metadata?.source === CHAT_ATTACHMENT_SOURCE
+}
+
+/**
+ * The attachments among an interaction's artifacts, for display
+ */
+export function toChatAttachments(
+  artifacts: Pick<Artifact, 'id' | 'type' | 'url' | 'filename' | 'mime_type' | 'size_bytes' | 'metadata'>[] = []
+): ChatAttachment[] {
+  return artifacts
+    .filter(artifact => isChatAttachment(artifact) && artifact.url)
+    .map(artifact => ({
+      id: artifact.id,
+      type: artifact.type === 'image' ? 'image' : 'document',
+      url: artifact.url!,
+      filename: artifact.filename || 'Attachment',
+      mime_type: artifact.mime_type || '',
+      size_bytes: artifact.size_bytes || 0
+    }))
+}
+
+/**
+ * The content and attachments a message is sent to the model with. Text documents are quoted in
+ * the content, and images and PDFs are named there too so summaries keep track of them. Without
+ * `includeFiles` (e.g. for models that can't read them) images and PDFs are only named
+ */
+export function toAttachmentMessage(
+  content: string,
+  artifacts: AttachmentArtifact[],
+  includeFiles: boolean
+): { content: string; attachments?: LLMAttachment[] } {
+  const notes: string[] = []
+  const attachments: LLMAttachment[] = []
+
+  for (const artifact of artifacts.filter(isChatAttachment)) {
+    const filename = artifact.filename || 'attachment'
+    const text = typeof artifact.metadata?.text === 'string' ? artifact.metadata.text : null
+
+    if (text !== null) {
+      notes.push(`Attached file ${filename}:\n\`\`\`\n${text}\n\`\`\``)
+    } else if (artifact.type === 'image') {
+      notes.push(`[Attached image: ${filename}]`)
+      if (includeFiles && artifact.url) {
+        attachments.push({ type: 'image', url: artifact.url })
+      }
+    } else {
+      notes.push(`[Attached file: ${filename}]`)
+      if (includeFiles && artifact.url) {
+        attachments.push({ type: 'file', url: artifact.url, filename, mimeType: artifact.mime_type || PDF_TYPE })
+      }
+    }
+  }
+
+  return {
+    content: notes.length > 0 ? `${content}\n\n${notes.join('\n\n')}` : content,
+    attachments: attachments.length > 0 ? attachments : undefined
+  }
+}
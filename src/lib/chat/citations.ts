@@ -0,0 +1,73 @@
+import type { LLMCitation } from '@/lib/llm/types'
+
+export interface CitedSource {
+  // Footnote number, shared by every citation of the same URL
+  number: number
+  url: string
+  title: string
+  // Cited text, when the citation spans prose rather than an inline link
+  excerpt?: string
+}
+
+// Footnotes are markdown links to this fragment, rendered as superscript references
+export const CITATION_LINK_PREFIX = '#citation-'
+
+// Search models cite with an inline markdown link, optionally in parentheses.
+// Knowledge base replies cite excerpts with their number in brackets, e.g. [2]
+const INLINE_LINK_PATTERN = /^\s*\(?(\[[^\]]*\]\([^)]*\)|\[\d+\])\)?\s*$/
+
+const MAX_EXCERPT_LENGTH = 300
+
+/**
+ * Adds a numbered footnote after each cited span of the message. An inline link that is itself
+ * the cited span is replaced by its footnote. Citations outside the text or overlapping a later
+ * one don't get a footnote, but their source is still listed
+ */
+export function addCitationFootnotes(
+  content: string,
+  citations: LLMCitation[] = []
+): { content: string; sources: CitedSource[] } {
+  const ordered = [...citations].sort((a, b) => a.start_index - b.start_index)
+  const sources: CitedSource[] = []
+  const sourcesByUrl = new Map<string, CitedSource>()
+
+  for (const citation of ordered) {
+    if (!sourcesByUrl.has(citation.url)) {
+      const source: CitedSource = { number: sources.length + 1, url: citation.url, title: citation.title, excerpt: citation.excerpt }
+      sources.push(source)
+      sourcesByUrl.set(citation.url, source)
+    }
+  }
+
+  // Working backwards keeps the indexes of earlier citations valid as footnotes are inserted
+  let result = content
+  let boundary = content.length
+  for (const citation of ordered.reverse()) {
+    const { start_index: start, end_index: end } = citation
+    if (start < 0 || start > end || end > boundary) continue
+
+    const source = sourcesByUrl.get(citation.url)!
+    const footnote = `[${source.number}](${CITATION_LINK_PREFIX}${source.number})`
+    const span = content.slice(start, end)
+
+    if (INLINE_LINK_PATTERN.test(span)) {
+      result = result.slice(0, start) + footnote + result.slice(end)
+    } else {
+      result = result.slice(0, end) + footnote + result.slice(end)
+      // A citation of the whole reply doesn't point at anything in particular
+      if (span.trim() && span.length <= MAX_EXCERPT_LENGTH && end - start < content.length) {
+        source.excerpt = span.trim()
+      }
+    }
+    boundary = start
+  }
+
+  return { content: result, sources }
+}
+
+/**
+ * Replies saved before citations were stored with the message end with a plain text sources list
+ */
+export function stripLegacySourcesFooter(content: string): string {
+  return content.replace(/\n\n---\nSources:\n[\s\S]*$/, '')
+}
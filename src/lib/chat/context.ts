@@ -0,0 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { CHAT_ATTACHMENT_LIMITS, toAttachmentMessage, type AttachmentArtifact } from '@/lib/chat/attachments'
+import { getActiveBranch } from '@/lib/history/branches'
+import type { LLMChatMessage, LLMProvider, LLMUsage } from '@/lib/llm/types'
+import { estimateChatUsage, estimateTokens } from '@/lib/llm/usage'
+import { signPrivateUrls } from '@/lib/storage/signed-urls'
+
+// Token budgets of the conversation history sent with each message
+export const CONTEXT_BUDGET = {
+  // History beyond this, summary included, is folded into the session's rolling summary
+  HISTORY_TOKENS: 6000,
+  // Most recent history kept word for word when the older part is summarized
+  RECENT_TOKENS: 2000,
+  // Kept word for word even when they exceed RECENT_TOKENS
+  MIN_RECENT_MESSAGES: 2,
+  // Longest message quoted in full to the summarizer
+  SUMMARIZED_MESSAGE_TOKENS: 1500,
+  SUMMARY_MAX_TOKENS: 600
+}
+
+const SUMMARY_INSTRUCTIONS = `You maintain the memory of a conversation between a user and an assistant.
+Summarize the conversation you are given, merging it into the existing summary if there is one.
+Keep facts, names, numbers, decisions, the user's preferences and any open questions. Leave out pleasantries.
+Write concise prose in the third person, under 300 words.`
+
+type HistoryInteraction = {
+  id: string
+  type: string
+  content: string | null
+  parent_interaction_id: string | null
+  sequence: number
+  artifacts?: AttachmentArtifact[]
+}
+
+type HistoryMessage = LLMChatMessage & { id: string }
+
+export interface ConversationContext {
+  // Summary of the messages before `messages`
+  summary: string | null
+  // Recent messages, oldest first
+  messages: LLMChatMessage[]
+  // Tokens spent updating the summary for this message; zero when it was reused
+  usage: LLMUsage
+}
+
+const EMPTY_USAGE: LLMUsage = { inputTokens: 0, outputTokens: 0 }
+
+function countTokens(messages: LLMChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content), 0)
+}
+
+function truncateTokens(text: string, tokens: number): string {
+  return text.length > tokens * 4 ? `${text.slice(0, tokens * 4)}...` : text
+}
+
+async function summarizeConversation(
+  provider: LLMProvider,
+  model: string | undefined,
+  previousSummary: string | null,
+  messages: LLMChatMessage[]
+): Promise<{ summary: string; usage: LLMUsage }> {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${truncateTokens(message.content, CONTEXT_BUDGET.SUMMARIZED_MESSAGE_TOKENS)}`)
+    .join('\n\n')
+
+  const request: LLMChatMessage[] = [
+    { role: 'system', content: SUMMARY_INSTRUCTIONS },
+    {
+      role: 'user',
+      content: previousSummary
+        ? `Existing summary:\n${previousSummary}\n\nConversation since:\n${transcript}`
+        : `Conversation:\n${transcript}`
+    }
+  ]
+
+  const completion = await provider.streamChat({
+    messages: request,
+    model,
+    maxTokens: CONTEXT_BUDGET.SUMMARY_MAX_TOKENS
+  })
+
+  let summary = ''
+  let usage: LLMUsage | null = null
+  for await (const chunk of completion) {
+    if (chunk.type === 'text') {
+      summary += chunk.delta
+    } else if (chunk.type === 'usage') {
+      usage = chunk.usage
+    }
+  }
+
+  return { summary: summary.trim(), usage: usage ?? estimateChatUsage(request, summary) }
+}
+
+/**
+ * Loads the history a new message follows from the session, on the branch ending at `leafId`.
+ * When it exceeds the context budget, the older messages are merged into the session's rolling
+ * summary and only the recent ones are returned. A summary saved for another branch is not used
+ */
+export async function buildConversationContext(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  params: {
+    sessionId: string | null
+    // The interaction the new message follows; null when it starts the conversation
+    leafId: string | null
+    // Chat model used to summarize; the provider default when unset
+    model?: string
+    // Sends attached images and PDFs with the messages; otherwise they are only named
+    includeAttachments?: boolean
+  }
+): Promise<ConversationContext> {
+  const { sessionId, leafId } = params
+  if (!sessionId || !leafId) {
+    return { summary: null, messages: [], usage: EMPTY_USAGE }
+  }
+
+  const [{ data: session }, { data: interactions, error }] = await Promise.all([
+    supabase
+      .from('sessions')
+      .select('context_summary, context_summary_through')
+      .eq('id', sessionId)
+      .single(),
+    supabase
+      .from('interactions')
+      .select('id, type, content, parent_interaction_id, sequence, artifacts(type, url, filename, mime_type, metadata)')
+      .eq('session_id', sessionId)
+      .is('artifacts.deleted_at', null)
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load conversation history: ${error.message}`)
+  }
+
+  const history: HistoryMessage[] = await Promise.all(getActiveBranch((interactions || []) as HistoryInteraction[], leafId)
+    .filter(interaction => interaction.type === 'user_message' || interaction.type === 'assistant_message' || interaction.type === 'agent_finding')
+    .map(async interaction => {
+      // Attached files are sent by signed URL, as their bucket is private
+      const artifacts = params.includeAttachments
+        ? await signPrivateUrls(supabase, interaction.artifacts || [], CHAT_ATTACHMENT_LIMITS.SIGNED_URL_SECONDS)
+        : interaction.artifacts || []
+      return {
+        id: interaction.id,
+        role: interaction.type === 'user_message' ? 'user' : 'assistant',
+        ...toAttachmentMessage(interaction.content || '', artifacts, !!params.includeAttachments)
+      }
+    }))
+
+  // The summary only applies to branches that contain the messages it covers
+  const summarizedIndex = session?.context_summary
+    ? history.findIndex(message => message.id === session.context_summary_through)
+    : -1
+  const summary = summarizedIndex >= 0 ? session!.context_summary as string : null
+  const pending = history.slice(summarizedIndex + 1)
+
+  const toMessages = (messages: HistoryMessage[]): LLMChatMessage[] =>
+    messages.map(({ role, content, attachments }) => ({ role, content, ...(attachments ? { attachments } : {}) }))
+
+  if (estimateTokens(summary || '') + countTokens(pending) <= CONTEXT_BUDGET.HISTORY_TOKENS) {
+    return { summary, messages: toMessages(pending), usage: EMPTY_USAGE }
+  }
+
+  // Keep the most recent messages that fit the recent budget and summarize the rest
+  let recentStart = pending.length
+  let recentTokens = 0
+  while (recentStart > 0) {
+    const tokens = estimateTokens(pending[recentStart - 1].content)
+    const keptCount = pending.length - recentStart
+    if (keptCount >= CONTEXT_BUDGET.MIN_RECENT_MESSAGES && recentTokens + tokens > CONTEXT_BUDGET.RECENT_TOKENS) break
+    recentTokens += tokens
+    recentStart--
+  }
+
+  const older = pending.slice(0, recentStart)
+  const recent = pending.slice(recentStart)
+  if (older.length === 0) {
+    return { summary, messages: toMessages(recent), usage: EMPTY_USAGE }
+  }
+
+  const result = await summarizeConversation(provider, params.model, summary, toMessages(older))
+  if (!result.summary) {
+    return { summary, messages: toMessages(pending), usage: result.usage }
+  }
+
+  const { data: saved, error: saveError } = await supabase.rpc('save_session_context_summary', {
+    p_session_id: sessionId,
+    p_summary: result.summary,
+    p_through: older[older.length - 1].id
+  })
+
+  if (saveError || !saved) {
+    // The summary is still used for this message and recomputed next time
+    console.error('Failed to save conversation summary:', saveError)
+  }
+
+  return { summary: result.summary, messages: toMessages(recent), usage: result.usage }
+}
+
+/**
+ * Chat messages for the context: the summary as a system message, then the recent messages
+ */
+export function toContextMessages(context: ConversationContext): LLMChatMessage[] {
+  if (!context.summary) {
+    return context.messages
+  }
+
+  return [
+    { role: 'system', content: `Summary of the earlier conversation:\n${context.summary}` },
+    ...context.messages
+  ]
+}
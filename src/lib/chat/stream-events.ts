@@ -0,0 +1,35 @@
+import { EVENT_STREAM_CONTENT_TYPE, encodeStreamEvent, readEventStream } from '@/lib/utils/event-stream'
+import type { LLMCitation } from '@/lib/llm/types'
+
+// Tokens a reply used and the credits it was charged, shown with the message
+export interface ChatReplyUsage {
+  inputTokens: number
+  outputTokens: number
+  credits: number
+}
+
+/**
+ * Server-Sent Events protocol for `/api/chat`. Citations are sent as they arrive and again with
+ * the final message; their indexes refer to the message text
+ */
+export type ChatStreamEvent =
+  | { type: 'text_delta'; delta: string }
+  | { type: 'citation'; citation: LLMCitation }
+  | { type: 'done'; message: string; citations: LLMCitation[]; usage: ChatReplyUsage }
+  | { type: 'error'; error: string }
+
+export const CHAT_STREAM_CONTENT_TYPE = EVENT_STREAM_CONTENT_TYPE
+
+// Agent mode streams SSE as well, so chat responses are marked with this header
+export const CHAT_STREAM_HEADER = 'X-Chat-Stream'
+
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return encodeStreamEvent(event)
+}
+
+/**
+ * Reads a chat SSE response body and yields its events in order
+ */
+export function readChatEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  return readEventStream<ChatStreamEvent>(body)
+}
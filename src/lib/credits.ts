@@ -1,13 +0,0 @@
-// Basic credits management functions - can be enhanced with actual database integration
-export async function getUserCredits(userId: string): Promise<number> {
-  // Placeholder implementation - replace with actual database lookup
-  try {
-    console.log(`Fetching credits for user ${userId}`);
-    // For now, return a mock credit balance
-    // In a real implementation, this would query your database
-    return 100; // Mock credit balance
-  } catch (error) {
-    console.error('Error fetching user credits:', error);
-    throw new Error('Unable to fetch user credits');
-  }
-} 
\ No newline at end of file
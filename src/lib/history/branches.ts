@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Interaction, InteractionBranch } from '@/types/history';
+
+type BranchNode = Pick<Interaction, 'id' | 'sequence' | 'parent_interaction_id'>;
+
+// Children of each interaction (null for the first messages), oldest first
+function groupChildren<T extends BranchNode>(interactions: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>();
+  for (const interaction of [...interactions].sort((a, b) => a.sequence - b.sequence)) {
+    const parentId = interaction.parent_interaction_id || null;
+    children.set(parentId, [...(children.get(parentId) || []), interaction]);
+  }
+  return children;
+}
+
+/**
+ * Follows the latest reply at every step below the interaction, so switching to a branch
+ * shows where that branch was left off
+ */
+export function getLatestLeaf<T extends BranchNode>(interactions: T[], interactionId: string): T | null {
+  const children = groupChildren(interactions);
+  let leaf = interactions.find(interaction => interaction.id === interactionId) || null;
+  const visited = new Set<string>();
+
+  while (leaf && !visited.has(leaf.id)) {
+    visited.add(leaf.id);
+    const replies = children.get(leaf.id);
+    if (!replies?.length) break;
+    leaf = replies[replies.length - 1];
+  }
+
+  return leaf;
+}
+
+/**
+ * The interactions on the path from the first message to the active interaction, each with
+ * its position among its siblings. Sessions without an active interaction show the latest one
+ */
+export function getActiveBranch<T extends BranchNode>(
+  interactions: T[],
+  activeInteractionId: string | null | undefined
+): (T & { branch: InteractionBranch })[] {
+  if (interactions.length === 0) {
+    return [];
+  }
+
+  const byId = new Map(interactions.map(interaction => [interaction.id, interaction]));
+  const children = groupChildren(interactions);
+  const latest = interactions.reduce((last, interaction) => interaction.sequence > last.sequence ? interaction : last);
+
+  const path: T[] = [];
+  const visited = new Set<string>();
+  let current: T | undefined = (activeInteractionId && byId.get(activeInteractionId)) || latest;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parent_interaction_id ? byId.get(current.parent_interaction_id) : undefined;
+  }
+
+  return path.map(interaction => {
+    const siblingIds = (children.get(interaction.parent_interaction_id || null) || []).map(sibling => sibling.id);
+    return {
+      ...interaction,
+      branch: {
+        index: siblingIds.indexOf(interaction.id),
+        count: siblingIds.length,
+        siblingIds
+      }
+    };
+  });
+}
+
+/**
+ * Moves the session's active branch to the interaction; the next interaction inserted into the
+ * session follows it. `null` starts a new branch at the first message
+ */
+export async function setActiveInteraction(
+  supabase: SupabaseClient,
+  sessionId: string,
+  interactionId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('sessions')
+    .update({ active_interaction_id: interactionId })
+    .eq('id', sessionId);
+
+  if (error) {
+    throw new Error(`Failed to switch branch: ${error.message}`);
+  }
+}
@@ -0,0 +1,283 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getActiveBranch } from '@/lib/history/branches';
+import { getStorageObject } from '@/lib/storage/signed-urls';
+import { createZip, ZipEntry } from '@/lib/utils/zip';
+import type { LLMCitation } from '@/lib/llm/types';
+import type {
+  Artifact,
+  ExportedArtifact,
+  HistoryExport,
+  HistoryExportFormat,
+  InteractionType,
+  InteractionWithArtifacts,
+  Session,
+  SessionExport
+} from '@/types/history';
+
+export const HISTORY_EXPORT_VERSION = 1;
+
+export const HISTORY_EXPORT_LIMITS = {
+  // Sessions in one bulk export or import
+  MAX_SESSIONS: 100,
+  MAX_IMPORT_BYTES: 50 * 1024 * 1024,
+  // Uncompressed size of all files in a ZIP import
+  MAX_IMPORT_EXPANDED_BYTES: 200 * 1024 * 1024
+};
+
+const INTERACTION_LABELS: Record<InteractionType, string> = {
+  user_message: 'User',
+  assistant_message: 'Assistant',
+  image_generation: 'Image generation',
+  image_edit: 'Image edit',
+  image_variation: 'Image variation',
+  agent_action: 'Agent action',
+  agent_finding: 'Agent finding'
+};
+
+type SessionWithAllInteractions = Session & { interactions: InteractionWithArtifacts[] };
+
+function toSessionExport(session: SessionWithAllInteractions, exportedAt: string): SessionExport {
+  const interactions = [...(session.interactions || [])].sort((a, b) => a.sequence - b.sequence);
+
+  return {
+    format: 'supastart.session',
+    version: HISTORY_EXPORT_VERSION,
+    exported_at: exportedAt,
+    session: {
+      id: session.id,
+      type: session.type,
+      title: session.title,
+      description: session.description,
+      metadata: session.metadata || {},
+      starred: session.starred,
+      archived: session.archived,
+      active_interaction_id: session.active_interaction_id,
+      created_at: session.created_at,
+      updated_at: session.updated_at
+    },
+    interactions: interactions.map(interaction => ({
+      id: interaction.id,
+      parent_interaction_id: interaction.parent_interaction_id,
+      type: interaction.type,
+      content: interaction.content,
+      metadata: interaction.metadata || {},
+      cost_credits: interaction.cost_credits,
+      input_tokens: interaction.input_tokens,
+      output_tokens: interaction.output_tokens,
+      sequence: interaction.sequence,
+      created_at: interaction.created_at,
+      artifacts: [...(interaction.artifacts || [])]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((artifact: Artifact) => ({
+          type: artifact.type,
+          url: artifact.url,
+          filename: artifact.filename,
+          mime_type: artifact.mime_type,
+          size_bytes: artifact.size_bytes,
+          metadata: artifact.metadata || {}
+        }))
+    }))
+  };
+}
+
+/**
+ * Every branch of the organization's sessions with their artifacts, in the order of `sessionIds`.
+ * Sessions of other organizations are left out
+ */
+export async function loadSessionExports(
+  supabase: SupabaseClient,
+  organizationId: string,
+  sessionIds: string[]
+): Promise<SessionExport[]> {
+  if (sessionIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('*, interactions:interactions(*, artifacts:artifacts(*))')
+    .eq('organization_id', organizationId)
+    .is('deleted_at', null)
+    .is('interactions.artifacts.deleted_at', null)
+    .in('id', sessionIds);
+
+  if (error) {
+    throw new Error(`Failed to load sessions: ${error.message}`);
+  }
+
+  const exportedAt = new Date().toISOString();
+  const byId = new Map((data as SessionWithAllInteractions[]).map(session => [session.id, session]));
+  return sessionIds
+    .filter(id => byId.has(id))
+    .map(id => toSessionExport(byId.get(id)!, exportedAt));
+}
+
+export function toHistoryExport(sessions: SessionExport[]): HistoryExport {
+  return {
+    format: 'supastart.history',
+    version: HISTORY_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    sessions
+  };
+}
+
+/**
+ * The session's active branch as Markdown. Artifacts link to `fileFor` when given (their path in
+ * a ZIP export), and to their URL otherwise
+ */
+export function toSessionMarkdown(
+  exported: SessionExport,
+  fileFor?: (artifact: ExportedArtifact) => string | undefined
+): string {
+  const { session } = exported;
+  const lines = [
+    `# ${session.title || 'Untitled session'}`,
+    '',
+    `- Type: ${session.type}`,
+    `- Created: ${session.created_at}`,
+    `- Exported: ${exported.exported_at}`
+  ];
+  if (session.description) {
+    lines.push('', session.description);
+  }
+
+  for (const interaction of getActiveBranch(exported.interactions, session.active_interaction_id)) {
+    lines.push('', `## ${INTERACTION_LABELS[interaction.type] || interaction.type}`, '');
+    if (interaction.content) {
+      lines.push(interaction.content.trim());
+    }
+
+    for (const artifact of interaction.artifacts) {
+      const target = fileFor?.(artifact) || artifact.url;
+      if (!target) continue;
+      const name = artifact.filename || artifact.type;
+      lines.push('', artifact.type === 'image' ? `![${name}](${encodeURI(target)})` : `[${name}](${encodeURI(target)})`);
+    }
+
+    // Sources are listed once each, in the order they were first cited
+    const citations = Array.isArray(interaction.metadata?.citations) ? interaction.metadata.citations as LLMCitation[] : [];
+    const sources = [...new Map(citations.map(citation => [citation.url, citation.title])).entries()];
+    if (sources.length > 0) {
+      lines.push('', 'Sources:');
+      sources.forEach(([url, title], index) => lines.push(`${index + 1}. [${title || url}](${url})`));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * File name safe for archives and downloads, from a session title
+ */
+export function toExportName(title: string | undefined, id: string): string {
+  const slug = (title || 'session').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+  return `${slug || 'session'}-${id.slice(0, 8)}`;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/csv': 'csv',
+  'application/json': 'json'
+};
+
+/**
+ * Contents of an artifact stored in this project's storage or inlined as a data URL
+ */
+export async function readArtifactFile(supabase: SupabaseClient, url: string): Promise<Uint8Array | null> {
+  if (url.startsWith('data:')) {
+    return new Uint8Array(Buffer.from(url.slice(url.indexOf(',') + 1), 'base64'));
+  }
+
+  const object = getStorageObject(url);
+  if (!object) return null;
+
+  const { data, error } = await supabase.storage.from(object.bucket).download(object.path);
+  if (error || !data) {
+    console.error(`Failed to download ${object.path} for export:`, error);
+    return null;
+  }
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * ZIP with a folder per session holding session.json, session.md and a files folder with the
+ * session's images and attachments. Artifacts that can't be read (e.g. external URLs) keep their URL
+ */
+export async function buildHistoryArchive(supabase: SupabaseClient, sessions: SessionExport[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+
+  for (const exported of sessions) {
+    const folder = toExportName(exported.session.title, exported.session.id);
+    const files = new Map<ExportedArtifact, string>();
+    let index = 0;
+
+    for (const interaction of exported.interactions) {
+      for (const artifact of interaction.artifacts) {
+        if (!artifact.url) continue;
+        const data = await readArtifactFile(supabase, artifact.url);
+        if (!data) continue;
+
+        index++;
+        const extension = MIME_EXTENSIONS[artifact.mime_type || ''] || (artifact.type === 'image' ? 'png' : 'bin');
+        const baseName = (artifact.filename || `${artifact.type}.${extension}`).replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-100);
+        const file = `files/${String(index).padStart(3, '0')}-${baseName}`;
+        files.set(artifact, file);
+        entries.push({ path: `${folder}/${file}`, data });
+      }
+    }
+
+    const archived: SessionExport = {
+      ...exported,
+      interactions: exported.interactions.map(interaction => ({
+        ...interaction,
+        artifacts: interaction.artifacts.map(artifact => files.has(artifact) ? { ...artifact, file: files.get(artifact) } : artifact)
+      }))
+    };
+
+    entries.push(
+      { path: `${folder}/session.json`, data: encoder.encode(JSON.stringify(archived, null, 2)) },
+      { path: `${folder}/session.md`, data: encoder.encode(toSessionMarkdown(exported, artifact => files.get(artifact))) }
+    );
+  }
+
+  return createZip(entries);
+}
+
+/**
+ * Download of the sessions in the format: JSON (one session, or a history export of several),
+ * Markdown (sessions separated by rules) or a ZIP archive with their files
+ */
+export async function buildExportFile(
+  supabase: SupabaseClient,
+  sessions: SessionExport[],
+  format: HistoryExportFormat,
+  name: string
+): Promise<{ body: Uint8Array | string; contentType: string; filename: string }> {
+  switch (format) {
+    case 'zip':
+      return { body: await buildHistoryArchive(supabase, sessions), contentType: 'application/zip', filename: `${name}.zip` };
+    case 'markdown':
+      return {
+        body: sessions.map(session => toSessionMarkdown(session)).join('\n---\n\n'),
+        contentType: 'text/markdown; charset=utf-8',
+        filename: `${name}.md`
+      };
+    default:
+      return {
+        body: JSON.stringify(sessions.length === 1 ? sessions[0] : toHistoryExport(sessions), null, 2),
+        contentType: 'application/json; charset=utf-8',
+        filename: `${name}.json`
+      };
+  }
+}
+
+export function isHistoryExportFormat(value: string | null): value is HistoryExportFormat {
+  return value === 'json' || value === 'markdown' || value === 'zip';
+}
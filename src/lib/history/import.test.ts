@@ -0,0 +1,89 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readHistoryImport, validateSessionExport } from './import';
+
+const PROJECT_URL = 'https://project.supabase.co';
+const ORGANIZATION_ID = 'org-1';
+
+function sessionExport(interactions: Record<string, unknown>[]) {
+  return {
+    format: 'supastart.session',
+    version: 1,
+    exported_at: '2026-01-01T00:00:00.000Z',
+    session: { id: 'session-1', type: 'chat', title: 'Imported' },
+    interactions
+  };
+}
+
+function interaction(overrides: Record<string, unknown> = {}) {
+  return { id: 'a', type: 'user_message', content: 'Hello', sequence: 1, parent_interaction_id: null, artifacts: [], ...overrides };
+}
+
+function jsonFile(value: unknown): File {
+  return new File([JSON.stringify(value)], 'export.json', { type: 'application/json' });
+}
+
+before(() => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = PROJECT_URL;
+});
+
+describe('validateSessionExport', () => {
+  it('accepts a session with branches', () => {
+    assert.equal(validateSessionExport(sessionExport([
+      interaction(),
+      interaction({ id: 'b', type: 'assistant_message', sequence: 2, parent_interaction_id: 'a' }),
+      interaction({ id: 'c', type: 'assistant_message', sequence: 3, parent_interaction_id: 'a', content: null })
+    ])), null);
+  });
+
+  it('rejects interactions without a sequence or with invalid content', () => {
+    assert.match(validateSessionExport(sessionExport([interaction({ sequence: undefined })]))!, /missing its sequence/);
+    assert.match(validateSessionExport(sessionExport([interaction({ sequence: '1' })]))!, /missing its sequence/);
+    assert.match(validateSessionExport(sessionExport([interaction({ content: { text: 'Hello' } })]))!, /invalid content/);
+  });
+
+  it('rejects parents outside the export', () => {
+    assert.match(
+      validateSessionExport(sessionExport([interaction({ parent_interaction_id: 'elsewhere' })]))!,
+      /isn't in the export/
+    );
+  });
+});
+
+describe('readHistoryImport', () => {
+  it('keeps artifact URLs in the organization\'s storage', async () => {
+    const url = `${PROJECT_URL}/storage/v1/object/public/generated-images/${ORGANIZATION_ID}/image.png`;
+    const { sessions } = await readHistoryImport(jsonFile(sessionExport([
+      interaction({ type: 'image_generation', artifacts: [{ type: 'image', url }] })
+    ])), ORGANIZATION_ID);
+    assert.equal(sessions[0].interactions[0].artifacts[0].url, url);
+  });
+
+  it('rejects artifact URLs elsewhere', async () => {
+    for (const url of ['https://attacker.example/image.png', 'javascript:alert(1)', 'data:text/html,<script></script>']) {
+      await assert.rejects(
+        readHistoryImport(jsonFile(sessionExport([
+          interaction({ type: 'image_generation', artifacts: [{ type: 'image', url }] })
+        ])), ORGANIZATION_ID),
+        /links outside this organization's storage/,
+        url
+      );
+    }
+  });
+
+  it('rejects files of other organizations and buckets', async () => {
+    for (const path of [
+      'chat-attachments/org-2/file.pdf',
+      `generated-images/${ORGANIZATION_ID}/../org-2/image.png`,
+      `avatars/${ORGANIZATION_ID}/avatar.png`
+    ]) {
+      await assert.rejects(
+        readHistoryImport(jsonFile(sessionExport([
+          interaction({ type: 'image_generation', artifacts: [{ type: 'image', url: `${PROJECT_URL}/storage/v1/object/public/${path}` }] })
+        ])), ORGANIZATION_ID),
+        /links outside this organization's storage/,
+        path
+      );
+    }
+  });
+});
@@ -0,0 +1,289 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { HISTORY_EXPORT_LIMITS, HISTORY_EXPORT_VERSION } from '@/lib/history/export';
+import { isChatAttachment } from '@/lib/chat/attachments';
+import { isOrganizationArtifactFile } from '@/lib/storage/signed-urls';
+import { uploadChatAttachment, uploadImageFromUrl } from '@/lib/storage/image-upload';
+import { readZip } from '@/lib/utils/zip';
+import type { ArtifactType, InteractionType, SessionExport, SessionType } from '@/types/history';
+
+const SESSION_TYPES: SessionType[] = ['chat', 'sandbox', 'agent', 'magic_ads'];
+const INTERACTION_TYPES: InteractionType[] = [
+  'user_message', 'assistant_message', 'image_generation', 'image_edit', 'image_variation', 'agent_action', 'agent_finding'
+];
+const ARTIFACT_TYPES: ArtifactType[] = ['image', 'document', 'code', 'data'];
+
+export interface HistoryImport {
+  sessions: SessionExport[];
+  // Files of a ZIP import by their path in the archive
+  files: Map<string, Uint8Array>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Why the value isn't a session export this version can import, or null if it is
+ */
+export function validateSessionExport(value: unknown): string | null {
+  if (!isRecord(value) || value.format !== 'supastart.session') {
+    return 'Not a session export';
+  }
+  if (typeof value.version !== 'number' || value.version > HISTORY_EXPORT_VERSION) {
+    return `Unsupported export version ${String(value.version)}`;
+  }
+  if (!isRecord(value.session) || !SESSION_TYPES.includes(value.session.type as SessionType)) {
+    return 'Session type is missing or invalid';
+  }
+  if (!Array.isArray(value.interactions)) {
+    return 'Interactions are missing';
+  }
+
+  const ids = new Set<string>();
+  for (const interaction of value.interactions) {
+    if (!isRecord(interaction) || typeof interaction.id !== 'string' || !INTERACTION_TYPES.includes(interaction.type as InteractionType)) {
+      return 'An interaction is missing its id or has an invalid type';
+    }
+    if (typeof interaction.sequence !== 'number' || !Number.isFinite(interaction.sequence)) {
+      return `Interaction ${interaction.id} is missing its sequence`;
+    }
+    if (interaction.content != null && typeof interaction.content !== 'string') {
+      return `Interaction ${interaction.id} has invalid content`;
+    }
+    if (!Array.isArray(interaction.artifacts) || interaction.artifacts.some(artifact =>
+      !isRecord(artifact) ||
+      !ARTIFACT_TYPES.includes(artifact.type as ArtifactType) ||
+      (artifact.url != null && typeof artifact.url !== 'string') ||
+      (artifact.file != null && typeof artifact.file !== 'string')
+    )) {
+      return `Interaction ${interaction.id} has invalid artifacts`;
+    }
+    ids.add(interaction.id);
+  }
+
+  // Branches are rebuilt from the parents, so each has to be an interaction of the same export
+  for (const interaction of value.interactions as Record<string, unknown>[]) {
+    if (interaction.parent_interaction_id != null && !ids.has(interaction.parent_interaction_id as string)) {
+      return `Interaction ${interaction.id} follows an interaction that isn't in the export`;
+    }
+  }
+
+  return null;
+}
+
+// Sessions of a parsed JSON export, single or bulk
+function toSessionExports(value: unknown): SessionExport[] {
+  const sessions = isRecord(value) && value.format === 'supastart.history' && Array.isArray(value.sessions)
+    ? value.sessions
+    : [value];
+
+  for (const session of sessions) {
+    const error = validateSessionExport(session);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+  return sessions as SessionExport[];
+}
+
+/**
+ * Sessions and files of an export uploaded to the organization: a JSON export of one or more
+ * sessions, or a ZIP export with a folder per session. Throws with a message for the user when the
+ * file isn't a valid export
+ */
+export async function readHistoryImport(file: File, organizationId: string): Promise<HistoryImport> {
+  if (file.size > HISTORY_EXPORT_LIMITS.MAX_IMPORT_BYTES) {
+    throw new Error(`Imports can be at most ${HISTORY_EXPORT_LIMITS.MAX_IMPORT_BYTES / (1024 * 1024)}MB`);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  let sessions: SessionExport[];
+  const files = new Map<string, Uint8Array>();
+
+  if (isZip) {
+    let entries;
+    try {
+      entries = readZip(bytes, { maxTotalBytes: HISTORY_EXPORT_LIMITS.MAX_IMPORT_EXPANDED_BYTES });
+    } catch (error) {
+      throw new Error(`Could not read the archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    sessions = [];
+    for (const entry of entries) {
+      if (entry.path !== 'session.json' && !entry.path.endsWith('/session.json')) {
+        files.set(entry.path, entry.data);
+        continue;
+      }
+
+      // Artifact files are relative to the session's folder; keyed by their archive path instead
+      const folder = entry.path.slice(0, -'session.json'.length);
+      for (const exported of toSessionExports(JSON.parse(new TextDecoder().decode(entry.data)))) {
+        exported.interactions.forEach(interaction => interaction.artifacts.forEach(artifact => {
+          if (artifact.file) artifact.file = `${folder}${artifact.file}`;
+        }));
+        sessions.push(exported);
+      }
+    }
+  } else {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      throw new Error('The file is neither a JSON nor a ZIP export');
+    }
+    sessions = toSessionExports(parsed);
+  }
+
+  if (sessions.length === 0) {
+    throw new Error('The file contains no sessions');
+  }
+  if (sessions.length > HISTORY_EXPORT_LIMITS.MAX_SESSIONS) {
+    throw new Error(`At most ${HISTORY_EXPORT_LIMITS.MAX_SESSIONS} sessions can be imported at once`);
+  }
+
+  // Artifacts without a file in the archive keep their URL. Shared files and purges read and remove it
+  // with the service role, so it has to be an artifact file of the importing organization
+  for (const exported of sessions) {
+    for (const interaction of exported.interactions) {
+      const linked = interaction.artifacts.find(artifact =>
+        artifact.url && !(artifact.file && files.has(artifact.file)) && !isOrganizationArtifactFile(artifact.url, organizationId)
+      );
+      if (linked) {
+        throw new Error(`${linked.filename || 'An artifact'} in "${exported.session.title || exported.session.id}" has no file in the archive and links outside this organization's storage`);
+      }
+    }
+  }
+
+  return { sessions, files };
+}
+
+// Uploads an artifact's file from the archive to the organization's storage, resolving to its URL
+async function uploadArtifactFile(
+  supabase: SupabaseClient,
+  organizationId: string,
+  artifact: SessionExport['interactions'][number]['artifacts'][number],
+  data: Uint8Array
+): Promise<string> {
+  const contentType = artifact.mime_type || (artifact.type === 'image' ? 'image/png' : 'application/octet-stream');
+
+  const result = isChatAttachment(artifact) || artifact.type !== 'image'
+    ? await uploadChatAttachment(supabase, new File([data], artifact.filename || 'attachment', { type: contentType }), contentType, organizationId)
+    : await uploadImageFromUrl(
+      supabase,
+      `data:${contentType};base64,${Buffer.from(data).toString('base64')}`,
+      organizationId,
+      `imported_${crypto.randomUUID()}`
+    );
+
+  if (!result.success || !result.url) {
+    throw new Error(`Failed to upload ${artifact.filename || artifact.file}: ${result.error || 'Unknown error'}`);
+  }
+  return result.url;
+}
+
+/**
+ * Recreates an exported session in the organization, owned by the importing user, with every
+ * branch, artifact and the branch that was active. Files in the archive are uploaded to the
+ * organization's storage; artifacts without one keep their URL in the organization's storage,
+ * as checked by readHistoryImport
+ */
+export async function importSession(
+  supabase: SupabaseClient,
+  params: {
+    organizationId: string;
+    userId: string;
+    exported: SessionExport;
+    files: Map<string, Uint8Array>;
+  }
+): Promise<string> {
+  const { organizationId, userId, exported, files } = params;
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .insert({
+      organization_id: organizationId,
+      user_id: userId,
+      type: exported.session.type,
+      title: exported.session.title,
+      description: exported.session.description,
+      metadata: {
+        ...(exported.session.metadata || {}),
+        imported_from: { session_id: exported.session.id, exported_at: exported.exported_at }
+      },
+      starred: exported.session.starred ?? false,
+      archived: exported.session.archived ?? false,
+      created_at: exported.session.created_at
+    })
+    .select('id')
+    .single();
+
+  if (sessionError || !session) {
+    throw new Error(`Failed to create session: ${sessionError?.message || 'Unknown error'}`);
+  }
+
+  try {
+    // New ids are assigned upfront so branches keep pointing at their parents
+    const interactions = [...exported.interactions].sort((a, b) => a.sequence - b.sequence);
+    const ids = new Map(interactions.map(interaction => [interaction.id, crypto.randomUUID()]));
+
+    if (interactions.length > 0) {
+      // Inserted in one statement: the trigger attaching interactions without a parent to the active
+      // branch runs for every row before the session's active interaction is updated, so first
+      // messages of a branch stay without a parent
+      const { error: interactionsError } = await supabase
+        .from('interactions')
+        .insert(interactions.map((interaction, index) => ({
+          id: ids.get(interaction.id),
+          session_id: session.id,
+          parent_interaction_id: interaction.parent_interaction_id ? ids.get(interaction.parent_interaction_id) || null : null,
+          type: interaction.type,
+          content: interaction.content,
+          metadata: interaction.metadata || {},
+          cost_credits: interaction.cost_credits || 0,
+          input_tokens: interaction.input_tokens ?? null,
+          output_tokens: interaction.output_tokens ?? null,
+          sequence: index + 1,
+          created_at: interaction.created_at
+        })));
+
+      if (interactionsError) {
+        throw new Error(`Failed to import interactions: ${interactionsError.message}`);
+      }
+    }
+
+    const artifacts = [];
+    for (const interaction of interactions) {
+      for (const artifact of interaction.artifacts) {
+        const data = artifact.file ? files.get(artifact.file) : undefined;
+        artifacts.push({
+          interaction_id: ids.get(interaction.id),
+          type: artifact.type,
+          url: data ? await uploadArtifactFile(supabase, organizationId, artifact, data) : artifact.url,
+          filename: artifact.filename,
+          mime_type: artifact.mime_type,
+          size_bytes: data ? data.length : artifact.size_bytes,
+          metadata: artifact.metadata || {}
+        });
+      }
+    }
+
+    if (artifacts.length > 0) {
+      const { error: artifactsError } = await supabase.from('artifacts').insert(artifacts);
+      if (artifactsError) {
+        throw new Error(`Failed to import artifacts: ${artifactsError.message}`);
+      }
+    }
+
+    const activeId = exported.session.active_interaction_id && ids.get(exported.session.active_interaction_id);
+    if (activeId) {
+      await supabase.from('sessions').update({ active_interaction_id: activeId }).eq('id', session.id);
+    }
+  } catch (error) {
+    // A partly imported session would show a broken conversation
+    await supabase.from('sessions').delete().eq('id', session.id);
+    throw error;
+  }
+
+  return session.id;
+}
@@ -0,0 +1,110 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { SessionFolder, SessionTagColor } from '@/types/history';
+
+export const SESSION_TAG_COLORS: SessionTagColor[] = ['gray', 'red', 'amber', 'green', 'blue', 'purple', 'pink'];
+
+// Badge classes of each tag color
+export const TAG_COLOR_CLASSES: Record<SessionTagColor, string> = {
+  gray: 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200',
+  red: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200',
+  amber: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200',
+  green: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+  blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200',
+  purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-200',
+  pink: 'bg-pink-100 text-pink-800 dark:bg-pink-900/40 dark:text-pink-200'
+};
+
+export const HISTORY_ORGANIZE_LIMITS = {
+  // Sessions changed by one bulk action
+  MAX_BULK_SESSIONS: 100,
+  MAX_TAG_NAME_LENGTH: 50,
+  MAX_FOLDER_NAME_LENGTH: 100
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids from requests are checked before they go into filters
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+export function isSessionTagColor(value: unknown): value is SessionTagColor {
+  return SESSION_TAG_COLORS.includes(value as SessionTagColor);
+}
+
+export interface FolderTreeItem {
+  folder: SessionFolder;
+  depth: number;
+}
+
+/**
+ * Folders in tree order, each after its parent and siblings sorted by name, with their depth
+ * for indenting
+ */
+export function flattenFolderTree(folders: SessionFolder[]): FolderTreeItem[] {
+  const children = new Map<string | null, SessionFolder[]>();
+  for (const folder of folders) {
+    const parentId = folder.parent_id || null;
+    children.set(parentId, [...(children.get(parentId) || []), folder]);
+  }
+
+  const items: FolderTreeItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = [...(children.get(parentId) || [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const folder of siblings) {
+      items.push({ folder, depth });
+      visit(folder.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return items;
+}
+
+/**
+ * The folder and its ancestors' names, from the top level down, e.g. "Clients / Acme"
+ */
+export function getFolderPath(folders: SessionFolder[], folderId: string | null | undefined): string | null {
+  if (!folderId) return null;
+
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(folderId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return names.length > 0 ? names.join(' / ') : null;
+}
+
+/**
+ * Replaces the session's tags with the given ones
+ */
+export async function setSessionTags(supabase: SupabaseClient, sessionId: string, tagIds: string[]): Promise<void> {
+  let removal = supabase.from('session_tag_assignments').delete().eq('session_id', sessionId);
+  if (tagIds.length > 0) {
+    removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  }
+
+  const { error: removeError } = await removal;
+  if (removeError) {
+    throw new Error(`Failed to update tags: ${removeError.message}`);
+  }
+
+  if (tagIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('session_tag_assignments')
+    .upsert(
+      tagIds.map(tagId => ({ session_id: sessionId, tag_id: tagId })),
+      { onConflict: 'session_id,tag_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new Error(`Failed to update tags: ${error.message}`);
+  }
+}
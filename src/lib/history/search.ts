@@ -0,0 +1,28 @@
+export const HISTORY_SEARCH_LIMITS = {
+  MAX_QUERY_LENGTH: 200,
+  MAX_RESULTS: 50
+};
+
+/**
+ * PostgREST `or` filter matching any of the columns case-insensitively against the search text.
+ * The text is quoted so commas, dots and parentheses in it can't change the filter, and LIKE
+ * wildcards in it match literally
+ */
+export function toIlikeFilter(columns: string[], search: string): string {
+  const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+  const quoted = `"${pattern.replace(/["\\]/g, '\\$&')}"`;
+  return columns.map(column => `${column}.ilike.${quoted}`).join(',');
+}
+
+/**
+ * A search snippet split into plain and highlighted parts, from the <mark> tags the database
+ * wraps matches in. Parts are rendered as text, so snippet content can't inject markup
+ */
+export function splitSnippet(snippet: string): { text: string; highlighted: boolean }[] {
+  return snippet
+    .split(/(<mark>[\s\S]*?<\/mark>)/g)
+    .filter(part => part.length > 0)
+    .map(part => part.startsWith('<mark>') && part.endsWith('</mark>')
+      ? { text: part.slice(6, -7), highlighted: true }
+      : { text: part, highlighted: false });
+}
@@ -0,0 +1,40 @@
+export const SHARE_LIMITS = {
+  // Longest expiry a share can be given; shares can also have none
+  MAX_EXPIRY_DAYS: 365,
+  // How long browsers may keep a shared file after loading it, in seconds
+  ARTIFACT_CACHE_SECONDS: 5 * 60
+};
+
+// File types a share page shows in the browser; anything else is served as a download
+const INLINE_SHARE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf', 'text/plain'];
+
+// Expiry choices offered when sharing; null keeps the link valid until revoked
+export const SHARE_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+];
+
+/**
+ * Unguessable token for a share link: 24 random bytes as hex
+ */
+export function createShareToken(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getSharePath(token: string): string {
+  return `/share/${token}`;
+}
+
+// Shared files are served through the share so they stop loading once it is revoked or expires
+export function getShareArtifactPath(token: string, artifactId: string): string {
+  return `${getSharePath(token)}/artifacts/${artifactId}`;
+}
+
+/**
+ * The content type a shared file is shown with, or null if it should be downloaded
+ */
+export function getInlineShareType(mimeType: string): string | null {
+  return INLINE_SHARE_TYPES.includes(mimeType) ? mimeType : null;
+}
@@ -0,0 +1,307 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getStorageObject } from '@/lib/storage/signed-urls';
+import type { HistoryRetentionSettings } from '@/types/history';
+
+export const HISTORY_RETENTION_LIMITS = {
+  DEFAULT_TRASH_DAYS: 30,
+  TRASH_DAYS: { min: 1, max: 365 },
+  POLICY_DAYS: { min: 1, max: 3650 },
+  // Sessions and artifacts restored or purged by one request
+  MAX_TRASH_ITEMS: 100,
+  // Sessions and artifacts purged per organization on each run of the purge job
+  PURGE_BATCH_SIZE: 200
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Artifact URLs checked per query, to keep request URLs short
+const URL_CHECK_BATCH_SIZE = 50;
+
+function optionalDays(value: unknown, { min, max }: { min: number; max: number }): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+}
+
+/**
+ * Reads `history_retention` from organization settings. Invalid values fall back to the default
+ * trash period and no retention policy
+ */
+export function parseHistoryRetention(settings: unknown): HistoryRetentionSettings {
+  const value = (settings as { history_retention?: Record<string, unknown> } | null)?.history_retention;
+  const policy = value?.policy as Record<string, unknown> | null | undefined;
+  const afterDays = optionalDays(policy?.after_days, HISTORY_RETENTION_LIMITS.POLICY_DAYS);
+
+  return {
+    trash_days: optionalDays(value?.trash_days, HISTORY_RETENTION_LIMITS.TRASH_DAYS) ?? HISTORY_RETENTION_LIMITS.DEFAULT_TRASH_DAYS,
+    policy: (policy?.action === 'archive' || policy?.action === 'delete') && afterDays
+      ? { action: policy.action, after_days: afterDays }
+      : null
+  };
+}
+
+export async function loadHistoryRetention(supabase: SupabaseClient, organizationId: string): Promise<HistoryRetentionSettings> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load retention settings: ${error.message}`);
+  }
+
+  return parseHistoryRetention(data?.settings);
+}
+
+/**
+ * When an item trashed at `deletedAt` is purged
+ */
+export function getPurgeDate(deletedAt: string, trashDays: number): string {
+  return new Date(new Date(deletedAt).getTime() + trashDays * DAY_MS).toISOString();
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * DAY_MS).toISOString();
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size));
+  }
+  return chunks;
+}
+
+/**
+ * Removes the storage files of the URLs that no remaining artifact points to. Imported sessions
+ * can keep the URLs of the sessions they were exported from, also in other organizations, so the
+ * references are checked with the service-role `admin` client and a file is only removed once
+ * nothing uses it. Returns how many files were removed
+ */
+async function removeUnusedFiles(supabase: SupabaseClient, admin: SupabaseClient, urls: string[]): Promise<number> {
+  const candidates = [...new Set(urls)].filter(url => getStorageObject(url));
+  const used = new Set<string>();
+
+  for (const batch of chunk(candidates, URL_CHECK_BATCH_SIZE)) {
+    const { data, error } = await admin
+      .from('artifacts')
+      .select('url')
+      .in('url', batch);
+
+    if (error) {
+      throw new Error(`Failed to check artifact files: ${error.message}`);
+    }
+    (data || []).forEach(artifact => used.add(artifact.url));
+  }
+
+  const byBucket = new Map<string, string[]>();
+  for (const url of candidates) {
+    const object = getStorageObject(url);
+    if (object && !used.has(url)) {
+      byBucket.set(object.bucket, [...(byBucket.get(object.bucket) || []), object.path]);
+    }
+  }
+
+  let removed = 0;
+  for (const [bucket, paths] of byBucket) {
+    const { data, error } = await supabase.storage.from(bucket).remove(paths);
+    // The rows are already gone, so a failed removal only leaves files behind
+    if (error) {
+      console.error(`Failed to remove files from ${bucket}:`, error);
+      continue;
+    }
+    removed += data?.length || 0;
+  }
+
+  return removed;
+}
+
+export interface PurgeResult {
+  sessions: number;
+  artifacts: number;
+  files: number;
+}
+
+/**
+ * Deletes sessions for good, with their interactions and artifacts, and removes their files from
+ * storage once no artifact of any organization uses them, as checked with the service-role `admin`
+ * client. Callers check that the sessions may be purged
+ */
+export async function purgeSessions(supabase: SupabaseClient, admin: SupabaseClient, sessionIds: string[]): Promise<PurgeResult> {
+  if (sessionIds.length === 0) {
+    return { sessions: 0, artifacts: 0, files: 0 };
+  }
+
+  const { data: artifacts, error: artifactsError } = await supabase
+    .from('artifacts')
+    .select('url, interactions!inner(session_id)')
+    .in('interactions.session_id', sessionIds);
+
+  if (artifactsError) {
+    throw new Error(`Failed to load session files: ${artifactsError.message}`);
+  }
+
+  const { data: deleted, error } = await supabase
+    .from('sessions')
+    .delete()
+    .in('id', sessionIds)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to purge sessions: ${error.message}`);
+  }
+
+  const urls = (artifacts || []).map(artifact => artifact.url).filter((url): url is string => !!url);
+  return {
+    sessions: deleted?.length || 0,
+    artifacts: artifacts?.length || 0,
+    files: await removeUnusedFiles(supabase, admin, urls)
+  };
+}
+
+/**
+ * Deletes artifacts for good and removes their files from storage, like purgeSessions. Callers
+ * check that the artifacts may be purged
+ */
+export async function purgeArtifacts(supabase: SupabaseClient, admin: SupabaseClient, artifactIds: string[]): Promise<PurgeResult> {
+  if (artifactIds.length === 0) {
+    return { sessions: 0, artifacts: 0, files: 0 };
+  }
+
+  const { data: deleted, error } = await supabase
+    .from('artifacts')
+    .delete()
+    .in('id', artifactIds)
+    .select('url');
+
+  if (error) {
+    throw new Error(`Failed to purge artifacts: ${error.message}`);
+  }
+
+  const urls = (deleted || []).map(artifact => artifact.url).filter((url): url is string => !!url);
+  return {
+    sessions: 0,
+    artifacts: deleted?.length || 0,
+    files: await removeUnusedFiles(supabase, admin, urls)
+  };
+}
+
+export interface RetentionRunResult {
+  organization_id: string;
+  // Sessions the retention policy archived or moved to the trash
+  archived: number;
+  trashed: number;
+  purged_sessions: number;
+  purged_artifacts: number;
+  removed_files: number;
+  error?: string;
+}
+
+/**
+ * Applies the organization's retention policy, then purges what has been in its trash longer than
+ * the trash period. Starred sessions are kept by the policy
+ */
+export async function runOrganizationRetention(
+  supabase: SupabaseClient,
+  organizationId: string,
+  retention: HistoryRetentionSettings,
+  limit = HISTORY_RETENTION_LIMITS.PURGE_BATCH_SIZE
+): Promise<RetentionRunResult> {
+  const result: RetentionRunResult = {
+    organization_id: organizationId,
+    archived: 0,
+    trashed: 0,
+    purged_sessions: 0,
+    purged_artifacts: 0,
+    removed_files: 0
+  };
+
+  try {
+    if (retention.policy) {
+      const archive = retention.policy.action === 'archive';
+      let query = supabase
+        .from('sessions')
+        .update(archive ? { archived: true } : { deleted_at: new Date().toISOString() })
+        .eq('organization_id', organizationId)
+        .eq('starred', false)
+        .is('deleted_at', null)
+        .lt('updated_at', daysAgo(retention.policy.after_days));
+
+      if (archive) {
+        query = query.eq('archived', false);
+      }
+
+      const { data: changed, error } = await query.select('id');
+      if (error) {
+        throw new Error(`Failed to apply retention policy: ${error.message}`);
+      }
+      result[archive ? 'archived' : 'trashed'] = changed?.length || 0;
+    }
+
+    const purgeBefore = daysAgo(retention.trash_days);
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('sessions')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .lt('deleted_at', purgeBefore)
+      .limit(limit);
+
+    if (sessionsError) {
+      throw new Error(`Failed to load trashed sessions: ${sessionsError.message}`);
+    }
+
+    const purgedSessions = await purgeSessions(supabase, supabase, (sessions || []).map(session => session.id));
+
+    const { data: artifacts, error: artifactsError } = await supabase
+      .from('artifacts')
+      .select('id, interactions!inner(sessions!inner(organization_id))')
+      .eq('interactions.sessions.organization_id', organizationId)
+      .lt('deleted_at', purgeBefore)
+      .limit(limit);
+
+    if (artifactsError) {
+      throw new Error(`Failed to load trashed artifacts: ${artifactsError.message}`);
+    }
+
+    const purgedArtifacts = await purgeArtifacts(supabase, supabase, (artifacts || []).map(artifact => artifact.id));
+
+    result.purged_sessions = purgedSessions.sessions;
+    result.purged_artifacts = purgedSessions.artifacts + purgedArtifacts.artifacts;
+    result.removed_files = purgedSessions.files + purgedArtifacts.files;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  return result;
+}
+
+/**
+ * Runs retention for every organization. Expects a service-role client since it spans all
+ * organizations
+ */
+export async function runHistoryRetention(
+  supabase: SupabaseClient,
+  options: { limit?: number } = {}
+): Promise<RetentionRunResult[]> {
+  const { data: organizations, error } = await supabase
+    .from('organizations')
+    .select('id, settings');
+
+  if (error) {
+    throw new Error(`Failed to load organizations: ${error.message}`);
+  }
+
+  const results: RetentionRunResult[] = [];
+
+  // One organization at a time keeps storage requests predictable
+  for (const organization of organizations || []) {
+    results.push(await runOrganizationRetention(
+      supabase,
+      organization.id,
+      parseHistoryRetention(organization.settings),
+      options.limit
+    ));
+  }
+
+  return results;
+}
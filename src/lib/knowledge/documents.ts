@@ -0,0 +1,146 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { LLMProvider, LLMUsage } from '@/lib/llm/types'
+import { addUsage, estimateTokens } from '@/lib/llm/usage'
+
+export const KNOWLEDGE_LIMITS = {
+  MAX_FILE_BYTES: 5 * 1024 * 1024,
+  // Longest chunk, in characters; chunks break at paragraphs, then sentences, then words
+  CHUNK_CHARS: 2000,
+  // Text repeated from the end of the previous chunk, so a passage cut in two is still found
+  CHUNK_OVERLAP_CHARS: 200,
+  MAX_CHUNKS: 500,
+  // Chunks embedded per provider request
+  EMBEDDING_BATCH: 64
+}
+
+// Splits text at the last boundary before `limit`, preferring a paragraph, a sentence, then a word
+function splitAt(text: string, limit: number): number {
+  const window = text.slice(0, limit)
+  for (const boundary of [/\n\s*\n/g, /[.!?]\s/g, /\s/g]) {
+    let last = -1
+    for (const match of window.matchAll(boundary)) {
+      last = match.index! + match[0].length
+    }
+    // Too early a break would leave a tiny chunk
+    if (last > limit / 2) return last
+  }
+  return limit
+}
+
+/**
+ * Splits a document into chunks of at most CHUNK_CHARS, each starting with the end of the one before
+ */
+export function chunkDocument(text: string): string[] {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+  const chunks: string[] = []
+
+  let start = 0
+  while (start < normalized.length) {
+    const rest = normalized.slice(start)
+    if (rest.length <= KNOWLEDGE_LIMITS.CHUNK_CHARS) {
+      chunks.push(rest.trim())
+      break
+    }
+
+    const end = splitAt(rest, KNOWLEDGE_LIMITS.CHUNK_CHARS)
+    chunks.push(rest.slice(0, end).trim())
+
+    // Start the next chunk at a word boundary within the overlap
+    const overlapStart = Math.max(end - KNOWLEDGE_LIMITS.CHUNK_OVERLAP_CHARS, 0)
+    const wordStart = rest.slice(overlapStart, end).search(/\s\S/)
+    start += wordStart >= 0 ? overlapStart + wordStart + 1 : end
+  }
+
+  return chunks.filter(chunk => chunk.length > 0)
+}
+
+/**
+ * Tokens a document's chunks are expected to use, to reserve credits before embedding them
+ */
+export function estimateEmbeddingUsage(chunks: string[]): LLMUsage {
+  return { inputTokens: chunks.reduce((total, chunk) => total + estimateTokens(chunk), 0), outputTokens: 0 }
+}
+
+/**
+ * Embeds the chunks with the provider and saves them to the document, which is marked ready.
+ * Resolves to the tokens embedded; a failure leaves the document without chunks
+ */
+export async function indexKnowledgeDocument(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  params: {
+    documentId: string
+    organizationId: string
+    chunks: string[]
+  }
+): Promise<LLMUsage> {
+  const { documentId, organizationId, chunks } = params
+  const embeddingModel = provider.embeddingModel
+  if (!embeddingModel) {
+    throw new Error(`Embeddings are not available with ${provider.label}`)
+  }
+
+  let usage: LLMUsage = { inputTokens: 0, outputTokens: 0 }
+  try {
+    for (let offset = 0; offset < chunks.length; offset += KNOWLEDGE_LIMITS.EMBEDDING_BATCH) {
+      const batch = chunks.slice(offset, offset + KNOWLEDGE_LIMITS.EMBEDDING_BATCH)
+      const result = await provider.embed(batch)
+      usage = addUsage(usage, result.usage)
+
+      const { error } = await supabase
+        .from('knowledge_chunks')
+        .insert(batch.map((content, index) => ({
+          document_id: documentId,
+          organization_id: organizationId,
+          chunk_index: offset + index,
+          content,
+          token_count: estimateTokens(content),
+          // pgvector reads vectors in their JSON array form
+          embedding: JSON.stringify(result.embeddings[index]),
+          embedding_model: embeddingModel
+        })))
+
+      if (error) {
+        throw new Error(`Failed to save document chunks: ${error.message}`)
+      }
+    }
+  } catch (error) {
+    // Batches saved before the failure would make the document partly searchable
+    await supabase.from('knowledge_chunks').delete().eq('document_id', documentId)
+    throw error
+  }
+
+  const { error: updateError } = await supabase
+    .from('knowledge_documents')
+    .update({
+      status: 'ready',
+      chunk_count: chunks.length,
+      embedding_model: embeddingModel,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', documentId)
+
+  if (updateError) {
+    throw new Error(`Failed to update document: ${updateError.message}`)
+  }
+
+  return usage
+}
+
+/**
+ * Owners and admins manage the knowledge base; every member can search it
+ */
+export async function canManageKnowledgeBase(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('organization_members')
+    .select('role')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data?.role === 'owner' || data?.role === 'admin'
+}
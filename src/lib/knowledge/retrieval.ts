@@ -0,0 +1,90 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { LLMChatMessage, LLMCitation, LLMProvider } from '@/lib/llm/types'
+import type { KnowledgeMatch } from '@/types/knowledge'
+
+export const KNOWLEDGE_RETRIEVAL = {
+  // Chunks added to a chat message
+  MATCH_COUNT: 5,
+  // Least cosine similarity of a chunk to the message; less related chunks are left out
+  MIN_SIMILARITY: 0.2,
+  // Longest excerpt shown with a cited chunk
+  EXCERPT_LENGTH: 300
+}
+
+// Knowledge base page, where a cited chunk is shown in its document
+export const KNOWLEDGE_BASE_PATH = '/dashboard/knowledge'
+
+const KNOWLEDGE_INSTRUCTIONS = `Answer using the excerpts from the organization's knowledge base below when they are relevant.
+Cite each excerpt you use with its number in square brackets right after the statement it supports, e.g. [1].
+If the excerpts don't answer the question, say so before answering from general knowledge.`
+
+/**
+ * The organization's chunks most similar to the query, embedded with the provider's current model.
+ * Chunks embedded with another model aren't comparable and are skipped
+ */
+export async function searchKnowledgeBase(
+  supabase: SupabaseClient,
+  provider: LLMProvider,
+  organizationId: string,
+  query: string
+): Promise<KnowledgeMatch[]> {
+  if (!provider.embeddingModel) {
+    throw new Error(`Embeddings are not available with ${provider.label}`)
+  }
+
+  const { embeddings } = await provider.embed([query])
+  const { data, error } = await supabase.rpc('match_knowledge_chunks', {
+    p_organization_id: organizationId,
+    p_embedding: JSON.stringify(embeddings[0]),
+    p_embedding_model: provider.embeddingModel,
+    p_match_count: KNOWLEDGE_RETRIEVAL.MATCH_COUNT,
+    p_min_similarity: KNOWLEDGE_RETRIEVAL.MIN_SIMILARITY
+  })
+
+  if (error) {
+    throw new Error(`Failed to search the knowledge base: ${error.message}`)
+  }
+
+  return (data || []) as KnowledgeMatch[]
+}
+
+/**
+ * System message with the retrieved chunks, numbered for the model to cite
+ */
+export function buildKnowledgeMessage(matches: KnowledgeMatch[]): LLMChatMessage {
+  const excerpts = matches.length > 0
+    ? matches.map((match, index) => `[${index + 1}] ${match.filename}\n${match.content}`).join('\n\n')
+    : 'No excerpts matched this message.'
+
+  return { role: 'system', content: `${KNOWLEDGE_INSTRUCTIONS}\n\n${excerpts}` }
+}
+
+export function getKnowledgeChunkUrl(match: Pick<KnowledgeMatch, 'document_id' | 'chunk_index'>): string {
+  return `${KNOWLEDGE_BASE_PATH}?document=${match.document_id}&chunk=${match.chunk_index}`
+}
+
+/**
+ * Citations of the excerpts the reply refers to with [n]. Numbers that don't match an excerpt
+ * are left as they are
+ */
+export function getKnowledgeCitations(reply: string, matches: KnowledgeMatch[]): LLMCitation[] {
+  const citations: LLMCitation[] = []
+
+  for (const marker of reply.matchAll(/\[(\d+)\](?!\()/g)) {
+    const match = matches[Number(marker[1]) - 1]
+    if (!match) continue
+
+    const excerpt = match.content.replace(/\s+/g, ' ').trim()
+    citations.push({
+      url: getKnowledgeChunkUrl(match),
+      title: match.filename,
+      start_index: marker.index!,
+      end_index: marker.index! + marker[0].length,
+      excerpt: excerpt.length > KNOWLEDGE_RETRIEVAL.EXCERPT_LENGTH
+        ? `${excerpt.slice(0, KNOWLEDGE_RETRIEVAL.EXCERPT_LENGTH)}...`
+        : excerpt
+    })
+  }
+
+  return citations
+}
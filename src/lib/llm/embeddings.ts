@@ -0,0 +1,32 @@
+// Width of the knowledge base's vector column. Every provider's embeddings must have it
+export const EMBEDDING_DIMENSIONS = 1536
+
+// FNV-1a with a seed, so the same word always lands in the same dimensions
+function hashWord(word: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic local embedding for offline use and tests. Words are hashed into the vector
+ * (feature hashing), so texts that share words are similar. It captures vocabulary, not meaning
+ */
+export function createHashEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) || []
+
+  for (const word of words) {
+    // Each word adds to two dimensions with a hashed sign, which keeps collisions from adding up
+    for (const seed of [0, 1]) {
+      const hash = hashWord(word, seed)
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((total, value) => total + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
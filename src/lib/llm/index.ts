@@ -0,0 +1,124 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createMockProvider } from './mock-provider'
+import { createOpenAIProvider } from './openai-provider'
+import { isLLMProviderId, parseChatSettings, parseLLMProviderSettings } from './settings'
+import type { ChatSettings, LLMProvider, LLMProviderId, LLMProviderSettings } from './types'
+
+export type * from './types'
+
+const OPENAI_DEFAULT_MODELS = {
+  chat: 'gpt-4',
+  search: 'gpt-4o-search-preview',
+  // The agents SDK default, named here so agent tokens are priced at its rate
+  agent: 'gpt-4.1',
+  vision: 'gpt-4o',
+  image: 'gpt-image-1',
+  embedding: 'text-embedding-3-small'
+}
+
+/**
+ * Provider used when the organization hasn't chosen one. `LLM_PROVIDER=mock`
+ * runs the whole dashboard offline
+ */
+export function getDefaultLLMProviderId(): LLMProviderId {
+  const value = process.env.LLM_PROVIDER
+  return isLLMProviderId(value) ? value : 'openai'
+}
+
+/**
+ * Builds a provider from organization settings. Endpoints and API keys only come from
+ * the server environment, so organizations can pick a provider but not where requests go
+ */
+export function getLLMProvider(settings: LLMProviderSettings | null): LLMProvider {
+  const provider = settings?.provider || getDefaultLLMProviderId()
+
+  switch (provider) {
+    case 'mock':
+      return createMockProvider()
+
+    case 'openai_compatible': {
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL
+      const chatModel = settings?.chat_model || process.env.OPENAI_COMPATIBLE_MODEL
+      if (!baseURL || !chatModel) {
+        throw new Error('The OpenAI-compatible provider is not configured')
+      }
+
+      return createOpenAIProvider({
+        id: 'openai_compatible',
+        label: 'OpenAI-compatible server',
+        // Most local servers ignore the key, but the client requires one
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+        baseURL,
+        models: {
+          chat: chatModel,
+          search: settings?.search_model,
+          agent: settings?.agent_model || chatModel,
+          image: settings?.image_model,
+          vision: settings?.vision_model,
+          embedding: settings?.embedding_model
+        },
+        useResponses: false
+      })
+    }
+
+    case 'openai': {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI API key is not configured')
+      }
+
+      return createOpenAIProvider({
+        id: 'openai',
+        label: 'OpenAI',
+        apiKey: process.env.OPENAI_API_KEY,
+        models: {
+          chat: settings?.chat_model || OPENAI_DEFAULT_MODELS.chat,
+          search: settings?.search_model || OPENAI_DEFAULT_MODELS.search,
+          agent: settings?.agent_model || OPENAI_DEFAULT_MODELS.agent,
+          image: settings?.image_model || OPENAI_DEFAULT_MODELS.image,
+          vision: settings?.vision_model || OPENAI_DEFAULT_MODELS.vision,
+          embedding: settings?.embedding_model || OPENAI_DEFAULT_MODELS.embedding
+        },
+        useResponses: true
+      })
+    }
+  }
+}
+
+async function getOrganizationSettings(supabase: SupabaseClient, organizationId: string): Promise<unknown> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('settings')
+    .eq('id', organizationId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to load organization settings: ${error.message}`)
+  }
+
+  return data?.settings
+}
+
+/**
+ * Loads the organization's provider from `organizations.settings.llm_provider`
+ */
+export async function getOrganizationLLMProvider(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<LLMProvider> {
+  const settings = await getOrganizationSettings(supabase, organizationId)
+  return getLLMProvider(parseLLMProviderSettings(settings))
+}
+
+/**
+ * Loads the organization's provider together with its chat defaults and personas
+ */
+export async function getOrganizationChatConfig(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<{ provider: LLMProvider; chat: ChatSettings }> {
+  const settings = await getOrganizationSettings(supabase, organizationId)
+  return {
+    provider: getLLMProvider(parseLLMProviderSettings(settings)),
+    chat: parseChatSettings(settings)
+  }
+}
@@ -0,0 +1,404 @@
+import { deflateSync } from 'zlib'
+import type {
+  AgentInputItem,
+  Model,
+  ModelRequest,
+  ModelResponse,
+  SerializedTool
+} from '@openai/agents'
+import { Usage, protocol } from '@openai/agents'
+import type {
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageVariationRequest,
+  LLMChatChunk,
+  LLMChatRequest,
+  LLMProvider
+} from './types'
+import { estimateChatUsage, estimateTokens } from './usage'
+import { createHashEmbedding } from './embeddings'
+
+/**
+ * Deterministic offline provider for local development and tests.
+ * The same input always produces the same output, and nothing leaves the machine.
+ */
+
+const MOCK_IMAGE_SIZE = 256
+
+// Keywords the mock agent uses to pick a handoff, matched against the handoff tool name
+const MOCK_HANDOFF_KEYWORDS: { toolName: string; keywords: string[] }[] = [
+  { toolName: 'web_search', keywords: ['search', 'latest', 'news', 'current', 'today', 'recent'] },
+  { toolName: 'database', keywords: ['session', 'history', 'conversation', 'credit', 'usage', 'balance'] }
+]
+
+// FNV-1a, so mock output is stable across runs and machines
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text
+}
+
+// Splits text into word-sized deltas that keep their whitespace
+function toDeltas(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || []
+}
+
+function getMockReply(prompt: string, messageCount: number): string {
+  const topic = truncate(prompt.trim().replace(/\s+/g, ' '), 120)
+  return [
+    `This is a mock response (#${hashString(prompt) % 1000}) from the offline provider.`,
+    '',
+    `You said: "${topic}"`,
+    '',
+    `The conversation has ${messageCount} message${messageCount === 1 ? '' : 's'}. Switch the organization to OpenAI in settings for real answers.`
+  ].join('\n')
+}
+
+function getMockSearchResults(query: string): string {
+  return [
+    `## Mock search results for "${query}"`,
+    '',
+    `- **Result 1**: A deterministic summary about ${query}.`,
+    `- **Result 2**: Another perspective on ${query}.`,
+    '',
+    `Source: https://example.com/search?q=${encodeURIComponent(query)}`
+  ].join('\n')
+}
+
+// --- PNG encoding for placeholder images ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+// A diagonal gradient between two colors derived from the seed
+function createPlaceholderImage(seed: string): string {
+  const hash = hashString(seed)
+  const from = [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff]
+  const to = from.map(channel => 255 - channel)
+  const size = MOCK_IMAGE_SIZE
+
+  const rows = Buffer.alloc((size * 3 + 1) * size)
+  for (let y = 0; y < size; y++) {
+    const rowStart = y * (size * 3 + 1)
+    rows[rowStart] = 0 // No filter
+    for (let x = 0; x < size; x++) {
+      const t = (x + y) / (2 * (size - 1))
+      for (let channel = 0; channel < 3; channel++) {
+        rows[rowStart + 1 + x * 3 + channel] = Math.round(from[channel] + (to[channel] - from[channel]) * t)
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(size, 0)
+  header.writeUInt32BE(size, 4)
+  header[8] = 8 // Bit depth
+  header[9] = 2 // Truecolor RGB
+
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ])
+
+  return `data:image/png;base64,${png.toString('base64')}`
+}
+
+function createPlaceholderImages(seed: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => createPlaceholderImage(`${seed}:${index}`))
+}
+
+// --- Agent model ---
+
+type FunctionCallResult = Extract<AgentInputItem, { type: 'function_call_result' }>
+
+function getItemText(item: AgentInputItem): string {
+  if (!('role' in item)) return ''
+  const content = item.content
+  if (typeof content === 'string') return content
+  return content
+    .map(part => ('text' in part && typeof part.text === 'string' ? part.text : ''))
+    .join('')
+}
+
+function getLastUserMessage(input: string | AgentInputItem[]): string {
+  if (typeof input === 'string') return input
+  const message = [...input].reverse().find(item => 'role' in item && item.role === 'user')
+  return message ? getItemText(message) : ''
+}
+
+function getLastToolResult(input: string | AgentInputItem[]): FunctionCallResult | null {
+  if (typeof input === 'string' || input.length === 0) return null
+  const last = input[input.length - 1]
+  return last.type === 'function_call_result' ? last as FunctionCallResult : null
+}
+
+function getToolResultText(result: FunctionCallResult): string {
+  const output = result.output as { type: string; text?: string }
+  return output.type === 'text' && output.text ? output.text : JSON.stringify(output)
+}
+
+// Fills a tool's JSON schema: nullable fields get null, strings get the user's message
+function buildToolArguments(tool: Extract<SerializedTool, { type: 'function' }>, userMessage: string): string {
+  const properties = (tool.parameters.properties || {}) as Record<string, { type?: string | string[]; nullable?: boolean }>
+  const args: Record<string, unknown> = {}
+
+  for (const [name, schema] of Object.entries(properties)) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (schema.nullable || types.includes('null')) {
+      args[name] = null
+    } else if (types.includes('number') || types.includes('integer')) {
+      args[name] = 1
+    } else if (types.includes('boolean')) {
+      args[name] = false
+    } else {
+      args[name] = userMessage
+    }
+  }
+
+  return JSON.stringify(args)
+}
+
+function pickByKeywords<T>(candidates: T[], getName: (candidate: T) => string, message: string): T | undefined {
+  const text = message.toLowerCase()
+  return candidates.find(candidate => {
+    const name = getName(candidate).toLowerCase()
+    return MOCK_HANDOFF_KEYWORDS.some(({ toolName, keywords }) =>
+      name.includes(toolName) && keywords.some(keyword => text.includes(keyword))
+    )
+  })
+}
+
+// The tool sharing the most name words with the message (e.g. "credit" for get_credit_usage)
+function pickBestNamedTool<T extends { name: string }>(tools: T[], message: string): T | undefined {
+  const text = message.toLowerCase()
+  let best: T | undefined
+  let bestScore = -1
+
+  for (const tool of tools) {
+    const score = tool.name
+      .toLowerCase()
+      .split('_')
+      .filter(word => word.length > 3 && text.includes(word))
+      .length
+    if (score > bestScore) {
+      best = tool
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+/**
+ * Rule-based agent model: hands off and calls tools when the user's message mentions
+ * their keywords, then answers with the tool output. Exercises handoffs and approvals offline
+ */
+class MockAgentModel implements Model {
+  private plan(request: ModelRequest): protocol.OutputModelItem[] {
+    const userMessage = getLastUserMessage(request.input)
+    const toolResult = getLastToolResult(request.input)
+    const functionTools = request.tools.filter(
+      (tool): tool is Extract<SerializedTool, { type: 'function' }> => tool.type === 'function'
+    )
+    const callId = `mock_call_${hashString(`${userMessage}:${request.input.length}`)}`
+
+    // Answer with the output of the tool that just ran
+    if (toolResult && !toolResult.name.startsWith('transfer_to_')) {
+      return [this.message(`Here is what ${toolResult.name} returned:\n\n${truncate(getToolResultText(toolResult), 1500)}`)]
+    }
+
+    const handoff = toolResult ? undefined : pickByKeywords(request.handoffs, h => h.toolName, userMessage)
+    if (handoff) {
+      return [{ type: 'function_call', callId, name: handoff.toolName, arguments: '{}', status: 'completed' }]
+    }
+
+    // Right after a handoff, specialists call the tool whose name best matches the message
+    const tool = pickByKeywords(functionTools, t => t.name, userMessage)
+      || (toolResult ? pickBestNamedTool(functionTools, userMessage) : undefined)
+    if (tool) {
+      return [{
+        type: 'function_call',
+        callId,
+        name: tool.name,
+        arguments: buildToolArguments(tool, userMessage),
+        status: 'completed'
+      }]
+    }
+
+    const messageCount = typeof request.input === 'string' ? 1 : request.input.filter(item => 'role' in item).length
+    return [this.message(getMockReply(userMessage, messageCount))]
+  }
+
+  private message(text: string): protocol.OutputModelItem {
+    return {
+      type: 'message',
+      role: 'assistant',
+      status: 'completed',
+      content: [{ type: 'output_text', text }]
+    }
+  }
+
+  private usage(request: ModelRequest, output: protocol.OutputModelItem[]) {
+    const inputTokens = estimateTokens(JSON.stringify(request.input))
+    const outputTokens = estimateTokens(JSON.stringify(output))
+    return { requests: 1, inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+  }
+
+  async getResponse(request: ModelRequest): Promise<ModelResponse> {
+    const output = this.plan(request)
+    return { usage: new Usage(this.usage(request, output)), output }
+  }
+
+  async *getStreamedResponse(request: ModelRequest): AsyncIterable<protocol.StreamEvent> {
+    const output = this.plan(request)
+    yield { type: 'response_started' }
+
+    for (const item of output) {
+      if (item.type === 'message') {
+        for (const part of item.content) {
+          if (part.type !== 'output_text') continue
+          for (const delta of toDeltas(part.text)) {
+            yield { type: 'output_text_delta', delta }
+          }
+        }
+      }
+    }
+
+    yield {
+      type: 'response_done',
+      response: {
+        id: `mock_resp_${hashString(JSON.stringify(output))}`,
+        usage: this.usage(request, output),
+        output
+      }
+    }
+  }
+}
+
+export function createMockProvider(): LLMProvider {
+  const agentModel = new MockAgentModel()
+
+  return {
+    id: 'mock',
+    label: 'Mock (offline)',
+    supportsWebSearch: true,
+    supportsImages: true,
+    supportsVision: true,
+
+    // Without a model override, mock chats are priced at the default token rate
+    getChatModel({ model }) {
+      return model || 'mock'
+    },
+
+    async streamChat({ messages, webSearch, maxTokens }: LLMChatRequest) {
+      const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')
+      const prompt = lastUserMessage?.content || ''
+      const systemPrompt = messages.find(message => message.role === 'system')?.content
+      const attachments = lastUserMessage?.attachments || []
+      let reply = getMockReply(prompt, messages.filter(message => message.role !== 'system').length)
+
+      // Attachments are listed rather than read
+      if (attachments.length > 0) {
+        const names = attachments.map(attachment => attachment.type === 'image' ? 'an image' : attachment.filename)
+        reply += `\n\nAttachments: ${names.join(', ')}`
+      }
+
+      // Cite every numbered excerpt the request includes, e.g. knowledge base results
+      const sourceMarkers = messages
+        .filter(message => message.role === 'system')
+        .flatMap(message => message.content.match(/^\[\d+\](?= )/gm) || [])
+      if (sourceMarkers.length > 0) {
+        reply += `\n\nBased on the provided sources ${sourceMarkers.join('')}.`
+      }
+
+      // Echo the instructions so organization prompts and personas are visible offline
+      if (systemPrompt) {
+        reply += `\n\nInstructions: "${truncate(systemPrompt.replace(/\s+/g, ' '), 120)}"`
+      }
+      if (maxTokens) {
+        reply = truncate(reply, maxTokens * 4)
+      }
+
+      return (async function* (): AsyncGenerator<LLMChatChunk> {
+        for (const delta of toDeltas(reply)) {
+          yield { type: 'text', delta }
+        }
+        if (webSearch) {
+          yield {
+            type: 'citation',
+            citation: {
+              url: `https://example.com/search?q=${encodeURIComponent(truncate(prompt, 60))}`,
+              title: 'Mock search result',
+              start_index: 0,
+              end_index: reply.length
+            }
+          }
+        }
+        yield { type: 'usage', usage: estimateChatUsage(messages, reply) }
+      })()
+    },
+
+    async generateImages({ prompt, count, quality, size }: ImageGenerationRequest) {
+      return createPlaceholderImages(`generate:${prompt}:${quality}:${size}`, count)
+    },
+
+    async editImages({ images, mask, prompt, count }: ImageEditRequest) {
+      const sources = images.map(image => `${image.name}:${image.size}`).join(',')
+      const masked = mask ? `:mask:${mask.size}` : ''
+      return createPlaceholderImages(`edit:${sources}${masked}:${prompt}`, count)
+    },
+
+    async createImageVariations({ image, count }: ImageVariationRequest) {
+      return createPlaceholderImages(`variation:${image.name}:${image.size}`, count)
+    },
+
+    async searchWeb(query: string) {
+      return getMockSearchResults(query)
+    },
+
+    embeddingModel: 'mock-embedding',
+
+    async embed(texts: string[]) {
+      return {
+        embeddings: texts.map(createHashEmbedding),
+        usage: { inputTokens: estimateTokens(texts.join('\n')), outputTokens: 0 }
+      }
+    },
+
+    agents: {
+      modelProvider: { getModel: () => agentModel },
+      tracingDisabled: true
+    }
+  }
+}
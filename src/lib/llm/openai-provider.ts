@@ -0,0 +1,290 @@
+import OpenAI from 'openai'
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import { Agent, OpenAIProvider, Runner, webSearchTool } from '@openai/agents'
+import type {
+  ImageEditRequest,
+  ImageGenerationRequest,
+  ImageVariationRequest,
+  LLMChatChunk,
+  LLMChatMessage,
+  LLMChatRequest,
+  LLMCitation,
+  LLMProvider,
+  LLMProviderId
+} from './types'
+import { EMBEDDING_DIMENSIONS } from './embeddings'
+
+interface DeltaWithAnnotations {
+  content?: string
+  annotations?: Array<{
+    type: string
+    url_citation?: LLMCitation
+  }>
+}
+
+export interface OpenAIProviderOptions {
+  id: Extract<LLMProviderId, 'openai' | 'openai_compatible'>
+  label: string
+  apiKey: string
+  // Set for OpenAI-compatible servers
+  baseURL?: string
+  models: {
+    chat: string
+    // Chat model with built-in web search; web search is unavailable without one
+    search?: string
+    agent?: string
+    // Image model; image generation is unavailable without one
+    image?: string
+    // Model that reads image and PDF attachments; attachments are unavailable without one
+    vision?: string
+    // Embedding model of the knowledge base; it is unavailable without one
+    embedding?: string
+  }
+  // Hosted tools such as web search need the Responses API, which compatible servers rarely implement
+  useResponses: boolean
+}
+
+function toImageUrls(data: { b64_json?: string; url?: string }[] | undefined): string[] {
+  return (data || [])
+    .map(image => image.b64_json ? `data:image/png;base64,${image.b64_json}` : image.url)
+    .filter((url): url is string => !!url)
+}
+
+// Adds the model name to API errors so failures are easy to trace in the UI. The API error is kept
+// as the cause, so callers can tell rate limits and outages from bad requests
+function toImageError(error: unknown, model: string): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('verification') || error.message.includes('verified')) {
+      return new Error(`Organization verification required for ${model}. Please verify your OpenAI organization in the OpenAI console.`, { cause: error })
+    }
+    return new Error(`${model} API Error: ${error.message}`, { cause: error })
+  }
+  return new Error(`Failed to generate images with ${model}`)
+}
+
+function toImageQuality(quality: string): 'low' | 'medium' | 'high' | 'auto' {
+  if (quality === 'hd') return 'high'
+  if (quality === 'standard') return 'medium'
+  return quality as 'low' | 'medium' | 'high' | 'auto'
+}
+
+async function toFileData(url: string, mimeType: string): Promise<string> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load attachment: ${response.status} ${response.statusText}`)
+  }
+  const data = Buffer.from(await response.arrayBuffer()).toString('base64')
+  return `data:${mimeType};base64,${data}`
+}
+
+// User messages with attachments are sent as content parts; images by URL, files inline
+async function toCompletionMessages(messages: LLMChatMessage[]): Promise<ChatCompletionMessageParam[]> {
+  return Promise.all(messages.map(async (message): Promise<ChatCompletionMessageParam> => {
+    if (message.role !== 'user' || !message.attachments?.length) {
+      return { role: message.role, content: message.content }
+    }
+
+    const parts: ChatCompletionContentPart[] = [{ type: 'text', text: message.content }]
+    for (const attachment of message.attachments) {
+      if (attachment.type === 'image') {
+        parts.push({ type: 'image_url', image_url: { url: attachment.url } })
+      } else {
+        parts.push({
+          type: 'file',
+          file: { filename: attachment.filename, file_data: await toFileData(attachment.url, attachment.mimeType) }
+        })
+      }
+    }
+    return { role: 'user', content: parts }
+  }))
+}
+
+/**
+ * Provider backed by the OpenAI SDK. Used both for OpenAI itself and for
+ * OpenAI-compatible servers, which get a client with their own base URL
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const { models } = options
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL })
+  // The agents SDK ships its own OpenAI client version, so it gets the same credentials rather than the client
+  const modelProvider = new OpenAIProvider({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    useResponses: options.useResponses
+  })
+
+  const requireImageModel = (): string => {
+    if (!models.image) {
+      throw new Error(`Image generation is not available with ${options.label}`)
+    }
+    return models.image
+  }
+
+  // Web search and attachments need their own models, so organization model overrides only apply without them
+  const getChatModel = ({ webSearch, model, vision }: Pick<LLMChatRequest, 'webSearch' | 'model'> & { vision?: boolean }): string => {
+    if (webSearch && models.search) return models.search
+    if (vision && models.vision) return models.vision
+    return model || models.chat
+  }
+
+  return {
+    id: options.id,
+    label: options.label,
+    supportsWebSearch: !!models.search,
+    supportsImages: !!models.image,
+    supportsVision: !!models.vision,
+
+    getChatModel,
+
+    async streamChat({ messages, webSearch, model, temperature, maxTokens }: LLMChatRequest) {
+      if (webSearch && !models.search) {
+        throw new Error(`Web search is not available with ${options.label}`)
+      }
+
+      const vision = messages.some(message => message.attachments?.length)
+      if (vision && !models.vision) {
+        throw new Error(`Attachments are not available with ${options.label}`)
+      }
+
+      const completion = await client.chat.completions.create({
+        model: getChatModel({ webSearch, model, vision }),
+        messages: await toCompletionMessages(messages),
+        stream: true,
+        // Usage arrives in a final chunk without choices
+        stream_options: { include_usage: true },
+        max_tokens: maxTokens,
+        // Search models reject sampling parameters
+        ...(webSearch ? {
+          web_search_options: {
+            search_context_size: 'medium' as 'medium' | 'low' | 'high'
+          }
+        } : {
+          temperature
+        })
+      })
+
+      return (async function* (): AsyncGenerator<LLMChatChunk> {
+        for await (const chunk of completion) {
+          if (chunk.usage) {
+            yield {
+              type: 'usage',
+              usage: { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens }
+            }
+          }
+
+          const delta = chunk.choices[0]?.delta as DeltaWithAnnotations | undefined
+          if (!delta) continue
+
+          for (const annotation of delta.annotations || []) {
+            if (annotation.type === 'url_citation' && annotation.url_citation) {
+              yield { type: 'citation', citation: annotation.url_citation }
+            }
+          }
+
+          if (delta.content) {
+            yield { type: 'text', delta: delta.content }
+          }
+        }
+      })()
+    },
+
+    async generateImages({ prompt, count, quality, size }: ImageGenerationRequest) {
+      const model = requireImageModel()
+      try {
+        const result = await client.images.generate({
+          model,
+          prompt,
+          n: count,
+          quality: toImageQuality(quality),
+          size: size as '1024x1024' | '1536x1024' | '1024x1536' | 'auto'
+        })
+        return toImageUrls(result.data)
+      } catch (error) {
+        throw toImageError(error, model)
+      }
+    },
+
+    async editImages({ images, mask, prompt, count, quality, size }: ImageEditRequest) {
+      const model = requireImageModel()
+      try {
+        const result = await client.images.edit({
+          model,
+          // GPT Image 1 accepts up to 16 images natively as an array
+          image: images.length === 1 ? images[0] : images,
+          ...(mask ? { mask } : {}),
+          prompt,
+          n: count,
+          quality: toImageQuality(quality),
+          size: size as '1024x1024' // Cast to supported type while GPT-Image-1 API handles additional sizes
+        } as Parameters<typeof client.images.edit>[0])
+        return toImageUrls(result.data)
+      } catch (error) {
+        throw toImageError(error, model)
+      }
+    },
+
+    async createImageVariations({ image, count, size }: ImageVariationRequest) {
+      requireImageModel()
+      // Only DALL-E 2 supports variations
+      const model = 'dall-e-2'
+      try {
+        const result = await client.images.createVariation({
+          model,
+          image,
+          n: count,
+          size: size as '256x256' | '512x512' | '1024x1024',
+          response_format: 'url'
+        })
+        return toImageUrls(result.data)
+      } catch (error) {
+        throw toImageError(error, model)
+      }
+    },
+
+    async searchWeb(query: string) {
+      if (!models.search) {
+        throw new Error(`Web search is not available with ${options.label}`)
+      }
+
+      const runner = new Runner({ modelProvider, model: models.agent })
+      const result = await runner.run(new Agent({
+        name: 'Web Search Agent',
+        tools: [webSearchTool()],
+        instructions: `Search for: ${query}. Format your response with clear headings, bullet points, and proper markdown formatting for readability.`
+      }), `Please search for: ${query}`)
+
+      return result.finalOutput || `Search completed for "${query}"`
+    },
+
+    embeddingModel: models.embedding || null,
+
+    async embed(texts: string[]) {
+      if (!models.embedding) {
+        throw new Error(`Embeddings are not available with ${options.label}`)
+      }
+
+      const result = await client.embeddings.create({
+        model: models.embedding,
+        input: texts,
+        // Only OpenAI's models can be shortened; compatible servers must produce the width themselves
+        ...(options.id === 'openai' ? { dimensions: EMBEDDING_DIMENSIONS } : {})
+      })
+
+      const embeddings = [...result.data].sort((a, b) => a.index - b.index).map(item => item.embedding)
+      if (embeddings.some(embedding => embedding.length !== EMBEDDING_DIMENSIONS)) {
+        throw new Error(`${models.embedding} embeddings must have ${EMBEDDING_DIMENSIONS} dimensions`)
+      }
+
+      return {
+        embeddings,
+        usage: { inputTokens: result.usage.prompt_tokens, outputTokens: 0 }
+      }
+    },
+
+    agents: {
+      modelProvider,
+      model: models.agent,
+      tracingDisabled: options.id !== 'openai'
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { ChatPersona, ChatSettings, LLMProviderId, LLMProviderSettings } from './types'
+
+/**
+ * Provider choices shown in organization settings. Safe to import from client components
+ */
+export const LLM_PROVIDER_OPTIONS: { id: LLMProviderId; label: string; description: string }[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'GPT models for chat and agents, GPT Image 1 for images, with built-in web search'
+  },
+  {
+    id: 'openai_compatible',
+    label: 'OpenAI-compatible server',
+    description: 'A local or self-hosted endpoint configured on the server (e.g. Ollama, vLLM, LM Studio)'
+  },
+  {
+    id: 'mock',
+    label: 'Mock (offline)',
+    description: 'Deterministic replies and placeholder images for development without network access'
+  }
+]
+
+const PROVIDER_IDS = LLM_PROVIDER_OPTIONS.map(option => option.id)
+
+export function isLLMProviderId(value: unknown): value is LLMProviderId {
+  return typeof value === 'string' && PROVIDER_IDS.includes(value as LLMProviderId)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * Reads `llm_provider` from organization settings, ignoring unknown providers and fields
+ */
+export function parseLLMProviderSettings(settings: unknown): LLMProviderSettings | null {
+  const value = (settings as { llm_provider?: Record<string, unknown> } | null)?.llm_provider
+  if (!value || !isLLMProviderId(value.provider)) {
+    return null
+  }
+
+  return {
+    provider: value.provider,
+    chat_model: optionalString(value.chat_model),
+    search_model: optionalString(value.search_model),
+    agent_model: optionalString(value.agent_model),
+    image_model: optionalString(value.image_model),
+    vision_model: optionalString(value.vision_model),
+    embedding_model: optionalString(value.embedding_model)
+  }
+}
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful assistant.'
+
+export const CHAT_LIMITS = {
+  TEMPERATURE: { min: 0, max: 2 },
+  MAX_TOKENS: { min: 1, max: 32000 },
+  SYSTEM_PROMPT_LENGTH: 4000,
+  PERSONAS: 20
+}
+
+function optionalNumber(value: unknown, { min, max }: { min: number; max: number }): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : undefined
+}
+
+function parseChatPersona(value: unknown): ChatPersona | null {
+  const persona = value as Record<string, unknown> | null
+  const id = optionalString(persona?.id)
+  const name = optionalString(persona?.name)
+  const systemPrompt = optionalString(persona?.system_prompt)
+  if (!id || !name || !systemPrompt) {
+    return null
+  }
+
+  return {
+    id,
+    name,
+    description: optionalString(persona?.description),
+    system_prompt: systemPrompt.slice(0, CHAT_LIMITS.SYSTEM_PROMPT_LENGTH)
+  }
+}
+
+/**
+ * Reads `chat` from organization settings. Out of range values are dropped so the provider default applies
+ */
+export function parseChatSettings(settings: unknown): ChatSettings {
+  const value = (settings as { chat?: Record<string, unknown> } | null)?.chat
+  const personas = Array.isArray(value?.personas)
+    ? value.personas.map(parseChatPersona).filter((persona): persona is ChatPersona => persona !== null)
+    : []
+
+  return {
+    model: optionalString(value?.model),
+    temperature: optionalNumber(value?.temperature, CHAT_LIMITS.TEMPERATURE),
+    max_tokens: Number.isInteger(value?.max_tokens) ? optionalNumber(value?.max_tokens, CHAT_LIMITS.MAX_TOKENS) : undefined,
+    system_prompt: optionalString(value?.system_prompt)?.slice(0, CHAT_LIMITS.SYSTEM_PROMPT_LENGTH),
+    personas: personas.slice(0, CHAT_LIMITS.PERSONAS)
+  }
+}
+
+export function findChatPersona(settings: ChatSettings, personaId: unknown): ChatPersona | null {
+  return settings.personas.find(persona => persona.id === personaId) || null
+}
+
+/**
+ * System prompt for a chat turn: the organization prompt, followed by the persona's instructions
+ */
+export function buildChatSystemPrompt(settings: ChatSettings, persona: ChatPersona | null): string {
+  const basePrompt = settings.system_prompt || DEFAULT_SYSTEM_PROMPT
+  return persona ? `${basePrompt}\n\n${persona.system_prompt}` : basePrompt
+}
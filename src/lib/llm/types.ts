@@ -0,0 +1,142 @@
+import type { ModelProvider } from '@openai/agents'
+
+export type LLMProviderId = 'openai' | 'openai_compatible' | 'mock'
+
+/**
+ * Provider selection stored in `organizations.settings.llm_provider`.
+ * Model names are optional overrides of the provider defaults
+ */
+export interface LLMProviderSettings {
+  provider: LLMProviderId
+  chat_model?: string
+  search_model?: string
+  agent_model?: string
+  image_model?: string
+  vision_model?: string
+  embedding_model?: string
+}
+
+export interface ChatPersona {
+  id: string
+  name: string
+  description?: string
+  // Added to the organization's system prompt for sessions that use this persona
+  system_prompt: string
+}
+
+/**
+ * Chat defaults stored in `organizations.settings.chat`. Unset values fall back to the provider
+ */
+export interface ChatSettings {
+  model?: string
+  temperature?: number
+  max_tokens?: number
+  system_prompt?: string
+  personas: ChatPersona[]
+}
+
+/**
+ * A file sent with a user message. Text documents are added to the message content instead
+ */
+export type LLMAttachment =
+  | { type: 'image'; url: string }
+  | { type: 'file'; url: string; filename: string; mimeType: string }
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+  attachments?: LLMAttachment[]
+}
+
+export interface LLMCitation {
+  url: string
+  title: string
+  start_index: number
+  end_index: number
+  // Quoted source text, for sources that aren't web pages such as knowledge base documents
+  excerpt?: string
+}
+
+// Tokens of one model call. Input includes the system prompt and history sent with the message
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type LLMChatChunk =
+  | { type: 'text'; delta: string }
+  | { type: 'citation'; citation: LLMCitation }
+  // Sent once after the reply, when the backend reports usage
+  | { type: 'usage'; usage: LLMUsage }
+
+export interface LLMChatRequest {
+  messages: LLMChatMessage[]
+  webSearch?: boolean
+  // Overrides the provider's chat model; web search always uses the search model
+  model?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface LLMEmbeddingResult {
+  // One vector per input text, in order
+  embeddings: number[][]
+  usage: LLMUsage
+}
+
+export type ImageQuality = 'standard' | 'hd'
+
+export interface ImageGenerationRequest {
+  prompt: string
+  count: number
+  quality: ImageQuality
+  size: string
+}
+
+export interface ImageEditRequest {
+  images: File[]
+  // PNG the size of the first image; its transparent pixels mark the area to regenerate
+  mask?: File
+  prompt: string
+  count: number
+  quality: string
+  size: string
+}
+
+export interface ImageVariationRequest {
+  image: File
+  count: number
+  size: string
+}
+
+/**
+ * An LLM backend used by chat, agent mode and the sandbox image routes.
+ * Image methods resolve to image URLs, which may be data URLs
+ */
+export interface LLMProvider {
+  id: LLMProviderId
+  label: string
+  supportsWebSearch: boolean
+  supportsImages: boolean
+  // Whether messages can carry image and PDF attachments
+  supportsVision: boolean
+  // The model streamChat uses for the request, so its tokens can be priced before the call.
+  // Requests with attachments use the vision model
+  getChatModel(request: Pick<LLMChatRequest, 'webSearch' | 'model'> & { vision?: boolean }): string
+  // Starts a chat completion. Request errors reject before any chunk is streamed
+  streamChat(request: LLMChatRequest): Promise<AsyncIterable<LLMChatChunk>>
+  generateImages(request: ImageGenerationRequest): Promise<string[]>
+  editImages(request: ImageEditRequest): Promise<string[]>
+  createImageVariations(request: ImageVariationRequest): Promise<string[]>
+  // Answers a web search query with a markdown summary of the results
+  searchWeb(query: string): Promise<string>
+  // Model the knowledge base is embedded with; null when the provider can't embed
+  embeddingModel: string | null
+  // Embeds texts as vectors of EMBEDDING_DIMENSIONS
+  embed(texts: string[]): Promise<LLMEmbeddingResult>
+  agents: {
+    modelProvider: ModelProvider
+    model?: string
+    tracingDisabled: boolean
+  }
+}
@@ -0,0 +1,35 @@
+import type { LLMChatMessage, LLMUsage } from './types'
+
+/**
+ * Rough token count of text, at about four characters per token
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Rough tokens of an attachment, whose size depends on the image resolution or the pages of a file
+export const ATTACHMENT_TOKEN_ESTIMATES = {
+  image: 1000,
+  file: 4000
+}
+
+/**
+ * Estimated usage of a chat completion, for backends that don't report it
+ */
+export function estimateChatUsage(messages: LLMChatMessage[], reply: string): LLMUsage {
+  const attachmentTokens = messages
+    .flatMap(message => message.attachments || [])
+    .reduce((total, attachment) => total + ATTACHMENT_TOKEN_ESTIMATES[attachment.type], 0)
+
+  return {
+    inputTokens: estimateTokens(messages.map(message => message.content).join('\n')) + attachmentTokens,
+    outputTokens: estimateTokens(reply)
+  }
+}
+
+export function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens
+  }
+}
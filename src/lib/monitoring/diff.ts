@@ -0,0 +1,168 @@
+import type { AgentChangeType } from '@/types/history'
+import type { MonitorItem, MonitorSnapshot } from './fetchers'
+
+/**
+ * A change detected between two snapshots, ready to be stored as an agent_findings row
+ */
+export interface DetectedChange {
+  change_type: AgentChangeType
+  summary: string
+  details: Record<string, unknown>
+  confidence_score: number
+}
+
+// Limits on how much diff detail is stored per finding
+const MAX_DETAIL_LINES = 50
+const MAX_DETAIL_ITEMS = 25
+
+// Ignore content changes smaller than this fraction of lines (timestamps, counters, ...)
+const MIN_CONTENT_CHANGE_RATIO = 0.02
+
+function roundScore(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 100) / 100
+}
+
+function toLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(line => line.length > 0)
+}
+
+/**
+ * Line-level set difference: lines present in `next` but not in `previous` and vice versa.
+ * Order-insensitive on purpose - monitored pages often reshuffle blocks without changing them.
+ */
+function diffLines(previous: string[], next: string[]): { added: string[]; removed: string[] } {
+  const previousSet = new Set(previous)
+  const nextSet = new Set(next)
+  return {
+    added: next.filter(line => !previousSet.has(line)),
+    removed: previous.filter(line => !nextSet.has(line)),
+  }
+}
+
+/**
+ * Jaccard similarity between two structure signatures
+ */
+function structureSimilarity(previous: string[], next: string[]): number {
+  if (previous.length === 0 && next.length === 0) return 1
+  const previousSet = new Set(previous)
+  const nextSet = new Set(next)
+  const intersection = Array.from(nextSet).filter(entry => previousSet.has(entry)).length
+  const union = new Set([...previous, ...next]).size
+  return union === 0 ? 1 : intersection / union
+}
+
+function findKeywordMatches(keywords: string[], sources: string[]): Array<{ keyword: string; excerpts: string[] }> {
+  return keywords
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword.length > 0)
+    .map(keyword => {
+      const needle = keyword.toLowerCase()
+      const excerpts = sources
+        .filter(source => source.toLowerCase().includes(needle))
+        .slice(0, 5)
+      return { keyword, excerpts }
+    })
+    .filter(match => match.excerpts.length > 0)
+}
+
+function describeItems(items: MonitorItem[]): string {
+  const titles = items.slice(0, 3).map(item => `"${item.title}"`).join(', ')
+  return items.length > 3 ? `${titles} and ${items.length - 3} more` : titles
+}
+
+/**
+ * Compares two snapshots of the same monitor and classifies what changed.
+ *
+ * - new_content: items (feed entries, posts, results, records) that weren't there before
+ * - keyword_match: a watched keyword appears in newly added content
+ * - structure_change: the page layout or JSON schema changed
+ * - content_change: the text changed beyond what new items explain
+ *
+ * The first snapshot of a monitor is a baseline and produces no changes.
+ */
+export function diffSnapshots(
+  previous: MonitorSnapshot | null | undefined,
+  current: MonitorSnapshot,
+  keywords: string[] = []
+): DetectedChange[] {
+  if (!previous) return []
+
+  const changes: DetectedChange[] = []
+
+  // New items
+  const previousIds = new Set(previous.items.map(item => item.id))
+  const newItems = current.items.filter(item => !previousIds.has(item.id))
+  if (newItems.length > 0) {
+    changes.push({
+      change_type: 'new_content',
+      summary: `${newItems.length} new item${newItems.length !== 1 ? 's' : ''}: ${describeItems(newItems)}`,
+      details: {
+        items: newItems.slice(0, MAX_DETAIL_ITEMS),
+        total_new_items: newItems.length,
+      },
+      // Item identity comes straight from the source, so this is rarely a false positive
+      confidence_score: 0.95,
+    })
+  }
+
+  // Structure
+  const similarity = structureSimilarity(previous.structure, current.structure)
+  if (similarity < 1) {
+    const previousSet = new Set(previous.structure)
+    const currentSet = new Set(current.structure)
+    changes.push({
+      change_type: 'structure_change',
+      summary: `Page structure changed (${Math.round((1 - similarity) * 100)}% different)`,
+      details: {
+        added: current.structure.filter(entry => !previousSet.has(entry)),
+        removed: previous.structure.filter(entry => !currentSet.has(entry)),
+        similarity: roundScore(similarity),
+      },
+      confidence_score: roundScore(0.5 + (1 - similarity) / 2),
+    })
+  }
+
+  // Text content
+  const previousLines = toLines(previous.text)
+  const currentLines = toLines(current.text)
+  const { added, removed } = diffLines(previousLines, currentLines)
+
+  if (previous.content_hash !== current.content_hash) {
+    // Lines that only belong to the new items are already reported as new content
+    const newItemTitles = new Set(newItems.map(item => item.title))
+    const unexplainedAdded = added.filter(line => !newItemTitles.has(line))
+    const changedLines = unexplainedAdded.length + removed.length
+    const changeRatio = changedLines / Math.max(previousLines.length, currentLines.length, 1)
+
+    if (changedLines > 0 && changeRatio >= MIN_CONTENT_CHANGE_RATIO) {
+      changes.push({
+        change_type: 'content_change',
+        summary: `Content changed: ${unexplainedAdded.length} line${unexplainedAdded.length !== 1 ? 's' : ''} added, ${removed.length} removed`,
+        details: {
+          added: unexplainedAdded.slice(0, MAX_DETAIL_LINES),
+          removed: removed.slice(0, MAX_DETAIL_LINES),
+          change_ratio: roundScore(changeRatio),
+          previous_hash: previous.content_hash,
+          current_hash: current.content_hash,
+        },
+        confidence_score: roundScore(0.5 + changeRatio),
+      })
+    }
+  }
+
+  // Keywords only count when they show up in content that is new since the last check
+  const newContent = [...added, ...newItems.map(item => item.title)]
+  const keywordMatches = findKeywordMatches(keywords, newContent)
+  if (keywordMatches.length > 0) {
+    changes.push({
+      change_type: 'keyword_match',
+      summary: `Keyword${keywordMatches.length !== 1 ? 's' : ''} found in new content: ${keywordMatches.map(match => match.keyword).join(', ')}`,
+      details: {
+        matches: keywordMatches,
+      },
+      confidence_score: 1,
+    })
+  }
+
+  return changes
+}
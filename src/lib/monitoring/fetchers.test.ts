@@ -0,0 +1,124 @@
+import { after, afterEach, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { assertPublicUrl, fetchMonitorSnapshot } from './fetchers'
+import { diffSnapshots } from './diff'
+
+const PUBLIC_URL = 'http://93.184.216.34/feed.xml'
+
+function feed(titles: string[]): string {
+  const items = titles.map(title => `<item><title>${title}</title><guid>${title}</guid></item>`)
+  return `<?xml version="1.0"?><rss><channel><title>Fixture</title>${items.join('')}</channel></rss>`
+}
+
+afterEach(() => {
+  delete process.env.MONITOR_ALLOW_PRIVATE_TARGETS
+})
+
+describe('assertPublicUrl', () => {
+  it('rejects loopback, private, link-local and unique-local targets', async () => {
+    const targets = [
+      'http://127.0.0.1/',
+      'http://localhost:4000/feed.xml',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.5/',
+      'http://172.16.3.4/',
+      'http://192.168.1.1/',
+      'http://[::1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/',
+      'http://[::ffff:127.0.0.1]/',
+    ]
+
+    for (const target of targets) {
+      await assert.rejects(assertPublicUrl(target), /not a public address/, target)
+    }
+  })
+
+  it('rejects other protocols and accepts public addresses', async () => {
+    await assert.rejects(assertPublicUrl('file:///etc/passwd'), /not an http\(s\) URL/)
+    await assertPublicUrl(PUBLIC_URL)
+  })
+
+  it('allows private targets with the fixture flag', async () => {
+    process.env.MONITOR_ALLOW_PRIVATE_TARGETS = 'true'
+    await assertPublicUrl('http://127.0.0.1:4000/feed.xml')
+  })
+})
+
+describe('fetchMonitorSnapshot', () => {
+  it('checks every redirect', async () => {
+    const requested: string[] = []
+    const fetchImpl = (async (url: string) => {
+      requested.push(url)
+      return new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest/meta-data/' } })
+    }) as unknown as typeof fetch
+
+    await assert.rejects(
+      fetchMonitorSnapshot({ type: 'rss_feed', target_url: PUBLIC_URL }, { fetchImpl }),
+      /169\.254\.169\.254 is not a public address/
+    )
+    assert.deepEqual(requested, [PUBLIC_URL])
+  })
+
+  it('stops reading responses over the size limit', async () => {
+    const fetchImpl = (async () => new Response('x'.repeat(3 * 1024 * 1024), {
+      headers: { 'content-type': 'text/html' },
+    })) as unknown as typeof fetch
+
+    await assert.rejects(
+      fetchMonitorSnapshot({ type: 'website', target_url: PUBLIC_URL }, { fetchImpl }),
+      /larger than 2 MB/
+    )
+  })
+})
+
+describe('local fixture server', () => {
+  let server: Server
+  let titles = ['First post']
+  let targetUrl = ''
+
+  before(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/old-feed.xml') {
+        response.writeHead(301, { location: '/feed.xml' })
+        response.end()
+        return
+      }
+      response.writeHead(200, { 'content-type': 'application/rss+xml' })
+      response.end(feed(titles))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    targetUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/old-feed.xml`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  it('is blocked without the fixture flag', async () => {
+    await assert.rejects(
+      fetchMonitorSnapshot({ type: 'rss_feed', target_url: targetUrl }),
+      /not a public address/
+    )
+  })
+
+  it('reports new feed items against the baseline', async () => {
+    process.env.MONITOR_ALLOW_PRIVATE_TARGETS = 'true'
+    const monitor = { type: 'rss_feed' as const, target_url: targetUrl }
+
+    const baseline = await fetchMonitorSnapshot(monitor)
+    assert.equal(baseline.items.length, 1)
+    assert.deepEqual(diffSnapshots(null, baseline), [])
+
+    titles = ['Second post', 'First post']
+    const current = await fetchMonitorSnapshot(monitor)
+    const changes = diffSnapshots(baseline, current, ['second'])
+
+    const newContent = changes.find(change => change.change_type === 'new_content')
+    assert.ok(newContent)
+    assert.equal(newContent.details.total_new_items, 1)
+    assert.ok(changes.some(change => change.change_type === 'keyword_match'))
+  })
+})
@@ -0,0 +1,464 @@
+import { createHash } from 'crypto'
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import type { AgentMonitor, AgentMonitorType } from '@/types/history'
+
+/**
+ * A discrete piece of content found on a monitored target (feed entry, blog post, search result...)
+ */
+export interface MonitorItem {
+  id: string
+  title: string
+  url?: string
+  published_at?: string
+}
+
+/**
+ * Normalized view of a monitored target at a point in time.
+ * Snapshots are stored on the monitor (metadata.snapshot) and diffed on the next check.
+ */
+export interface MonitorSnapshot {
+  fetched_at: string
+  status: number
+  content_type: string
+  content_hash: string
+  text: string
+  items: MonitorItem[]
+  structure: string[]
+}
+
+export interface MonitorFetchOptions {
+  // Override the fetch implementation (e.g. to point at local fixture servers)
+  fetchImpl?: typeof fetch
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+const MAX_SNAPSHOT_TEXT = 20000
+const MAX_ITEMS = 100
+const MAX_RESPONSE_BYTES = 2 * 1024 * 1024
+const MAX_REDIRECTS = 5
+
+// Addresses a monitor may not reach: loopback, private, link-local, unique-local and other
+// non-public ranges, so members can't use the scheduler to read the server's own network.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 127, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+]
+
+const BLOCKED_ADDRESSES = new BlockList()
+BLOCKED_SUBNETS.forEach(([address, prefix, type]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, type))
+
+const ACCEPT_HEADERS: Record<AgentMonitorType, string> = {
+  website: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+  blog: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+  search_results: 'text/html,application/json;q=0.9,*/*;q=0.8',
+  rss_feed: 'application/rss+xml,application/atom+xml,application/xml;q=0.9,text/xml;q=0.8,*/*;q=0.5',
+  api_endpoint: 'application/json,*/*;q=0.5',
+}
+
+// Tags that describe the layout of a page rather than its content
+const STRUCTURAL_TAGS = ['header', 'nav', 'main', 'section', 'article', 'aside', 'footer', 'form', 'table', 'ul', 'ol', 'h1', 'h2', 'h3', 'h4']
+
+export function hashContent(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Converts HTML to plain text, keeping one line per block element
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article|header|footer|blockquote|pre|title)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n')
+}
+
+function stripTags(value: string): string {
+  return decodeEntities(value.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim()
+}
+
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    const url = new URL(decodeEntities(href.trim()), baseUrl)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined
+    url.hash = ''
+    return url.toString()
+  } catch {
+    return undefined
+  }
+}
+
+function getTagContent(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))
+  return match ? stripTags(match[1]) : undefined
+}
+
+function getAttribute(tag: string, attribute: string): string | undefined {
+  const match = tag.match(new RegExp(`${attribute}\\s*=\\s*["']([^"']*)["']`, 'i'))
+  return match ? match[1] : undefined
+}
+
+/**
+ * Produces a layout signature for an HTML page: the count of each structural tag.
+ * Text edits leave it unchanged while redesigns and added/removed sections do not.
+ */
+function extractHtmlStructure(html: string): string[] {
+  const body = html.replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+  return STRUCTURAL_TAGS
+    .map(tag => {
+      const count = (body.match(new RegExp(`<${tag}[\\s>]`, 'gi')) || []).length
+      return count > 0 ? `${tag}:${count}` : null
+    })
+    .filter((entry): entry is string => entry !== null)
+}
+
+/**
+ * Produces a schema signature for a JSON payload: every key path with its value type
+ */
+function extractJsonStructure(value: unknown, path = '$', paths = new Set<string>()): string[] {
+  if (Array.isArray(value)) {
+    paths.add(`${path}:array`)
+    // Sample a few elements; arrays of records usually share a shape
+    value.slice(0, 5).forEach(item => extractJsonStructure(item, `${path}[]`, paths))
+  } else if (value !== null && typeof value === 'object') {
+    paths.add(`${path}:object`)
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      extractJsonStructure(child, `${path}.${key}`, paths)
+    })
+  } else {
+    paths.add(`${path}:${value === null ? 'null' : typeof value}`)
+  }
+  return Array.from(paths).sort()
+}
+
+/**
+ * JSON.stringify with sorted keys so that key order changes don't register as content changes
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+function parseFeedItems(xml: string, baseUrl: string): MonitorItem[] {
+  const blocks = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) || []
+
+  return blocks.slice(0, MAX_ITEMS).map(block => {
+    const title = getTagContent(block, 'title') || 'Untitled'
+
+    // RSS uses <link>url</link>, Atom uses <link href="url" />
+    let link = getTagContent(block, 'link')
+    if (!link) {
+      const linkTag = block.match(/<link[^>]*>/i)?.[0]
+      link = linkTag ? getAttribute(linkTag, 'href') : undefined
+    }
+    const url = link ? resolveUrl(link, baseUrl) : undefined
+
+    const guid = getTagContent(block, 'guid') || getTagContent(block, 'id')
+    const publishedAt = getTagContent(block, 'pubDate') ||
+      getTagContent(block, 'published') ||
+      getTagContent(block, 'updated')
+
+    return {
+      id: guid || url || hashContent(block),
+      title,
+      url,
+      published_at: publishedAt,
+    }
+  })
+}
+
+function parseLinks(html: string, baseUrl: string): MonitorItem[] {
+  const items = new Map<string, MonitorItem>()
+  const anchors = html.match(/<a\s[^>]*href\s*=\s*["'][^"']+["'][^>]*>[\s\S]*?<\/a>/gi) || []
+
+  for (const anchor of anchors) {
+    const href = getAttribute(anchor, 'href')
+    const url = href ? resolveUrl(href, baseUrl) : undefined
+    const title = stripTags(anchor)
+    if (!url || !title || items.has(url)) continue
+    items.set(url, { id: url, title, url })
+    if (items.size >= MAX_ITEMS) break
+  }
+
+  return Array.from(items.values())
+}
+
+function parseBlogPosts(html: string, baseUrl: string): MonitorItem[] {
+  const articles = html.match(/<article[\s>][\s\S]*?<\/article>/gi) || []
+
+  if (articles.length > 0) {
+    return articles.slice(0, MAX_ITEMS).map(article => {
+      const heading = article.match(/<h[1-4][^>]*>([\s\S]*?)<\/h[1-4]>/i)
+      const link = parseLinks(article, baseUrl)[0]
+      const title = heading ? stripTags(heading[1]) : link?.title || 'Untitled post'
+      const datetime = article.match(/<time[^>]*>/i)?.[0]
+
+      return {
+        id: link?.url || hashContent(title),
+        title,
+        url: link?.url,
+        published_at: datetime ? getAttribute(datetime, 'datetime') : undefined,
+      }
+    })
+  }
+
+  // Blogs without <article> markup usually link each post from a heading
+  const headingLinks = html.match(/<h[2-3][^>]*>[\s\S]*?<\/h[2-3]>/gi) || []
+  return headingLinks
+    .flatMap(heading => parseLinks(heading, baseUrl))
+    .slice(0, MAX_ITEMS)
+}
+
+function parseJsonItems(payload: unknown): MonitorItem[] {
+  let records: unknown[] | undefined
+  if (Array.isArray(payload)) {
+    records = payload
+  } else if (payload && typeof payload === 'object') {
+    const container = payload as Record<string, unknown>
+    const key = ['items', 'results', 'data', 'entries'].find(k => Array.isArray(container[k]))
+    records = key ? (container[key] as unknown[]) : undefined
+  }
+  if (!records) return []
+
+  return records.slice(0, MAX_ITEMS).map(record => {
+    const fields = (record && typeof record === 'object' ? record : {}) as Record<string, unknown>
+    const id = ['id', 'guid', 'url', 'link', 'slug']
+      .map(key => fields[key])
+      .find(value => typeof value === 'string' || typeof value === 'number')
+    const title = ['title', 'name', 'headline']
+      .map(key => fields[key])
+      .find(value => typeof value === 'string')
+    const url = ['url', 'link'].map(key => fields[key]).find(value => typeof value === 'string')
+
+    return {
+      id: id !== undefined ? String(id) : hashContent(stableStringify(record)),
+      title: (title as string | undefined) || (id !== undefined ? String(id) : 'Untitled'),
+      url: url as string | undefined,
+    }
+  })
+}
+
+function buildSnapshot(
+  type: AgentMonitorType,
+  body: string,
+  contentType: string,
+  status: number,
+  url: string
+): MonitorSnapshot {
+  const isJson = contentType.includes('json') || type === 'api_endpoint'
+  let text: string
+  let items: MonitorItem[] = []
+  let structure: string[]
+
+  if (isJson) {
+    let payload: unknown
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      throw new Error(`Expected JSON from ${url} but received ${contentType || 'an unknown content type'}`)
+    }
+    text = stableStringify(payload)
+    items = parseJsonItems(payload)
+    structure = extractJsonStructure(payload)
+  } else if (type === 'rss_feed') {
+    items = parseFeedItems(body, url)
+    text = items.map(item => item.title).join('\n')
+    structure = [`items:${items.length > 0 ? 'present' : 'empty'}`]
+  } else {
+    text = htmlToText(body)
+    structure = extractHtmlStructure(body)
+    if (type === 'blog') {
+      items = parseBlogPosts(body, url)
+    } else if (type === 'search_results') {
+      items = parseLinks(body, url)
+    }
+  }
+
+  return {
+    fetched_at: new Date().toISOString(),
+    status,
+    content_type: contentType,
+    content_hash: hashContent(text),
+    text: text.substring(0, MAX_SNAPSHOT_TEXT),
+    items,
+    structure,
+  }
+}
+
+// Local fixture servers are only reachable with MONITOR_ALLOW_PRIVATE_TARGETS=true outside production
+function allowsPrivateTargets(): boolean {
+  return process.env.MONITOR_ALLOW_PRIVATE_TARGETS === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address)
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Checks that a URL is http(s) and that every address its host resolves to is public.
+ * Throws with a message for the user otherwise
+ */
+export async function assertPublicUrl(value: string): Promise<void> {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    throw new Error(`${value} is not a valid URL`)
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${value} is not an http(s) URL`)
+  }
+  if (allowsPrivateTargets()) return
+
+  // URL keeps the brackets of IPv6 hosts
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  let addresses: string[]
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await lookup(hostname, { all: true, verbatim: true })).map(result => result.address)
+  } catch {
+    throw new Error(`Could not resolve ${url.hostname}`)
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`${url.hostname} is not a public address`)
+  }
+}
+
+// Reads at most MAX_RESPONSE_BYTES of a response body
+async function readLimitedText(response: Response, url: string): Promise<string> {
+  const tooLarge = () => new Error(`Response from ${url} is larger than ${MAX_RESPONSE_BYTES / 1024 / 1024} MB`)
+
+  if (Number(response.headers.get('content-length')) > MAX_RESPONSE_BYTES) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) return ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let received = 0
+  let text = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    received += value.byteLength
+    if (received > MAX_RESPONSE_BYTES) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+
+  return text + decoder.decode()
+}
+
+/**
+ * Fetches a monitor's target and normalizes it into a snapshot for diffing.
+ * Redirects are followed by hand so each hop is checked with assertPublicUrl
+ * @param monitor - The monitor to fetch (only type and target_url are used)
+ * @param options - Optional fetch implementation and timeout
+ * @returns Promise with the snapshot; throws on network errors, blocked addresses or non-2xx responses
+ */
+export async function fetchMonitorSnapshot(
+  monitor: Pick<AgentMonitor, 'type' | 'target_url'>,
+  options: MonitorFetchOptions = {}
+): Promise<MonitorSnapshot> {
+  const fetchImpl = options.fetchImpl || fetch
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs || DEFAULT_TIMEOUT_MS)
+
+  try {
+    let url = monitor.target_url
+    let response: Response
+
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(url)
+
+      response = await fetchImpl(url, {
+        headers: {
+          'Accept': ACCEPT_HEADERS[monitor.type],
+          'User-Agent': 'SupaStart-Monitor/1.0',
+        },
+        redirect: 'manual',
+        cache: 'no-store',
+        signal: controller.signal,
+      })
+
+      const location = response.headers.get('location')
+      if (response.status < 300 || response.status >= 400 || !location) break
+
+      await response.body?.cancel()
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Request to ${monitor.target_url} redirected more than ${MAX_REDIRECTS} times`)
+      }
+      url = new URL(location, url).toString()
+    }
+
+    if (!response.ok) {
+      throw new Error(`Request to ${monitor.target_url} failed: ${response.status} ${response.statusText}`)
+    }
+
+    const body = await readLimitedText(response, url)
+    const contentType = response.headers.get('content-type') || ''
+
+    return buildSnapshot(monitor.type, body, contentType, response.status, url)
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Request to ${monitor.target_url} timed out`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
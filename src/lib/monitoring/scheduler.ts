@@ -0,0 +1,239 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { AgentFinding, AgentMonitor, AgentMonitorType } from '@/types/history'
+import { assertPublicUrl, fetchMonitorSnapshot, MonitorFetchOptions, MonitorSnapshot } from './fetchers'
+import { diffSnapshots } from './diff'
+
+export const MONITOR_TYPES: AgentMonitorType[] = ['website', 'blog', 'search_results', 'rss_feed', 'api_endpoint']
+
+export const DEFAULT_CHECK_FREQUENCY = '1 hour'
+
+// Don't let monitors poll their targets more often than this
+const MIN_CHECK_FREQUENCY_MINUTES = 5
+
+// Metadata members may set on a monitor. Everything else (the snapshot, last_error,
+// consecutive_failures) is written by the scheduler only
+const CLIENT_METADATA_KEYS = ['description', 'notes']
+const MAX_METADATA_VALUE_LENGTH = 1000
+
+const UNIT_MINUTES: Record<string, number> = {
+  minute: 1,
+  hour: 60,
+  day: 60 * 24,
+  week: 60 * 24 * 7,
+}
+
+export interface MonitorRunResult {
+  monitor_id: string
+  success: boolean
+  baseline: boolean
+  findings: AgentFinding[]
+  error?: string
+}
+
+/**
+ * Validates a check_frequency value and normalizes it to a Postgres interval string.
+ * Accepts "<n> minute(s)|hour(s)|day(s)|week(s)" and "HH:MM:SS" (how Postgres returns intervals).
+ * @returns The normalized interval, or null if invalid or below the minimum frequency
+ */
+export function normalizeCheckFrequency(value: string): string | null {
+  const trimmed = value.trim().toLowerCase()
+
+  const unitMatch = trimmed.match(/^(\d+)\s*(minute|hour|day|week)s?$/)
+  if (unitMatch) {
+    const amount = parseInt(unitMatch[1], 10)
+    if (amount * UNIT_MINUTES[unitMatch[2]] < MIN_CHECK_FREQUENCY_MINUTES) return null
+    return `${amount} ${unitMatch[2]}${amount !== 1 ? 's' : ''}`
+  }
+
+  const clockMatch = trimmed.match(/^(\d{1,3}):([0-5]\d):([0-5]\d)$/)
+  if (clockMatch) {
+    const minutes = parseInt(clockMatch[1], 10) * 60 + parseInt(clockMatch[2], 10)
+    if (minutes < MIN_CHECK_FREQUENCY_MINUTES) return null
+    return trimmed
+  }
+
+  return null
+}
+
+/**
+ * Checks that a monitor target is an absolute http(s) URL
+ */
+export function isValidTargetUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks a target before a monitor is saved: an http(s) URL whose host resolves to public
+ * addresses only. Fetches check every redirect again
+ * @returns A message for the user, or null if the target can be monitored
+ */
+export async function getTargetUrlError(value: string): Promise<string | null> {
+  if (!isValidTargetUrl(value)) {
+    return 'A valid http(s) target URL is required'
+  }
+  try {
+    await assertPublicUrl(value)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid target URL'
+  }
+}
+
+/**
+ * Keeps only the metadata members may set, as strings
+ */
+export function pickClientMetadata(value: unknown): Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {}
+
+  const metadata: Record<string, string> = {}
+  for (const key of CLIENT_METADATA_KEYS) {
+    const field = (value as Record<string, unknown>)[key]
+    if (typeof field === 'string') {
+      metadata[key] = field.substring(0, MAX_METADATA_VALUE_LENGTH)
+    }
+  }
+  return metadata
+}
+
+/**
+ * Drops the stored snapshot from a monitor before it is sent to the browser.
+ * Snapshots hold up to 20k characters of page text and are only needed server-side.
+ */
+export function withoutSnapshot<T extends Pick<AgentMonitor, 'metadata'>>(monitor: T): T {
+  if (!monitor.metadata || !('snapshot' in monitor.metadata)) return monitor
+  const metadata = { ...monitor.metadata }
+  delete metadata.snapshot
+  return { ...monitor, metadata }
+}
+
+function getPreviousSnapshot(monitor: AgentMonitor): MonitorSnapshot | null {
+  const snapshot = monitor.metadata?.snapshot
+  return snapshot && typeof snapshot === 'object' ? (snapshot as MonitorSnapshot) : null
+}
+
+/**
+ * Runs a single monitor: fetches its target, diffs it against the stored snapshot,
+ * records any findings and stores the new snapshot on the monitor.
+ *
+ * Failures are recorded on the monitor (metadata.last_error) rather than thrown, and
+ * last_checked is still advanced so a broken target isn't retried on every scheduler tick.
+ */
+export async function runMonitor(
+  supabase: SupabaseClient,
+  monitor: AgentMonitor,
+  options: MonitorFetchOptions = {}
+): Promise<MonitorRunResult> {
+  const checkedAt = new Date().toISOString()
+  const metadata = monitor.metadata || {}
+
+  let snapshot: MonitorSnapshot
+  try {
+    snapshot = await fetchMonitorSnapshot(monitor, options)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`MONITOR - Check failed for ${monitor.id}:`, message)
+
+    const { error: updateError } = await supabase
+      .from('agent_monitors')
+      .update({
+        last_checked: checkedAt,
+        metadata: {
+          ...metadata,
+          last_error: { message, at: checkedAt },
+          consecutive_failures: ((metadata.consecutive_failures as number) || 0) + 1,
+        },
+      })
+      .eq('id', monitor.id)
+
+    if (updateError) {
+      console.error(`MONITOR - Failed to record error for ${monitor.id}:`, updateError)
+    }
+
+    return { monitor_id: monitor.id, success: false, baseline: false, findings: [], error: message }
+  }
+
+  const previous = getPreviousSnapshot(monitor)
+  const changes = diffSnapshots(previous, snapshot, monitor.keywords || [])
+  let findings: AgentFinding[] = []
+
+  if (changes.length > 0) {
+    const { data, error } = await supabase
+      .from('agent_findings')
+      .insert(changes.map(change => ({
+        monitor_id: monitor.id,
+        change_type: change.change_type,
+        summary: change.summary,
+        details: {
+          ...change.details,
+          target_url: monitor.target_url,
+          checked_at: checkedAt,
+        },
+        confidence_score: change.confidence_score,
+      })))
+      .select()
+
+    if (error) {
+      console.error(`MONITOR - Failed to save findings for ${monitor.id}:`, error)
+      // Keep the old snapshot so the same changes are detected again on the next run
+      return { monitor_id: monitor.id, success: false, baseline: false, findings: [], error: 'Failed to save findings' }
+    }
+
+    findings = data || []
+  }
+
+  const { error: updateError } = await supabase
+    .from('agent_monitors')
+    .update({
+      last_checked: checkedAt,
+      ...(changes.length > 0 ? { last_change_detected: checkedAt } : {}),
+      metadata: {
+        ...metadata,
+        snapshot,
+        last_error: null,
+        consecutive_failures: 0,
+      },
+    })
+    .eq('id', monitor.id)
+
+  if (updateError) {
+    console.error(`MONITOR - Failed to update monitor ${monitor.id}:`, updateError)
+  }
+
+  return {
+    monitor_id: monitor.id,
+    success: true,
+    baseline: previous === null,
+    findings,
+  }
+}
+
+/**
+ * Runs every active monitor whose check_frequency has elapsed.
+ * Expects a service-role client since due monitors span all organizations.
+ */
+export async function runDueMonitors(
+  supabase: SupabaseClient,
+  options: MonitorFetchOptions & { limit?: number } = {}
+): Promise<MonitorRunResult[]> {
+  const { data: monitors, error } = await supabase.rpc('get_due_agent_monitors', {
+    limit_count: options.limit || 25,
+  })
+
+  if (error) {
+    throw new Error(`Failed to load due monitors: ${error.message}`)
+  }
+
+  const results: MonitorRunResult[] = []
+
+  // Run sequentially to keep outbound request volume predictable
+  for (const monitor of (monitors || []) as AgentMonitor[]) {
+    results.push(await runMonitor(supabase, monitor, options))
+  }
+
+  return results
+}
@@ -0,0 +1,249 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getStorageObject } from '@/lib/storage/signed-urls'
+import { uploadImageFromUrl } from '@/lib/storage/image-upload'
+import type { CharacterSheet, CharacterSheetRequest } from '@/types/sandbox'
+
+export const CHARACTER_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_DESCRIPTION_LENGTH: 2000,
+  MAX_CUSTOM_POSE_LENGTH: 200,
+  MAX_REFERENCE_IMAGES: 4,
+  MAX_REFERENCE_BYTES: 10 * 1024 * 1024,
+  MAX_COUNT: 4
+}
+
+// Where uploaded reference images are stored, inside the organization's generated-images folder
+const CHARACTER_FOLDER = 'characters'
+const REFERENCE_BUCKET = 'generated-images'
+const REFERENCE_DATA_URL = /^data:image\/(png|jpeg|webp);base64,/
+
+const TYPE_PROMPTS: Record<string, string> = {
+  human: 'a human character',
+  fantasy: 'a fantasy character, such as a magical or mythical being',
+  scifi: 'a futuristic science fiction character',
+  animal: 'an animal character',
+  cartoon: 'a stylized cartoon character'
+}
+
+// The custom pose is described by the user instead
+const POSE_PROMPTS: Record<string, string> = {
+  portrait: 'Show a head and shoulders portrait.',
+  fullbody: 'Show the full body, from head to toe.',
+  action: 'Show the character in a dynamic action pose.',
+  sitting: 'Show the character sitting down.',
+  custom: ''
+}
+
+const STYLE_PROMPTS: Record<string, string> = {
+  realistic: 'Render it photorealistically.',
+  anime: 'Render it in Japanese anime style.',
+  comic: 'Render it as comic book art.',
+  '3d': 'Render it as a detailed 3D rendering.',
+  pixel: 'Render it as retro pixel art.'
+}
+
+export function isCharacterType(value: unknown): value is string {
+  return typeof value === 'string' && value in TYPE_PROMPTS
+}
+
+export function isCharacterPose(value: unknown): value is string {
+  return typeof value === 'string' && value in POSE_PROMPTS
+}
+
+export function isCharacterStyle(value: unknown): value is string {
+  return typeof value === 'string' && value in STYLE_PROMPTS
+}
+
+/**
+ * The prompt for a character image. A saved character is described by its sheet and the model is
+ * told to keep it identical to the reference images, so only the pose, style and scene change
+ */
+export function buildCharacterPrompt({
+  description,
+  characterType,
+  pose,
+  customPose,
+  style,
+  sheet
+}: {
+  description: string
+  characterType: string
+  pose: string
+  customPose?: string
+  style: string
+  sheet?: Pick<CharacterSheet, 'name' | 'description' | 'reference_images'> | null
+}): string {
+  const parts: string[] = []
+
+  if (sheet) {
+    parts.push(`Create an image of ${sheet.name}, ${TYPE_PROMPTS[characterType]}.`)
+    if (sheet.description) {
+      parts.push(sheet.description)
+    }
+    if (sheet.reference_images.length > 0) {
+      parts.push('Keep the character identical to the reference images: the same face, body, proportions, colors, clothing and distinguishing features.')
+    }
+    if (description) {
+      parts.push(`Scene: ${description}`)
+    }
+  } else {
+    parts.push(`Create an image of ${TYPE_PROMPTS[characterType]}: ${description}`)
+  }
+
+  parts.push(pose === 'custom' && customPose ? `Pose: ${customPose}` : POSE_PROMPTS[pose])
+  parts.push(STYLE_PROMPTS[style])
+
+  return parts
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => /[.!?]$/.test(part) ? part : `${part}.`)
+    .join(' ')
+}
+
+export type CharacterSheetFields = Partial<Omit<CharacterSheetRequest, 'reference_images'>>
+
+/**
+ * Checks the text fields of a sheet request. Returns a message for the user when one is invalid.
+ * Fields left out are skipped, except the name of a new sheet
+ */
+export function parseCharacterSheetFields(
+  body: Partial<CharacterSheetRequest>,
+  { requireName }: { requireName: boolean }
+): { fields: CharacterSheetFields } | { error: string } {
+  const fields: CharacterSheetFields = {}
+
+  if (requireName || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > CHARACTER_LIMITS.MAX_NAME_LENGTH) {
+      return { error: `Character names must be 1 to ${CHARACTER_LIMITS.MAX_NAME_LENGTH} characters` }
+    }
+    fields.name = name
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.length > CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      return { error: `Descriptions must be at most ${CHARACTER_LIMITS.MAX_DESCRIPTION_LENGTH} characters` }
+    }
+    fields.description = body.description.trim()
+  }
+
+  if (body.character_type !== undefined) {
+    if (!isCharacterType(body.character_type)) {
+      return { error: 'Invalid character type' }
+    }
+    fields.character_type = body.character_type
+  }
+
+  if (body.style !== undefined) {
+    if (!isCharacterStyle(body.style)) {
+      return { error: 'Invalid character style' }
+    }
+    fields.style = body.style
+  }
+
+  return { fields }
+}
+
+function isCharacterFile(organizationId: string, path: string): boolean {
+  return path.startsWith(`${organizationId}/${CHARACTER_FOLDER}/`)
+}
+
+/**
+ * Validates a sheet's reference images and stores uploaded ones. Storage URLs must be images of the
+ * organization; data URLs are uploaded to its characters folder. Throws with a message for the user
+ */
+export async function storeReferenceImages(
+  supabase: SupabaseClient,
+  organizationId: string,
+  images: unknown
+): Promise<string[]> {
+  if (!Array.isArray(images) || images.length > CHARACTER_LIMITS.MAX_REFERENCE_IMAGES) {
+    throw new Error(`Characters can have up to ${CHARACTER_LIMITS.MAX_REFERENCE_IMAGES} reference images`)
+  }
+
+  const stored: string[] = []
+  for (const image of images) {
+    if (typeof image === 'string' && REFERENCE_DATA_URL.test(image)) {
+      // Base64 takes 4 characters for every 3 bytes
+      if (image.length * 0.75 > CHARACTER_LIMITS.MAX_REFERENCE_BYTES) {
+        throw new Error('Reference images must be less than 10MB')
+      }
+
+      const result = await uploadImageFromUrl(supabase, image, organizationId, `${CHARACTER_FOLDER}/${crypto.randomUUID()}`)
+      if (!result.success || !result.url) {
+        throw new Error('Failed to upload reference image')
+      }
+      stored.push(result.url)
+      continue
+    }
+
+    const object = typeof image === 'string' ? getStorageObject(image) : null
+    if (!object || object.bucket !== REFERENCE_BUCKET || !object.path.startsWith(`${organizationId}/`)) {
+      throw new Error('Reference images must be uploaded or generated in this organization')
+    }
+    stored.push(image)
+  }
+
+  return stored
+}
+
+/**
+ * Removes the uploaded reference images among the URLs that no sheet uses anymore. Generated images
+ * used as references belong to their sessions and are kept
+ */
+export async function removeReferenceImages(
+  supabase: SupabaseClient,
+  organizationId: string,
+  urls: string[]
+): Promise<void> {
+  const uploaded = urls.filter(url => {
+    const object = getStorageObject(url)
+    return !!object && object.bucket === REFERENCE_BUCKET && isCharacterFile(organizationId, object.path)
+  })
+  if (uploaded.length === 0) return
+
+  const { data: users, error: usersError } = await supabase
+    .from('character_sheets')
+    .select('reference_images')
+    .eq('organization_id', organizationId)
+    .overlaps('reference_images', uploaded)
+
+  if (usersError) {
+    console.error('Failed to check character reference images:', usersError)
+    return
+  }
+
+  const used = new Set((users || []).flatMap(sheet => sheet.reference_images as string[]))
+  const paths = uploaded
+    .filter(url => !used.has(url))
+    .map(url => getStorageObject(url)!.path)
+
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage.from(REFERENCE_BUCKET).remove(paths)
+  // The sheet is already updated, so a failed removal only leaves files behind
+  if (error) {
+    console.error('Failed to remove character reference images:', error)
+  }
+}
+
+/**
+ * Downloads a sheet's reference images as files for the provider. Images that can't be read are skipped
+ */
+export async function loadReferenceImages(supabase: SupabaseClient, urls: string[]): Promise<File[]> {
+  const files: File[] = []
+
+  for (const [index, url] of urls.entries()) {
+    const object = getStorageObject(url)
+    if (!object) continue
+
+    const { data, error } = await supabase.storage.from(object.bucket).download(object.path)
+    if (error || !data) {
+      console.error(`Failed to download reference image ${object.path}:`, error)
+      continue
+    }
+    files.push(new File([data], `reference_${index + 1}.png`, { type: data.type || 'image/png' }))
+  }
+
+  return files
+}
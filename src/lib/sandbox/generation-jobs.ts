@@ -0,0 +1,590 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getOrganizationLLMProvider, LLMProvider } from '@/lib/llm'
+import { uploadImageFromUrl } from '@/lib/storage/image-upload'
+import { chargeCreditReservation } from '@/lib/supabase/credits'
+import { CREDIT_DESCRIPTIONS } from '@/lib/supabase/creditConstants'
+import type {
+  GenerationJob,
+  GenerationJobKind,
+  GenerationJobParams,
+  GenerationJobStatus
+} from '@/types/sandbox'
+import type { ArtifactOperation } from '@/types/history'
+
+/**
+ * Background generation jobs run image generation, edit and variation requests outside the HTTP
+ * request. The route reserves credits and queues the job; the worker generates one image at a
+ * time, charges part of the hold for it and saves it to the session, so progress reaches the
+ * browser as realtime updates of the job row. A job whose worker stopped (e.g. at a function
+ * timeout) is resumed from its last completed image by the next worker run
+ */
+export const GENERATION_JOB_LIMITS = {
+  // How long the credits of a queued job stay reserved; every completed image extends the hold
+  HOLD_MINUTES: 60,
+  // Provider calls per image, the first included, while the provider is rate limited or unavailable
+  MAX_IMAGE_ATTEMPTS: 3,
+  // Times a job is picked up before it is failed
+  MAX_JOB_ATTEMPTS: 3,
+  // A running job without a heartbeat for this long is taken over by the next worker run
+  STALE_AFTER_MINUTES: 5,
+  WORKER_BATCH_SIZE: 5
+}
+
+const JOBS_BUCKET = 'generated-images'
+
+// Wait before the next provider call after a transient error, doubled with every retry
+const RETRY_DELAY_MS = 2000
+
+const FINISHED_STATUSES: GenerationJobStatus[] = ['completed', 'failed', 'cancelled']
+
+const JOB_CREDIT_DESCRIPTIONS: Record<GenerationJobKind, string> = {
+  generate: CREDIT_DESCRIPTIONS.GENERATION_IMAGE,
+  edit: 'Image editing',
+  variation: 'Image variations'
+}
+
+// The interaction and artifact records match those of the synchronous routes
+const JOB_INTERACTION_TYPES: Record<GenerationJobKind, string> = {
+  generate: 'image_generation',
+  edit: 'image_edit',
+  variation: 'image_variation'
+}
+
+const JOB_OPERATIONS: Record<GenerationJobKind, ArtifactOperation> = {
+  generate: 'generate',
+  edit: 'edit',
+  variation: 'variation'
+}
+
+const JOB_FILENAME_PREFIXES: Record<GenerationJobKind, string> = {
+  generate: 'generated',
+  edit: 'edited',
+  variation: 'variation'
+}
+
+export interface GenerationJobRequest {
+  organizationId: string
+  userId: string
+  sessionId: string | null
+  kind: GenerationJobKind
+  params: GenerationJobParams
+  // Images to edit, or the image to create variations of
+  inputs: File[]
+  total: number
+  costPerImage: number
+  reservationId: string
+}
+
+export interface GenerationJobRunResult {
+  job_id: string
+  status: GenerationJobStatus
+  completed: number
+  error?: string
+}
+
+export function isGenerationJobFinished(job: Pick<GenerationJob, 'status'>): boolean {
+  return FINISHED_STATUSES.includes(job.status)
+}
+
+function isStale(job: Pick<GenerationJob, 'heartbeat_at'>): boolean {
+  if (!job.heartbeat_at) return true
+  return Date.now() - new Date(job.heartbeat_at).getTime() > GENERATION_JOB_LIMITS.STALE_AFTER_MINUTES * 60 * 1000
+}
+
+/**
+ * Whether an image call is worth retrying: rate limits, timeouts, server errors and dropped
+ * connections. Provider errors carry the API error as their cause
+ */
+export function isTransientImageError(error: unknown): boolean {
+  const source = error instanceof Error && error.cause ? error.cause : error
+  const status = (source as { status?: unknown } | null)?.status
+
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500
+  }
+  return source instanceof Error && /timed? ?out|connection|ECONNRESET|fetch failed/i.test(source.message)
+}
+
+function extensionOf(file: File): string {
+  if (file.type.includes('jpeg')) return 'jpg'
+  if (file.type.includes('webp')) return 'webp'
+  return 'png'
+}
+
+/**
+ * Queues a job and stores its input images. Uses the service role client: users can read their
+ * jobs but never write them, since the worker trusts a job's cost and reservation
+ */
+export async function enqueueGenerationJob(
+  admin: SupabaseClient,
+  request: GenerationJobRequest
+): Promise<GenerationJob> {
+  const { data: job, error } = await admin
+    .from('generation_jobs')
+    .insert({
+      organization_id: request.organizationId,
+      user_id: request.userId,
+      session_id: request.sessionId,
+      kind: request.kind,
+      params: request.params,
+      total: request.total,
+      cost_per_image: request.costPerImage,
+      reservation_id: request.reservationId
+    })
+    .select()
+    .single()
+
+  if (error || !job) {
+    throw new Error(`Failed to queue generation job: ${error?.message || 'no job returned'}`)
+  }
+
+  if (request.inputs.length === 0) {
+    return job as GenerationJob
+  }
+
+  const paths: string[] = []
+  try {
+    for (const [index, file] of request.inputs.entries()) {
+      const path = `${request.organizationId}/jobs/${job.id}/input_${index + 1}.${extensionOf(file)}`
+      const { error: uploadError } = await admin.storage
+        .from(JOBS_BUCKET)
+        .upload(path, file, { contentType: file.type || 'image/png', upsert: false })
+
+      if (uploadError) {
+        throw new Error(`Failed to store input image: ${uploadError.message}`)
+      }
+      paths.push(path)
+    }
+
+    const { data: updated, error: updateError } = await admin
+      .from('generation_jobs')
+      .update({ input_images: paths })
+      .eq('id', job.id)
+      .select()
+      .single()
+
+    if (updateError || !updated) {
+      throw new Error(`Failed to queue generation job: ${updateError?.message || 'no job returned'}`)
+    }
+    return updated as GenerationJob
+  } catch (error) {
+    // The job never starts without its inputs
+    await admin.from('generation_jobs').delete().eq('id', job.id)
+    if (paths.length > 0) {
+      await admin.storage.from(JOBS_BUCKET).remove(paths)
+    }
+    throw error
+  }
+}
+
+async function loadJobInputs(admin: SupabaseClient, paths: string[]): Promise<File[]> {
+  const files: File[] = []
+
+  for (const path of paths) {
+    const { data, error } = await admin.storage.from(JOBS_BUCKET).download(path)
+    if (error || !data) {
+      throw new Error(`Failed to load input image ${path}: ${error?.message || 'not found'}`)
+    }
+    files.push(new File([data], path.split('/').pop() || 'input.png', { type: data.type || 'image/png' }))
+  }
+
+  return files
+}
+
+// Result of a worker that stopped because another worker holds the job now
+function lostClaim(job: GenerationJob): GenerationJobRunResult {
+  console.warn(`Generation job ${job.id} - attempt ${job.attempts} was taken over by another worker`)
+  return { job_id: job.id, status: job.status, completed: job.completed, error: 'Job was taken by another worker' }
+}
+
+/**
+ * Closes a job: records the outcome, returns its unused credits and removes its input images.
+ * A job cancelled while running keeps its cancelled status. A job another worker has taken over
+ * is left to that worker
+ */
+async function finishGenerationJob(
+  admin: SupabaseClient,
+  job: GenerationJob,
+  status: GenerationJobStatus,
+  error?: string
+): Promise<GenerationJobRunResult> {
+  const { data: finished, error: updateError } = await admin
+    .from('generation_jobs')
+    .update({
+      status,
+      error: error || null,
+      finished_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('attempts', job.attempts)
+    .in('status', status === 'cancelled' ? ['queued', 'running', 'cancelled'] : ['queued', 'running'])
+    .select('id')
+
+  if (updateError) {
+    console.error(`Failed to finish generation job ${job.id}:`, updateError)
+  } else if (!finished?.length) {
+    // A job cancelled meanwhile keeps its status, but its credits are still returned here
+    const { data: current } = await admin
+      .from('generation_jobs')
+      .select('status, attempts')
+      .eq('id', job.id)
+      .maybeSingle()
+
+    if (!current || current.attempts !== job.attempts) {
+      return lostClaim(job)
+    }
+    status = current.status
+  }
+
+  if (job.reservation_id) {
+    await chargeCreditReservation(admin, job.reservation_id, 0, undefined, { releaseRest: true })
+  }
+
+  if (job.input_images.length > 0) {
+    const { error: removeError } = await admin.storage.from(JOBS_BUCKET).remove(job.input_images)
+    if (removeError) {
+      console.error(`Failed to remove inputs of generation job ${job.id}:`, removeError)
+    }
+  }
+
+  return { job_id: job.id, status, completed: job.completed, ...(error ? { error } : {}) }
+}
+
+/**
+ * Charges one image of the job from its hold, as long as this worker's attempt still holds the job
+ * @returns null if another worker has taken the job over, false if the job or its hold is closed
+ */
+async function chargeJobImage(admin: SupabaseClient, job: GenerationJob, description: string): Promise<boolean | null> {
+  const { data, error } = await admin.rpc('charge_generation_job_image', {
+    p_job_id: job.id,
+    p_attempt: job.attempts,
+    p_description: description
+  })
+
+  if (error) {
+    console.error(`Error charging generation job ${job.id}:`, error)
+    return false
+  }
+  return data === null ? null : data === true
+}
+
+async function requestImage(provider: LLMProvider, job: GenerationJob, inputs: File[]): Promise<string> {
+  const { prompt = '', quality = 'standard', size } = job.params
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const [url] = job.kind === 'generate'
+        ? await provider.generateImages({ prompt, count: 1, quality: quality === 'hd' ? 'hd' : 'standard', size })
+        : job.kind === 'edit'
+          ? await provider.editImages({ images: inputs, prompt, count: 1, quality, size })
+          : await provider.createImageVariations({ image: inputs[0], count: 1, size })
+
+      if (!url) {
+        throw new Error('The provider returned no image')
+      }
+      return url
+    } catch (error) {
+      if (attempt >= GENERATION_JOB_LIMITS.MAX_IMAGE_ATTEMPTS || !isTransientImageError(error)) {
+        throw error
+      }
+      console.warn(`Generation job ${job.id} - attempt ${attempt} failed, retrying:`, error)
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)))
+    }
+  }
+}
+
+/**
+ * Saves a completed image to the job's session, creating the session and the interaction with the
+ * first image, and records the progress on the job
+ * @returns The updated job, or null if another worker has taken it over
+ */
+async function recordJobImage(
+  admin: SupabaseClient,
+  job: GenerationJob,
+  url: string
+): Promise<GenerationJob | null> {
+  const { params } = job
+  let sessionId = job.session_id
+  let interactionId = job.interaction_id
+  const completed = job.completed + 1
+  const creditsCharged = job.credits_charged + job.cost_per_image
+
+  if (!sessionId) {
+    const { data: session, error } = await admin
+      .from('sessions')
+      .insert({
+        organization_id: job.organization_id,
+        user_id: job.user_id,
+        type: params.session_type,
+        title: params.session_title,
+        metadata: params.session_metadata
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`Failed to create session for generation job ${job.id}:`, error)
+    }
+    sessionId = session?.id || null
+  }
+
+  if (sessionId && !interactionId) {
+    const { data: lastInteraction } = await admin
+      .from('interactions')
+      .select('sequence')
+      .eq('session_id', sessionId)
+      .order('sequence', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data: interaction, error } = await admin
+      .from('interactions')
+      .insert({
+        session_id: sessionId,
+        type: JOB_INTERACTION_TYPES[job.kind],
+        content: params.content,
+        metadata: { ...params.interaction_metadata, count: completed, job_id: job.id },
+        cost_credits: creditsCharged,
+        sequence: lastInteraction ? lastInteraction.sequence + 1 : 1
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`Failed to create interaction for generation job ${job.id}:`, error)
+    }
+    interactionId = interaction?.id || null
+  } else if (interactionId) {
+    await admin
+      .from('interactions')
+      .update({
+        metadata: { ...params.interaction_metadata, count: completed, job_id: job.id },
+        cost_credits: creditsCharged
+      })
+      .eq('id', interactionId)
+  }
+
+  let artifactId: string | null = null
+  if (interactionId) {
+    const { data: artifact, error } = await admin
+      .from('artifacts')
+      .insert({
+        interaction_id: interactionId,
+        type: 'image',
+        url,
+        operation: JOB_OPERATIONS[job.kind],
+        parent_artifact_ids: params.parent_artifact_ids || [],
+        metadata: {
+          ...params.artifact_metadata,
+          index: job.completed,
+          job_id: job.id,
+          stored_permanently: true
+        }
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error(`Failed to create artifact for generation job ${job.id}:`, error)
+    }
+    artifactId = artifact?.id || null
+  }
+
+  const { data: updated, error } = await admin
+    .from('generation_jobs')
+    .update({
+      session_id: sessionId,
+      interaction_id: interactionId,
+      completed,
+      image_urls: [...job.image_urls, url],
+      artifact_ids: [...job.artifact_ids, artifactId],
+      credits_charged: creditsCharged,
+      heartbeat_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to record progress: ${error.message}`)
+  }
+  return updated as GenerationJob | null
+}
+
+/**
+ * Takes a queued job, or a running one whose worker stopped, for this worker. The attempt count
+ * doubles as a lock, so two workers never process the same job
+ */
+async function claimGenerationJob(admin: SupabaseClient, job: GenerationJob): Promise<GenerationJob | null> {
+  const { data, error } = await admin
+    .from('generation_jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      heartbeat_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Failed to claim generation job ${job.id}:`, error)
+    return null
+  }
+  return data as GenerationJob | null
+}
+
+/**
+ * Processes a job until all its images are generated, it is cancelled or it fails. Each image is
+ * charged as soon as it is stored, so a failed or cancelled job only costs what it produced
+ */
+export async function runGenerationJob(admin: SupabaseClient, queuedJob: GenerationJob): Promise<GenerationJobRunResult> {
+  if (queuedJob.status === 'running' && !isStale(queuedJob)) {
+    return { job_id: queuedJob.id, status: queuedJob.status, completed: queuedJob.completed }
+  }
+
+  const claimed = await claimGenerationJob(admin, queuedJob)
+  if (!claimed) {
+    return lostClaim(queuedJob)
+  }
+
+  let job = claimed
+  if (job.attempts > GENERATION_JOB_LIMITS.MAX_JOB_ATTEMPTS) {
+    return finishGenerationJob(admin, job, 'failed', `Generation stopped after ${GENERATION_JOB_LIMITS.MAX_JOB_ATTEMPTS} attempts`)
+  }
+
+  try {
+    const reservationId = job.reservation_id
+    if (!reservationId) {
+      throw new Error('The credit reservation of this job is missing')
+    }
+
+    const provider = await getOrganizationLLMProvider(admin, job.organization_id)
+    if (!provider.supportsImages) {
+      throw new Error(`Image generation is not available with ${provider.label}`)
+    }
+
+    const inputs = await loadJobInputs(admin, job.input_images)
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const description = JOB_CREDIT_DESCRIPTIONS[job.kind]
+
+    console.log(`Generation job ${job.id} - ${job.kind}, images ${job.completed + 1} to ${job.total} (attempt ${job.attempts}, provider: ${provider.id})`)
+
+    while (job.completed < job.total) {
+      const { data: current } = await admin
+        .from('generation_jobs')
+        .select('status, attempts')
+        .eq('id', job.id)
+        .single()
+
+      if (current && current.attempts !== job.attempts) {
+        return lostClaim(job)
+      }
+      if (current?.status === 'cancelled') {
+        console.log(`Generation job ${job.id} - cancelled after ${job.completed} of ${job.total} images`)
+        return finishGenerationJob(admin, job, 'cancelled')
+      }
+
+      const imageUrl = await requestImage(provider, job, inputs)
+      const upload = await uploadImageFromUrl(
+        admin,
+        imageUrl,
+        job.organization_id,
+        `${JOB_FILENAME_PREFIXES[job.kind]}_${timestamp}_${job.completed + 1}`
+      )
+
+      if (!upload.success || !upload.url || !upload.path) {
+        throw new Error(upload.error || 'Failed to store image')
+      }
+
+      const charged = await chargeJobImage(admin, job, `${description}: image ${job.completed + 1} of ${job.total}`)
+
+      if (!charged) {
+        await admin.storage.from(JOBS_BUCKET).remove([upload.path])
+        if (charged === null) {
+          return lostClaim(job)
+        }
+        throw new Error('The credit reservation of this job is no longer open')
+      }
+
+      const recorded = await recordJobImage(admin, job, upload.url)
+      if (!recorded) {
+        return lostClaim(job)
+      }
+      job = recorded
+    }
+
+    return finishGenerationJob(admin, job, 'completed')
+  } catch (error) {
+    console.error(`Generation job ${job.id} failed:`, error)
+    return finishGenerationJob(admin, job, 'failed', error instanceof Error ? error.message : 'Generation failed')
+  }
+}
+
+/**
+ * Stops a job. A queued job, or one whose worker stopped, is closed right away; a running job is
+ * closed by its worker before the next image
+ * @returns The cancelled job, or null if it had already finished
+ */
+export async function cancelGenerationJob(admin: SupabaseClient, job: GenerationJob): Promise<GenerationJob | null> {
+  if (isGenerationJobFinished(job)) return null
+
+  const { data: cancelled, error } = await admin
+    .from('generation_jobs')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to cancel generation job: ${error.message}`)
+  }
+
+  if (!cancelled) {
+    // The job changed meanwhile, e.g. a worker picked it up; cancel what it is now
+    const { data: latest } = await admin
+      .from('generation_jobs')
+      .select('*')
+      .eq('id', job.id)
+      .single()
+
+    return latest ? cancelGenerationJob(admin, latest as GenerationJob) : null
+  }
+
+  if (job.status === 'queued' || isStale(job)) {
+    await finishGenerationJob(admin, cancelled as GenerationJob, 'cancelled')
+  }
+  return cancelled as GenerationJob
+}
+
+/**
+ * Worker run: processes queued jobs, oldest first, and resumes running jobs whose worker stopped
+ */
+export async function runGenerationJobs(
+  admin: SupabaseClient,
+  { limit = GENERATION_JOB_LIMITS.WORKER_BATCH_SIZE }: { limit?: number } = {}
+): Promise<GenerationJobRunResult[]> {
+  const staleBefore = new Date(Date.now() - GENERATION_JOB_LIMITS.STALE_AFTER_MINUTES * 60 * 1000).toISOString()
+
+  const { data: jobs, error } = await admin
+    .from('generation_jobs')
+    .select('*')
+    .or(`status.eq.queued,and(status.eq.running,heartbeat_at.lt."${staleBefore}")`)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load generation jobs: ${error.message}`)
+  }
+
+  const results: GenerationJobRunResult[] = []
+  for (const job of (jobs || []) as GenerationJob[]) {
+    results.push(await runGenerationJob(admin, job))
+  }
+  return results
+}
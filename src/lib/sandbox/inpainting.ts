@@ -0,0 +1,33 @@
+/**
+ * Inpainting regenerates the painted area of an image. The mask is saved as a `data` artifact of
+ * the `image_edit` interaction, marked with `metadata.role`, so it stays out of image galleries
+ */
+export const INPAINTING_MASK_ROLE = 'inpainting_mask'
+
+export const INPAINTING_LIMITS = {
+  MAX_COUNT: 4,
+  // GPT Image 1 accepts images and masks up to 50MB
+  MAX_FILE_BYTES: 50 * 1024 * 1024,
+  MAX_PROMPT_LENGTH: 1000
+}
+
+export type InpaintingStyle = 'match' | 'enhance' | 'replace' | 'artistic'
+
+// How each style instructs the model, appended to the user's prompt
+const STYLE_INSTRUCTIONS: Record<InpaintingStyle, string> = {
+  match: 'Blend the edited area seamlessly with the rest of the image, matching its lighting, colors, perspective and style.',
+  enhance: 'Keep the content of the edited area but improve its detail, sharpness and quality to match the rest of the image.',
+  replace: 'Completely replace the content of the edited area with the description, keeping the rest of the image unchanged.',
+  artistic: 'Render the edited area in a distinctive artistic style that still fits the composition of the image.'
+}
+
+export function isInpaintingStyle(value: unknown): value is InpaintingStyle {
+  return typeof value === 'string' && value in STYLE_INSTRUCTIONS
+}
+
+/**
+ * The prompt sent to the provider: the user's description of the edit followed by the style instruction
+ */
+export function buildInpaintingPrompt(prompt: string, style: InpaintingStyle): string {
+  return `${prompt.trim().replace(/[.\s]+$/, '')}. ${STYLE_INSTRUCTIONS[style]}`
+}
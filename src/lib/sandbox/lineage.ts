@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { isUuid } from '@/lib/history/organize'
+import type { ArtifactLineageNode } from '@/types/history'
+
+/**
+ * Image lineage links sandbox images to the images they were made from. Edits, inpainting and
+ * variations record their source artifacts in `parent_artifact_ids`, with the operation used, and
+ * `get_artifact_lineage` returns the tree an image belongs to
+ */
+export const LINEAGE_LIMITS = {
+  // Edits accept up to 16 images
+  MAX_PARENTS: 16,
+  MAX_NODES: 200
+}
+
+export interface LineageTreeNode {
+  node: ArtifactLineageNode
+  children: LineageTreeNode[]
+  // Parents other than the one the node is shown under
+  otherParentCount: number
+}
+
+/**
+ * Checks the source images sent with a request: they must be images of the organization the user
+ * can see (RLS) and not in the trash
+ * @returns The ids without duplicates, or null if any of them isn't a usable image
+ */
+export async function resolveParentArtifactIds(
+  supabase: SupabaseClient,
+  organizationId: string,
+  values: unknown[]
+): Promise<string[] | null> {
+  const ids = [...new Set(values.filter(value => value !== '' && value != null))]
+
+  if (ids.length === 0) return []
+  if (ids.length > LINEAGE_LIMITS.MAX_PARENTS || !ids.every(isUuid)) return null
+
+  const { data, error } = await supabase
+    .from('artifacts')
+    .select('id, interactions!inner(sessions!inner(organization_id))')
+    .in('id', ids)
+    .eq('type', 'image')
+    .is('deleted_at', null)
+    .eq('interactions.sessions.organization_id', organizationId)
+
+  if (error) {
+    throw new Error(`Failed to check source images: ${error.message}`)
+  }
+
+  return (data || []).length === ids.length ? ids : null
+}
+
+/**
+ * Arranges lineage nodes, oldest first, as a tree. An image made from several images is shown
+ * under the first of them in the lineage; images whose parents aren't in it are roots
+ */
+export function buildLineageTree(nodes: ArtifactLineageNode[]): LineageTreeNode[] {
+  const treeNodes = new Map<string, LineageTreeNode>()
+  for (const node of nodes) {
+    treeNodes.set(node.id, { node, children: [], otherParentCount: 0 })
+  }
+
+  const roots: LineageTreeNode[] = []
+  for (const treeNode of treeNodes.values()) {
+    const parentIds = treeNode.node.parent_artifact_ids
+    const parent = parentIds.map(id => treeNodes.get(id)).find(Boolean)
+
+    treeNode.otherParentCount = Math.max(parentIds.length - 1, 0)
+    if (parent) {
+      parent.children.push(treeNode)
+    } else {
+      roots.push(treeNode)
+    }
+  }
+
+  return roots
+}
@@ -0,0 +1,220 @@
+import type { GenerationPresetRequest, GenerationPresetScope } from '@/types/sandbox'
+
+export const PRESET_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_DESCRIPTION_LENGTH: 500,
+  MAX_TEMPLATE_LENGTH: 2000,
+  MAX_COUNT: 4,
+  // Prompts of one batch; every prompt is a generation job
+  MAX_BATCH_ROWS: 20,
+  MAX_PROMPT_LENGTH: 1000
+}
+
+export const PRESET_SIZES = ['1024x1024', '1536x1024', '1024x1536', 'auto']
+
+// {{name}}; names start with a letter and may contain letters, digits, _ and -
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w-]*)\s*\}\}/g
+const STYLE_PATTERN = /^[a-z0-9-]{1,50}$/
+
+export type GenerationPresetFields = Partial<GenerationPresetRequest>
+
+export function isPresetScope(value: unknown): value is GenerationPresetScope {
+  return value === 'personal' || value === 'organization'
+}
+
+/**
+ * The variables of a template, in order of first use
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const variables: string[] = []
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (!variables.includes(match[1])) {
+      variables.push(match[1])
+    }
+  }
+  return variables
+}
+
+/**
+ * Replaces the variables of a template with their values. Variables without a value are listed in
+ * `missing` and left in the prompt
+ */
+export function fillTemplate(
+  template: string,
+  values: Record<string, string>
+): { prompt: string; missing: string[] } {
+  const missing: string[] = []
+  const prompt = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim()
+    if (!value) {
+      if (!missing.includes(name)) missing.push(name)
+      return placeholder
+    }
+    return value
+  })
+
+  return { prompt: prompt.trim(), missing }
+}
+
+/**
+ * Splits CSV text into rows of fields. Fields may be quoted, with "" for a quote inside them, and
+ * contain separators and line breaks. Empty lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+  return rows
+}
+
+/**
+ * The prompts of a batch: the template filled with each data row of a CSV whose header row names
+ * the variables. Returns a message for the user when the CSV doesn't fit the template
+ */
+export function buildBatchPrompts(
+  template: string,
+  csv: string
+): { prompts: string[] } | { error: string } {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''))
+  const variables = extractTemplateVariables(template)
+
+  if (!header || rows.length === 0) {
+    return { error: 'The CSV needs a header row with the variable names and at least one row of values' }
+  }
+
+  const columns = header.map(name => name.trim())
+  const absent = variables.filter(variable => !columns.includes(variable))
+  if (absent.length > 0) {
+    return { error: `The CSV has no column for ${absent.map(name => `{{${name}}}`).join(', ')}` }
+  }
+
+  if (rows.length > PRESET_LIMITS.MAX_BATCH_ROWS) {
+    return { error: `A batch can have up to ${PRESET_LIMITS.MAX_BATCH_ROWS} rows` }
+  }
+
+  const prompts: string[] = []
+  for (const [index, row] of rows.entries()) {
+    const values = Object.fromEntries(columns.map((name, column) => [name, row[column] || '']))
+    const { prompt, missing } = fillTemplate(template, values)
+
+    if (missing.length > 0) {
+      return { error: `Row ${index + 1} has no value for ${missing.map(name => `{{${name}}}`).join(', ')}` }
+    }
+    if (prompt.length > PRESET_LIMITS.MAX_PROMPT_LENGTH) {
+      return { error: `The prompt of row ${index + 1} is longer than ${PRESET_LIMITS.MAX_PROMPT_LENGTH} characters` }
+    }
+    prompts.push(prompt)
+  }
+
+  return { prompts }
+}
+
+/**
+ * Checks the fields of a preset request. Returns a message for the user when one is invalid.
+ * Fields left out are skipped, except the name and template of a new preset
+ */
+export function parsePresetFields(
+  body: Partial<GenerationPresetRequest>,
+  { requireAll }: { requireAll: boolean }
+): { fields: GenerationPresetFields } | { error: string } {
+  const fields: GenerationPresetFields = {}
+
+  if (requireAll || body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name || name.length > PRESET_LIMITS.MAX_NAME_LENGTH) {
+      return { error: `Preset names must be 1 to ${PRESET_LIMITS.MAX_NAME_LENGTH} characters` }
+    }
+    fields.name = name
+  }
+
+  if (requireAll || body.prompt_template !== undefined) {
+    const template = typeof body.prompt_template === 'string' ? body.prompt_template.trim() : ''
+    if (!template || template.length > PRESET_LIMITS.MAX_TEMPLATE_LENGTH) {
+      return { error: `Prompt templates must be 1 to ${PRESET_LIMITS.MAX_TEMPLATE_LENGTH} characters` }
+    }
+    fields.prompt_template = template
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string' || body.description.length > PRESET_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      return { error: `Descriptions must be at most ${PRESET_LIMITS.MAX_DESCRIPTION_LENGTH} characters` }
+    }
+    fields.description = body.description.trim()
+  }
+
+  if (body.scope !== undefined) {
+    if (!isPresetScope(body.scope)) {
+      return { error: 'Scope must be personal or organization' }
+    }
+    fields.scope = body.scope
+  }
+
+  if (body.size !== undefined) {
+    if (body.size !== null && !PRESET_SIZES.includes(body.size)) {
+      return { error: `Size must be one of: ${PRESET_SIZES.join(', ')}` }
+    }
+    fields.size = body.size
+  }
+
+  if (body.quality !== undefined) {
+    if (body.quality !== null && body.quality !== 'standard' && body.quality !== 'hd') {
+      return { error: "Quality must be either 'standard' or 'hd'" }
+    }
+    fields.quality = body.quality
+  }
+
+  if (body.count !== undefined) {
+    if (body.count !== null && (!Number.isInteger(body.count) || body.count < 1 || body.count > PRESET_LIMITS.MAX_COUNT)) {
+      return { error: `Count must be between 1 and ${PRESET_LIMITS.MAX_COUNT}` }
+    }
+    fields.count = body.count
+  }
+
+  if (body.style !== undefined) {
+    if (body.style !== null && (typeof body.style !== 'string' || !STYLE_PATTERN.test(body.style))) {
+      return { error: 'Invalid style' }
+    }
+    fields.style = body.style
+  }
+
+  return { fields }
+}
@@ -1,26 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getActiveBranch } from '@/lib/history/branches';
+import type { Artifact, Interaction, Session, SessionType } from '@/types/history';
+
 interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp?: number;
 }
 
-interface Session {
+export interface SessionDetails {
   id: string;
   title: string;
+  type: SessionType;
   createdAt: Date;
+  updatedAt: Date;
   messages: Message[];
+  artifactCount: number;
+  creditsUsed: number;
+}
+
+export interface SessionListItem {
+  id: string;
+  title: string;
+  type: SessionType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SessionSearchResult extends SessionListItem {
+  snippet: string;
+}
+
+export interface OrganizationCreditUsage {
+  balance: number;
+  periodDays: number;
+  usageByFeature: { featureId: string; totalUsage: number }[];
+}
+
+type SessionRow = Pick<Session, 'id' | 'title' | 'type' | 'created_at' | 'updated_at'>;
+
+function toSessionListItem(session: SessionRow): SessionListItem {
+  return {
+    id: session.id,
+    title: session.title || 'Untitled session',
+    type: session.type,
+    createdAt: new Date(session.created_at),
+    updatedAt: new Date(session.updated_at)
+  };
+}
+
+// Escape LIKE wildcards so user text is matched literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// A short excerpt of the text around the first match of the query
+function getSnippet(text: string, query: string, radius = 80): string {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) {
+    return text.slice(0, radius * 2) + (text.length > radius * 2 ? '...' : '');
+  }
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + query.length + radius);
+  return (start > 0 ? '...' : '') + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '...' : '');
 }
 
-// Basic session management functions - can be enhanced with actual database integration
-export async function getSessionById(sessionId: string): Promise<Session | null> {
-  // Placeholder implementation - replace with actual database lookup
+/**
+ * Loads a session of the organization with the messages of its active branch in order.
+ * Image interactions are included as assistant messages with their prompt as content.
+ */
+export async function getSessionById(
+  supabase: SupabaseClient,
+  organizationId: string,
+  sessionId: string
+): Promise<SessionDetails | null> {
   try {
-    // For now, return a mock session structure
+    const { data: session, error } = await supabase
+      .from('sessions')
+      .select(`
+        id, title, type, created_at, updated_at, active_interaction_id,
+        interactions:interactions(
+          id, parent_interaction_id, type, content, cost_credits, created_at, sequence,
+          artifacts:artifacts(id)
+        )
+      `)
+      .eq('id', sessionId)
+      .eq('organization_id', organizationId)
+      .is('deleted_at', null)
+      .is('interactions.artifacts.deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching session:', error);
+      return null;
+    }
+
+    if (!session) {
+      return null;
+    }
+
+    const interactions = (session.interactions || []) as (Pick<Interaction, 'id' | 'parent_interaction_id' | 'type' | 'content' | 'cost_credits' | 'created_at' | 'sequence'> & {
+      artifacts: Pick<Artifact, 'id'>[] | null;
+    })[];
+
     return {
-      id: sessionId,
-      title: 'Chat Session',
-      createdAt: new Date(),
-      messages: []
+      ...toSessionListItem(session as SessionRow),
+      messages: getActiveBranch(interactions, session.active_interaction_id)
+        .filter(interaction => interaction.content)
+        .map(interaction => ({
+          role: interaction.type === 'user_message' ? 'user' : 'assistant',
+          content: interaction.content!,
+          timestamp: new Date(interaction.created_at).getTime()
+        })),
+      // Artifacts and credits count every branch, not only the one shown
+      artifactCount: interactions.reduce((count, interaction) => count + (interaction.artifacts?.length || 0), 0),
+      creditsUsed: interactions.reduce((total, interaction) => total + (interaction.cost_credits || 0), 0)
     };
   } catch (error) {
     console.error('Error fetching session:', error);
@@ -28,14 +122,132 @@ export async function getSessionById(sessionId: string): Promise<Session | null>
   }
 }
 
-export async function updateSessionCredits(userId: string, sessionId: string, creditsUsed: number): Promise<boolean> {
-  // Placeholder implementation - replace with actual credit update logic
-  try {
-    console.log(`Updating credits for user ${userId} in session ${sessionId}: -${creditsUsed} credits`);
-    // Here you would implement actual credit deduction logic
-    return true;
-  } catch (error) {
-    console.error('Error updating session credits:', error);
-    return false;
+/**
+ * Lists the user's most recently updated sessions in the organization
+ */
+export async function listRecentSessions(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  options: { limit?: number; type?: SessionType } = {}
+): Promise<SessionListItem[]> {
+  let query = supabase
+    .from('sessions')
+    .select('id, title, type, created_at, updated_at')
+    .eq('organization_id', organizationId)
+    .eq('user_id', userId)
+    .eq('archived', false)
+    .is('deleted_at', null)
+    .order('updated_at', { ascending: false })
+    .limit(options.limit || 10);
+
+  if (options.type) {
+    query = query.eq('type', options.type);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list sessions: ${error.message}`);
+  }
+
+  return ((data || []) as SessionRow[]).map(toSessionListItem);
+}
+
+/**
+ * Searches the user's session titles and message text in the organization.
+ * Returns one result per session, most recently updated first.
+ */
+export async function searchSessionHistory(
+  supabase: SupabaseClient,
+  organizationId: string,
+  userId: string,
+  searchText: string,
+  limit = 10
+): Promise<SessionSearchResult[]> {
+  const pattern = `%${escapeLikePattern(searchText)}%`;
+
+  const [titleMatches, contentMatches] = await Promise.all([
+    supabase
+      .from('sessions')
+      .select('id, title, type, created_at, updated_at')
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .ilike('title', pattern)
+      .order('updated_at', { ascending: false })
+      .limit(limit),
+    supabase
+      .from('interactions')
+      .select('content, session:sessions!inner(id, title, type, created_at, updated_at)')
+      .eq('session.organization_id', organizationId)
+      .eq('session.user_id', userId)
+      .is('session.deleted_at', null)
+      .ilike('content', pattern)
+      .order('created_at', { ascending: false })
+      .limit(limit * 3)
+  ]);
+
+  if (titleMatches.error || contentMatches.error) {
+    throw new Error(`Failed to search history: ${(titleMatches.error || contentMatches.error)!.message}`);
+  }
+
+  const results = new Map<string, SessionSearchResult>();
+
+  for (const match of (contentMatches.data || []) as unknown as { content: string; session: SessionRow }[]) {
+    if (!results.has(match.session.id)) {
+      results.set(match.session.id, {
+        ...toSessionListItem(match.session),
+        snippet: getSnippet(match.content, searchText)
+      });
+    }
+  }
+
+  for (const session of (titleMatches.data || []) as SessionRow[]) {
+    if (!results.has(session.id)) {
+      results.set(session.id, { ...toSessionListItem(session), snippet: session.title || '' });
+    }
+  }
+
+  return Array.from(results.values())
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, limit);
+}
+
+/**
+ * Returns the organization's credit balance and credits used per feature over the last `periodDays` days
+ */
+export async function getOrganizationCreditUsage(
+  supabase: SupabaseClient,
+  organizationId: string,
+  periodDays = 30
+): Promise<OrganizationCreditUsage> {
+  const [organization, usage] = await Promise.all([
+    supabase
+      .from('organizations')
+      .select('credits_balance')
+      .eq('id', organizationId)
+      .single(),
+    supabase.rpc('get_organization_credit_usage_by_feature', {
+      org_id: organizationId,
+      time_period: `${periodDays} days`
+    })
+  ]);
+
+  if (organization.error) {
+    throw new Error(`Failed to load credit balance: ${organization.error.message}`);
+  }
+
+  if (usage.error) {
+    throw new Error(`Failed to load credit usage: ${usage.error.message}`);
   }
-} 
\ No newline at end of file
+
+  return {
+    balance: organization.data?.credits_balance || 0,
+    periodDays,
+    usageByFeature: ((usage.data || []) as { feature_id: string; total_usage: number }[]).map(row => ({
+      featureId: row.feature_id,
+      totalUsage: row.total_usage
+    }))
+  };
+}
@@ -3,9 +3,41 @@ import { SupabaseClient } from '@supabase/supabase-js'
 export interface ImageUploadResult {
   success: boolean
   url?: string
+  // Path of the object in its bucket
+  path?: string
   error?: string
 }
 
+/**
+ * Uploads a file to a bucket and returns its public URL. For private buckets the URL only
+ * identifies the object, which is read through a signed URL
+ */
+async function uploadToBucket(
+  supabase: SupabaseClient,
+  bucket: string,
+  storagePath: string,
+  blob: Blob,
+  contentType: string
+): Promise<string> {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(storagePath, blob, {
+      contentType,
+      cacheControl: '3600',
+      upsert: false // Don't overwrite existing files
+    })
+
+  if (error) {
+    throw new Error(`Storage upload failed: ${error.message}`)
+  }
+
+  const { data: { publicUrl } } = supabase.storage
+    .from(bucket)
+    .getPublicUrl(storagePath)
+
+  return publicUrl
+}
+
 /**
  * Converts a data URL (base64) to a blob
  * @param dataUrl - Data URL string (e.g., "data:image/png;base64,...")
@@ -70,26 +102,12 @@ export async function uploadImageFromUrl(
     const storagePath = `${organizationId}/${filename}.${extension}`
     
     // Upload to Supabase Storage
-    const { error } = await supabase.storage
-      .from('generated-images')
-      .upload(storagePath, imageBlob, {
-        contentType,
-        cacheControl: '3600',
-        upsert: false // Don't overwrite existing files
-      })
-
-    if (error) {
-      throw new Error(`Storage upload failed: ${error.message}`)
-    }
-
-    // Get the public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('generated-images')
-      .getPublicUrl(storagePath)
+    const publicUrl = await uploadToBucket(supabase, 'generated-images', storagePath, imageBlob, contentType)
 
     return {
       success: true,
-      url: publicUrl
+      url: publicUrl,
+      path: storagePath
     }
   } catch (error) {
     console.error('Error uploading image:', error)
@@ -124,4 +142,39 @@ export async function uploadImagesFromUrls(
   }
   
   return results
-} 
\ No newline at end of file
+}
+
+/**
+ * Uploads a file attached to a chat message to the private chat-attachments bucket
+ * @param supabase - Supabase client
+ * @param file - The attached file
+ * @param contentType - MIME type to store the file with
+ * @param organizationId - Organization ID for folder structure
+ * @returns Promise with upload result
+ */
+export async function uploadChatAttachment(
+  supabase: SupabaseClient,
+  file: File,
+  contentType: string,
+  organizationId: string
+): Promise<ImageUploadResult> {
+  try {
+    // Keep the original name readable in the URL; the random folder keeps paths unique
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-100) || 'attachment'
+    const storagePath = `${organizationId}/${crypto.randomUUID()}/${safeName}`
+
+    const publicUrl = await uploadToBucket(supabase, 'chat-attachments', storagePath, file, contentType)
+
+    return {
+      success: true,
+      url: publicUrl,
+      path: storagePath
+    }
+  } catch (error) {
+    console.error('Error uploading chat attachment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+  }
+}
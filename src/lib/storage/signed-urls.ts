@@ -0,0 +1,102 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+
+// Public object URLs look like <project>/storage/v1/object/public/<bucket>/<path>
+const PUBLIC_OBJECT_PATH = '/storage/v1/object/public/'
+
+// Buckets that aren't public. Their objects are still saved by their public URL, which identifies
+// them, and are read through signed URLs
+export const PRIVATE_BUCKETS = ['chat-attachments']
+
+/**
+ * Bucket and path of an object in this project's storage, from its public URL.
+ * Other URLs (data URLs, external images) resolve to null
+ */
+export function getStorageObject(url: string): { bucket: string; path: string } | null {
+  const projectUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  if (!projectUrl) return null
+
+  try {
+    const parsed = new URL(url)
+    if (parsed.origin !== new URL(projectUrl).origin || !parsed.pathname.startsWith(PUBLIC_OBJECT_PATH)) {
+      return null
+    }
+
+    const [bucket, ...path] = parsed.pathname.slice(PUBLIC_OBJECT_PATH.length).split('/')
+    return bucket && path.length > 0 ? { bucket, path: decodeURIComponent(path.join('/')) } : null
+  } catch {
+    return null
+  }
+}
+
+// Buckets the app stores artifact files in, each with a folder per organization
+export const ARTIFACT_BUCKETS = ['generated-images', 'chat-attachments']
+
+/**
+ * Whether the URL is a file the organization stored for its artifacts: an object in one of the
+ * artifact buckets, inside the organization's folder
+ */
+export function isOrganizationArtifactFile(url: string, organizationId: string): boolean {
+  const object = getStorageObject(url)
+  return !!object &&
+    ARTIFACT_BUCKETS.includes(object.bucket) &&
+    object.path.startsWith(`${organizationId}/`) &&
+    !object.path.split('/').includes('..')
+}
+
+/**
+ * Signed URLs, valid for `expiresIn` seconds, of the storage objects among the URLs.
+ * URLs outside storage, or that fail to sign, map to themselves
+ */
+export async function createSignedUrls(
+  supabase: SupabaseClient,
+  urls: string[],
+  expiresIn: number
+): Promise<Map<string, string>> {
+  const signed = new Map(urls.map(url => [url, url]))
+
+  const byBucket = new Map<string, { url: string; path: string }[]>()
+  for (const url of new Set(urls)) {
+    const object = getStorageObject(url)
+    if (object) {
+      byBucket.set(object.bucket, [...(byBucket.get(object.bucket) || []), { url, path: object.path }])
+    }
+  }
+
+  for (const [bucket, objects] of byBucket) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(objects.map(object => object.path), expiresIn)
+
+    if (error || !data) {
+      console.error(`Failed to sign URLs in ${bucket}:`, error)
+      continue
+    }
+
+    data.forEach((result, index) => {
+      if (result.signedUrl) {
+        signed.set(objects[index].url, result.signedUrl)
+      }
+    })
+  }
+
+  return signed
+}
+
+/**
+ * The items with the URLs of objects in private buckets replaced by signed URLs, valid for
+ * `expiresIn` seconds. Signing uses the client's storage policies, so objects it can't read keep
+ * their URL, which doesn't load
+ */
+export async function signPrivateUrls<T extends { url?: string | null }>(
+  supabase: SupabaseClient,
+  items: T[],
+  expiresIn: number
+): Promise<T[]> {
+  const urls = items.flatMap(item =>
+    item.url && PRIVATE_BUCKETS.includes(getStorageObject(item.url)?.bucket || '') ? [item.url] : []
+  )
+  if (urls.length === 0) return items
+
+  const signed = await createSignedUrls(supabase, urls, expiresIn)
+  return items.map(item => item.url && signed.has(item.url) ? { ...item, url: signed.get(item.url) } : item)
+}
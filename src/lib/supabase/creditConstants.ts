@@ -19,11 +19,20 @@
  * - Add a comment for each feature explaining its purpose
  */
 export const CREDIT_COSTS = {
-  // Chat feature costs
+  // Agent mode costs, charged per turn from what the run actually used
+  AGENT: {
+    TURN: 1,               // Base cost of every agent mode message
+    HANDOFF: 1,            // Each handoff from the triage agent to a specialist
+    WEB_SEARCH: 2,         // Each approved web search that was executed
+    RESERVED_USAGE: 10,    // Handoffs, tools and tokens held while a request runs; usage beyond it is charged after the run
+  },
+
+  // Chat costs; model tokens are priced with MODEL_TOKEN_RATES
   CHAT: {
-    BASIC: 1,              // Basic chat without special capabilities
-    WITH_WEB_SEARCH: 2,    // Chat with web search capability
-    WITH_CODE_GEN: 3,      // Chat optimized for code generation
+    MINIMUM: 1,            // Least a delivered reply costs, however short
+    WEB_SEARCH: 1,         // Added to the token cost of chats with web search
+    KNOWLEDGE_BASE: 1,     // Added to the token cost of chats that search the knowledge base
+    RESERVED_OUTPUT_TOKENS: 4096, // Reply length reserved when the organization sets no max tokens
   },
 
   // Example feature (template for new features)
@@ -44,6 +53,38 @@ export const CREDIT_COSTS = {
     BASIC_API_CALL: 1,     // Simple third-party API calls
     COMPLEX_API_CALL: 3,   // Complex data processing with external APIs
   },
+
+  // Knowledge base costs; embedding tokens are priced with MODEL_TOKEN_RATES
+  KNOWLEDGE_BASE: {
+    MINIMUM_UPLOAD: 1,     // Least indexing a document costs, however short
+  },
+};
+
+/**
+ * Credits per 1,000 tokens, sent (INPUT) and generated (OUTPUT)
+ */
+export interface TokenRate {
+  INPUT: number;
+  OUTPUT: number;
+}
+
+/**
+ * Token rates of chat, agent mode and knowledge base embeddings by model name, at about
+ * 1 credit per $0.02 of list price.
+ * Input covers everything sent to the model: system prompt, history and the new message.
+ * Versioned names (e.g. gpt-4o-2024-08-06) use the rate of the longest matching name, and
+ * models that aren't listed (e.g. on OpenAI-compatible servers) use DEFAULT
+ */
+export const MODEL_TOKEN_RATES: Record<string, TokenRate> = {
+  DEFAULT: { INPUT: 0.1, OUTPUT: 0.4 },
+  'gpt-4': { INPUT: 1.5, OUTPUT: 3 },
+  'gpt-4.1': { INPUT: 0.1, OUTPUT: 0.4 },
+  'gpt-4.1-mini': { INPUT: 0.02, OUTPUT: 0.08 },
+  'gpt-4o': { INPUT: 0.125, OUTPUT: 0.5 },
+  'gpt-4o-mini': { INPUT: 0.0075, OUTPUT: 0.03 },
+  'gpt-4o-search-preview': { INPUT: 0.125, OUTPUT: 0.5 },
+  'text-embedding-3-large': { INPUT: 0.0065, OUTPUT: 0 },
+  'text-embedding-3-small': { INPUT: 0.001, OUTPUT: 0 },
 };
 
 /**
@@ -54,9 +95,14 @@ export const CREDIT_COSTS = {
  * `${CREDIT_DESCRIPTIONS.CHAT_BASIC} - ${userQuery.substring(0, 50)}...`
  */
 export const CREDIT_DESCRIPTIONS = {
+  // Agent descriptions
+  AGENT_TURN: "Agent mode: Turn",
+  AGENT_USAGE: "Agent mode: Tools and tokens",
+
   // Chat descriptions
   CHAT_BASIC: "Chat: Basic usage",
   CHAT_WEB_SEARCH: "Chat: With web search",
+  CHAT_KNOWLEDGE_BASE: "Chat: With knowledge base",
   CHAT_CODE_GEN: "Chat: Code generation",
   
   // Example feature descriptions
@@ -71,6 +117,12 @@ export const CREDIT_DESCRIPTIONS = {
   // API integration descriptions
   INTEGRATION_BASIC: "API integration: Basic",
   INTEGRATION_COMPLEX: "API integration: Complex",
+
+  // Knowledge base descriptions
+  KNOWLEDGE_UPLOAD: "Knowledge base: Document indexing",
+
+  // Reservation descriptions
+  RESERVATION_FAILED: "Generation failed: Reserved credits returned",
 };
 
 /**
@@ -88,19 +140,99 @@ export const CREDIT_ERRORS = {
  */
 
 /**
- * Calculate the cost of a chat interaction based on provided options
- * 
+ * Token rate of a model, by its longest listed prefix
+ */
+export function getModelTokenRate(model?: string): TokenRate {
+  const match = Object.keys(MODEL_TOKEN_RATES)
+    .filter(name => name !== 'DEFAULT' && !!model && model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return MODEL_TOKEN_RATES[match || 'DEFAULT'];
+}
+
+/**
+ * Credits for the tokens of a model call, in whole credits rounded up
+ *
  * @example
- * // Calculate cost for chat with web search
- * const cost = calculateChatCost({ webSearch: true });
+ * // 2,000 input and 500 output tokens of gpt-4o: 0.25 + 0.25, rounded up to 1 credit
+ * const cost = calculateTokenCost({ model: 'gpt-4o', inputTokens: 2000, outputTokens: 500 });
  */
-export function calculateChatCost(options: { 
+export function calculateTokenCost(usage: {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+}): number {
+  const rate = getModelTokenRate(usage.model);
+  const cost = (usage.inputTokens * rate.INPUT + usage.outputTokens * rate.OUTPUT) / 1000;
+  // Rounded first so floating point noise doesn't add a credit
+  return Math.ceil(Number(cost.toFixed(6)));
+}
+
+/**
+ * Calculate the cost of a chat reply from the tokens it used
+ *
+ * @example
+ * // Chat with web search: token cost (at least 1 credit) plus 1
+ * const cost = calculateChatCost({ model: 'gpt-4o-search-preview', inputTokens: 1200, outputTokens: 400, webSearch: true });
+ */
+export function calculateChatCost(usage: {
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
   webSearch?: boolean;
-  codeGeneration?: boolean;
-} = {}): number {
-  if (options.codeGeneration) return CREDIT_COSTS.CHAT.WITH_CODE_GEN;
-  if (options.webSearch) return CREDIT_COSTS.CHAT.WITH_WEB_SEARCH;
-  return CREDIT_COSTS.CHAT.BASIC;
+  knowledgeBase?: boolean;
+}): number {
+  const tokenCost = Math.max(calculateTokenCost(usage), CREDIT_COSTS.CHAT.MINIMUM);
+  return tokenCost
+    + (usage.webSearch ? CREDIT_COSTS.CHAT.WEB_SEARCH : 0)
+    + (usage.knowledgeBase ? CREDIT_COSTS.CHAT.KNOWLEDGE_BASE : 0);
+}
+
+/**
+ * Calculate the cost of indexing a knowledge base document from the tokens embedded
+ *
+ * @example
+ * // 50,000 tokens with text-embedding-3-small: 0.05, raised to the 1 credit minimum
+ * const cost = calculateKnowledgeUploadCost({ model: 'text-embedding-3-small', inputTokens: 50000 });
+ */
+export function calculateKnowledgeUploadCost(usage: {
+  model?: string;
+  inputTokens: number;
+}): number {
+  const tokenCost = calculateTokenCost({ ...usage, outputTokens: 0 });
+  return Math.max(tokenCost, CREDIT_COSTS.KNOWLEDGE_BASE.MINIMUM_UPLOAD);
+}
+
+/**
+ * Extra credits per tool execution in agent mode, by tool name.
+ * Tools that aren't listed (e.g. session lookups) are free.
+ */
+export const AGENT_TOOL_COSTS: Record<string, number> = {
+  web_search: CREDIT_COSTS.AGENT.WEB_SEARCH,
+};
+
+/**
+ * Calculate the usage-based part of an agent mode turn (the base TURN cost is charged separately)
+ *
+ * @example
+ * // One handoff, one web search and 8,000 input / 1,000 output tokens of gpt-4.1: 1 + 2 + 2 = 5 credits
+ * const cost = calculateAgentUsageCost({
+ *   handoffs: 1,
+ *   toolCalls: ['web_search'],
+ *   model: 'gpt-4.1',
+ *   inputTokens: 8000,
+ *   outputTokens: 1000
+ * });
+ */
+export function calculateAgentUsageCost(usage: {
+  handoffs: number;
+  toolCalls: string[];
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+}): number {
+  const handoffCost = usage.handoffs * CREDIT_COSTS.AGENT.HANDOFF;
+  const toolCost = usage.toolCalls.reduce((total, toolName) => total + (AGENT_TOOL_COSTS[toolName] || 0), 0);
+  return handoffCost + toolCost + calculateTokenCost(usage);
 }
 
 /**
@@ -119,6 +251,7 @@ export function calculateExampleFeatureCost(options: {
  */
 export function getChatDescription(options: {
   webSearch?: boolean;
+  knowledgeBase?: boolean;
   codeGeneration?: boolean;
   customSuffix?: string;
 } = {}): string {
@@ -128,6 +261,8 @@ export function getChatDescription(options: {
     description = CREDIT_DESCRIPTIONS.CHAT_CODE_GEN;
   } else if (options.webSearch) {
     description = CREDIT_DESCRIPTIONS.CHAT_WEB_SEARCH;
+  } else if (options.knowledgeBase) {
+    description = CREDIT_DESCRIPTIONS.CHAT_KNOWLEDGE_BASE;
   }
   
   if (options.customSuffix) {
@@ -143,22 +278,22 @@ export function getChatDescription(options: {
  * In your API route:
  * 
  * ```typescript
- * import { CREDIT_COSTS, CREDIT_DESCRIPTIONS, calculateChatCost } from '@/lib/supabase/creditConstants';
+ * import { CREDIT_COSTS, CREDIT_DESCRIPTIONS, calculateExampleFeatureCost } from '@/lib/supabase/creditConstants';
  * 
  * // Simple usage:
- * const creditCost = CREDIT_COSTS.CHAT.BASIC;
- * const description = CREDIT_DESCRIPTIONS.CHAT_BASIC;
+ * const creditCost = CREDIT_COSTS.EXAMPLE_FEATURE.BASIC;
+ * const description = CREDIT_DESCRIPTIONS.EXAMPLE_BASIC;
  * 
  * // Dynamic cost calculation:
- * const useWebSearch = req.body.webSearch || false;
- * const creditCost = calculateChatCost({ webSearch: useWebSearch });
+ * const premium = req.body.premium || false;
+ * const creditCost = calculateExampleFeatureCost({ premium });
  * 
  * // Then use with checkAndDeductCredits:
  * const creditResult = await checkAndDeductCredits(
  *   supabase,
  *   userOrg.organizationId,
  *   creditCost,
- *   getChatDescription({ webSearch: useWebSearch })
+ *   description
  * );
  * ```
  */ 
\ No newline at end of file
@@ -61,6 +61,237 @@ export async function checkAndDeductCredits(
   }
 }
 
+export interface CreditReservationResult {
+  success: boolean
+  error?: string
+  reservationId?: string
+}
+
+/**
+ * Holds the maximum cost of a generation before calling the AI provider.
+ * The hold must be settled with settleCreditReservation once the result is known,
+ * or returned with releaseCreditReservation if the call fails.
+ * Unsettled holds expire after holdMinutes (15 by default)
+ */
+export async function reserveCredits(
+  supabase: SupabaseClient,
+  organizationId: string,
+  creditsToReserve: number,
+  description: string = 'API usage',
+  featureId?: string,
+  holdMinutes?: number
+): Promise<CreditReservationResult> {
+  try {
+    const { data, error } = await supabase
+      .rpc('reserve_organization_credits', {
+        org_id: organizationId,
+        amount: creditsToReserve,
+        description,
+        feature_id: featureId || null,
+        ...(holdMinutes ? { hold_minutes: holdMinutes } : {})
+      })
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Insufficient credits'
+      }
+    }
+
+    return {
+      success: true,
+      reservationId: data as string
+    }
+  } catch (error) {
+    console.error('Error reserving credits:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+export interface CreditBatchReservationResult {
+  success: boolean
+  error?: string
+  // In the order of the descriptions
+  reservationIds?: string[]
+}
+
+/**
+ * Holds `creditsPerHold` once per description, e.g. for each job of a batch, in one transaction:
+ * either every hold is created or none is. Each hold is settled or released on its own
+ */
+export async function reserveCreditBatch(
+  supabase: SupabaseClient,
+  organizationId: string,
+  creditsPerHold: number,
+  descriptions: string[],
+  featureId?: string,
+  holdMinutes?: number
+): Promise<CreditBatchReservationResult> {
+  try {
+    const { data, error } = await supabase
+      .rpc('reserve_organization_credits_batch', {
+        org_id: organizationId,
+        amount: creditsPerHold,
+        descriptions,
+        feature_id: featureId || null,
+        ...(holdMinutes ? { hold_minutes: holdMinutes } : {})
+      })
+
+    if (error) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    if (!data) {
+      return {
+        success: false,
+        error: 'Insufficient credits'
+      }
+    }
+
+    return {
+      success: true,
+      reservationIds: data as string[]
+    }
+  } catch (error) {
+    console.error('Error reserving credits:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Charges the credits a generation actually used and releases the rest of its hold.
+ * The charge is capped at the reserved amount. Holds are settled with the service role `admin`
+ * client once the route has checked the user's membership. If the hold was already closed, e.g.
+ * it expired, the credits are deducted with the user's client instead, and the result fails
+ * when the balance no longer covers them
+ */
+export async function settleCreditReservation(
+  supabase: SupabaseClient,
+  admin: SupabaseClient,
+  organizationId: string,
+  reservationId: string,
+  actualCredits: number,
+  description?: string
+): Promise<CreditCheckResult> {
+  try {
+    const { data, error } = await admin
+      .rpc('settle_credit_reservation', {
+        reservation_id: reservationId,
+        actual_amount: actualCredits,
+        description: description || null
+      })
+
+    if (error) {
+      console.error('Error settling credit reservation:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    if (data === false) {
+      console.error('Credit reservation is no longer open:', reservationId)
+      if (actualCredits > 0) {
+        return checkAndDeductCredits(supabase, organizationId, actualCredits, description)
+      }
+    }
+
+    const { data: orgData } = await supabase
+      .from('organizations')
+      .select('credits_balance')
+      .eq('id', organizationId)
+      .single()
+
+    return {
+      success: true,
+      newBalance: orgData?.credits_balance
+    }
+  } catch (error) {
+    console.error('Error settling credit reservation:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }
+  }
+}
+
+/**
+ * Returns the whole hold to the organization, e.g. when the AI provider call failed.
+ * Needs the service role client
+ */
+export async function releaseCreditReservation(
+  supabase: SupabaseClient,
+  reservationId: string,
+  reason?: string
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .rpc('release_credit_reservation', {
+        reservation_id: reservationId,
+        reason: reason || null
+      })
+
+    if (error) {
+      console.error('Error releasing credit reservation:', error)
+      return false
+    }
+
+    return data === true
+  } catch (error) {
+    console.error('Error releasing credit reservation:', error)
+    return false
+  }
+}
+
+/**
+ * Charges part of an open hold and keeps the rest of it open, e.g. for each image a background
+ * job completes. With releaseRest the remainder is returned and the hold is closed.
+ * Needs the service role client; routes settle with settleCreditReservation
+ */
+export async function chargeCreditReservation(
+  supabase: SupabaseClient,
+  reservationId: string,
+  credits: number,
+  description?: string,
+  { releaseRest = false }: { releaseRest?: boolean } = {}
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .rpc('charge_credit_reservation', {
+        reservation_id: reservationId,
+        amount: credits,
+        description: description || null,
+        release_rest: releaseRest
+      })
+
+    if (error) {
+      console.error('Error charging credit reservation:', error)
+      return false
+    }
+
+    return data === true
+  } catch (error) {
+    console.error('Error charging credit reservation:', error)
+    return false
+  }
+}
+
 /**
  * Helper function to get user and organization in API routes
  */
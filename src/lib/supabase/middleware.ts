@@ -1,6 +1,9 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
 
+// Cron routes have no user session; they check the CRON_SECRET bearer token themselves
+const CRON_ROUTES = ['/api/agents/monitors/scheduler', '/api/sandbox/jobs/worker', '/api/history/trash/purge']
+
 export async function updateSession(request: NextRequest) {
   let supabaseResponse = NextResponse.next({
     request,
@@ -43,6 +46,9 @@ export async function updateSession(request: NextRequest) {
     !request.nextUrl.pathname.startsWith('/auth') &&
     !request.nextUrl.pathname.startsWith('/features') &&
     !request.nextUrl.pathname.startsWith('/styleguide') &&
+    // Shared sessions are public; the share token is checked by get_shared_session and the shared file route
+    !request.nextUrl.pathname.startsWith('/share/') &&
+    !CRON_ROUTES.includes(request.nextUrl.pathname) &&
     request.nextUrl.pathname !== '/'
   ) {
     // no user, potentially respond by redirecting the user to the login page
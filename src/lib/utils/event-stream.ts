@@ -0,0 +1,54 @@
+/**
+ * Server-Sent Events helpers shared by the chat and agent mode streams. Each event is sent as
+ * `event: <type>` followed by `data: <json>`, and the JSON always repeats the type.
+ */
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream'
+
+export function encodeStreamEvent<T extends { type: string }>(event: T): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+function parseEventBlock<T extends { type: string }>(block: string): T | null {
+  const data = block
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n')
+
+  if (!data) return null
+
+  try {
+    const event = JSON.parse(data)
+    return event && typeof event.type === 'string' ? event as T : null
+  } catch {
+    console.error('Invalid stream event:', data)
+    return null
+  }
+}
+
+/**
+ * Reads an SSE response body and yields its events in order
+ */
+export async function* readEventStream<T extends { type: string }>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = parseEventBlock<T>(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) yield event
+      boundary = buffer.indexOf('\n\n')
+    }
+
+    if (done) break
+  }
+
+  const trailing = parseEventBlock<T>(buffer.trim())
+  if (trailing) yield trailing
+}
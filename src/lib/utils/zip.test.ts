@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { deflateRawSync } from 'zlib'
+import { createZip, readZip } from './zip'
+
+const MB = 1024 * 1024
+
+// A single deflated file, with the uncompressed size the archive claims for it
+function deflatedZip(path: string, data: Uint8Array, declaredSize: number = data.length): Uint8Array {
+  const name = new TextEncoder().encode(path)
+  const compressed = deflateRawSync(data)
+
+  const local = new DataView(new ArrayBuffer(30))
+  local.setUint32(0, 0x04034b50, true)
+  local.setUint16(8, 8, true)
+  local.setUint32(18, compressed.length, true)
+  local.setUint32(22, declaredSize, true)
+  local.setUint16(26, name.length, true)
+
+  const central = new DataView(new ArrayBuffer(46))
+  central.setUint32(0, 0x02014b50, true)
+  central.setUint16(10, 8, true)
+  central.setUint32(20, compressed.length, true)
+  central.setUint32(24, declaredSize, true)
+  central.setUint16(28, name.length, true)
+
+  const centralOffset = 30 + name.length + compressed.length
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, 1, true)
+  end.setUint16(10, 1, true)
+  end.setUint32(12, 46 + name.length, true)
+  end.setUint32(16, centralOffset, true)
+
+  return Buffer.concat([
+    new Uint8Array(local.buffer), name, compressed,
+    new Uint8Array(central.buffer), name, new Uint8Array(end.buffer),
+  ])
+}
+
+describe('readZip', () => {
+  it('reads back stored and deflated files', () => {
+    const text = new TextEncoder().encode('{"version":1}')
+
+    const [stored] = readZip(createZip([{ path: 'session.json', data: text }]), { maxTotalBytes: MB })
+    assert.equal(stored.path, 'session.json')
+    assert.deepEqual([...stored.data], [...text])
+
+    const [deflated] = readZip(deflatedZip('session.json', text), { maxTotalBytes: MB })
+    assert.deepEqual([...deflated.data], [...text])
+  })
+
+  it('rejects files declared larger than the limit', () => {
+    const archive = deflatedZip('bomb.bin', new Uint8Array(4 * MB))
+    assert.throws(() => readZip(archive, { maxTotalBytes: 2 * MB }), /expands to more than 2MB/)
+  })
+
+  it('stops inflating files that understate their size', () => {
+    const archive = deflatedZip('bomb.bin', new Uint8Array(4 * MB), 1024)
+    assert.throws(() => readZip(archive, { maxTotalBytes: 2 * MB }), /larger than the archive declares/)
+  })
+
+  it('limits the total size across files', () => {
+    const file = new Uint8Array(MB)
+    const archive = createZip([
+      { path: 'a.bin', data: file },
+      { path: 'b.bin', data: file },
+      { path: 'c.bin', data: file },
+    ])
+    assert.throws(() => readZip(archive, { maxTotalBytes: 2 * MB }), /expands to more than 2MB/)
+  })
+})
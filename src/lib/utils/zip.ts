@@ -0,0 +1,189 @@
+import { inflateRawSync } from 'zlib'
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  path: string
+  data: Uint8Array
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+// General purpose flag marking file names as UTF-8
+const UTF8_FLAG = 0x0800
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS time and date of the entry, as stored in its headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Builds a ZIP archive of the entries. Files are stored uncompressed: exports are mostly images,
+ * which don't compress further
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modified)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const crc = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_FILE_HEADER, true)
+    local.setUint16(4, 20, true) // Version needed to extract
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, 0, true) // Stored
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, 0, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, entry.data.length, true)
+    central.setUint32(24, entry.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + entry.data.length
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}
+
+export interface ReadZipOptions {
+  // Limit on the uncompressed size of all files together, so a small archive can't expand
+  // into more memory than the server has
+  maxTotalBytes: number
+}
+
+/**
+ * Reads the files of a ZIP archive, stored or deflated. Directories are skipped.
+ * Throws when the files would expand past maxTotalBytes, checking the sizes the archive declares
+ * and the actual output of each file
+ */
+export function readZip(archive: Uint8Array, { maxTotalBytes }: ReadZipOptions): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const decoder = new TextDecoder()
+
+  // The end of central directory record is at the end, before an optional comment
+  let endOffset = -1
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive')
+  }
+
+  const count = view.getUint16(endOffset + 10, true)
+  let position = view.getUint32(endOffset + 16, true)
+  const entries: ZipEntry[] = []
+  const tooLarge = () => new Error(`The archive expands to more than ${Math.floor(maxTotalBytes / (1024 * 1024))}MB`)
+  let remainingBytes = maxTotalBytes
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP central directory')
+    }
+
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const uncompressedSize = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const path = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength))
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith('/')) continue
+    if (uncompressedSize > remainingBytes) {
+      throw tooLarge()
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const raw = archive.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Uint8Array
+    if (method === 0) {
+      data = raw
+    } else if (method === 8) {
+      // Stops inflating past the declared size, so an archive can't understate it
+      try {
+        data = new Uint8Array(inflateRawSync(raw, { maxOutputLength: Math.max(uncompressedSize, 1) }))
+      } catch (error) {
+        if (error instanceof RangeError) {
+          throw new Error(`${path} is larger than the archive declares`)
+        }
+        throw error
+      }
+    } else {
+      throw new Error(`Unsupported compression in ${path}`)
+    }
+
+    if (data.length !== uncompressedSize) {
+      throw new Error(`${path} doesn't match the size the archive declares`)
+    }
+    remainingBytes -= data.length
+    entries.push({ path, data })
+  }
+
+  return entries
+}
@@ -13,6 +13,9 @@ export type InteractionType =
 
 export type ArtifactType = 'image' | 'document' | 'code' | 'data'
 
+// How a sandbox image was made
+export type ArtifactOperation = 'generate' | 'edit' | 'inpaint' | 'variation' | 'character'
+
 export type AgentMonitorType = 
   | 'website' 
   | 'blog' 
@@ -36,6 +39,11 @@ export interface Session {
   metadata: Record<string, unknown>
   starred: boolean
   archived: boolean
+  // Leaf of the branch shown for the session
+  active_interaction_id?: string | null
+  folder_id?: string | null
+  // Set while the session is in the trash
+  deleted_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -43,14 +51,26 @@ export interface Session {
 export interface Interaction {
   id: string
   session_id: string
+  // Interaction this one follows; siblings with the same parent are alternative branches
+  parent_interaction_id?: string | null
   type: InteractionType
   content?: string
   metadata: Record<string, unknown>
   cost_credits: number
+  // Model tokens of metered replies; input includes the system prompt and history sent
+  input_tokens?: number | null
+  output_tokens?: number | null
   created_at: string
   sequence: number
 }
 
+// Position of an interaction among its siblings, oldest first
+export interface InteractionBranch {
+  index: number
+  count: number
+  siblingIds: string[]
+}
+
 export interface Artifact {
   id: string
   interaction_id: string
@@ -60,6 +80,23 @@ export interface Artifact {
   size_bytes?: number
   mime_type?: string
   metadata: Record<string, unknown>
+  // Images this one was made from; several for an edit of several images
+  parent_artifact_ids?: string[]
+  operation?: ArtifactOperation | null
+  // Set while the artifact is in the trash
+  deleted_at?: string | null
+  created_at: string
+}
+
+// An image of a lineage tree, as returned by get_artifact_lineage
+export interface ArtifactLineageNode {
+  id: string
+  interaction_id: string
+  session_id: string
+  url: string | null
+  prompt: string | null
+  operation: ArtifactOperation | null
+  parent_artifact_ids: string[]
   created_at: string
 }
 
@@ -92,13 +129,102 @@ export interface AgentFinding {
   created_at: string
 }
 
+// Read-only link to a session, served at /share/<token>
+export interface SessionShare {
+  id: string
+  token: string
+  session_id: string
+  organization_id: string
+  created_by?: string | null
+  // Shares without an expiry stay valid until revoked
+  expires_at?: string | null
+  revoked_at?: string | null
+  view_count: number
+  last_viewed_at?: string | null
+  created_at: string
+}
+
+// Share with its session, as listed for owners and admins
+export interface SessionShareWithSession extends SessionShare {
+  session: Pick<Session, 'id' | 'type' | 'title'> | null
+}
+
+// What a share link shows: no costs, usage or session metadata, and only citations in interaction metadata
+export type SharedInteraction = Pick<Interaction, 'id' | 'parent_interaction_id' | 'type' | 'content' | 'metadata' | 'sequence' | 'created_at'> & {
+  artifacts: Pick<Artifact, 'id' | 'type' | 'url' | 'filename' | 'mime_type' | 'size_bytes' | 'metadata'>[]
+}
+
+export interface SharedSession {
+  share: Pick<SessionShare, 'created_at' | 'expires_at'>
+  session: Pick<Session, 'id' | 'type' | 'title' | 'active_interaction_id' | 'created_at'>
+  interactions: SharedInteraction[]
+}
+
+// Organization-wide label for sessions
+export interface SessionTag {
+  id: string
+  organization_id: string
+  name: string
+  color: SessionTagColor
+  created_by?: string | null
+  created_at: string
+}
+
+export type SessionTagColor = 'gray' | 'red' | 'amber' | 'green' | 'blue' | 'purple' | 'pink'
+
+// Folder of sessions; folders without a parent are at the top level
+export interface SessionFolder {
+  id: string
+  organization_id: string
+  parent_id: string | null
+  name: string
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Portable copy of a session, as exported and imported
+export type HistoryExportFormat = 'json' | 'markdown' | 'zip'
+
+export interface ExportedArtifact extends Pick<Artifact, 'type' | 'url' | 'filename' | 'mime_type' | 'size_bytes' | 'metadata'> {
+  // Path of the file in a ZIP export, relative to the session's folder
+  file?: string
+}
+
+export interface ExportedInteraction extends Pick<Interaction,
+  'id' | 'parent_interaction_id' | 'type' | 'content' | 'metadata' | 'cost_credits' | 'input_tokens' | 'output_tokens' | 'sequence' | 'created_at'
+> {
+  artifacts: ExportedArtifact[]
+}
+
+export interface SessionExport {
+  format: 'supastart.session'
+  version: number
+  exported_at: string
+  session: Pick<Session,
+    'id' | 'type' | 'title' | 'description' | 'metadata' | 'starred' | 'archived' | 'active_interaction_id' | 'created_at' | 'updated_at'
+  >
+  // Every branch of the session, in order of creation
+  interactions: ExportedInteraction[]
+}
+
+// Several sessions exported together, e.g. a filtered history view
+export interface HistoryExport {
+  format: 'supastart.history'
+  version: number
+  exported_at: string
+  sessions: SessionExport[]
+}
+
 // Combined types for UI components
 export interface SessionWithInteractions extends Session {
   interactions: InteractionWithArtifacts[]
+  tag_ids?: string[]
 }
 
 export interface InteractionWithArtifacts extends Interaction {
   artifacts: Artifact[]
+  branch?: InteractionBranch
 }
 
 // Chat-specific types for backwards compatibility
@@ -162,6 +288,76 @@ export interface UpdateSessionRequest {
   metadata?: Record<string, unknown>
   starred?: boolean
   archived?: boolean
+  // Switches to the branch containing this interaction, following its latest replies
+  active_interaction_id?: string
+  // null takes the session out of its folder
+  folder_id?: string | null
+  // Replaces the session's tags
+  tag_ids?: string[]
+}
+
+export type BulkSessionAction = 'tag' | 'untag' | 'move' | 'archive' | 'unarchive' | 'delete'
+
+export interface BulkSessionRequest {
+  session_ids: string[]
+  action: BulkSessionAction
+  // Tags to add or remove, for tag and untag
+  tag_ids?: string[]
+  // Destination of move; null moves the sessions out of their folders
+  folder_id?: string | null
+}
+
+export interface CreateSessionTagRequest {
+  name: string
+  color?: SessionTagColor
+}
+
+export interface CreateSessionFolderRequest {
+  name: string
+  parent_id?: string | null
+}
+
+export type TrashAction = 'restore' | 'purge'
+
+export interface TrashRequest {
+  action: TrashAction
+  session_ids?: string[]
+  artifact_ids?: string[]
+}
+
+export interface TrashedSession extends Pick<Session, 'id' | 'type' | 'title' | 'created_at' | 'updated_at'> {
+  deleted_at: string
+  // When the purge job deletes the session for good
+  purge_at: string
+}
+
+// A trashed artifact of a session that is not itself in the trash
+export interface TrashedArtifact extends Pick<Artifact, 'id' | 'type' | 'url' | 'filename' | 'mime_type' | 'created_at'> {
+  session_id: string
+  session_title?: string
+  session_type: SessionType
+  deleted_at: string
+  purge_at: string
+}
+
+export interface TrashResponse {
+  sessions: TrashedSession[]
+  artifacts: TrashedArtifact[]
+  trash_days: number
+}
+
+// Organization settings for how long history is kept, stored in `settings.history_retention`
+export interface HistoryRetentionSettings {
+  // Days items stay in the trash before they are purged
+  trash_days: number
+  // What happens to sessions not updated for `after_days`; null keeps them
+  policy: { action: 'archive' | 'delete'; after_days: number } | null
+}
+
+export interface CreateSessionShareRequest {
+  session_id: string
+  // Days until the link expires; no value means it stays valid until revoked
+  expires_in_days?: number | null
 }
 
 // History filtering and pagination
@@ -169,6 +365,9 @@ export interface HistoryFilters {
   type?: SessionType[]
   starred?: boolean
   archived?: boolean
+  // Sessions with any of the tags
+  tag_ids?: string[]
+  folder_id?: string
   user_id?: string
   search?: string
   date_from?: string
@@ -185,6 +384,7 @@ export interface HistoryPagination {
 export interface SessionWithSummary extends Session {
   interaction_count: number
   latest_artifacts: Artifact[]
+  tags?: Pick<SessionTag, 'id' | 'name' | 'color'>[]
 }
 
 export interface HistoryResponse {
@@ -193,6 +393,29 @@ export interface HistoryResponse {
   has_more: boolean
 }
 
+// A session found by full-text search, with the interaction that matched best.
+// interaction_id is null when only the title or description matched
+export interface HistorySearchResult {
+  session_id: string
+  title?: string
+  type: SessionType
+  starred: boolean
+  created_at: string
+  updated_at: string
+  interaction_id: string | null
+  interaction_sequence: number | null
+  interaction_type: InteractionType | null
+  // Matching text with the matched words wrapped in <mark> tags
+  snippet: string
+  match_count: number
+  rank: number
+}
+
+export interface HistorySearchResponse {
+  results: HistorySearchResult[]
+  has_more: boolean
+}
+
 // Agent monitoring types
 export interface CreateAgentMonitorRequest {
   organization_id: string
@@ -217,6 +440,23 @@ export interface AgentFindingWithMonitor extends AgentFinding {
   monitor: AgentMonitor
 }
 
+export interface AgentFindingFilters {
+  monitor_id?: string
+  change_type?: AgentChangeType[]
+  reviewed?: boolean
+}
+
+export interface UpdateAgentFindingsRequest {
+  finding_ids: string[]
+  reviewed: boolean
+}
+
+export interface AgentFindingsResponse {
+  findings: AgentFindingWithMonitor[]
+  total_count: number
+  has_more: boolean
+}
+
 // Utility types
 export type SessionPreview = Pick<Session, 'id' | 'type' | 'title' | 'created_at' | 'updated_at' | 'starred'>
 
@@ -0,0 +1,39 @@
+// Types for the organization knowledge base
+
+export type KnowledgeDocumentStatus = 'processing' | 'ready' | 'failed'
+
+export interface KnowledgeDocument {
+  id: string
+  organization_id: string
+  uploaded_by?: string | null
+  filename: string
+  mime_type?: string
+  size_bytes?: number
+  status: KnowledgeDocumentStatus
+  // Why indexing failed
+  error?: string | null
+  chunk_count: number
+  // Chunks are only searched with the model they were embedded with
+  embedding_model?: string | null
+  cost_credits: number
+  created_at: string
+  updated_at: string
+}
+
+export interface KnowledgeChunk {
+  id: string
+  document_id: string
+  chunk_index: number
+  content: string
+  token_count: number
+}
+
+// A chunk retrieved for a chat message
+export interface KnowledgeMatch {
+  chunk_id: string
+  document_id: string
+  filename: string
+  chunk_index: number
+  content: string
+  similarity: number
+}
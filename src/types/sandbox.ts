@@ -0,0 +1,124 @@
+// Types for sandbox character generation
+
+// A reusable character of an organization. Its reference images are sent with every generation
+// that uses it, so the character looks the same in any pose
+export interface CharacterSheet {
+  id: string
+  organization_id: string
+  name: string
+  description: string
+  character_type: string
+  style: string
+  reference_images: string[]
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Reference images are public URLs of the organization's generated images, or data URLs of
+// uploaded images
+export interface CharacterSheetRequest {
+  name: string
+  description?: string
+  character_type?: string
+  style?: string
+  reference_images?: string[]
+}
+
+export interface CharacterGenerationRequest {
+  description: string
+  character_type: string
+  pose: string
+  // What the character is doing, for the custom pose
+  custom_pose?: string
+  style: string
+  // Generate this saved character; its type is used instead of character_type
+  character_id?: string | null
+  count?: number
+  quality?: 'standard' | 'hd'
+  sessionId?: string | null
+}
+
+export type GenerationJobKind = 'generate' | 'edit' | 'variation'
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+// What a job generates and the session it saves to; the worker creates the session with the first
+// image unless session_id is set
+export interface GenerationJobParams {
+  prompt?: string
+  quality?: string
+  size: string
+  session_type: string
+  session_title: string
+  session_metadata: Record<string, unknown>
+  // What the history shows for the job
+  content: string
+  // Saved on the interaction, with the number of completed images
+  interaction_metadata: Record<string, unknown>
+  // Saved on every image artifact, with its index
+  artifact_metadata: Record<string, unknown>
+  // Images the job's images are made from, recorded as their lineage
+  parent_artifact_ids?: string[]
+}
+
+// An image generation, edit or variation request processed in the background, one image at a time
+export interface GenerationJob {
+  id: string
+  organization_id: string
+  user_id: string
+  session_id: string | null
+  interaction_id: string | null
+  kind: GenerationJobKind
+  status: GenerationJobStatus
+  params: GenerationJobParams
+  input_images: string[]
+  total: number
+  completed: number
+  image_urls: string[]
+  // Artifacts of the completed images, in the same order; null where the image couldn't be saved
+  // to the session
+  artifact_ids: (string | null)[]
+  cost_per_image: number
+  credits_charged: number
+  reservation_id: string | null
+  attempts: number
+  error: string | null
+  heartbeat_at: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type GenerationPresetScope = 'personal' | 'organization'
+
+// Saved prompt template and settings. Settings left empty keep what the user has selected
+export interface GenerationPreset {
+  id: string
+  organization_id: string
+  user_id: string
+  scope: GenerationPresetScope
+  name: string
+  description: string
+  // May contain {{variables}}, filled in when the preset is used
+  prompt_template: string
+  size: string | null
+  quality: 'standard' | 'hd' | null
+  count: number | null
+  style: string | null
+  usage_count: number
+  last_used_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface GenerationPresetRequest {
+  name: string
+  description?: string
+  scope?: GenerationPresetScope
+  prompt_template: string
+  size?: string | null
+  quality?: 'standard' | 'hd' | null
+  count?: number | null
+  style?: string | null
+}
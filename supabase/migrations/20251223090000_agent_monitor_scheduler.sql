@@ -0,0 +1,55 @@
+-- Migration: Support the agent monitor scheduler
+-- Adds the policies and helper function needed to run agent_monitors and record agent_findings
+
+-- Allow organization members to record findings for their organization's monitors
+-- (used by the "run now" endpoint, which runs with the user's session)
+CREATE POLICY "Users can create findings for their organization's monitors" ON "public"."agent_findings"
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."agent_monitors" am
+            JOIN "public"."organization_members" om ON om.organization_id = am.organization_id
+            WHERE am.id = "agent_findings"."monitor_id"
+            AND om.user_id = auth.uid()
+        )
+    );
+
+-- Allow organization members to update findings (e.g. mark them reviewed)
+CREATE POLICY "Users can update findings from their organization's monitors" ON "public"."agent_findings"
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM "public"."agent_monitors" am
+            JOIN "public"."organization_members" om ON om.organization_id = am.organization_id
+            WHERE am.id = "agent_findings"."monitor_id"
+            AND om.user_id = auth.uid()
+        )
+    );
+
+-- Index to quickly find monitors that are due for a check
+CREATE INDEX IF NOT EXISTS agent_monitors_due_idx
+ON agent_monitors (last_checked NULLS FIRST)
+WHERE active = true;
+
+-- Return active monitors whose check_frequency has elapsed since their last check
+CREATE OR REPLACE FUNCTION "public"."get_due_agent_monitors"("limit_count" integer DEFAULT 25)
+RETURNS SETOF "public"."agent_monitors"
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+    SELECT *
+    FROM agent_monitors
+    WHERE active = true
+      AND (
+        last_checked IS NULL
+        OR last_checked + COALESCE(check_frequency, '1 hour'::interval) <= now()
+      )
+    ORDER BY last_checked NULLS FIRST
+    LIMIT limit_count;
+$$;
+
+-- The scheduler runs with the service role; regular users should not enumerate
+-- monitors across organizations
+REVOKE ALL ON FUNCTION "public"."get_due_agent_monitors"(integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION "public"."get_due_agent_monitors"(integer) FROM "anon", "authenticated";
+GRANT EXECUTE ON FUNCTION "public"."get_due_agent_monitors"(integer) TO "service_role";
@@ -0,0 +1,87 @@
+-- Migration: Persist paused agent runs for human-in-the-loop approvals
+-- When an agent tool needs approval, the serialized RunState is stored here so approving
+-- or rejecting resumes the exact paused run instead of starting a new one
+
+CREATE TABLE IF NOT EXISTS "public"."agent_runs" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "user_id" uuid NOT NULL REFERENCES "auth"."users"("id") ON DELETE CASCADE,
+    "session_id" uuid REFERENCES "public"."sessions"("id") ON DELETE SET NULL,
+    "state" text NOT NULL,
+    "status" text NOT NULL DEFAULT 'pending' CHECK ("status" IN ('pending', 'resumed', 'expired')),
+    "expires_at" timestamp with time zone NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+-- One row per tool call awaiting approval; the row id is the approval id sent to the client
+CREATE TABLE IF NOT EXISTS "public"."agent_run_approvals" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "run_id" uuid NOT NULL REFERENCES "public"."agent_runs"("id") ON DELETE CASCADE,
+    "call_id" text NOT NULL,
+    "tool_name" text NOT NULL,
+    "agent_name" text,
+    "arguments" jsonb DEFAULT '{}'::jsonb,
+    "approved" boolean,
+    "decided_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now(),
+    UNIQUE ("run_id", "call_id")
+);
+
+CREATE INDEX IF NOT EXISTS "agent_runs_user_id_idx" ON "public"."agent_runs"("user_id");
+CREATE INDEX IF NOT EXISTS "agent_runs_pending_expires_at_idx" ON "public"."agent_runs"("expires_at") WHERE "status" = 'pending';
+CREATE INDEX IF NOT EXISTS "agent_run_approvals_run_id_idx" ON "public"."agent_run_approvals"("run_id");
+
+ALTER TABLE "public"."agent_runs" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."agent_run_approvals" ENABLE ROW LEVEL SECURITY;
+
+-- Paused runs hold the full conversation, so they are private to the user who started them
+CREATE POLICY "Users can view their own agent runs" ON "public"."agent_runs"
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create agent runs in their organizations" ON "public"."agent_runs"
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members" om
+            WHERE om.organization_id = "agent_runs"."organization_id"
+            AND om.user_id = auth.uid()
+        )
+        AND user_id = auth.uid()
+    );
+
+CREATE POLICY "Users can update their own agent runs" ON "public"."agent_runs"
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own agent runs" ON "public"."agent_runs"
+    FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view approvals for their own agent runs" ON "public"."agent_run_approvals"
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM "public"."agent_runs" ar
+            WHERE ar.id = "agent_run_approvals"."run_id"
+            AND ar.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create approvals for their own agent runs" ON "public"."agent_run_approvals"
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."agent_runs" ar
+            WHERE ar.id = "agent_run_approvals"."run_id"
+            AND ar.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update approvals for their own agent runs" ON "public"."agent_run_approvals"
+    FOR UPDATE USING (
+        EXISTS (
+            SELECT 1 FROM "public"."agent_runs" ar
+            WHERE ar.id = "agent_run_approvals"."run_id"
+            AND ar.user_id = auth.uid()
+        )
+    );
+
+CREATE OR REPLACE TRIGGER "handle_agent_runs_updated_at"
+    BEFORE UPDATE ON "public"."agent_runs"
+    FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
@@ -0,0 +1,6 @@
+-- Migration: Track credits charged for paused agent runs
+-- An agent turn is charged per request (the initial message and each resume after approvals).
+-- The amount charged before the run paused is kept here so the final reply records the whole turn's cost
+
+ALTER TABLE "public"."agent_runs"
+    ADD COLUMN IF NOT EXISTS "credits_charged" integer NOT NULL DEFAULT 0;
@@ -0,0 +1,304 @@
+-- Migration: Credit reservations for generation routes
+-- A generation reserves its maximum cost as a 'hold' before calling the AI provider.
+-- Once the call finishes the hold is settled: a 'use' row is recorded for what was actually
+-- produced and a 'release' row returns the remainder. If the call fails the whole hold is released.
+-- Held credits are unavailable while the hold is open; 'release' rows document the lifecycle
+-- and do not change the balance themselves
+
+ALTER TABLE "public"."organization_credits"
+    DROP CONSTRAINT IF EXISTS "organization_credits_transaction_type_check";
+
+ALTER TABLE "public"."organization_credits"
+    ADD CONSTRAINT "organization_credits_transaction_type_check"
+    CHECK (("transaction_type" = ANY (ARRAY['add'::"text", 'use'::"text", 'refund'::"text", 'hold'::"text", 'release'::"text"])));
+
+-- The hold a 'use' or 'release' row belongs to
+ALTER TABLE "public"."organization_credits"
+    ADD COLUMN IF NOT EXISTS "reservation_id" "uuid" REFERENCES "public"."organization_credits"("id") ON DELETE CASCADE;
+
+-- Only set on 'hold' rows
+ALTER TABLE "public"."organization_credits"
+    ADD COLUMN IF NOT EXISTS "reservation_status" "text",
+    ADD COLUMN IF NOT EXISTS "expires_at" timestamp with time zone;
+
+ALTER TABLE "public"."organization_credits"
+    ADD CONSTRAINT "organization_credits_reservation_status_check"
+    CHECK (("reservation_status" IS NULL) OR ("reservation_status" = ANY (ARRAY['held'::"text", 'settled'::"text", 'released'::"text"])));
+
+CREATE INDEX IF NOT EXISTS "idx_organization_credits_open_holds"
+    ON "public"."organization_credits" ("organization_id", "expires_at")
+    WHERE "transaction_type" = 'hold' AND "reservation_status" = 'held';
+
+CREATE INDEX IF NOT EXISTS "idx_organization_credits_reservation_id"
+    ON "public"."organization_credits" ("reservation_id")
+    WHERE "reservation_id" IS NOT NULL;
+
+-- Open holds count against the balance until they are settled or released
+CREATE OR REPLACE FUNCTION public.get_organization_credits(org_id uuid)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+    select coalesce(sum(
+        case
+            when transaction_type = 'add' then amount
+            when transaction_type = 'refund' then amount
+            when transaction_type = 'use' then -amount
+            when transaction_type = 'hold' and reservation_status = 'held' then -amount
+            else 0
+        end
+    ), 0)::integer
+    from organization_credits
+    where organization_id = org_id;
+$function$;
+
+-- Releases holds whose request never settled them (e.g. the server restarted mid-generation)
+CREATE OR REPLACE FUNCTION public.release_expired_credit_reservations(org_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    expired record;
+    released_count integer := 0;
+BEGIN
+    FOR expired IN
+        SELECT oc.id, oc.amount, oc.feature_id
+        FROM organization_credits oc
+        WHERE oc.organization_id = org_id
+        AND oc.transaction_type = 'hold'
+        AND oc.reservation_status = 'held'
+        AND oc.expires_at < now()
+        FOR UPDATE
+    LOOP
+        UPDATE organization_credits
+        SET reservation_status = 'released'
+        WHERE id = expired.id;
+
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            org_id,
+            expired.amount,
+            'Reservation expired',
+            'release',
+            expired.feature_id,
+            expired.id
+        );
+
+        released_count := released_count + 1;
+    END LOOP;
+
+    RETURN released_count;
+END;
+$function$;
+
+-- Reserves credits for a generation. Returns the reservation id, or null when the
+-- user is not a member of the organization or the available balance is too low
+CREATE OR REPLACE FUNCTION public.reserve_organization_credits(org_id uuid, amount integer, description text DEFAULT NULL::text, feature_id text DEFAULT NULL::text, hold_minutes integer DEFAULT 15)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    available_credits integer;
+    current_user_id uuid;
+    is_member boolean;
+    new_reservation_id uuid;
+BEGIN
+    current_user_id := auth.uid();
+
+    SELECT EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = org_id
+        AND om.user_id = current_user_id
+    ) INTO is_member;
+
+    IF NOT is_member OR amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Serialize reservations per organization so concurrent requests cannot overdraw
+    PERFORM 1 FROM organizations WHERE id = org_id FOR UPDATE;
+
+    PERFORM public.release_expired_credit_reservations(org_id);
+
+    SELECT public.get_organization_credits(org_id) INTO available_credits;
+
+    IF available_credits < amount THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO organization_credits (
+        organization_id,
+        amount,
+        description,
+        transaction_type,
+        feature_id,
+        reservation_status,
+        expires_at
+    ) VALUES (
+        org_id,
+        amount,
+        description,
+        'hold',
+        feature_id,
+        'held',
+        now() + make_interval(mins => hold_minutes)
+    )
+    RETURNING id INTO new_reservation_id;
+
+    RETURN new_reservation_id;
+EXCEPTION
+    WHEN others THEN
+        RETURN NULL;
+END;
+$function$;
+
+-- Charges the credits a generation actually used (at most the reserved amount)
+-- and releases the rest of the hold
+CREATE OR REPLACE FUNCTION public.settle_credit_reservation(reservation_id uuid, actual_amount integer, description text DEFAULT NULL::text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    reservation organization_credits%ROWTYPE;
+    charged integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM organization_credits oc
+    WHERE oc.id = settle_credit_reservation.reservation_id
+    AND oc.transaction_type = 'hold'
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.reservation_status <> 'held' THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = reservation.organization_id
+        AND om.user_id = auth.uid()
+    ) THEN
+        RETURN false;
+    END IF;
+
+    charged := LEAST(GREATEST(actual_amount, 0), reservation.amount);
+
+    UPDATE organization_credits
+    SET reservation_status = 'settled'
+    WHERE id = reservation.id;
+
+    IF charged > 0 THEN
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            reservation.organization_id,
+            charged,
+            coalesce(settle_credit_reservation.description, reservation.description),
+            'use',
+            reservation.feature_id,
+            reservation.id
+        );
+    END IF;
+
+    IF charged < reservation.amount THEN
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            reservation.organization_id,
+            reservation.amount - charged,
+            'Unused reservation released',
+            'release',
+            reservation.feature_id,
+            reservation.id
+        );
+    END IF;
+
+    RETURN true;
+END;
+$function$;
+
+-- Returns the whole hold when a generation fails
+CREATE OR REPLACE FUNCTION public.release_credit_reservation(reservation_id uuid, reason text DEFAULT NULL::text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    reservation organization_credits%ROWTYPE;
+BEGIN
+    SELECT * INTO reservation
+    FROM organization_credits oc
+    WHERE oc.id = release_credit_reservation.reservation_id
+    AND oc.transaction_type = 'hold'
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.reservation_status <> 'held' THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = reservation.organization_id
+        AND om.user_id = auth.uid()
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE organization_credits
+    SET reservation_status = 'released'
+    WHERE id = reservation.id;
+
+    INSERT INTO organization_credits (
+        organization_id,
+        amount,
+        description,
+        transaction_type,
+        feature_id,
+        reservation_id
+    ) VALUES (
+        reservation.organization_id,
+        reservation.amount,
+        coalesce(reason, 'Reservation released'),
+        'release',
+        reservation.feature_id,
+        reservation.id
+    );
+
+    RETURN true;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.release_expired_credit_reservations(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_expired_credit_reservations(uuid) TO service_role;
+
+REVOKE ALL ON FUNCTION public.reserve_organization_credits(uuid, integer, text, text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_organization_credits(uuid, integer, text, text, integer) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.settle_credit_reservation(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.settle_credit_reservation(uuid, integer, text) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.release_credit_reservation(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.release_credit_reservation(uuid, text) TO authenticated;
@@ -0,0 +1,79 @@
+-- Migration: Branching conversations
+-- Interactions form a tree through parent_interaction_id, and each session points at the leaf of
+-- its active branch. Editing a message or regenerating a reply adds a sibling instead of overwriting
+-- history; sequence stays strictly increasing and only orders interactions by creation
+
+ALTER TABLE "public"."interactions"
+    ADD COLUMN IF NOT EXISTS "parent_interaction_id" uuid REFERENCES "public"."interactions"("id") ON DELETE CASCADE;
+
+ALTER TABLE "public"."sessions"
+    ADD COLUMN IF NOT EXISTS "active_interaction_id" uuid REFERENCES "public"."interactions"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "interactions_parent_interaction_id_idx" ON "public"."interactions"("parent_interaction_id");
+
+-- Existing conversations are linear: each interaction follows the previous one in the session
+WITH ordered AS (
+    SELECT id, lag(id) OVER (PARTITION BY session_id ORDER BY sequence, created_at) AS previous_id
+    FROM "public"."interactions"
+)
+UPDATE "public"."interactions" i
+SET parent_interaction_id = ordered.previous_id
+FROM ordered
+WHERE i.id = ordered.id
+AND ordered.previous_id IS NOT NULL
+AND i.parent_interaction_id IS NULL;
+
+UPDATE "public"."sessions" s
+SET active_interaction_id = (
+    SELECT i.id FROM "public"."interactions" i
+    WHERE i.session_id = s.id
+    ORDER BY i.sequence DESC, i.created_at DESC
+    LIMIT 1
+)
+WHERE s.active_interaction_id IS NULL;
+
+-- New interactions continue the session's active branch unless a parent is given.
+-- To branch, the active interaction is first moved to the branch point (NULL for the first message)
+CREATE OR REPLACE FUNCTION public.attach_interaction_to_active_branch()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.parent_interaction_id IS NULL THEN
+        SELECT active_interaction_id INTO NEW.parent_interaction_id
+        FROM sessions
+        WHERE id = NEW.session_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$function$;
+
+-- The newest interaction becomes the leaf of the active branch. Runs as definer because members
+-- can add interactions to sessions they don't own, which they can't update themselves
+CREATE OR REPLACE FUNCTION public.activate_inserted_interaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+    UPDATE sessions
+    SET active_interaction_id = NEW.id
+    WHERE id = NEW.session_id;
+
+    RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS "attach_interaction_to_active_branch" ON "public"."interactions";
+CREATE TRIGGER "attach_interaction_to_active_branch"
+    BEFORE INSERT ON "public"."interactions"
+    FOR EACH ROW EXECUTE FUNCTION public.attach_interaction_to_active_branch();
+
+DROP TRIGGER IF EXISTS "activate_inserted_interaction" ON "public"."interactions";
+CREATE TRIGGER "activate_inserted_interaction"
+    AFTER INSERT ON "public"."interactions"
+    FOR EACH ROW EXECUTE FUNCTION public.activate_inserted_interaction();
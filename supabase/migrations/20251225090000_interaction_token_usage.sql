@@ -0,0 +1,12 @@
+-- Migration: Token usage of chat replies
+-- Chat and agent mode are charged for the model tokens they use, priced per model. Replies record
+-- their tokens next to cost_credits; input includes the system prompt and the history sent
+
+ALTER TABLE "public"."interactions"
+    ADD COLUMN IF NOT EXISTS "input_tokens" integer,
+    ADD COLUMN IF NOT EXISTS "output_tokens" integer;
+
+-- A paused agent run carries the tokens used so far into the reply saved when it resumes
+ALTER TABLE "public"."agent_runs"
+    ADD COLUMN IF NOT EXISTS "input_tokens" integer NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS "output_tokens" integer NOT NULL DEFAULT 0;
@@ -0,0 +1,49 @@
+-- Migration: Rolling conversation summaries
+-- Once a session's history outgrows the context budget, the older messages are summarized and the
+-- summary is kept on the session. It covers the messages up to and including context_summary_through,
+-- so it is only used for branches that contain that interaction
+
+ALTER TABLE "public"."sessions"
+    ADD COLUMN IF NOT EXISTS "context_summary" text,
+    ADD COLUMN IF NOT EXISTS "context_summary_through" uuid REFERENCES "public"."interactions"("id") ON DELETE SET NULL;
+
+-- Members can continue sessions they don't own, which they can't update themselves,
+-- so the summary is saved through a definer function that checks membership instead
+CREATE OR REPLACE FUNCTION public.save_session_context_summary(
+    p_session_id uuid,
+    p_summary text,
+    p_through uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM sessions s
+        JOIN organization_members om ON om.organization_id = s.organization_id
+        WHERE s.id = p_session_id
+        AND om.user_id = auth.uid()
+    ) THEN
+        RETURN false;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM interactions
+        WHERE id = p_through
+        AND session_id = p_session_id
+    ) THEN
+        RETURN false;
+    END IF;
+
+    UPDATE sessions
+    SET context_summary = p_summary,
+        context_summary_through = p_through
+    WHERE id = p_session_id;
+
+    RETURN true;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.save_session_context_summary(uuid, text, uuid) TO authenticated;
@@ -0,0 +1,52 @@
+-- Migration: Chat attachments
+-- Images and documents attached to chat messages are stored in their own bucket, under the
+-- organization's folder, and saved as artifacts of the user interaction. The bucket is public
+-- like generated-images so the model provider can fetch attached images by URL
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-attachments',
+  'chat-attachments',
+  true,
+  10485760, -- 10MB limit
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/webp', 'image/gif',
+    'application/pdf',
+    'text/plain', 'text/markdown', 'text/csv', 'application/json'
+  ]
+) ON CONFLICT (id) DO NOTHING;
+
+-- Uploads go through the chat API, which validates organization membership first
+DROP POLICY IF EXISTS "Authenticated users can upload chat attachments" ON storage.objects;
+CREATE POLICY "Authenticated users can upload chat attachments"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND auth.uid() IS NOT NULL
+  );
+
+DROP POLICY IF EXISTS "Users can view chat attachments from their organizations" ON storage.objects;
+CREATE POLICY "Users can view chat attachments from their organizations"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'chat-attachments'
+    AND auth.uid() IS NOT NULL
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete chat attachments from their organizations" ON storage.objects;
+CREATE POLICY "Users can delete chat attachments from their organizations"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'chat-attachments'
+    AND auth.uid() IS NOT NULL
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
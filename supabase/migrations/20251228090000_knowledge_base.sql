@@ -0,0 +1,158 @@
+-- Migration: Organization knowledge base
+-- Documents uploaded by owners and admins are split into chunks and embedded with the
+-- organization's LLM provider. Chat retrieves the chunks closest to a message and cites them.
+-- Chunks remember their embedding model, since vectors of different models can't be compared
+
+CREATE EXTENSION IF NOT EXISTS "vector" WITH SCHEMA "extensions";
+
+CREATE TABLE IF NOT EXISTS "public"."knowledge_documents" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "uploaded_by" uuid REFERENCES "auth"."users"("id") ON DELETE SET NULL,
+    "filename" text NOT NULL,
+    "mime_type" text,
+    "size_bytes" bigint,
+    "status" text NOT NULL DEFAULT 'processing' CHECK ("status" IN ('processing', 'ready', 'failed')),
+    "error" text,
+    "chunk_count" integer NOT NULL DEFAULT 0,
+    "embedding_model" text,
+    "cost_credits" integer NOT NULL DEFAULT 0,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "public"."knowledge_chunks" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "document_id" uuid NOT NULL REFERENCES "public"."knowledge_documents"("id") ON DELETE CASCADE,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "chunk_index" integer NOT NULL,
+    "content" text NOT NULL,
+    "token_count" integer NOT NULL DEFAULT 0,
+    "embedding" extensions.vector(1536) NOT NULL,
+    "embedding_model" text NOT NULL,
+    "created_at" timestamp with time zone DEFAULT now(),
+    UNIQUE ("document_id", "chunk_index")
+);
+
+CREATE INDEX IF NOT EXISTS "knowledge_documents_organization_id_idx" ON "public"."knowledge_documents"("organization_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_organization_id_idx" ON "public"."knowledge_chunks"("organization_id", "embedding_model");
+CREATE INDEX IF NOT EXISTS "knowledge_chunks_embedding_idx" ON "public"."knowledge_chunks"
+    USING hnsw ("embedding" extensions.vector_cosine_ops);
+
+ALTER TABLE "public"."knowledge_documents" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."knowledge_chunks" ENABLE ROW LEVEL SECURITY;
+
+-- Every member can search the knowledge base; only owners and admins change it
+CREATE POLICY "Members can view their organization's knowledge documents" ON "public"."knowledge_documents"
+    FOR SELECT TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_documents"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Owners and admins can add knowledge documents" ON "public"."knowledge_documents"
+    FOR INSERT TO "authenticated" WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_documents"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can update knowledge documents" ON "public"."knowledge_documents"
+    FOR UPDATE TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_documents"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+    );
+
+CREATE POLICY "Owners and admins can delete knowledge documents" ON "public"."knowledge_documents"
+    FOR DELETE TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_documents"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+    );
+
+CREATE POLICY "Members can view their organization's knowledge chunks" ON "public"."knowledge_chunks"
+    FOR SELECT TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_chunks"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Owners and admins can add knowledge chunks" ON "public"."knowledge_chunks"
+    FOR INSERT TO "authenticated" WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_chunks"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+        AND EXISTS (
+            SELECT 1 FROM "public"."knowledge_documents"
+            WHERE "knowledge_documents"."id" = "knowledge_chunks"."document_id"
+            AND "knowledge_documents"."organization_id" = "knowledge_chunks"."organization_id"
+        )
+    );
+
+CREATE POLICY "Owners and admins can delete knowledge chunks" ON "public"."knowledge_chunks"
+    FOR DELETE TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "knowledge_chunks"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+    );
+
+-- Chunks of the organization closest to the query embedding, by cosine similarity.
+-- Runs with the caller's permissions, so RLS keeps results to organizations they belong to
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+    p_organization_id uuid,
+    p_embedding extensions.vector(1536),
+    p_embedding_model text,
+    p_match_count integer DEFAULT 5,
+    p_min_similarity double precision DEFAULT 0.2
+)
+RETURNS TABLE (
+    chunk_id uuid,
+    document_id uuid,
+    filename text,
+    chunk_index integer,
+    content text,
+    similarity double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO 'public', 'extensions'
+AS $function$
+    SELECT
+        c.id,
+        c.document_id,
+        d.filename,
+        c.chunk_index,
+        c.content,
+        1 - (c.embedding <=> p_embedding) AS similarity
+    FROM knowledge_chunks c
+    JOIN knowledge_documents d ON d.id = c.document_id
+    WHERE c.organization_id = p_organization_id
+    AND c.embedding_model = p_embedding_model
+    AND d.status = 'ready'
+    AND 1 - (c.embedding <=> p_embedding) >= p_min_similarity
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT LEAST(GREATEST(p_match_count, 1), 20);
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.match_knowledge_chunks(uuid, extensions.vector, text, integer, double precision) TO authenticated;
@@ -0,0 +1,137 @@
+-- Migration: Shareable session links
+-- Members can share a session as a read-only page at /share/<token>, optionally until an expiry date.
+-- Shares are revoked rather than deleted, so owners and admins can see who shared what.
+-- Visitors don't need an account: get_shared_session returns the session for a valid token only
+
+CREATE TABLE IF NOT EXISTS "public"."session_shares" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "token" text NOT NULL UNIQUE,
+    "session_id" uuid NOT NULL REFERENCES "public"."sessions"("id") ON DELETE CASCADE,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "created_by" uuid REFERENCES "auth"."users"("id") ON DELETE SET NULL,
+    "expires_at" timestamp with time zone,
+    "revoked_at" timestamp with time zone,
+    "view_count" integer NOT NULL DEFAULT 0,
+    "last_viewed_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "session_shares_organization_id_idx" ON "public"."session_shares"("organization_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "session_shares_session_id_idx" ON "public"."session_shares"("session_id");
+
+ALTER TABLE "public"."session_shares" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization's shares" ON "public"."session_shares"
+    FOR SELECT TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_shares"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can share their organization's sessions" ON "public"."session_shares"
+    FOR INSERT TO "authenticated" WITH CHECK (
+        "created_by" = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM "public"."sessions"
+            JOIN "public"."organization_members" ON "organization_members"."organization_id" = "sessions"."organization_id"
+            WHERE "sessions"."id" = "session_shares"."session_id"
+            AND "sessions"."organization_id" = "session_shares"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+-- Revoking sets revoked_at; the member who shared can revoke, and so can owners and admins
+CREATE POLICY "Sharers, owners and admins can revoke shares" ON "public"."session_shares"
+    FOR UPDATE TO "authenticated" USING (
+        "created_by" = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_shares"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+            AND "organization_members"."role" IN ('owner', 'admin')
+        )
+    );
+
+-- The shared session's title and interactions, for anyone with a token that is neither revoked nor
+-- expired. Only what the read-only page shows is returned: session metadata, token usage and costs
+-- are left out, and interaction metadata is limited to citations. Each call counts as a view
+CREATE OR REPLACE FUNCTION public.get_shared_session(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    v_share session_shares%ROWTYPE;
+    result jsonb;
+BEGIN
+    SELECT * INTO v_share
+    FROM session_shares
+    WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now());
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE session_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = now()
+    WHERE id = v_share.id;
+
+    SELECT jsonb_build_object(
+        'share', jsonb_build_object(
+            'created_at', v_share.created_at,
+            'expires_at', v_share.expires_at
+        ),
+        'session', jsonb_build_object(
+            'id', s.id,
+            'type', s.type,
+            'title', s.title,
+            'active_interaction_id', s.active_interaction_id,
+            'created_at', s.created_at
+        ),
+        'interactions', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'parent_interaction_id', i.parent_interaction_id,
+                    'type', i.type,
+                    'content', i.content,
+                    'metadata', jsonb_strip_nulls(jsonb_build_object('citations', i.metadata->'citations')),
+                    'sequence', i.sequence,
+                    'created_at', i.created_at,
+                    'artifacts', COALESCE((
+                        SELECT jsonb_agg(
+                            jsonb_build_object(
+                                'id', a.id,
+                                'type', a.type,
+                                'url', a.url,
+                                'filename', a.filename,
+                                'mime_type', a.mime_type,
+                                'size_bytes', a.size_bytes,
+                                'metadata', jsonb_strip_nulls(jsonb_build_object('source', a.metadata->'source'))
+                            )
+                            ORDER BY a.created_at
+                        )
+                        FROM artifacts a
+                        WHERE a.interaction_id = i.id
+                    ), '[]'::jsonb)
+                )
+                ORDER BY i.sequence
+            )
+            FROM interactions i
+            WHERE i.session_id = s.id
+        ), '[]'::jsonb)
+    ) INTO result
+    FROM sessions s
+    WHERE s.id = v_share.session_id;
+
+    RETURN result;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_session(text) TO anon, authenticated;
@@ -0,0 +1,119 @@
+-- Migration: Full-text search across history
+-- Indexes message content and image prompts so history search finds sessions by what was said in
+-- them, not only by their title. search_history returns the best matching interaction of each
+-- session with a highlighted snippet, so the history page can open the session at that message
+
+ALTER TABLE "public"."interactions"
+    ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE("content", ''))) STORED;
+
+-- Prompts of generated and edited images
+ALTER TABLE "public"."artifacts"
+    ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', COALESCE("metadata"->>'prompt', ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS "interactions_search_vector_idx" ON "public"."interactions" USING GIN ("search_vector");
+CREATE INDEX IF NOT EXISTS "artifacts_search_vector_idx" ON "public"."artifacts" USING GIN ("search_vector");
+
+-- Sessions of the organization matching the query in their title, description, messages or image
+-- prompts, best match first. Each session appears once, with the interaction that matched best
+-- (null when only the title or description matched) and how many of its interactions matched.
+-- Runs with the caller's permissions, so row level security applies
+CREATE OR REPLACE FUNCTION public.search_history(
+    org_id uuid,
+    search_query text,
+    session_type text DEFAULT NULL,
+    starred_only boolean DEFAULT false,
+    limit_count integer DEFAULT 20,
+    offset_count integer DEFAULT 0
+)
+RETURNS TABLE (
+    session_id uuid,
+    title text,
+    type text,
+    starred boolean,
+    created_at timestamptz,
+    updated_at timestamptz,
+    interaction_id uuid,
+    interaction_sequence integer,
+    interaction_type text,
+    snippet text,
+    match_count bigint,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    scoped_sessions AS (
+        SELECT s.*
+        FROM sessions s
+        WHERE s.organization_id = org_id
+        AND (session_type IS NULL OR s.type = session_type)
+        AND (NOT starred_only OR s.starred = true)
+    ),
+    matches AS (
+        SELECT i.session_id, i.id AS interaction_id, i.sequence, i.type AS interaction_type,
+            i.content AS matched_text, ts_rank(i.search_vector, query.q) AS rank
+        FROM interactions i
+        JOIN scoped_sessions s ON s.id = i.session_id
+        CROSS JOIN query
+        WHERE i.search_vector @@ query.q
+
+        UNION ALL
+
+        SELECT i.session_id, i.id, i.sequence, i.type,
+            a.metadata->>'prompt', ts_rank(a.search_vector, query.q)
+        FROM artifacts a
+        JOIN interactions i ON i.id = a.interaction_id
+        JOIN scoped_sessions s ON s.id = i.session_id
+        CROSS JOIN query
+        WHERE a.search_vector @@ query.q
+
+        UNION ALL
+
+        SELECT s.id, NULL, NULL, NULL,
+            COALESCE(s.title, '') || ' ' || COALESCE(s.description, ''),
+            ts_rank(to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, '')), query.q)
+        FROM scoped_sessions s
+        CROSS JOIN query
+        WHERE to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, '')) @@ query.q
+    ),
+    best AS (
+        SELECT DISTINCT ON (m.session_id)
+            m.*,
+            COUNT(m.interaction_id) OVER (PARTITION BY m.session_id) AS match_count
+        FROM matches m
+        -- Prefer a message over the title, so the session opens where the match is
+        ORDER BY m.session_id, (m.interaction_id IS NULL), m.rank DESC, m.sequence
+    )
+    SELECT
+        s.id,
+        s.title,
+        s.type,
+        s.starred,
+        s.created_at,
+        s.updated_at,
+        best.interaction_id,
+        best.sequence,
+        best.interaction_type,
+        ts_headline(
+            'english',
+            best.matched_text,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        best.match_count,
+        best.rank
+    FROM best
+    JOIN scoped_sessions s ON s.id = best.session_id
+    CROSS JOIN query
+    ORDER BY best.rank DESC, s.updated_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.search_history(uuid, text, text, boolean, integer, integer) TO authenticated;
@@ -0,0 +1,281 @@
+-- Migration: Session tags and folders
+-- Organizations share a set of tags and a tree of folders for organizing history. A session can
+-- carry any number of tags and sits in at most one folder. Like other session changes, only the
+-- member who owns a session can tag or move it. Deleting a folder deletes its subfolders and
+-- leaves their sessions unfiled
+
+CREATE TABLE IF NOT EXISTS "public"."session_folders" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "parent_id" uuid REFERENCES "public"."session_folders"("id") ON DELETE CASCADE,
+    "name" text NOT NULL CHECK (char_length(btrim("name")) BETWEEN 1 AND 100),
+    "created_by" uuid REFERENCES "auth"."users"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+-- Folder names are unique among their siblings
+CREATE UNIQUE INDEX IF NOT EXISTS "session_folders_unique_name_idx" ON "public"."session_folders"(
+    "organization_id",
+    COALESCE("parent_id", '00000000-0000-0000-0000-000000000000'::uuid),
+    lower("name")
+);
+CREATE INDEX IF NOT EXISTS "session_folders_parent_id_idx" ON "public"."session_folders"("parent_id");
+
+CREATE TABLE IF NOT EXISTS "public"."session_tags" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "name" text NOT NULL CHECK (char_length(btrim("name")) BETWEEN 1 AND 50),
+    "color" text NOT NULL DEFAULT 'gray',
+    "created_by" uuid REFERENCES "auth"."users"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "session_tags_unique_name_idx" ON "public"."session_tags"("organization_id", lower("name"));
+
+CREATE TABLE IF NOT EXISTS "public"."session_tag_assignments" (
+    "session_id" uuid NOT NULL REFERENCES "public"."sessions"("id") ON DELETE CASCADE,
+    "tag_id" uuid NOT NULL REFERENCES "public"."session_tags"("id") ON DELETE CASCADE,
+    "created_at" timestamp with time zone DEFAULT now(),
+    PRIMARY KEY ("session_id", "tag_id")
+);
+
+CREATE INDEX IF NOT EXISTS "session_tag_assignments_tag_id_idx" ON "public"."session_tag_assignments"("tag_id");
+
+ALTER TABLE "public"."sessions"
+    ADD COLUMN IF NOT EXISTS "folder_id" uuid REFERENCES "public"."session_folders"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "sessions_folder_id_idx" ON "public"."sessions"("folder_id");
+
+-- Folders stay inside their organization and can't be moved below themselves
+CREATE OR REPLACE FUNCTION public.check_session_folder_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM session_folders
+        WHERE id = NEW.parent_id AND organization_id = NEW.organization_id
+    ) THEN
+        RAISE EXCEPTION 'Parent folder not found in this organization';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM session_folders WHERE id = NEW.parent_id
+            UNION
+            SELECT f.id, f.parent_id FROM session_folders f JOIN ancestors a ON f.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'A folder cannot be moved into itself or one of its subfolders';
+    END IF;
+
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER "check_session_folder_parent"
+    BEFORE INSERT OR UPDATE OF "parent_id" ON "public"."session_folders"
+    FOR EACH ROW EXECUTE FUNCTION public.check_session_folder_parent();
+
+-- Sessions and their tags and folders must belong to the same organization
+CREATE OR REPLACE FUNCTION public.check_session_folder_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+    IF NEW.folder_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM session_folders
+        WHERE id = NEW.folder_id AND organization_id = NEW.organization_id
+    ) THEN
+        RAISE EXCEPTION 'Folder not found in this organization';
+    END IF;
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER "check_session_folder_organization"
+    BEFORE INSERT OR UPDATE OF "folder_id" ON "public"."sessions"
+    FOR EACH ROW EXECUTE FUNCTION public.check_session_folder_organization();
+
+ALTER TABLE "public"."session_folders" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."session_tags" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."session_tag_assignments" ENABLE ROW LEVEL SECURITY;
+
+-- Every member can organize their organization's folders and tags
+CREATE POLICY "Members can manage their organization's folders" ON "public"."session_folders"
+    FOR ALL TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_folders"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    ) WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_folders"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can manage their organization's tags" ON "public"."session_tags"
+    FOR ALL TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_tags"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    ) WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "session_tags"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can view tags of their organization's sessions" ON "public"."session_tag_assignments"
+    FOR SELECT TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."sessions"
+            JOIN "public"."organization_members" ON "organization_members"."organization_id" = "sessions"."organization_id"
+            WHERE "sessions"."id" = "session_tag_assignments"."session_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Owners of a session can tag it" ON "public"."session_tag_assignments"
+    FOR INSERT TO "authenticated" WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."sessions"
+            JOIN "public"."session_tags" ON "session_tags"."organization_id" = "sessions"."organization_id"
+            WHERE "sessions"."id" = "session_tag_assignments"."session_id"
+            AND "session_tags"."id" = "session_tag_assignments"."tag_id"
+            AND "sessions"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Owners of a session can untag it" ON "public"."session_tag_assignments"
+    FOR DELETE TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."sessions"
+            WHERE "sessions"."id" = "session_tag_assignments"."session_id"
+            AND "sessions"."user_id" = auth.uid()
+        )
+    );
+
+-- The summary function now filters by tags (sessions with any of them) and folder, and returns
+-- each session's folder and tags
+DROP FUNCTION IF EXISTS get_sessions_with_summary(UUID, TEXT, BOOLEAN, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION get_sessions_with_summary(
+  org_id UUID,
+  session_type TEXT DEFAULT NULL,
+  starred_only BOOLEAN DEFAULT FALSE,
+  search_query TEXT DEFAULT NULL,
+  limit_count INTEGER DEFAULT 50,
+  offset_count INTEGER DEFAULT 0,
+  tag_ids UUID[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  type TEXT,
+  starred BOOLEAN,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  organization_id UUID,
+  folder_id UUID,
+  interaction_count BIGINT,
+  latest_artifacts JSONB,
+  tags JSONB
+)
+LANGUAGE SQL
+STABLE
+AS $$
+  WITH session_interactions AS (
+    SELECT
+      s.id,
+      s.title,
+      s.description,
+      s.type,
+      s.starred,
+      s.created_at,
+      s.updated_at,
+      s.organization_id,
+      s.folder_id,
+      COUNT(i.id) as interaction_count
+    FROM sessions s
+    LEFT JOIN interactions i ON s.id = i.session_id
+    WHERE s.organization_id = org_id
+      AND (session_type IS NULL OR s.type = session_type)
+      AND (NOT starred_only OR s.starred = true)
+      AND (
+        search_query IS NULL
+        OR to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, ''))
+           @@ plainto_tsquery('english', search_query)
+      )
+      AND (
+        tag_ids IS NULL
+        OR cardinality(tag_ids) = 0
+        OR EXISTS (
+          SELECT 1 FROM session_tag_assignments sta
+          WHERE sta.session_id = s.id AND sta.tag_id = ANY(tag_ids)
+        )
+      )
+      AND (filter_folder_id IS NULL OR s.folder_id = filter_folder_id)
+    GROUP BY s.id, s.title, s.description, s.type, s.starred, s.created_at, s.updated_at, s.organization_id, s.folder_id
+  ),
+  session_artifacts AS (
+    SELECT
+      s.id as session_id,
+      COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'id', a.id,
+            'type', a.type,
+            'url', a.url,
+            'created_at', a.created_at,
+            'interaction_id', a.interaction_id
+          ) ORDER BY a.created_at DESC
+        ) FILTER (WHERE a.id IS NOT NULL AND a.type = 'image'),
+        '[]'::jsonb
+      ) as latest_artifacts
+    FROM session_interactions s
+    LEFT JOIN interactions i ON s.id = i.session_id
+    LEFT JOIN artifacts a ON i.id = a.interaction_id
+    GROUP BY s.id
+  )
+  SELECT
+    si.id,
+    si.title,
+    si.description,
+    si.type,
+    si.starred,
+    si.created_at,
+    si.updated_at,
+    si.organization_id,
+    si.folder_id,
+    si.interaction_count,
+    sa.latest_artifacts,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) ORDER BY lower(t.name))
+      FROM session_tag_assignments sta
+      JOIN session_tags t ON t.id = sta.tag_id
+      WHERE sta.session_id = si.id
+    ), '[]'::jsonb) as tags
+  FROM session_interactions si
+  LEFT JOIN session_artifacts sa ON si.id = sa.session_id
+  ORDER BY si.updated_at DESC
+  LIMIT limit_count
+  OFFSET offset_count;
+$$;
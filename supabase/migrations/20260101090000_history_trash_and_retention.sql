@@ -0,0 +1,302 @@
+-- Migration: Trash for history sessions and artifacts
+-- Deleting a session or an artifact now moves it to the trash by setting deleted_at. Trashed rows
+-- are left out of the history list, search and share links, can be restored by the session owner,
+-- and are purged, with their storage files, once the organization's trash period has passed
+
+ALTER TABLE "public"."sessions" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
+ALTER TABLE "public"."artifacts" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
+
+-- The trash view and the purge job only look at trashed rows
+CREATE INDEX IF NOT EXISTS "sessions_deleted_at_idx" ON "public"."sessions"("organization_id", "deleted_at")
+    WHERE "deleted_at" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "artifacts_deleted_at_idx" ON "public"."artifacts"("deleted_at")
+    WHERE "deleted_at" IS NOT NULL;
+
+-- Same as before, without trashed sessions and artifacts
+CREATE OR REPLACE FUNCTION get_sessions_with_summary(
+  org_id UUID,
+  session_type TEXT DEFAULT NULL,
+  starred_only BOOLEAN DEFAULT FALSE,
+  search_query TEXT DEFAULT NULL,
+  limit_count INTEGER DEFAULT 50,
+  offset_count INTEGER DEFAULT 0,
+  tag_ids UUID[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  type TEXT,
+  starred BOOLEAN,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  organization_id UUID,
+  folder_id UUID,
+  interaction_count BIGINT,
+  latest_artifacts JSONB,
+  tags JSONB
+)
+LANGUAGE SQL
+STABLE
+AS $$
+  WITH session_interactions AS (
+    SELECT
+      s.id,
+      s.title,
+      s.description,
+      s.type,
+      s.starred,
+      s.created_at,
+      s.updated_at,
+      s.organization_id,
+      s.folder_id,
+      COUNT(i.id) as interaction_count
+    FROM sessions s
+    LEFT JOIN interactions i ON s.id = i.session_id
+    WHERE s.organization_id = org_id
+      AND s.deleted_at IS NULL
+      AND (session_type IS NULL OR s.type = session_type)
+      AND (NOT starred_only OR s.starred = true)
+      AND (
+        search_query IS NULL
+        OR to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, ''))
+           @@ plainto_tsquery('english', search_query)
+      )
+      AND (
+        tag_ids IS NULL
+        OR cardinality(tag_ids) = 0
+        OR EXISTS (
+          SELECT 1 FROM session_tag_assignments sta
+          WHERE sta.session_id = s.id AND sta.tag_id = ANY(tag_ids)
+        )
+      )
+      AND (filter_folder_id IS NULL OR s.folder_id = filter_folder_id)
+    GROUP BY s.id, s.title, s.description, s.type, s.starred, s.created_at, s.updated_at, s.organization_id, s.folder_id
+  ),
+  session_artifacts AS (
+    SELECT
+      s.id as session_id,
+      COALESCE(
+        jsonb_agg(
+          jsonb_build_object(
+            'id', a.id,
+            'type', a.type,
+            'url', a.url,
+            'created_at', a.created_at,
+            'interaction_id', a.interaction_id
+          ) ORDER BY a.created_at DESC
+        ) FILTER (WHERE a.id IS NOT NULL AND a.type = 'image' AND a.deleted_at IS NULL),
+        '[]'::jsonb
+      ) as latest_artifacts
+    FROM session_interactions s
+    LEFT JOIN interactions i ON s.id = i.session_id
+    LEFT JOIN artifacts a ON i.id = a.interaction_id
+    GROUP BY s.id
+  )
+  SELECT
+    si.id,
+    si.title,
+    si.description,
+    si.type,
+    si.starred,
+    si.created_at,
+    si.updated_at,
+    si.organization_id,
+    si.folder_id,
+    si.interaction_count,
+    sa.latest_artifacts,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name, 'color', t.color) ORDER BY lower(t.name))
+      FROM session_tag_assignments sta
+      JOIN session_tags t ON t.id = sta.tag_id
+      WHERE sta.session_id = si.id
+    ), '[]'::jsonb) as tags
+  FROM session_interactions si
+  LEFT JOIN session_artifacts sa ON si.id = sa.session_id
+  ORDER BY si.updated_at DESC
+  LIMIT limit_count
+  OFFSET offset_count;
+$$;
+
+-- Same as before, without trashed sessions and the prompts of trashed artifacts
+CREATE OR REPLACE FUNCTION public.search_history(
+    org_id uuid,
+    search_query text,
+    session_type text DEFAULT NULL,
+    starred_only boolean DEFAULT false,
+    limit_count integer DEFAULT 20,
+    offset_count integer DEFAULT 0
+)
+RETURNS TABLE (
+    session_id uuid,
+    title text,
+    type text,
+    starred boolean,
+    created_at timestamptz,
+    updated_at timestamptz,
+    interaction_id uuid,
+    interaction_sequence integer,
+    interaction_type text,
+    snippet text,
+    match_count bigint,
+    rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS q
+    ),
+    scoped_sessions AS (
+        SELECT s.*
+        FROM sessions s
+        WHERE s.organization_id = org_id
+        AND s.deleted_at IS NULL
+        AND (session_type IS NULL OR s.type = session_type)
+        AND (NOT starred_only OR s.starred = true)
+    ),
+    matches AS (
+        SELECT i.session_id, i.id AS interaction_id, i.sequence, i.type AS interaction_type,
+            i.content AS matched_text, ts_rank(i.search_vector, query.q) AS rank
+        FROM interactions i
+        JOIN scoped_sessions s ON s.id = i.session_id
+        CROSS JOIN query
+        WHERE i.search_vector @@ query.q
+
+        UNION ALL
+
+        SELECT i.session_id, i.id, i.sequence, i.type,
+            a.metadata->>'prompt', ts_rank(a.search_vector, query.q)
+        FROM artifacts a
+        JOIN interactions i ON i.id = a.interaction_id
+        JOIN scoped_sessions s ON s.id = i.session_id
+        CROSS JOIN query
+        WHERE a.search_vector @@ query.q
+        AND a.deleted_at IS NULL
+
+        UNION ALL
+
+        SELECT s.id, NULL, NULL, NULL,
+            COALESCE(s.title, '') || ' ' || COALESCE(s.description, ''),
+            ts_rank(to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, '')), query.q)
+        FROM scoped_sessions s
+        CROSS JOIN query
+        WHERE to_tsvector('english', COALESCE(s.title, '') || ' ' || COALESCE(s.description, '')) @@ query.q
+    ),
+    best AS (
+        SELECT DISTINCT ON (m.session_id)
+            m.*,
+            COUNT(m.interaction_id) OVER (PARTITION BY m.session_id) AS match_count
+        FROM matches m
+        -- Prefer a message over the title, so the session opens where the match is
+        ORDER BY m.session_id, (m.interaction_id IS NULL), m.rank DESC, m.sequence
+    )
+    SELECT
+        s.id,
+        s.title,
+        s.type,
+        s.starred,
+        s.created_at,
+        s.updated_at,
+        best.interaction_id,
+        best.sequence,
+        best.interaction_type,
+        ts_headline(
+            'english',
+            best.matched_text,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        best.match_count,
+        best.rank
+    FROM best
+    JOIN scoped_sessions s ON s.id = best.session_id
+    CROSS JOIN query
+    ORDER BY best.rank DESC, s.updated_at DESC
+    LIMIT limit_count
+    OFFSET offset_count;
+$function$;
+
+-- Same as before; links to trashed sessions stop working until the session is restored, and
+-- trashed artifacts are left out
+CREATE OR REPLACE FUNCTION public.get_shared_session(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    v_share session_shares%ROWTYPE;
+    result jsonb;
+BEGIN
+    SELECT ss.* INTO v_share
+    FROM session_shares ss
+    JOIN sessions s ON s.id = ss.session_id
+    WHERE ss.token = p_token
+    AND ss.revoked_at IS NULL
+    AND (ss.expires_at IS NULL OR ss.expires_at > now())
+    AND s.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE session_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = now()
+    WHERE id = v_share.id;
+
+    SELECT jsonb_build_object(
+        'share', jsonb_build_object(
+            'created_at', v_share.created_at,
+            'expires_at', v_share.expires_at
+        ),
+        'session', jsonb_build_object(
+            'id', s.id,
+            'type', s.type,
+            'title', s.title,
+            'active_interaction_id', s.active_interaction_id,
+            'created_at', s.created_at
+        ),
+        'interactions', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'parent_interaction_id', i.parent_interaction_id,
+                    'type', i.type,
+                    'content', i.content,
+                    'metadata', jsonb_strip_nulls(jsonb_build_object('citations', i.metadata->'citations')),
+                    'sequence', i.sequence,
+                    'created_at', i.created_at,
+                    'artifacts', COALESCE((
+                        SELECT jsonb_agg(
+                            jsonb_build_object(
+                                'id', a.id,
+                                'type', a.type,
+                                'url', a.url,
+                                'filename', a.filename,
+                                'mime_type', a.mime_type,
+                                'size_bytes', a.size_bytes,
+                                'metadata', jsonb_strip_nulls(jsonb_build_object('source', a.metadata->'source'))
+                            )
+                            ORDER BY a.created_at
+                        )
+                        FROM artifacts a
+                        WHERE a.interaction_id = i.id
+                        AND a.deleted_at IS NULL
+                    ), '[]'::jsonb)
+                )
+                ORDER BY i.sequence
+            )
+            FROM interactions i
+            WHERE i.session_id = s.id
+        ), '[]'::jsonb)
+    ) INTO result
+    FROM sessions s
+    WHERE s.id = v_share.session_id;
+
+    RETURN result;
+END;
+$function$;
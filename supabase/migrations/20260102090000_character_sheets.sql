@@ -0,0 +1,42 @@
+-- Migration: Character sheets
+-- A character sheet describes a character an organization reuses across sandbox generations: a
+-- description plus reference images, sent with every generation so the character stays the same in
+-- any pose. Reference images are public URLs in the generated-images bucket; images uploaded for a
+-- sheet are stored under <organization_id>/characters/ and removed with it
+
+CREATE TABLE IF NOT EXISTS "public"."character_sheets" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "name" text NOT NULL CHECK (char_length(btrim("name")) BETWEEN 1 AND 100),
+    "description" text NOT NULL DEFAULT '' CHECK (char_length("description") <= 2000),
+    "character_type" text NOT NULL DEFAULT 'human',
+    "style" text NOT NULL DEFAULT 'realistic',
+    "reference_images" text[] NOT NULL DEFAULT '{}' CHECK (cardinality("reference_images") <= 4),
+    "created_by" uuid REFERENCES "auth"."users"("id") ON DELETE SET NULL,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "character_sheets_unique_name_idx" ON "public"."character_sheets"("organization_id", lower("name"));
+
+CREATE OR REPLACE TRIGGER "handle_character_sheets_updated_at"
+    BEFORE UPDATE ON "public"."character_sheets"
+    FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+ALTER TABLE "public"."character_sheets" ENABLE ROW LEVEL SECURITY;
+
+-- Every member can use and manage their organization's characters
+CREATE POLICY "Members can manage their organization's character sheets" ON "public"."character_sheets"
+    FOR ALL TO "authenticated" USING (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "character_sheets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    ) WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "character_sheets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
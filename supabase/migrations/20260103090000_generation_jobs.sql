@@ -0,0 +1,142 @@
+-- Migration: Background generation jobs
+-- Image generation, edit and variation requests can run as a job instead of inside the HTTP
+-- request. The route reserves credits for every requested image and queues the job; a worker then
+-- generates the images one at a time and charges part of the hold for each image it completes.
+-- Clients follow a job's progress through realtime updates of its row. Input images of edits and
+-- variations are stored under <organization_id>/jobs/<job_id>/ in generated-images until the job
+-- finishes. Jobs are written by the server only (service role); users can read their own
+
+CREATE TABLE IF NOT EXISTS "public"."generation_jobs" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "user_id" uuid NOT NULL REFERENCES "auth"."users"("id") ON DELETE CASCADE,
+    -- Created by the worker with the first image unless the job continues a session
+    "session_id" uuid REFERENCES "public"."sessions"("id") ON DELETE SET NULL,
+    "interaction_id" uuid REFERENCES "public"."interactions"("id") ON DELETE SET NULL,
+    "kind" text NOT NULL CHECK ("kind" IN ('generate', 'edit', 'variation')),
+    "status" text NOT NULL DEFAULT 'queued' CHECK ("status" IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    -- Prompt, quality, size and the session to create
+    "params" jsonb NOT NULL DEFAULT '{}'::jsonb,
+    -- Storage paths of the uploaded input images
+    "input_images" text[] NOT NULL DEFAULT '{}',
+    "total" integer NOT NULL CHECK ("total" BETWEEN 1 AND 10),
+    "completed" integer NOT NULL DEFAULT 0,
+    "image_urls" text[] NOT NULL DEFAULT '{}',
+    "cost_per_image" integer NOT NULL CHECK ("cost_per_image" >= 0),
+    "credits_charged" integer NOT NULL DEFAULT 0,
+    "reservation_id" uuid REFERENCES "public"."organization_credits"("id") ON DELETE SET NULL,
+    -- Times a worker picked the job up; a job whose worker stopped is resumed from "completed"
+    "attempts" integer NOT NULL DEFAULT 0,
+    "error" text,
+    -- Updated by the worker with every image, so stalled jobs can be told from running ones
+    "heartbeat_at" timestamp with time zone,
+    "finished_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "generation_jobs_user_id_created_at_idx" ON "public"."generation_jobs"("user_id", "created_at" DESC);
+CREATE INDEX IF NOT EXISTS "generation_jobs_active_idx" ON "public"."generation_jobs"("status", "heartbeat_at") WHERE "status" IN ('queued', 'running');
+
+CREATE OR REPLACE TRIGGER "handle_generation_jobs_updated_at"
+    BEFORE UPDATE ON "public"."generation_jobs"
+    FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+ALTER TABLE "public"."generation_jobs" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own generation jobs" ON "public"."generation_jobs"
+    FOR SELECT USING (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members" om
+            WHERE om.organization_id = "generation_jobs"."organization_id"
+            AND om.user_id = auth.uid()
+        )
+    );
+
+-- Progress reaches the browser as realtime updates of the job row
+ALTER PUBLICATION "supabase_realtime" ADD TABLE "public"."generation_jobs";
+
+-- Charges part of an open hold, e.g. for one completed image of a job, and keeps the hold open
+-- for the rest. With release_rest the remainder is released and the hold is settled, which is how
+-- a finished, failed or cancelled job closes its reservation. Every charge extends the hold, so a
+-- long job doesn't lose its reservation to release_expired_credit_reservations
+CREATE OR REPLACE FUNCTION public.charge_credit_reservation(reservation_id uuid, amount integer, description text DEFAULT NULL::text, release_rest boolean DEFAULT false)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    reservation organization_credits%ROWTYPE;
+    charged integer;
+    remaining integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM organization_credits oc
+    WHERE oc.id = charge_credit_reservation.reservation_id
+    AND oc.transaction_type = 'hold'
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.reservation_status <> 'held' THEN
+        RETURN false;
+    END IF;
+
+    charged := LEAST(GREATEST(charge_credit_reservation.amount, 0), reservation.amount);
+    remaining := reservation.amount - charged;
+
+    IF charged > 0 THEN
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            reservation.organization_id,
+            charged,
+            coalesce(charge_credit_reservation.description, reservation.description),
+            'use',
+            reservation.feature_id,
+            reservation.id
+        );
+    END IF;
+
+    IF remaining = 0 OR release_rest THEN
+        UPDATE organization_credits
+        SET reservation_status = 'settled'
+        WHERE id = reservation.id;
+
+        IF remaining > 0 THEN
+            INSERT INTO organization_credits (
+                organization_id,
+                amount,
+                description,
+                transaction_type,
+                feature_id,
+                reservation_id
+            ) VALUES (
+                reservation.organization_id,
+                remaining,
+                'Unused reservation released',
+                'release',
+                reservation.feature_id,
+                reservation.id
+            );
+        END IF;
+    ELSE
+        -- The open hold now covers only what is left
+        UPDATE organization_credits
+        SET amount = remaining,
+            expires_at = GREATEST(expires_at, now() + interval '15 minutes')
+        WHERE id = reservation.id;
+    END IF;
+
+    RETURN true;
+END;
+$function$;
+
+-- Only the job worker charges holds piece by piece; routes settle with settle_credit_reservation
+REVOKE ALL ON FUNCTION public.charge_credit_reservation(uuid, integer, text, boolean) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.charge_credit_reservation(uuid, integer, text, boolean) TO service_role;
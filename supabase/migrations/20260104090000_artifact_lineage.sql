@@ -0,0 +1,95 @@
+-- Migration: Image lineage
+-- Images derived from other images (edits, inpainting, variations) record the artifacts they were
+-- made from and the operation used, so the sandbox can show the tree of generations an image
+-- belongs to. Edits can have several parents; generated images have none
+
+ALTER TABLE "public"."artifacts"
+    ADD COLUMN IF NOT EXISTS "parent_artifact_ids" uuid[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS "operation" text;
+
+ALTER TABLE "public"."artifacts"
+    ADD CONSTRAINT "artifacts_operation_check"
+    CHECK (("operation" IS NULL) OR ("operation" = ANY (ARRAY['generate'::"text", 'edit'::"text", 'inpaint'::"text", 'variation'::"text", 'character'::"text"])));
+
+-- Finds the children of an image
+CREATE INDEX IF NOT EXISTS "artifacts_parent_artifact_ids_idx" ON "public"."artifacts" USING GIN ("parent_artifact_ids");
+
+-- Existing sandbox images get their operation from the action their route recorded; their parents
+-- weren't recorded
+UPDATE "public"."artifacts" a
+SET "operation" = CASE a.metadata->>'action'
+        WHEN 'edit' THEN 'edit'
+        WHEN 'inpaint' THEN 'inpaint'
+        WHEN 'variations' THEN 'variation'
+        WHEN 'character' THEN 'character'
+        ELSE 'generate'
+    END
+FROM "public"."interactions" i
+WHERE i.id = a.interaction_id
+AND i.type IN ('image_generation', 'image_edit', 'image_variation')
+AND a.type = 'image'
+AND a.operation IS NULL;
+
+-- Images completed by a background job, in order, so clients can continue from them
+ALTER TABLE "public"."generation_jobs"
+    ADD COLUMN IF NOT EXISTS "artifact_ids" uuid[] NOT NULL DEFAULT '{}';
+
+-- The tree an image belongs to: its ancestors and every image derived from any of them, oldest
+-- first and at most max_nodes images. Trashed images are left out, along with the branches below
+-- them. Runs with the caller's permissions, so images of sessions the user can't see are left out
+CREATE OR REPLACE FUNCTION public.get_artifact_lineage(artifact_id uuid, max_nodes integer DEFAULT 200)
+RETURNS TABLE (
+    id uuid,
+    interaction_id uuid,
+    session_id uuid,
+    url text,
+    prompt text,
+    operation text,
+    parent_artifact_ids uuid[],
+    created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $function$
+    WITH RECURSIVE ancestors AS (
+        SELECT a.id, a.parent_artifact_ids
+        FROM artifacts a
+        WHERE a.id = get_artifact_lineage.artifact_id
+        AND a.deleted_at IS NULL
+
+        UNION
+
+        SELECT a.id, a.parent_artifact_ids
+        FROM artifacts a
+        JOIN ancestors an ON a.id = ANY (an.parent_artifact_ids)
+        WHERE a.deleted_at IS NULL
+    ),
+    lineage AS (
+        SELECT an.id FROM ancestors an
+
+        UNION
+
+        SELECT a.id
+        FROM artifacts a
+        JOIN lineage l ON l.id = ANY (a.parent_artifact_ids)
+        WHERE a.deleted_at IS NULL
+        AND a.type = 'image'
+    )
+    SELECT
+        a.id,
+        a.interaction_id,
+        i.session_id,
+        a.url,
+        COALESCE(a.metadata->>'prompt', i.content),
+        a.operation,
+        a.parent_artifact_ids,
+        a.created_at
+    FROM artifacts a
+    JOIN interactions i ON i.id = a.interaction_id
+    WHERE a.id IN (SELECT l.id FROM lineage l)
+    ORDER BY a.created_at, a.id
+    LIMIT max_nodes;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.get_artifact_lineage(uuid, integer) TO authenticated;
@@ -0,0 +1,102 @@
+-- Migration: Generation presets
+-- A preset saves a prompt template with the settings it is generated with, so sandbox and Magic Ads
+-- users don't retype them. Templates can contain {{variables}}, filled in when the preset is
+-- applied or from the rows of a CSV for a batch. Personal presets are only seen by the member who
+-- saved them; organization presets are shared with, and managed by, every member
+
+CREATE TABLE IF NOT EXISTS "public"."generation_presets" (
+    "id" uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    "organization_id" uuid NOT NULL REFERENCES "public"."organizations"("id") ON DELETE CASCADE,
+    "user_id" uuid NOT NULL REFERENCES "auth"."users"("id") ON DELETE CASCADE,
+    "scope" text NOT NULL DEFAULT 'personal' CHECK ("scope" = ANY (ARRAY['personal'::"text", 'organization'::"text"])),
+    "name" text NOT NULL CHECK (char_length(btrim("name")) BETWEEN 1 AND 100),
+    "description" text NOT NULL DEFAULT '' CHECK (char_length("description") <= 500),
+    "prompt_template" text NOT NULL CHECK (char_length(btrim("prompt_template")) BETWEEN 1 AND 2000),
+    -- Settings left empty keep what the user has selected
+    "size" text,
+    "quality" text CHECK (("quality" IS NULL) OR ("quality" = ANY (ARRAY['standard'::"text", 'hd'::"text"]))),
+    "count" integer CHECK (("count" IS NULL) OR ("count" BETWEEN 1 AND 4)),
+    "style" text,
+    "usage_count" integer NOT NULL DEFAULT 0,
+    "last_used_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT now(),
+    "updated_at" timestamp with time zone DEFAULT now()
+);
+
+-- Names are unique among a member's personal presets and among the organization's presets
+CREATE UNIQUE INDEX IF NOT EXISTS "generation_presets_unique_personal_name_idx" ON "public"."generation_presets"("organization_id", "user_id", lower("name"))
+    WHERE "scope" = 'personal';
+CREATE UNIQUE INDEX IF NOT EXISTS "generation_presets_unique_organization_name_idx" ON "public"."generation_presets"("organization_id", lower("name"))
+    WHERE "scope" = 'organization';
+CREATE INDEX IF NOT EXISTS "generation_presets_usage_idx" ON "public"."generation_presets"("organization_id", "usage_count" DESC);
+
+CREATE OR REPLACE TRIGGER "handle_generation_presets_updated_at"
+    BEFORE UPDATE ON "public"."generation_presets"
+    FOR EACH ROW EXECUTE FUNCTION "public"."handle_updated_at"();
+
+ALTER TABLE "public"."generation_presets" ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their own and their organization's presets" ON "public"."generation_presets"
+    FOR SELECT TO "authenticated" USING (
+        ("scope" = 'organization' OR "user_id" = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "generation_presets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can create presets" ON "public"."generation_presets"
+    FOR INSERT TO "authenticated" WITH CHECK (
+        "user_id" = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "generation_presets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+-- A shared preset can only be made personal again by the member who saved it
+CREATE POLICY "Members can update their own and their organization's presets" ON "public"."generation_presets"
+    FOR UPDATE TO "authenticated" USING (
+        ("scope" = 'organization' OR "user_id" = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "generation_presets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    ) WITH CHECK (
+        ("scope" = 'organization' OR "user_id" = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "generation_presets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+CREATE POLICY "Members can delete their own and their organization's presets" ON "public"."generation_presets"
+    FOR DELETE TO "authenticated" USING (
+        ("scope" = 'organization' OR "user_id" = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM "public"."organization_members"
+            WHERE "organization_members"."organization_id" = "generation_presets"."organization_id"
+            AND "organization_members"."user_id" = auth.uid()
+        )
+    );
+
+-- Counts the uses of a preset, one per prompt generated with it, and returns the new count (NULL if
+-- the preset wasn't found). Runs with the caller's permissions, so only presets the user can see
+-- are counted
+CREATE OR REPLACE FUNCTION public.record_generation_preset_use(preset_id uuid, uses integer DEFAULT 1)
+RETURNS integer
+LANGUAGE sql
+SET search_path TO 'public'
+AS $function$
+    UPDATE generation_presets
+    SET usage_count = usage_count + GREATEST(uses, 1),
+        last_used_at = now()
+    WHERE id = record_generation_preset_use.preset_id
+    RETURNING usage_count;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.record_generation_preset_use(uuid, integer) TO authenticated;
@@ -0,0 +1,14 @@
+-- Migration: Only the server writes paused agent runs
+-- A paused run's serialized state is restored and executed when the user approves, and the run
+-- carries the credits and tokens already charged for the turn. Members could rewrite both through
+-- the client policies, forging tool calls and approvals or what the turn is billed for, so runs and
+-- their approvals are now written with the service role only. Members can still read their own
+
+DROP POLICY IF EXISTS "Users can create agent runs in their organizations" ON "public"."agent_runs";
+DROP POLICY IF EXISTS "Users can update their own agent runs" ON "public"."agent_runs";
+DROP POLICY IF EXISTS "Users can delete their own agent runs" ON "public"."agent_runs";
+DROP POLICY IF EXISTS "Users can create approvals for their own agent runs" ON "public"."agent_run_approvals";
+DROP POLICY IF EXISTS "Users can update approvals for their own agent runs" ON "public"."agent_run_approvals";
+
+REVOKE INSERT, UPDATE, DELETE ON "public"."agent_runs" FROM "anon", "authenticated";
+REVOKE INSERT, UPDATE, DELETE ON "public"."agent_run_approvals" FROM "anon", "authenticated";
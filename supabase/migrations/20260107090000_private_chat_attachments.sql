@@ -0,0 +1,22 @@
+-- Migration: Private chat attachments
+-- Attachments were public so the model provider could fetch attached images by URL, which left
+-- every attachment readable by anyone holding its URL, including after the message or session is
+-- deleted. The bucket is now private: attachments are still saved by their public URL, which
+-- identifies the object, and are read through signed URLs created for members of the organization
+-- when a session is shown or sent to the model. Uploads are limited to the organization's folder
+
+UPDATE storage.buckets SET public = false WHERE id = 'chat-attachments';
+
+DROP POLICY IF EXISTS "Authenticated users can upload chat attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can upload chat attachments to their organizations" ON storage.objects;
+CREATE POLICY "Users can upload chat attachments to their organizations"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND auth.uid() IS NOT NULL
+    AND (storage.foldername(name))[1] IN (
+      SELECT organization_id::text
+      FROM organization_members
+      WHERE user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,86 @@
+-- Migration: Serve shared files through the share
+-- Share pages used to sign the stored URLs of a session's images and attachments, but images live
+-- in a public bucket, and get_shared_session returned the stored URLs to anyone holding the token.
+-- Either way a visitor kept working links after the share was revoked. Files are now served by
+-- /share/<token>/artifacts/<id>, which checks the token on every request, and get_shared_session
+-- leaves out artifact URLs, returning only the artifacts that have a file
+
+CREATE OR REPLACE FUNCTION public.get_shared_session(p_token text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    v_share session_shares%ROWTYPE;
+    result jsonb;
+BEGIN
+    SELECT ss.* INTO v_share
+    FROM session_shares ss
+    JOIN sessions s ON s.id = ss.session_id
+    WHERE ss.token = p_token
+    AND ss.revoked_at IS NULL
+    AND (ss.expires_at IS NULL OR ss.expires_at > now())
+    AND s.deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE session_shares
+    SET view_count = view_count + 1,
+        last_viewed_at = now()
+    WHERE id = v_share.id;
+
+    SELECT jsonb_build_object(
+        'share', jsonb_build_object(
+            'created_at', v_share.created_at,
+            'expires_at', v_share.expires_at
+        ),
+        'session', jsonb_build_object(
+            'id', s.id,
+            'type', s.type,
+            'title', s.title,
+            'active_interaction_id', s.active_interaction_id,
+            'created_at', s.created_at
+        ),
+        'interactions', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'parent_interaction_id', i.parent_interaction_id,
+                    'type', i.type,
+                    'content', i.content,
+                    'metadata', jsonb_strip_nulls(jsonb_build_object('citations', i.metadata->'citations')),
+                    'sequence', i.sequence,
+                    'created_at', i.created_at,
+                    'artifacts', COALESCE((
+                        SELECT jsonb_agg(
+                            jsonb_build_object(
+                                'id', a.id,
+                                'type', a.type,
+                                'filename', a.filename,
+                                'mime_type', a.mime_type,
+                                'size_bytes', a.size_bytes,
+                                'metadata', jsonb_strip_nulls(jsonb_build_object('source', a.metadata->'source'))
+                            )
+                            ORDER BY a.created_at
+                        )
+                        FROM artifacts a
+                        WHERE a.interaction_id = i.id
+                        AND a.deleted_at IS NULL
+                        AND a.url IS NOT NULL
+                    ), '[]'::jsonb)
+                )
+                ORDER BY i.sequence
+            )
+            FROM interactions i
+            WHERE i.session_id = s.id
+        ), '[]'::jsonb)
+    ) INTO result
+    FROM sessions s
+    WHERE s.id = v_share.session_id;
+
+    RETURN result;
+END;
+$function$;
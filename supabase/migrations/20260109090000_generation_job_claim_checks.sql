@@ -0,0 +1,40 @@
+-- Migration: Charge job images only for the worker holding the job
+-- A worker that stalls past the heartbeat timeout loses its job to the next worker run, which claims
+-- it by incrementing "attempts". The stalled worker could still wake up and charge the hold and
+-- record images for the same job, so images were generated and billed twice. Workers now charge
+-- through charge_generation_job_image with the attempt they claimed, and their progress updates
+-- match on it too, so a worker that lost its job stops at its next write
+
+-- Charges the job's cost per image from its hold for the worker holding the given attempt. The job
+-- row stays locked until the charge commits, so a claim can't take the job in between. Returns null
+-- when another worker has taken the job over, and false when the job is no longer running (e.g.
+-- cancelled) or its hold is closed
+CREATE OR REPLACE FUNCTION public.charge_generation_job_image(p_job_id uuid, p_attempt integer, p_description text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    v_job generation_jobs%ROWTYPE;
+BEGIN
+    SELECT * INTO v_job
+    FROM generation_jobs
+    WHERE id = p_job_id
+    AND attempts = p_attempt
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_job.status <> 'running' OR v_job.reservation_id IS NULL THEN
+        RETURN false;
+    END IF;
+
+    RETURN charge_credit_reservation(v_job.reservation_id, v_job.cost_per_image, p_description);
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.charge_generation_job_image(uuid, integer, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.charge_generation_job_image(uuid, integer, text) TO service_role;
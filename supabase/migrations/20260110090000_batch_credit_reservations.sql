@@ -0,0 +1,74 @@
+-- Migration: Reserve the credits of a batch at once
+-- Batches queue one generation job per prompt, and every job settles its own hold. The batch route
+-- reserved those holds one call at a time, so a concurrent request could take the balance between
+-- them and half a batch was reserved before the rest failed. reserve_organization_credits_batch
+-- creates all the holds in one transaction, or none of them
+
+-- Reserves one hold of `amount` per description. Returns the reservation ids in the order of the
+-- descriptions, or null when the user is not a member of the organization or the available balance
+-- doesn't cover all of them
+CREATE OR REPLACE FUNCTION public.reserve_organization_credits_batch(org_id uuid, amount integer, descriptions text[], feature_id text DEFAULT NULL::text, hold_minutes integer DEFAULT 15)
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    available_credits integer;
+    hold_description text;
+    new_reservation_id uuid;
+    reservation_ids uuid[] := '{}';
+BEGIN
+    IF amount <= 0 OR coalesce(array_length(descriptions, 1), 0) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM organization_members om
+        WHERE om.organization_id = org_id
+        AND om.user_id = auth.uid()
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    -- Serialize reservations per organization so concurrent requests cannot overdraw
+    PERFORM 1 FROM organizations WHERE id = org_id FOR UPDATE;
+
+    PERFORM public.release_expired_credit_reservations(org_id);
+
+    SELECT public.get_organization_credits(org_id) INTO available_credits;
+
+    IF available_credits < amount * array_length(descriptions, 1) THEN
+        RETURN NULL;
+    END IF;
+
+    FOREACH hold_description IN ARRAY descriptions
+    LOOP
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_status,
+            expires_at
+        ) VALUES (
+            org_id,
+            amount,
+            hold_description,
+            'hold',
+            feature_id,
+            'held',
+            now() + make_interval(mins => hold_minutes)
+        )
+        RETURNING id INTO new_reservation_id;
+
+        reservation_ids := reservation_ids || new_reservation_id;
+    END LOOP;
+
+    RETURN reservation_ids;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.reserve_organization_credits_batch(uuid, integer, text[], text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reserve_organization_credits_batch(uuid, integer, text[], text, integer) TO authenticated;
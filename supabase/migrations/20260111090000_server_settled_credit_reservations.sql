@@ -0,0 +1,124 @@
+-- Migration: Settle and release credit holds from the server only
+-- settle_credit_reservation and release_credit_reservation could be called by any member of the
+-- organization, and members can read the ids of its holds. A member could release the hold of a
+-- running generation, so the route's settle failed and the result was delivered without a charge.
+-- Both functions are now only granted to the service role, which routes use once they have checked
+-- the user's membership, so the membership check by auth.uid() is dropped from them
+
+-- Charges the credits a generation actually used (at most the reserved amount)
+-- and releases the rest of the hold
+CREATE OR REPLACE FUNCTION public.settle_credit_reservation(reservation_id uuid, actual_amount integer, description text DEFAULT NULL::text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    reservation organization_credits%ROWTYPE;
+    charged integer;
+BEGIN
+    SELECT * INTO reservation
+    FROM organization_credits oc
+    WHERE oc.id = settle_credit_reservation.reservation_id
+    AND oc.transaction_type = 'hold'
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.reservation_status <> 'held' THEN
+        RETURN false;
+    END IF;
+
+    charged := LEAST(GREATEST(actual_amount, 0), reservation.amount);
+
+    UPDATE organization_credits
+    SET reservation_status = 'settled'
+    WHERE id = reservation.id;
+
+    IF charged > 0 THEN
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            reservation.organization_id,
+            charged,
+            coalesce(settle_credit_reservation.description, reservation.description),
+            'use',
+            reservation.feature_id,
+            reservation.id
+        );
+    END IF;
+
+    IF charged < reservation.amount THEN
+        INSERT INTO organization_credits (
+            organization_id,
+            amount,
+            description,
+            transaction_type,
+            feature_id,
+            reservation_id
+        ) VALUES (
+            reservation.organization_id,
+            reservation.amount - charged,
+            'Unused reservation released',
+            'release',
+            reservation.feature_id,
+            reservation.id
+        );
+    END IF;
+
+    RETURN true;
+END;
+$function$;
+
+-- Returns the whole hold when a generation fails
+CREATE OR REPLACE FUNCTION public.release_credit_reservation(reservation_id uuid, reason text DEFAULT NULL::text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+    reservation organization_credits%ROWTYPE;
+BEGIN
+    SELECT * INTO reservation
+    FROM organization_credits oc
+    WHERE oc.id = release_credit_reservation.reservation_id
+    AND oc.transaction_type = 'hold'
+    FOR UPDATE;
+
+    IF NOT FOUND OR reservation.reservation_status <> 'held' THEN
+        RETURN false;
+    END IF;
+
+    UPDATE organization_credits
+    SET reservation_status = 'released'
+    WHERE id = reservation.id;
+
+    INSERT INTO organization_credits (
+        organization_id,
+        amount,
+        description,
+        transaction_type,
+        feature_id,
+        reservation_id
+    ) VALUES (
+        reservation.organization_id,
+        reservation.amount,
+        coalesce(reason, 'Reservation released'),
+        'release',
+        reservation.feature_id,
+        reservation.id
+    );
+
+    RETURN true;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.settle_credit_reservation(uuid, integer, text) FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_credit_reservation(uuid, integer, text) TO service_role;
+
+REVOKE ALL ON FUNCTION public.release_credit_reservation(uuid, text) FROM PUBLIC, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_credit_reservation(uuid, text) TO service_role;